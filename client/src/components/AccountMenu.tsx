@@ -0,0 +1,136 @@
+import { useState, FormEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { User, LogOut, Loader2 } from "lucide-react";
+import { useAuth, getAuthErrorMessage } from "@/hooks/use-auth";
+import ApiKeysDialog from "@/components/ApiKeysDialog";
+
+export default function AccountMenu() {
+  const { user, isLoading, loginMutation, registerMutation, logoutMutation } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<"login" | "register">("login");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [email, setEmail] = useState("");
+
+  const activeMutation = tab === "login" ? loginMutation : registerMutation;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const onSuccess = () => {
+      setOpen(false);
+      setPassword("");
+    };
+    if (tab === "login") {
+      loginMutation.mutate({ username, password }, { onSuccess });
+    } else {
+      registerMutation.mutate({ username, password, email }, { onSuccess });
+    }
+  };
+
+  if (isLoading) return null;
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="flex items-center text-sm text-muted-foreground" data-testid="account-username">
+          <User className="h-4 w-4 mr-1" />
+          {user.username}
+        </span>
+        <ApiKeysDialog />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          data-testid="sign-out"
+        >
+          <LogOut className="h-4 w-4 mr-1" />
+          Sign out
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid="sign-in">
+          <User className="h-4 w-4 mr-1" />
+          Sign in
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{tab === "login" ? "Sign in" : "Create account"}</DialogTitle>
+          <DialogDescription>
+            Keep your conversion history and saved presets across devices
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as "login" | "register")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="login">Sign in</TabsTrigger>
+            <TabsTrigger value="register">Create account</TabsTrigger>
+          </TabsList>
+
+          <form onSubmit={handleSubmit} className="space-y-3 mt-4">
+            <div className="space-y-1">
+              <Label htmlFor="account-username">Username</Label>
+              <Input
+                id="account-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+              />
+            </div>
+            <TabsContent value="register" className="mt-0 space-y-1">
+              <Label htmlFor="account-email">Email</Label>
+              <Input
+                id="account-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required={tab === "register"}
+              />
+            </TabsContent>
+            <div className="space-y-1">
+              <Label htmlFor="account-password">Password</Label>
+              <Input
+                id="account-password"
+                type="password"
+                autoComplete={tab === "login" ? "current-password" : "new-password"}
+                minLength={tab === "register" ? 8 : undefined}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            {activeMutation.error && (
+              <p className="text-sm text-red-600">{getAuthErrorMessage(activeMutation.error)}</p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={activeMutation.isPending}>
+              {activeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {tab === "login" ? "Sign in" : "Create account"}
+            </Button>
+          </form>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Gauge, Check, X, PenTool } from 'lucide-react';
+import { ConversionResult } from '@/lib/fetch-helpers';
+import { AnimationElement } from '@/lib/code-generators';
+
+interface AnimationReadinessPanelProps {
+  result: ConversionResult | null;
+  elements: AnimationElement[];
+  selectedId?: string | null;
+  onSelect?: (elementId: string) => void;
+}
+
+const COMPLEXITY_STYLES: Record<'low' | 'medium' | 'high', string> = {
+  low: 'bg-green-100 text-green-700 border-green-200',
+  medium: 'bg-amber-100 text-amber-700 border-amber-200',
+  high: 'bg-red-100 text-red-700 border-red-200',
+};
+
+/**
+ * Readiness score, structure and element list from the server's animation metadata
+ */
+export function AnimationReadinessPanel({ result, elements, selectedId = null, onSelect }: AnimationReadinessPanelProps) {
+  const metadata = result?.metadata;
+
+  if (!metadata) {
+    return (
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm flex items-center">
+            <Gauge className="h-4 w-4 mr-2" />
+            Animation Readiness
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0 text-xs text-gray-500">
+          {result ? 'Readiness analysis is only available for traced images.' : 'Convert an image to see how ready it is to animate.'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { performance, optimizationResult, accessibility } = metadata;
+  const drawOnReady = elements.filter(element => element.hasStroke && element.pathLength).length;
+  const accessibilityChecks = accessibility ? [
+    { label: 'role="img"', passed: accessibility.hasRole },
+    { label: 'Title', passed: accessibility.hasTitle },
+    { label: 'Description', passed: accessibility.hasDescription },
+    { label: 'Reduced motion', passed: accessibility.hasReducedMotionSupport },
+  ] : [];
+
+  return (
+    <Card data-testid="animation-readiness">
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-sm flex items-center">
+            <Gauge className="h-4 w-4 mr-2" />
+            Animation Readiness
+          </CardTitle>
+          <Badge variant="outline" className={`text-xs ${COMPLEXITY_STYLES[metadata.complexity]}`}>
+            {metadata.complexity} complexity
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3 text-xs">
+        <div>
+          <div className="flex justify-between mb-1">
+            <span className="text-gray-600">Readiness score</span>
+            <span className="font-medium">{metadata.animationReadiness}/100</span>
+          </div>
+          <Progress value={metadata.animationReadiness} className="h-2" />
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded bg-gray-50 p-2">
+            <div className="font-semibold">{metadata.elementCount}</div>
+            <div className="text-gray-500">elements</div>
+          </div>
+          <div className="rounded bg-gray-50 p-2">
+            <div className="font-semibold">{metadata.groupCount}</div>
+            <div className="text-gray-500">groups</div>
+          </div>
+          <div className="rounded bg-gray-50 p-2">
+            <div className="font-semibold">{metadata.pathCount}</div>
+            <div className="text-gray-500">paths</div>
+          </div>
+        </div>
+
+        {performance && (
+          <div className="space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Estimated frame rate</span>
+              <span className="font-medium">{performance.estimatedFPS} fps</span>
+            </div>
+            {optimizationResult && optimizationResult.reductionAchieved > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Node reduction</span>
+                <span className="font-medium">{optimizationResult.reductionAchieved}%</span>
+              </div>
+            )}
+            {optimizationResult && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Path points</span>
+                <span className="font-medium">
+                  {optimizationResult.beforeAnalysis.pointCount} → {optimizationResult.afterAnalysis.pointCount}
+                </span>
+              </div>
+            )}
+            {performance.visualError !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Max deviation</span>
+                <span className="font-medium">{performance.visualError}px</span>
+              </div>
+            )}
+            {performance.recommendations.slice(0, 2).map(recommendation => (
+              <p key={recommendation} className="text-gray-500">{recommendation}</p>
+            ))}
+          </div>
+        )}
+
+        {metadata.viewBox && (
+          <div className="flex justify-between">
+            <span className="text-gray-600">viewBox</span>
+            <span className="font-mono">
+              {metadata.viewBox.x} {metadata.viewBox.y} {metadata.viewBox.width} {metadata.viewBox.height}
+            </span>
+          </div>
+        )}
+
+        {metadata.colors && metadata.colors.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {metadata.colors.map(({ color, usage }) => (
+              <span
+                key={color}
+                className="inline-block h-4 w-4 rounded border border-gray-300"
+                style={{ backgroundColor: color }}
+                title={`${color} - ${usage} element${usage !== 1 ? 's' : ''}`}
+              />
+            ))}
+          </div>
+        )}
+
+        {accessibilityChecks.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {accessibilityChecks.map(({ label, passed }) => (
+              <span key={label} className={`flex items-center ${passed ? 'text-green-700' : 'text-gray-400'}`}>
+                {passed ? <Check className="h-3 w-3 mr-1" /> : <X className="h-3 w-3 mr-1" />}
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <div className="flex justify-between mb-1">
+            <span className="text-gray-600">Elements</span>
+            <span className="text-gray-500">{drawOnReady} ready for draw-on</span>
+          </div>
+          <div className="max-h-48 overflow-y-auto border rounded divide-y" data-testid="animation-element-list">
+            {elements.length === 0 ? (
+              <p className="p-2 text-gray-500">No elements with IDs</p>
+            ) : elements.map(element => (
+              <button
+                key={element.id}
+                type="button"
+                className={`w-full flex items-center justify-between px-2 py-1 text-left hover:bg-gray-50 ${
+                  element.id === selectedId ? 'bg-blue-50' : ''
+                }`}
+                onClick={() => onSelect?.(element.id)}
+              >
+                <span className="font-mono truncate">{element.id}</span>
+                <span className="flex items-center gap-1 text-gray-500 shrink-0 ml-2">
+                  {element.type}
+                  {element.pathLength !== undefined && ` · ${Math.round(element.pathLength)}`}
+                  {element.hasStroke && element.pathLength ? <PenTool className="h-3 w-3 text-blue-500" /> : null}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {result.timings && (
+          <p className="text-gray-500">
+            Traced with {result.engine} in {result.timings.totalMs}ms
+            {result.timings.analysisMs > 0 && ` (color analysis ${result.timings.analysisMs}ms)`}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { KeyRound, Trash2, Copy, Check, Plus } from "lucide-react";
+import { fetchApiKeys, createApiKey, deleteApiKey, ApiKeySummary } from "@/lib/fetch-helpers";
+
+export default function ApiKeysDialog() {
+  const [open, setOpen] = useState(false);
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([]);
+  const [keyName, setKeyName] = useState("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload on open, and forget any freshly created key once the dialog closes
+  useEffect(() => {
+    if (!open) {
+      setNewKey(null);
+      return;
+    }
+
+    fetchApiKeys()
+      .then(keys => {
+        setApiKeys(keys);
+        setError(null);
+      })
+      .catch(error => {
+        console.error("Failed to load API keys:", error);
+        setError("Could not load API keys");
+      });
+  }, [open]);
+
+  const handleCreate = async () => {
+    const name = keyName.trim();
+    if (!name) return;
+
+    setIsCreating(true);
+    try {
+      const { apiKey, key } = await createApiKey(name);
+      setApiKeys(prev => [...prev, apiKey]);
+      setNewKey(key);
+      setCopied(false);
+      setKeyName("");
+      setError(null);
+    } catch (error) {
+      console.error("Failed to create API key:", error);
+      setError("Could not create API key");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKeySummary) => {
+    try {
+      await deleteApiKey(apiKey.id);
+      setApiKeys(prev => prev.filter(item => item.id !== apiKey.id));
+    } catch (error) {
+      console.error("Failed to revoke API key:", error);
+      setError(`Could not revoke "${apiKey.name}"`);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid="open-api-keys">
+          <KeyRound className="h-4 w-4 mr-1" />
+          API keys
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>API Keys</DialogTitle>
+          <DialogDescription>
+            Call the converter from scripts with an <code>X-API-Key</code> header.
+            See the <a href="/api/openapi.json" target="_blank" rel="noreferrer" className="underline">OpenAPI document</a> for
+            the available endpoints.
+          </DialogDescription>
+        </DialogHeader>
+
+        {newKey && (
+          <div className="rounded border border-amber-300 bg-amber-50 p-3 space-y-2">
+            <p className="text-xs text-amber-800">Copy this key now - it won't be shown again.</p>
+            <div className="flex gap-2">
+              <Input value={newKey} readOnly className="h-8 font-mono text-xs" data-testid="new-api-key" />
+              <Button size="sm" variant="outline" className="h-8" onClick={handleCopy} title="Copy key">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {apiKeys.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No API keys yet</p>
+          )}
+          {apiKeys.map(apiKey => (
+            <div key={apiKey.id} className="flex items-center justify-between rounded border p-3" data-testid={`api-key-${apiKey.id}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{apiKey.name}</p>
+                <p className="text-xs text-gray-500 font-mono">{apiKey.keyPrefix}…</p>
+                <p className="text-xs text-gray-500">
+                  {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : "Never used"}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 hover:text-red-600"
+                onClick={() => handleRevoke(apiKey)}
+                title={`Revoke "${apiKey.name}"`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={keyName}
+            onChange={(e) => setKeyName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate();
+            }}
+            placeholder="Key name, e.g. CI pipeline"
+            maxLength={100}
+            className="h-8 text-sm"
+            data-testid="api-key-name-input"
+          />
+          <Button
+            size="sm"
+            className="h-8"
+            onClick={handleCreate}
+            disabled={!keyName.trim() || isCreating}
+            data-testid="create-api-key"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Create
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -19,17 +19,23 @@ import {
   Palette,
   Target,
   Clock,
-  Zap
+  Zap,
+  Gamepad2,
+  Film,
+  Loader2
 } from 'lucide-react';
 import { 
   generateGSAPCode,
   generateCSSCode, 
   generateWAAPICode,
+  generateEngineTimeline,
+  generateLottieTimeline,
   CodeGeneratorOptions,
   AnimationElement,
   PivotPoint,
   GeneratedCode 
 } from '@/lib/code-generators';
+import { exportGameEngineBundle, exportLottieAnimation } from '@/lib/fetch-helpers';
 
 interface CodeExportPanelProps {
   svgContent: string;
@@ -44,7 +50,7 @@ export function CodeExportPanel({
   elements = [],
   className = "" 
 }: CodeExportPanelProps) {
-  const [activeFramework, setActiveFramework] = useState<'gsap' | 'css' | 'waapi' | 'react'>('gsap');
+  const [activeFramework, setActiveFramework] = useState<'gsap' | 'css' | 'waapi' | 'react' | 'engine' | 'lottie'>('gsap');
   const [options, setOptions] = useState<CodeGeneratorOptions>({
     framework: 'gsap',
     includeComments: true,
@@ -59,9 +65,24 @@ export function CodeExportPanel({
   const [copiedSection, setCopiedSection] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
 
+  // Game engine export settings
+  const [engineTarget, setEngineTarget] = useState<'unity' | 'godot' | 'generic'>('unity');
+  const [includeSprites, setIncludeSprites] = useState(true);
+  const [engineExport, setEngineExport] = useState<{
+    status: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ status: 'idle', message: '' });
+
+  // Lottie export settings
+  const [lottieFrameRate, setLottieFrameRate] = useState(30);
+  const [lottieExport, setLottieExport] = useState<{
+    status: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ status: 'idle', message: '' });
+
   // Generate code based on current settings
   const generatedCode = useMemo(() => {
-    if (!svgContent || elements.length === 0) {
+    if (!svgContent || elements.length === 0 || activeFramework === 'engine' || activeFramework === 'lottie') {
       return null;
     }
 
@@ -79,6 +100,18 @@ export function CodeExportPanel({
     }
   }, [svgContent, elements, pivotPoints, activeFramework, options]);
 
+  // Timeline tracks sent to the game engine exporter
+  const engineTimeline = useMemo(
+    () => generateEngineTimeline(elements, options),
+    [elements, options]
+  );
+
+  // Timeline tracks sent to the Lottie exporter
+  const lottieTimeline = useMemo(
+    () => generateLottieTimeline(elements, options),
+    [elements, options]
+  );
+
   // Copy to clipboard with feedback
   const copyToClipboard = async (text: string, section: string) => {
     try {
@@ -90,9 +123,8 @@ export function CodeExportPanel({
     }
   };
 
-  // Download code as file
-  const downloadCode = (code: string, filename: string) => {
-    const blob = new Blob([code], { type: 'text/plain' });
+  // Download a blob as file
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -103,6 +135,56 @@ export function CodeExportPanel({
     URL.revokeObjectURL(url);
   };
 
+  // Download code as file
+  const downloadCode = (code: string, filename: string) => {
+    downloadBlob(new Blob([code], { type: 'text/plain' }), filename);
+  };
+
+  // Export rig, script and sprites as a zip for the selected engine
+  const handleEngineExport = async () => {
+    setEngineExport({ status: 'loading', message: `Building ${engineTarget} bundle...` });
+    try {
+      const archive = await exportGameEngineBundle({
+        svg: svgContent,
+        engine: engineTarget,
+        includeSprites,
+        duration: options.duration,
+        loop: options.animationType === 'loop',
+        pivotPoints,
+        timeline: engineTimeline
+      });
+      downloadBlob(archive, `${engineTarget}-rig.zip`);
+      setEngineExport({ status: 'success', message: 'Bundle downloaded' });
+    } catch (error) {
+      console.error('Game engine export failed:', error);
+      setEngineExport({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Export failed'
+      });
+    }
+  };
+
+  // Export shape layers, keyframes and trim paths as a Lottie JSON file
+  const handleLottieExport = async () => {
+    setLottieExport({ status: 'loading', message: 'Building Lottie animation...' });
+    try {
+      const animation = await exportLottieAnimation({
+        svg: svgContent,
+        frameRate: lottieFrameRate,
+        pivotPoints,
+        timeline: lottieTimeline
+      });
+      downloadBlob(animation, 'animation.json');
+      setLottieExport({ status: 'success', message: 'Lottie JSON downloaded' });
+    } catch (error) {
+      console.error('Lottie export failed:', error);
+      setLottieExport({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Export failed'
+      });
+    }
+  };
+
   // Get file extension for current framework
   const getFileExtension = () => {
     switch (activeFramework) {
@@ -146,10 +228,12 @@ export function CodeExportPanel({
         <div className="space-y-2">
           <Label className="text-xs font-medium">Animation Framework</Label>
           <Tabs value={activeFramework} onValueChange={(value) => setActiveFramework(value as any)}>
-            <TabsList className="grid grid-cols-3 w-full text-xs">
+            <TabsList className="grid grid-cols-5 w-full text-xs">
               <TabsTrigger value="gsap" data-testid="framework-gsap">GSAP</TabsTrigger>
               <TabsTrigger value="css" data-testid="framework-css">CSS</TabsTrigger>
               <TabsTrigger value="waapi" data-testid="framework-waapi">Web API</TabsTrigger>
+              <TabsTrigger value="engine" data-testid="framework-engine">Engine</TabsTrigger>
+              <TabsTrigger value="lottie" data-testid="framework-lottie">Lottie</TabsTrigger>
             </TabsList>
           </Tabs>
         </div>
@@ -227,7 +311,115 @@ export function CodeExportPanel({
           </div>
         </div>
 
+        {/* Export to engine */}
+        {activeFramework === 'engine' && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Target Engine</Label>
+              <Select 
+                value={engineTarget} 
+                onValueChange={(value) => setEngineTarget(value as 'unity' | 'godot' | 'generic')}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="engine-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unity">Unity (C#)</SelectItem>
+                  <SelectItem value="godot">Godot (GDScript)</SelectItem>
+                  <SelectItem value="generic">Generic JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Sprite PNGs per element</Label>
+              <Switch
+                checked={includeSprites}
+                onCheckedChange={setIncludeSprites}
+              />
+            </div>
+            <div className="text-xs text-gray-600 bg-gray-50 p-2 rounded space-y-0.5">
+              <div>{elements.length} element{elements.length !== 1 ? 's' : ''}, {engineTimeline.length} timeline track{engineTimeline.length !== 1 ? 's' : ''}</div>
+              <div>{pivotPoints.length} pivot point{pivotPoints.length !== 1 ? 's' : ''}</div>
+              <div>Bundle: rig.json, {engineTarget === 'unity' ? 'SVGAnimationRig.cs' : engineTarget === 'godot' ? 'svg_animation_rig.gd' : 'no script'}{includeSprites ? ', sprites/' : ''}</div>
+            </div>
+            <Button
+              size="sm"
+              className="w-full text-xs"
+              onClick={handleEngineExport}
+              disabled={engineExport.status === 'loading'}
+              data-testid="export-to-engine"
+            >
+              {engineExport.status === 'loading' ? (
+                <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+              ) : (
+                <Gamepad2 className="w-3 h-3 mr-2" />
+              )}
+              Export to engine
+            </Button>
+            {engineExport.status === 'error' && (
+              <p className="text-xs text-red-600">{engineExport.message}</p>
+            )}
+            {engineExport.status === 'success' && (
+              <p className="text-xs text-green-600">{engineExport.message}</p>
+            )}
+          </div>
+        )}
+
+        {/* Export to Lottie */}
+        {activeFramework === 'lottie' && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Frame Rate</Label>
+              <Select 
+                value={String(lottieFrameRate)} 
+                onValueChange={(value) => setLottieFrameRate(parseInt(value))}
+              >
+                <SelectTrigger className="h-8 text-xs" data-testid="lottie-frame-rate">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="24">24 fps</SelectItem>
+                  <SelectItem value="30">30 fps</SelectItem>
+                  <SelectItem value="60">60 fps</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="text-xs text-gray-600 bg-gray-50 p-2 rounded space-y-0.5">
+              <div>{elements.length} shape layer{elements.length !== 1 ? 's' : ''}, {lottieTimeline.length} keyframed propert{lottieTimeline.length !== 1 ? 'ies' : 'y'}</div>
+              <div>{pivotPoints.length} pivot point{pivotPoints.length !== 1 ? 's' : ''} as anchor points</div>
+              <div>
+                {options.animationType === 'drawon'
+                  ? 'Draw-on as trim paths'
+                  : options.animationType === 'hover' || options.animationType === 'click'
+                    ? 'Lottie has no hover; the effect plays once'
+                    : 'Plays in lottie-web, lottie-ios and lottie-android'}
+              </div>
+            </div>
+            <Button
+              size="sm"
+              className="w-full text-xs"
+              onClick={handleLottieExport}
+              disabled={lottieExport.status === 'loading' || elements.length === 0}
+              data-testid="export-lottie"
+            >
+              {lottieExport.status === 'loading' ? (
+                <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+              ) : (
+                <Film className="w-3 h-3 mr-2" />
+              )}
+              Export Lottie JSON
+            </Button>
+            {lottieExport.status === 'error' && (
+              <p className="text-xs text-red-600">{lottieExport.message}</p>
+            )}
+            {lottieExport.status === 'success' && (
+              <p className="text-xs text-green-600">{lottieExport.message}</p>
+            )}
+          </div>
+        )}
+
         {/* Options */}
+        {activeFramework !== 'engine' && activeFramework !== 'lottie' && (
         <div className="space-y-2">
           <div className="flex items-center justify-between">
             <Label className="text-xs">Include Comments</Label>
@@ -251,6 +443,7 @@ export function CodeExportPanel({
             />
           </div>
         </div>
+        )}
 
         {/* Generated Code Display */}
         {generatedCode && (
@@ -3,13 +3,19 @@ import { Card, CardContent } from "@/components/ui/card";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SVGOptions } from "@/lib/svg-converter";
 import { presets, Preset, applyPreset } from "@/lib/conversion-presets";
 import { SettingInfoTooltip } from "@/components/SettingInfoTooltip";
+import SavedPresets, { savedPresetKey } from "@/components/SavedPresets";
+import EngineAnalysis from "@/components/EngineAnalysis";
+import ParameterSearch from "@/components/ParameterSearch";
+import { SavedPreset, EngineChoice, SearchCandidate } from "@/lib/fetch-helpers";
 import { settingsHelpText, SettingId } from "@/lib/settings-help-text";
 import { 
   Sparkles, 
@@ -32,6 +38,8 @@ interface ConversionSettingsProps {
   onSettingsChange?: () => void;
   // Animation mode flag for simplified UI
   animationMode?: boolean;
+  // Engine and color analysis from the last conversion
+  engineChoice?: EngineChoice | null;
 }
 
 export default function ConversionSettings({
@@ -42,6 +50,7 @@ export default function ConversionSettings({
   batchMode,
   onSettingsChange,
   animationMode = false,
+  engineChoice = null,
 }: ConversionSettingsProps) {
   const [activePreset, setActivePreset] = useState<string | null>(null);
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false);
@@ -119,6 +128,24 @@ export default function ConversionSettings({
     // Trigger immediate conversion for preset changes
     triggerSettingsChange(true);
   };
+
+  const handleApplySavedPreset = (preset: SavedPreset) => {
+    setOptions(preset.options);
+    setActivePreset(savedPresetKey(preset));
+    triggerSettingsChange(true);
+  };
+
+  const handleApplySearchCandidate = ({ engine, parameters }: SearchCandidate) => {
+    setOptions(prev => ({
+      ...prev,
+      ...parameters,
+      traceEngine: engine,
+      // preserveColors would force color tracing
+      preserveColors: engine === "potrace" ? false : prev.preserveColors,
+    }));
+    setActivePreset(null);
+    triggerSettingsChange(true);
+  };
   
   // Helper to generate setting headers with tooltips
   const SettingHeader = ({ settingId }: { settingId: SettingId }) => (
@@ -195,6 +222,12 @@ export default function ConversionSettings({
             </div>
           </div>
         </div>
+
+        <EngineAnalysis
+          choice={engineChoice}
+          options={options}
+          onApplyColorCount={(numberOfColors) => updateOption('numberOfColors', numberOfColors)}
+        />
       </CardContent>
 
       {/* Presets Section */}
@@ -228,6 +261,18 @@ export default function ConversionSettings({
             </Button>
           ))}
         </div>
+
+        <SavedPresets
+          options={options}
+          activePreset={activePreset}
+          onApply={handleApplySavedPreset}
+        />
+
+        <ParameterSearch
+          file={batchMode ? null : currentFile ?? null}
+          options={options}
+          onApply={handleApplySearchCandidate}
+        />
       </div>
 
       {/* Toggle for Advanced Settings */}
@@ -249,10 +294,11 @@ export default function ConversionSettings({
       {/* Advanced Settings Section */}
       {showAdvancedSettings && (
         <Tabs defaultValue="basic" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="format">Format</TabsTrigger>
             <TabsTrigger value="structure">Structure</TabsTrigger>
             <TabsTrigger value="paths">Paths</TabsTrigger>
+            <TabsTrigger value="preprocess">Preprocess</TabsTrigger>
           </TabsList>
 
           <TabsContent value="format" className="space-y-4">
@@ -284,9 +330,250 @@ export default function ConversionSettings({
                   <RadioGroupItem value="png" id="format-png" />
                   <Label htmlFor="format-png">PNG</Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="webp" id="format-webp" />
+                  <Label htmlFor="format-webp">WebP</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="hpgl" id="format-hpgl" />
+                  <Label htmlFor="format-hpgl">HPGL</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="gcode" id="format-gcode" />
+                  <Label htmlFor="format-gcode">G-code</Label>
+                </div>
               </RadioGroup>
             </div>
 
+            {/* PNG/WebP Sizes, Padding and Background */}
+            {(options.fileFormat === "png" || options.fileFormat === "webp") && (
+              <div className="px-6 py-4 space-y-4">
+                <div>
+                  <SettingHeader settingId="rasterMode" />
+                  <RadioGroup
+                    value={options.rasterMode ?? "scales"}
+                    onValueChange={(value) => updateOption("rasterMode", value as SVGOptions["rasterMode"])}
+                    className="grid grid-cols-3 gap-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="scales" id="raster-scales" />
+                      <Label htmlFor="raster-scales">Scales</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="sizes" id="raster-sizes" />
+                      <Label htmlFor="raster-sizes">Sizes</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="iconSet" id="raster-icon-set" />
+                      <Label htmlFor="raster-icon-set">App icon set</Label>
+                    </div>
+                  </RadioGroup>
+                  {(options.rasterMode ?? "scales") === "scales" && (
+                    <div className="flex items-center space-x-4 mt-3">
+                      {[1, 2, 3, 4].map((scale) => (
+                        <div key={scale} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`raster-scale-${scale}`}
+                            checked={options.rasterScales?.includes(scale) ?? scale === 1}
+                            onCheckedChange={(checked) => {
+                              const scales = (options.rasterScales ?? [1]).filter((value) => value !== scale);
+                              updateOption("rasterScales", (checked ? [...scales, scale] : scales).sort((a, b) => a - b));
+                            }}
+                          />
+                          <Label htmlFor={`raster-scale-${scale}`}>@{scale}x</Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {options.rasterMode === "sizes" && (
+                    <Input
+                      id="rasterSizes"
+                      value={(options.rasterSizes ?? []).join(",")}
+                      onChange={(e) => updateOption("rasterSizes", e.target.value.replace(/[^\dx,]/gi, "").split(","))}
+                      placeholder="512,1024x512"
+                      className="h-8 text-sm mt-3"
+                    />
+                  )}
+                </div>
+                <div>
+                  <SettingHeader settingId="rasterPadding" />
+                  <Slider
+                    value={[options.rasterPadding ?? 0]}
+                    min={0}
+                    max={40}
+                    step={1}
+                    onValueChange={(values) => updateOption("rasterPadding", values[0])}
+                  />
+                  <div className="text-xs text-gray-500 mt-1">{options.rasterPadding ?? 0}%</div>
+                </div>
+                <div>
+                  <SettingHeader settingId="rasterBackground" />
+                  <div className="flex items-center space-x-4">
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        id="raster-transparent"
+                        checked={(options.rasterBackground ?? "transparent") === "transparent"}
+                        onCheckedChange={(checked) => updateOption("rasterBackground", checked ? "transparent" : "#ffffff")}
+                      />
+                      <Label htmlFor="raster-transparent">Transparent</Label>
+                    </div>
+                    {(options.rasterBackground ?? "transparent") !== "transparent" && (
+                      <input
+                        type="color"
+                        aria-label="Background color"
+                        value={options.rasterBackground}
+                        onChange={(e) => updateOption("rasterBackground", e.target.value)}
+                        className="h-8 w-12 cursor-pointer rounded border border-gray-200"
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* HPGL/G-code Toolpaths */}
+            {(options.fileFormat === "hpgl" || options.fileFormat === "gcode") && (
+              <div className="px-6 py-4 space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <SettingHeader settingId="toolpathTolerance" />
+                    <Input
+                      id="toolpathTolerance"
+                      type="number"
+                      min={0.001}
+                      max={10}
+                      step={0.01}
+                      value={options.toolpathTolerance ?? 0.05}
+                      onChange={(e) => {
+                        const tolerance = parseFloat(e.target.value);
+                        if (tolerance > 0) updateOption("toolpathTolerance", tolerance);
+                      }}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                  <div>
+                    <SettingHeader settingId="toolDiameter" />
+                    <Input
+                      id="toolDiameter"
+                      type="number"
+                      min={0}
+                      max={50}
+                      step={0.05}
+                      value={options.toolDiameter ?? 0}
+                      onChange={(e) => {
+                        const diameter = parseFloat(e.target.value);
+                        if (diameter >= 0) updateOption("toolDiameter", diameter);
+                      }}
+                      className="h-8 text-sm"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <SettingHeader settingId="toolpathFeedRates" />
+                  <Input
+                    id="toolpathFeedRates"
+                    value={(options.toolpathFeedRates ?? [1000]).join(",")}
+                    onChange={(e) => {
+                      const rates = e.target.value.split(",").map((rate) => parseFloat(rate)).filter((rate) => rate > 0);
+                      if (rates.length > 0) updateOption("toolpathFeedRates", rates);
+                    }}
+                    placeholder="1000,600"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                {options.fileFormat === "gcode" && (
+                  <div>
+                    <SettingHeader settingId="toolpathZ" />
+                    <div className="grid grid-cols-3 gap-4">
+                      {([
+                        ["toolpathSafeZ", "Safe Z", 5],
+                        ["toolpathCutZ", "Cut Z", -1],
+                        ["toolpathPlungeRate", "Plunge", 300]
+                      ] as const).map(([key, label, fallback]) => (
+                        <div key={key} className="flex flex-col space-y-1">
+                          <Label htmlFor={key} className="text-xs">{label}</Label>
+                          <Input
+                            id={key}
+                            type="number"
+                            step={key === "toolpathPlungeRate" ? 50 : 0.5}
+                            value={options[key] ?? fallback}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value);
+                              if (!isNaN(value) && (key !== "toolpathPlungeRate" || value > 0)) updateOption(key, value);
+                            }}
+                            className="h-8 text-sm"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <SettingHeader settingId="toolpathScale" />
+                  <Input
+                    id="toolpathScale"
+                    type="number"
+                    min={0.001}
+                    max={1000}
+                    step={0.1}
+                    value={options.toolpathScale ?? 1}
+                    onChange={(e) => {
+                      const scale = parseFloat(e.target.value);
+                      if (scale > 0) updateOption("toolpathScale", scale);
+                    }}
+                    className="h-8 w-32 text-sm"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* DXF Units and Scale */}
+            {options.fileFormat === "dxf" && (
+              <div className="px-6 py-4 space-y-4">
+                <div>
+                  <SettingHeader settingId="dxfUnits" />
+                  <RadioGroup
+                    value={options.dxfUnits ?? "mm"}
+                    onValueChange={(value) => updateOption("dxfUnits", value as SVGOptions["dxfUnits"])}
+                    className="grid grid-cols-2 gap-4 sm:grid-cols-4"
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="mm" id="dxf-units-mm" />
+                      <Label htmlFor="dxf-units-mm">Millimeters</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="cm" id="dxf-units-cm" />
+                      <Label htmlFor="dxf-units-cm">Centimeters</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="in" id="dxf-units-in" />
+                      <Label htmlFor="dxf-units-in">Inches</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="px" id="dxf-units-px" />
+                      <Label htmlFor="dxf-units-px">Pixels</Label>
+                    </div>
+                  </RadioGroup>
+                </div>
+                <div>
+                  <SettingHeader settingId="dxfScale" />
+                  <Input
+                    id="dxfScale"
+                    type="number"
+                    min={0.001}
+                    max={1000}
+                    step={0.1}
+                    value={options.dxfScale ?? 1}
+                    onChange={(e) => {
+                      const scale = parseFloat(e.target.value);
+                      if (scale > 0) updateOption("dxfScale", scale);
+                    }}
+                    className="h-8 w-32 text-sm"
+                  />
+                </div>
+              </div>
+            )}
+
             {/* SVG Version Options */}
             <div className="px-6 py-4">
               <SettingHeader settingId="svgVersion" />
@@ -312,6 +599,33 @@ export default function ConversionSettings({
           </TabsContent>
 
           <TabsContent value="structure" className="space-y-4">
+            {/* Trace Engine Options */}
+            <div className="px-6 py-4">
+              <SettingHeader settingId="traceEngine" />
+              <RadioGroup
+                value={options.traceEngine}
+                onValueChange={(value) => updateOption("traceEngine", value as SVGOptions["traceEngine"])}
+                className="space-y-2"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="auto" id="engine-auto" />
+                  <Label htmlFor="engine-auto">Auto</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="potrace" id="engine-potrace" />
+                  <Label htmlFor="engine-potrace">Potrace (single color)</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="potrace-color" id="engine-potrace-color" />
+                  <Label htmlFor="engine-potrace-color">Layered Potrace (one layer per color)</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="imagetracer" id="engine-imagetracer" />
+                  <Label htmlFor="engine-imagetracer">ImageTracer</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
             {/* Draw Style Options */}
             <div className="px-6 py-4">
               <SettingHeader settingId="drawStyle" />
@@ -465,6 +779,29 @@ export default function ConversionSettings({
               </div>
             </div>
 
+            {/* Path simplification for animation output */}
+            {animationMode && (
+              <div className="px-6 py-4">
+                <SettingHeader settingId="simplifyTolerance" />
+                <div className="flex flex-col space-y-1">
+                  <div className="flex justify-between">
+                    <Label htmlFor="simplify-tolerance" className="text-xs text-gray-500">
+                      Max deviation
+                    </Label>
+                    <span className="text-xs text-gray-500">{options.simplifyTolerance ?? 0.5}px</span>
+                  </div>
+                  <Slider
+                    id="simplify-tolerance"
+                    min={0}
+                    max={3}
+                    step={0.1}
+                    value={[options.simplifyTolerance ?? 0.5]}
+                    onValueChange={(values) => updateOption("simplifyTolerance", values[0])}
+                  />
+                </div>
+              </div>
+            )}
+
             {/* Gap Filler Options */}
             <div className="px-6 py-4">
               <div className="flex items-center mb-3">
@@ -530,6 +867,14 @@ export default function ConversionSettings({
                   />
                   <Label htmlFor="gap-non-scaling">Non-Scaling Stroke</Label>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="gap-expand-strokes"
+                    checked={options.expandStrokes ?? false}
+                    onCheckedChange={(checked) => updateOption("expandStrokes", !!checked)}
+                  />
+                  <Label htmlFor="gap-expand-strokes">Expand Strokes to Fills</Label>
+                </div>
                 <div className="flex flex-col space-y-1 mt-2">
                   <div className="flex justify-between">
                     <Label htmlFor="stroke-width" className="text-xs text-gray-500">
@@ -549,6 +894,253 @@ export default function ConversionSettings({
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="preprocess" className="space-y-4">
+            {/* Background removal before tracing */}
+            <div className="px-6 py-4">
+              <SettingHeader settingId="removeBackground" />
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="remove-background"
+                    checked={options.removeBackground ?? false}
+                    onCheckedChange={(checked) => updateOption("removeBackground", !!checked)}
+                  />
+                  <Label htmlFor="remove-background">Remove Solid Background</Label>
+                </div>
+                {options.removeBackground && (
+                  <div className="flex flex-col space-y-1 mt-2">
+                    <div className="flex justify-between">
+                      <Label htmlFor="background-tolerance" className="text-xs text-gray-500">
+                        {settingsHelpText.backgroundTolerance.title}
+                      </Label>
+                      <span className="text-xs text-gray-500">{options.backgroundTolerance ?? 10}</span>
+                    </div>
+                    <Slider
+                      id="background-tolerance"
+                      min={0}
+                      max={50}
+                      step={1}
+                      value={[options.backgroundTolerance ?? 10]}
+                      onValueChange={(values) => updateOption("backgroundTolerance", values[0])}
+                    />
+                  </div>
+                )}
+              </div>
+            </div>
+            {/* Crop */}
+            <div className="px-6 py-4">
+              <SettingHeader settingId="crop" />
+              <Input
+                id="crop"
+                value={options.crop ?? ""}
+                onChange={(e) => updateOption("crop", e.target.value.replace(/\s/g, ""))}
+                placeholder="left,top,width,height"
+                className="h-8 text-sm"
+              />
+            </div>
+
+            {/* Rotation and deskew */}
+            <div className="px-6 py-4">
+              <SettingHeader settingId="rotation" />
+              <div className="space-y-2">
+                <div className="flex flex-col space-y-1">
+                  <div className="flex justify-between">
+                    <Label htmlFor="rotation" className="text-xs text-gray-500">
+                      Rotation
+                    </Label>
+                    <span className="text-xs text-gray-500">{options.rotation ?? 0}°</span>
+                  </div>
+                  <Slider
+                    id="rotation"
+                    min={-180}
+                    max={180}
+                    step={1}
+                    value={[options.rotation ?? 0]}
+                    onValueChange={(values) => updateOption("rotation", values[0])}
+                  />
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="deskew"
+                    checked={options.deskew ?? false}
+                    onCheckedChange={(checked) => updateOption("deskew", !!checked)}
+                  />
+                  <Label htmlFor="deskew">Deskew</Label>
+                </div>
+              </div>
+            </div>
+
+            {/* Upscaling and denoise */}
+            <div className="px-6 py-4">
+              <SettingHeader settingId="upscaleTo" />
+              <RadioGroup
+                value={String(options.upscaleTo ?? 0)}
+                onValueChange={(value) => updateOption("upscaleTo", Number(value))}
+                className="grid grid-cols-4 gap-2"
+              >
+                {[0, 1024, 2048, 4096].map((size) => (
+                  <div key={size} className="flex items-center space-x-2">
+                    <RadioGroupItem value={String(size)} id={`upscale-${size}`} />
+                    <Label htmlFor={`upscale-${size}`}>{size === 0 ? "Off" : `${size}px`}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+
+            <div className="px-6 py-4">
+              <SettingHeader settingId="denoise" />
+              <div className="flex flex-col space-y-1">
+                <div className="flex justify-between">
+                  <Label htmlFor="denoise" className="text-xs text-gray-500">
+                    Median filter size
+                  </Label>
+                  <span className="text-xs text-gray-500">{options.denoise ? `${options.denoise}px` : "Off"}</span>
+                </div>
+                <Slider
+                  id="denoise"
+                  min={0}
+                  max={9}
+                  step={1}
+                  value={[options.denoise ?? 0]}
+                  // Median windows are odd; 1-2 would do nothing
+                  onValueChange={(values) => updateOption("denoise", values[0] < 3 ? 0 : values[0] | 1)}
+                />
+              </div>
+            </div>
+
+            {/* Tone adjustments */}
+            <div className="px-6 py-4">
+              <SettingHeader settingId="autoLevels" />
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="auto-levels"
+                    checked={options.autoLevels ?? false}
+                    onCheckedChange={(checked) => updateOption("autoLevels", !!checked)}
+                  />
+                  <Label htmlFor="auto-levels">Auto Levels</Label>
+                </div>
+                {!options.autoLevels && (
+                  <>
+                    <div className="flex flex-col space-y-1">
+                      <div className="flex justify-between">
+                        <Label htmlFor="black-point" className="text-xs text-gray-500">
+                          Black point
+                        </Label>
+                        <span className="text-xs text-gray-500">{options.blackPoint ?? 0}</span>
+                      </div>
+                      <Slider
+                        id="black-point"
+                        min={0}
+                        max={254}
+                        step={1}
+                        value={[options.blackPoint ?? 0]}
+                        onValueChange={(values) => updateOption("blackPoint", Math.min(values[0], (options.whitePoint ?? 255) - 1))}
+                      />
+                    </div>
+                    <div className="flex flex-col space-y-1">
+                      <div className="flex justify-between">
+                        <Label htmlFor="white-point" className="text-xs text-gray-500">
+                          White point
+                        </Label>
+                        <span className="text-xs text-gray-500">{options.whitePoint ?? 255}</span>
+                      </div>
+                      <Slider
+                        id="white-point"
+                        min={1}
+                        max={255}
+                        step={1}
+                        value={[options.whitePoint ?? 255]}
+                        onValueChange={(values) => updateOption("whitePoint", Math.max(values[0], (options.blackPoint ?? 0) + 1))}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div className="px-6 py-4">
+              <SettingHeader settingId="contrast" />
+              <div className="flex flex-col space-y-1">
+                <div className="flex justify-between">
+                  <Label htmlFor="contrast" className="text-xs text-gray-500">
+                    Contrast
+                  </Label>
+                  <span className="text-xs text-gray-500">{(options.contrast ?? 1).toFixed(1)}x</span>
+                </div>
+                <Slider
+                  id="contrast"
+                  min={0.5}
+                  max={3}
+                  step={0.1}
+                  value={[options.contrast ?? 1]}
+                  onValueChange={(values) => updateOption("contrast", values[0])}
+                />
+              </div>
+            </div>
+
+            <div className="px-6 py-4">
+              <SettingHeader settingId="posterize" />
+              <div className="flex flex-col space-y-1">
+                <div className="flex justify-between">
+                  <Label htmlFor="posterize" className="text-xs text-gray-500">
+                    Levels per channel
+                  </Label>
+                  <span className="text-xs text-gray-500">{options.posterize ? options.posterize : "Off"}</span>
+                </div>
+                <Slider
+                  id="posterize"
+                  min={0}
+                  max={16}
+                  step={1}
+                  value={[options.posterize ?? 0]}
+                  onValueChange={(values) => updateOption("posterize", values[0] < 2 ? 0 : values[0])}
+                />
+              </div>
+            </div>
+
+            {/* Black and white threshold (potrace) */}
+            <div className="px-6 py-4">
+              <SettingHeader settingId="thresholdMode" />
+              <RadioGroup
+                value={options.thresholdMode ?? "fixed"}
+                onValueChange={(value) => updateOption("thresholdMode", value as SVGOptions["thresholdMode"])}
+                className="grid grid-cols-3 gap-2"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="fixed" id="threshold-fixed" />
+                  <Label htmlFor="threshold-fixed">Fixed</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="otsu" id="threshold-otsu" />
+                  <Label htmlFor="threshold-otsu">Otsu</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="adaptive" id="threshold-adaptive" />
+                  <Label htmlFor="threshold-adaptive">Adaptive</Label>
+                </div>
+              </RadioGroup>
+              {(options.thresholdMode ?? "fixed") === "fixed" && (
+                <div className="flex flex-col space-y-1 mt-3">
+                  <div className="flex justify-between">
+                    <Label htmlFor="threshold" className="text-xs text-gray-500">
+                      Threshold
+                    </Label>
+                    <span className="text-xs text-gray-500">{options.threshold ?? 128}</span>
+                  </div>
+                  <Slider
+                    id="threshold"
+                    min={1}
+                    max={254}
+                    step={1}
+                    value={[options.threshold ?? 128]}
+                    onValueChange={(values) => updateOption("threshold", values[0])}
+                  />
+                </div>
+              )}
+            </div>
+          </TabsContent>
         </Tabs>
       )}
     </Card>
@@ -0,0 +1,91 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Cpu } from "lucide-react";
+import { SVGOptions } from "@/lib/svg-converter";
+import { EngineChoice } from "@/lib/fetch-helpers";
+
+interface EngineAnalysisProps {
+  choice: EngineChoice | null;
+  options: SVGOptions;
+  onApplyColorCount: (numberOfColors: number) => void;
+}
+
+const ENGINE_NAMES: Record<EngineChoice["engine"], string> = {
+  potrace: "Potrace",
+  imagetracer: "ImageTracer",
+  "potrace-color": "Layered Potrace",
+  svg: "SVG passthrough",
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Explains which trace engine handled the last conversion and what the color analysis saw
+ */
+export default function EngineAnalysis({ choice, options, onApplyColorCount }: EngineAnalysisProps) {
+  if (!choice) return null;
+
+  const { engine, analysis } = choice;
+  const suggestedColors = analysis?.suggestedNumberOfColors;
+  const canApplyColors = (engine === "imagetracer" || engine === "potrace-color") &&
+    suggestedColors !== undefined &&
+    suggestedColors !== options.numberOfColors;
+
+  return (
+    <div className="mt-4 p-3 border border-gray-200 rounded-lg bg-white" data-testid="engine-analysis">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-sm font-medium">
+          <Cpu className="h-4 w-4 mr-2 text-gray-500" />
+          Traced with {ENGINE_NAMES[engine]}
+        </div>
+        {!analysis && engine !== "svg" && (
+          <Badge variant="outline" className="text-xs">
+            {options.preserveColors ? "Forced by Preserve Colors" : "Chosen in settings"}
+          </Badge>
+        )}
+      </div>
+
+      {analysis && (
+        <>
+          <p className="text-xs text-gray-600 mt-2">{analysis.reason}</p>
+
+          {analysis.dominantColors.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {analysis.dominantColors.map(({ color, coverage }) => (
+                <div key={color} className="flex items-center text-xs text-gray-600" title={color}>
+                  <span
+                    className="inline-block h-4 w-4 rounded border border-gray-300 mr-1"
+                    style={{ backgroundColor: color }}
+                  />
+                  {percent(coverage)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            <Badge variant="secondary" className="text-xs">{analysis.distinctColors} colors</Badge>
+            <Badge variant="secondary" className="text-xs">Flat {percent(analysis.flatness)}</Badge>
+            <Badge variant="secondary" className="text-xs">Edges {percent(analysis.edgeDensity)}</Badge>
+            <Badge variant="secondary" className="text-xs">Anti-aliased {percent(analysis.antiAliasing)}</Badge>
+            {analysis.hasAlpha && (
+              <Badge variant="secondary" className="text-xs">Transparent {percent(analysis.transparentRatio)}</Badge>
+            )}
+          </div>
+
+          {canApplyColors && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-3 h-7 text-xs"
+              onClick={() => onApplyColorCount(suggestedColors)}
+              data-testid="apply-suggested-colors"
+            >
+              Use {suggestedColors} colors
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
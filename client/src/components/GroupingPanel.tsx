@@ -34,12 +34,16 @@ export interface SVGGroup {
 interface GroupingPanelProps {
   svgContent: string;
   onStructureChange: (groups: SVGGroup[]) => void;
+  selectedId?: string | null;
+  onSelect?: (group: SVGGroup) => void;
   className?: string;
 }
 
 export function GroupingPanel({ 
   svgContent, 
   onStructureChange, 
+  selectedId = null,
+  onSelect,
   className = "" 
 }: GroupingPanelProps) {
   const [groups, setGroups] = useState<SVGGroup[]>([]);
@@ -323,12 +327,14 @@ export function GroupingPanel({
     const hasChildren = group.children && group.children.length > 0;
     const isExpanded = expandedIds.has(group.id);
     const isEditing = editingId === group.id;
+    const isSelected = selectedId === group.id;
 
     return (
       <div key={group.id} className="select-none">
         <div 
-          className={`flex items-center px-2 py-1 hover:bg-gray-100 ${group.locked ? 'opacity-60' : ''}`}
+          className={`flex items-center px-2 py-1 ${isSelected ? 'bg-blue-100' : 'hover:bg-gray-100'} ${group.locked ? 'opacity-60' : ''}`}
           style={{ paddingLeft: `${(depth * 16) + 8}px` }}
+          onClick={() => onSelect?.(group)}
           data-testid={`group-item-${group.id}`}
         >
           {/* Expand/collapse button */}
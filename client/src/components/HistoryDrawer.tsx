@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from '@/components/ui/sheet';
+import { History, Download, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { fetchConversionHistory, getHistoryDownloadUrl, ConversionHistoryPage } from '@/lib/fetch-helpers';
+import { useAuth } from '@/hooks/use-auth';
+
+const PAGE_SIZE = 20;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+export default function HistoryDrawer() {
+  const [open, setOpen] = useState(false);
+  const [page, setPage] = useState(1);
+  const [history, setHistory] = useState<ConversionHistoryPage | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  // Start from the first page when switching accounts
+  useEffect(() => {
+    setPage(1);
+  }, [user?.id]);
+
+  // Reload whenever the drawer opens so new conversions show up
+  useEffect(() => {
+    if (!open || !user) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchConversionHistory(page, PAGE_SIZE)
+      .then(result => {
+        if (cancelled) return;
+        setHistory(result);
+        setError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load conversion history:', error);
+        setError('Could not load conversion history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [open, page, user?.id]);
+
+  // History is kept for signed-in accounts only
+  if (!user) return null;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" data-testid="open-history">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Conversion History</SheetTitle>
+          <SheetDescription>
+            {history ? `${history.total} conversion${history.total !== 1 ? 's' : ''}` : 'Recent conversions'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 py-4">
+          {isLoading && !history && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {history && history.items.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">No conversions yet</p>
+          )}
+          {history?.items.map(item => (
+            <div key={item.id} className="flex items-center justify-between rounded border p-3" data-testid={`history-item-${item.id}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate" title={item.originalFilename}>
+                  {item.originalFilename}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {new Date(item.createdAt).toLocaleString()}
+                </p>
+                <div className="flex gap-1 mt-1">
+                  <Badge variant="secondary" className="text-xs">{item.engine}</Badge>
+                  <Badge variant="outline" className="text-xs">{formatSize(item.outputSize)}</Badge>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <a href={getHistoryDownloadUrl(item.id)} download title="Download SVG">
+                  <Download className="h-4 w-4" />
+                </a>
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {history && history.totalPages > 1 && (
+          <div className="flex items-center justify-between border-t pt-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(current => current - 1)}
+              disabled={page <= 1 || isLoading}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-xs text-gray-500">
+              Page {history.page} of {history.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(current => current + 1)}
+              disabled={page >= history.totalPages || isLoading}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
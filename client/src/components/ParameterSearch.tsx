@@ -0,0 +1,171 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SVGOptions } from "@/lib/svg-converter";
+import {
+  searchConversionParameters,
+  ParameterSearchResult,
+  SearchCandidate,
+  SearchGoal
+} from "@/lib/fetch-helpers";
+import { Target, Loader2, Check } from "lucide-react";
+
+interface ParameterSearchProps {
+  file: File | null;
+  options: SVGOptions;
+  onApply: (candidate: SearchCandidate) => void;
+}
+
+type GoalKind = "size" | "paths" | "error";
+
+const GOAL_LABELS: Record<GoalKind, string> = {
+  size: "Max size (KB)",
+  paths: "Max paths",
+  error: "Max error (%)",
+};
+
+const DEFAULT_GOAL_VALUES: Record<GoalKind, string> = {
+  size: "40",
+  paths: "500",
+  error: "2",
+};
+
+function toGoal(kind: GoalKind, value: number): SearchGoal {
+  if (kind === "size") return { maxBytes: Math.round(value * 1024) };
+  if (kind === "paths") return { maxPaths: Math.round(value) };
+  return { maxError: value / 100 };
+}
+
+/**
+ * Search settings for a size, path count or error goal and pick from the size-vs-quality front
+ */
+export default function ParameterSearch({ file, options, onApply }: ParameterSearchProps) {
+  const [goalKind, setGoalKind] = useState<GoalKind>("size");
+  const [goalValue, setGoalValue] = useState(DEFAULT_GOAL_VALUES.size);
+  const [result, setResult] = useState<ParameterSearchResult | null>(null);
+  const [applied, setApplied] = useState<SearchCandidate | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Results describe one image; applying a candidate changes the options, so don't reset on those
+  useEffect(() => {
+    setResult(null);
+    setApplied(null);
+    setError(null);
+  }, [file]);
+
+  const handleSearch = async () => {
+    const value = parseFloat(goalValue);
+    if (!file || !(value > 0)) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      setResult(await searchConversionParameters(file, options, toGoal(goalKind, value)));
+      setApplied(null);
+    } catch (error) {
+      console.error("Parameter search failed:", error);
+      setResult(null);
+      setError("Could not find settings for this image");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleApply = (candidate: SearchCandidate) => {
+    setApplied(candidate);
+    onApply(candidate);
+  };
+
+  if (!file) return null;
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-medium mb-2">Find Settings For A Goal</h3>
+      <div className="flex gap-2">
+        <Select
+          value={goalKind}
+          onValueChange={(value) => {
+            setGoalKind(value as GoalKind);
+            setGoalValue(DEFAULT_GOAL_VALUES[value as GoalKind]);
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GOAL_LABELS) as GoalKind[]).map(kind => (
+              <SelectItem key={kind} value={kind}>{GOAL_LABELS[kind]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={0}
+          step={goalKind === "error" ? 0.5 : 1}
+          value={goalValue}
+          onChange={(e) => setGoalValue(e.target.value)}
+          className="h-8 text-sm"
+          data-testid="search-goal-value"
+        />
+        <Button
+          size="sm"
+          className="h-8"
+          onClick={handleSearch}
+          disabled={isSearching || !(parseFloat(goalValue) > 0)}
+          data-testid="run-parameter-search"
+        >
+          {isSearching ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Target className="h-3 w-3 mr-1" />}
+          {isSearching ? "Searching..." : "Search"}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="mt-2 border rounded divide-y text-xs" data-testid="parameter-search-front">
+          {result.front.map(candidate => (
+            <div
+              key={`${candidate.engine}:${JSON.stringify(candidate.parameters)}`}
+              className={`flex items-center justify-between gap-2 px-2 py-1 ${
+                candidate === result.recommended ? "bg-blue-50" : ""
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-1">
+                  <span className="font-medium">{(candidate.bytes / 1024).toFixed(1)} KB</span>
+                  <span className="text-gray-500">
+                    · SSIM {candidate.ssim.toFixed(3)} · {(candidate.error * 100).toFixed(1)}% error · {candidate.paths} paths
+                  </span>
+                  {candidate.meetsGoal && <Check className="h-3 w-3 text-green-600 shrink-0" />}
+                </div>
+                <div className="text-gray-500 truncate">
+                  {candidate.engine}
+                  {Object.entries(candidate.parameters).map(([key, value]) => ` · ${key} ${value}`).join("")}
+                  {candidate === result.recommended && " · recommended"}
+                </div>
+              </div>
+              <Button
+                variant={candidate === applied ? "default" : "outline"}
+                size="sm"
+                className="h-6 px-2 text-xs shrink-0"
+                onClick={() => handleApply(candidate)}
+              >
+                Apply
+              </Button>
+            </div>
+          ))}
+          <p className="px-2 py-1 text-gray-500">
+            {result.evaluated} settings traced in {(result.durationMs / 1000).toFixed(1)}s
+          </p>
+          {result.skippedEngines.map(({ engine, reason }) => (
+            <p key={engine} className="px-2 py-1 text-amber-600">
+              {engine} was skipped - it failed to trace: {reason}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
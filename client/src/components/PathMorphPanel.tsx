@@ -0,0 +1,288 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Shuffle, Copy, Download, Loader2, RotateCcw } from 'lucide-react';
+import { SVGOptions } from '@/lib/svg-converter';
+import { createPathMorph, PathMorphResponse } from '@/lib/fetch-helpers';
+
+interface PathMorphPanelProps {
+  sourceFile: File | null;
+  options: SVGOptions;
+  className?: string;
+}
+
+type MorphCodeTab = 'gsap' | 'css' | 'waapi';
+
+export function PathMorphPanel({
+  sourceFile,
+  options,
+  className = ""
+}: PathMorphPanelProps) {
+  const [sourceOverride, setSourceOverride] = useState<File | null>(null);
+  const [targetFile, setTargetFile] = useState<File | null>(null);
+  const [duration, setDuration] = useState(1.5);
+  const [stagger, setStagger] = useState(0);
+  const [pointCount, setPointCount] = useState(80);
+  const [loop, setLoop] = useState(true);
+  const [result, setResult] = useState<PathMorphResponse | null>(null);
+  const [status, setStatus] = useState<{
+    status: 'idle' | 'loading' | 'success' | 'error';
+    message: string;
+  }>({ status: 'idle', message: '' });
+  const [codeTab, setCodeTab] = useState<MorphCodeTab>('gsap');
+  const [copiedTab, setCopiedTab] = useState<MorphCodeTab | null>(null);
+  const [replayCount, setReplayCount] = useState(0);
+
+  const source = sourceOverride || sourceFile;
+
+  const handleCreateMorph = async () => {
+    if (!source || !targetFile) return;
+
+    setStatus({ status: 'loading', message: 'Converting both images and pairing paths...' });
+    try {
+      const morph = await createPathMorph(source, targetFile, options, { pointCount, duration, stagger, loop });
+      setResult(morph);
+      setStatus({
+        status: 'success',
+        message: `${morph.stats.matched} paths paired (${morph.stats.averageCompatibility}% average compatibility)`
+      });
+    } catch (error) {
+      console.error('Path morph failed:', error);
+      setStatus({
+        status: 'error',
+        message: error instanceof Error ? error.message : 'Morph failed'
+      });
+    }
+  };
+
+  // The CSS version animates "d" natively, which is enough for an in-app preview
+  const previewDocument = useMemo(() => {
+    if (!result) return null;
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    html, body { margin: 0; height: 100%; background: #fff; }
+    body { display: flex; align-items: center; justify-content: center; }
+    svg { width: 100%; height: 100%; }
+    ${result.code.css}
+  </style>
+</head>
+<body>${result.svg}</body>
+</html>`;
+  }, [result]);
+
+  const copyCode = async (tab: MorphCodeTab) => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.code[tab]);
+      setCopiedTab(tab);
+      setTimeout(() => setCopiedTab(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  const downloadSvg = () => {
+    if (!result) return;
+    const url = URL.createObjectURL(new Blob([result.svg], { type: 'image/svg+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'morph-ready.svg';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm flex items-center">
+          <Shuffle className="h-4 w-4 mr-2" />
+          Path Morph
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-4">
+        {/* Images */}
+        <div className="space-y-2">
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">From</Label>
+            <Input
+              type="file"
+              accept="image/*"
+              className="h-8 text-xs"
+              onChange={(e) => setSourceOverride(e.target.files?.[0] || null)}
+              data-testid="morph-source-input"
+            />
+            {!sourceOverride && sourceFile && (
+              <p className="text-xs text-gray-500">Using current image: {sourceFile.name}</p>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs font-medium">To</Label>
+            <Input
+              type="file"
+              accept="image/*"
+              className="h-8 text-xs"
+              onChange={(e) => setTargetFile(e.target.files?.[0] || null)}
+              data-testid="morph-target-input"
+            />
+          </div>
+        </div>
+
+        {/* Morph settings */}
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Duration (s)</Label>
+            <Input
+              type="number"
+              min={0.1}
+              max={60}
+              step={0.1}
+              value={duration}
+              onChange={(e) => setDuration(parseFloat(e.target.value) || 1.5)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Stagger (s)</Label>
+            <Input
+              type="number"
+              min={0}
+              max={5}
+              step={0.05}
+              value={stagger}
+              onChange={(e) => setStagger(parseFloat(e.target.value) || 0)}
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Detail</Label>
+            <Select value={pointCount.toString()} onValueChange={(value) => setPointCount(parseInt(value))}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="40">Low (40 pts)</SelectItem>
+                <SelectItem value="80">Medium (80 pts)</SelectItem>
+                <SelectItem value="160">High (160 pts)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between pt-5">
+            <Label className="text-xs">Loop</Label>
+            <Switch checked={loop} onCheckedChange={setLoop} />
+          </div>
+        </div>
+
+        <Button
+          size="sm"
+          className="w-full text-xs"
+          onClick={handleCreateMorph}
+          disabled={!source || !targetFile || status.status === 'loading'}
+          data-testid="create-morph"
+        >
+          {status.status === 'loading' ? (
+            <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+          ) : (
+            <Shuffle className="w-3 h-3 mr-2" />
+          )}
+          Create morph
+        </Button>
+        {status.message && (
+          <p className={`text-xs ${status.status === 'error' ? 'text-red-600' : 'text-gray-600'}`}>
+            {status.message}
+          </p>
+        )}
+
+        {/* Result */}
+        {result && previewDocument && (
+          <div className="space-y-3 pt-2 border-t">
+            <div className="relative border rounded bg-gray-50 h-40 overflow-hidden">
+              <iframe
+                key={replayCount}
+                srcDoc={previewDocument}
+                sandbox=""
+                className="w-full h-full"
+                title="Morph Preview"
+                data-testid="morph-preview"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                className="absolute top-2 right-2 h-6 px-2 text-xs"
+                onClick={() => setReplayCount(count => count + 1)}
+                title="Replay"
+              >
+                <RotateCcw className="h-3 w-3" />
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="secondary" className="text-xs">{result.stats.matched} paired</Badge>
+              {result.stats.unmatchedSource > 0 && (
+                <Badge variant="outline" className="text-xs">{result.stats.unmatchedSource} fade out</Badge>
+              )}
+              {result.stats.unmatchedTarget > 0 && (
+                <Badge variant="outline" className="text-xs">{result.stats.unmatchedTarget} fade in</Badge>
+              )}
+              <Badge variant="outline" className="text-xs">{result.engines.source} → {result.engines.target}</Badge>
+            </div>
+
+            <Tabs value={codeTab} onValueChange={(value) => setCodeTab(value as MorphCodeTab)}>
+              <TabsList className="grid w-full grid-cols-3 text-xs">
+                <TabsTrigger value="gsap" className="text-xs">GSAP</TabsTrigger>
+                <TabsTrigger value="css" className="text-xs">CSS</TabsTrigger>
+                <TabsTrigger value="waapi" className="text-xs">Web API</TabsTrigger>
+              </TabsList>
+              {(['gsap', 'css', 'waapi'] as MorphCodeTab[]).map(tab => (
+                <TabsContent key={tab} value={tab} className="mt-2">
+                  <div className="relative">
+                    <Textarea
+                      value={result.code[tab]}
+                      readOnly
+                      className="font-mono text-xs h-32 resize-none bg-gray-50"
+                      data-testid={`morph-code-${tab}`}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => copyCode(tab)}
+                      className="absolute top-2 right-2 h-6 px-2 text-xs"
+                    >
+                      {copiedTab === tab ? (
+                        <>✓ Copied</>
+                      ) : (
+                        <><Copy className="w-3 h-3 mr-1" />Copy</>
+                      )}
+                    </Button>
+                  </div>
+                </TabsContent>
+              ))}
+            </Tabs>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full text-xs"
+              onClick={downloadSvg}
+              data-testid="download-morph-svg"
+            >
+              <Download className="w-3 h-3 mr-2" />
+              Download morph-ready SVG
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,11 +6,13 @@ import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { AlertTriangle, Download, Copy, ClipboardCheck, Layers, Image, Palette, CheckCircle, SplitSquareVertical, Move } from "lucide-react";
+import { AlertTriangle, Download, Copy, ClipboardCheck, Layers, Image, Palette, CheckCircle, SplitSquareVertical, Move, Flame, SlidersHorizontal } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import ColorCustomizer from "./ColorCustomizer";
 import LoadingAnimation from "./LoadingAnimation";
 import AdvancedColorCustomizer from "./AdvancedColorCustomizer";
+import { FidelityReport, ConversionOutput, fetchPreprocessPreview } from "@/lib/fetch-helpers";
+import { SVGOptions } from "@/lib/svg-converter";
 
 interface SVGPreviewProps {
   svgContent: string | null;
@@ -33,6 +35,12 @@ interface SVGPreviewProps {
   setColorMap?: Dispatch<SetStateAction<Record<string, string>>>;
   showSplitView?: boolean;
   setShowSplitView?: Dispatch<SetStateAction<boolean>>;
+  // Score of the current result against the source, with its error heatmap
+  fidelity?: FidelityReport | null;
+  // Conversion options, for previewing the preprocessed bitmap the tracer sees
+  options?: SVGOptions;
+  // The result in a non-SVG fileFormat (DXF), downloaded instead of the SVG
+  output?: ConversionOutput | null;
 }
 
 export default function SVGPreview({
@@ -52,7 +60,10 @@ export default function SVGPreview({
   colorMap = {},
   setColorMap = () => {},
   showSplitView = false,
-  setShowSplitView = () => {}
+  setShowSplitView = () => {},
+  fidelity = null,
+  options,
+  output = null
 }: SVGPreviewProps) {
   const [copied, setCopied] = useState(false);
   const [activeSvg, setActiveSvg] = useState<string | null>(null);
@@ -61,6 +72,10 @@ export default function SVGPreview({
   const [codeView, setCodeView] = useState(false);
   const [detectedColors, setDetectedColors] = useState<string[]>([]);
   const [previewScale, setPreviewScale] = useState(1);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [showPreprocessed, setShowPreprocessed] = useState(false);
+  const [preprocessed, setPreprocessed] = useState<{ url: string; engine: string } | null>(null);
+  const [preprocessError, setPreprocessError] = useState<string | null>(null);
   // Remove local preserve colors state - now handled in ConversionSettings
   const { toast } = useToast();
 
@@ -96,6 +111,40 @@ export default function SVGPreview({
     }
   }, [svgContent, svgContents, activeFileIndex, batchMode, originalSvg]);
 
+  // Fetch the preprocessed bitmap while it's shown; options change with every slider step,
+  // so wait for them to settle
+  const previewFile = batchMode ? null : files[0] ?? null;
+  useEffect(() => {
+    if (!showPreprocessed || !previewFile || !options) {
+      setPreprocessed(null);
+      return;
+    }
+
+    let cancelled = false;
+    let url: string | null = null;
+    const timer = setTimeout(() => {
+      fetchPreprocessPreview(previewFile, options)
+        .then(({ image, engine }) => {
+          if (cancelled) return;
+          url = URL.createObjectURL(image);
+          setPreprocessed({ url, engine });
+          setPreprocessError(null);
+        })
+        .catch(error => {
+          if (cancelled) return;
+          console.error("Preprocessing preview failed:", error);
+          setPreprocessed(null);
+          setPreprocessError("Could not preprocess this image");
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [showPreprocessed, previewFile, options]);
+
   // Extract colors from SVG for multi-color mode
   useEffect(() => {
     if (activeSvg && multiColorMode) {
@@ -131,26 +180,35 @@ export default function SVGPreview({
     if (!activeSvg) return;
     
     // Create a clean, descriptive filename
-    let filename = 'converted-image.svg';
+    const extension = output?.extension ?? 'svg';
+    let filename = `converted-image.${extension}`;
     
     if (batchMode && files[activeFileIndex]) {
       const originalFile = files[activeFileIndex];
       const baseName = originalFile.name.split('.')[0];
       const timestamp = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
-      filename = `${baseName}-vector-${timestamp}.svg`;
+      filename = `${baseName}-vector-${timestamp}.${extension}`;
     } else if (!batchMode && files && files.length > 0) {
       const baseName = files[0].name.split('.')[0];
       const timestamp = new Date().toISOString().slice(0, 10);
-      filename = `${baseName}-vector-${timestamp}.svg`;
+      filename = `${baseName}-vector-${timestamp}.${extension}`;
     }
     
-    // Add metadata comment to SVG
-    const svgWithMetadata = activeSvg.replace(
-      '<svg',
-      `<!-- Generated by SVG Converter on ${new Date().toLocaleDateString()} -->\n<svg`
-    );
-    
-    const blob = new Blob([svgWithMetadata], { type: 'image/svg+xml;charset=utf-8' });
+    let blob: Blob;
+    if (output) {
+      // Written on the server from the converted SVG, so color edits made here are not included
+      const data = output.encoding === 'base64'
+        ? Uint8Array.from(atob(output.data), char => char.charCodeAt(0))
+        : output.data;
+      blob = new Blob([data], { type: output.mimeType });
+    } else {
+      // Add metadata comment to SVG
+      const svgWithMetadata = activeSvg.replace(
+        '<svg',
+        `<!-- Generated by SVG Converter on ${new Date().toLocaleDateString()} -->\n<svg`
+      );
+      blob = new Blob([svgWithMetadata], { type: 'image/svg+xml;charset=utf-8' });
+    }
     const url = URL.createObjectURL(blob);
     
     const a = document.createElement('a');
@@ -162,11 +220,11 @@ export default function SVGPreview({
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
     
-    const svgSize = (activeSvg.length / 1024).toFixed(1);
+    const fileSize = (blob.size / 1024).toFixed(1);
     
     toast({
       title: "✅ Download successful",
-      description: `SVG file "${filename}" (${svgSize}KB) has been downloaded`,
+      description: `${extension.toUpperCase()} file "${filename}" (${fileSize}KB) has been downloaded`,
     });
   };
 
@@ -389,13 +447,74 @@ export default function SVGPreview({
             <Card className="flex-1 rounded-lg overflow-hidden border">
               {files?.[0] && (
                 <div className="h-full flex items-center justify-center bg-gray-100 relative p-4">
-                  <img 
-                    src={URL.createObjectURL(files[0])} 
-                    alt="Original" 
-                    className="max-w-full max-h-full object-contain"
-                  />
-                  <div className="absolute bottom-2 right-2">
-                    <Badge variant="secondary" className="text-xs">Original</Badge>
+                  {/* Both images fill the same box, so the heatmap lines up with the source pixels */}
+                  <div className="relative w-full h-full">
+                    <img 
+                      src={showPreprocessed && preprocessed ? preprocessed.url : URL.createObjectURL(files[0])} 
+                      alt={showPreprocessed ? "Preprocessed" : "Original"} 
+                      className="absolute inset-0 w-full h-full object-contain"
+                      style={showPreprocessed ? { imageRendering: 'pixelated' } : undefined}
+                      data-testid={showPreprocessed ? "preprocessed-preview" : undefined}
+                    />
+                    {showHeatmap && fidelity && !showPreprocessed && (
+                      <img
+                        src={fidelity.heatmap}
+                        alt="Difference heatmap"
+                        className="absolute inset-0 w-full h-full object-contain opacity-80 pointer-events-none"
+                        style={{ imageRendering: 'pixelated' }}
+                        data-testid="fidelity-heatmap"
+                      />
+                    )}
+                  </div>
+                  {(fidelity || (options && !batchMode)) && (
+                    <div className="absolute top-2 left-2 bg-white/80 backdrop-blur-sm rounded-md border shadow-sm px-2 py-1 flex flex-col gap-1">
+                      {options && !batchMode && (
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            id="preprocessed-preview"
+                            checked={showPreprocessed}
+                            onCheckedChange={setShowPreprocessed}
+                          />
+                          <Label htmlFor="preprocessed-preview" className="text-xs cursor-pointer flex items-center">
+                            <SlidersHorizontal className="h-3 w-3 mr-1" />
+                            Tracer input
+                          </Label>
+                        </div>
+                      )}
+                      {fidelity && !showPreprocessed && (
+                        <div className="flex items-center gap-2">
+                          <Switch
+                            id="fidelity-heatmap"
+                            checked={showHeatmap}
+                            onCheckedChange={setShowHeatmap}
+                          />
+                          <Label htmlFor="fidelity-heatmap" className="text-xs cursor-pointer flex items-center">
+                            <Flame className="h-3 w-3 mr-1" />
+                            Error heatmap
+                          </Label>
+                        </div>
+                      )}
+                      {showPreprocessed && preprocessError && (
+                        <span className="text-xs text-red-600">{preprocessError}</span>
+                      )}
+                    </div>
+                  )}
+                  <div className="absolute bottom-2 right-2 flex space-x-1">
+                    {fidelity && !showPreprocessed && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs bg-white"
+                        title={`Mean color error ${(fidelity.meanError * 100).toFixed(1)}%, ` +
+                          `${(fidelity.changedPixels * 100).toFixed(1)}% of pixels visibly different ` +
+                          `(compared at ${fidelity.width}x${fidelity.height})`}
+                        data-testid="fidelity-score"
+                      >
+                        SSIM {fidelity.ssim.toFixed(3)} · {(fidelity.changedPixels * 100).toFixed(1)}% changed
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className="text-xs">
+                      {showPreprocessed && preprocessed ? `Tracer input (${preprocessed.engine})` : "Original"}
+                    </Badge>
                   </div>
                 </div>
               )}
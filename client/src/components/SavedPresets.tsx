@@ -0,0 +1,214 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SVGOptions } from "@/lib/svg-converter";
+import { parsePresetFile, serializePresets } from "@/lib/conversion-presets";
+import {
+  fetchSavedPresets,
+  createSavedPreset,
+  deleteSavedPreset,
+  SavedPreset
+} from "@/lib/fetch-helpers";
+import { useAuth } from "@/hooks/use-auth";
+import { Bookmark, Save, Trash2, Upload, Download } from "lucide-react";
+
+interface SavedPresetsProps {
+  options: SVGOptions;
+  activePreset: string | null;
+  onApply: (preset: SavedPreset) => void;
+}
+
+export const savedPresetKey = (preset: SavedPreset) => `saved:${preset.id}`;
+
+export default function SavedPresets({ options, activePreset, onApply }: SavedPresetsProps) {
+  const [savedPresets, setSavedPresets] = useState<SavedPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { user } = useAuth();
+
+  // Presets belong to the signed-in account, so reload when it changes
+  useEffect(() => {
+    if (!user) {
+      setSavedPresets([]);
+      return;
+    }
+    fetchSavedPresets()
+      .then(presets => {
+        setSavedPresets(presets);
+        setError(null);
+      })
+      .catch(error => {
+        console.error("Failed to load saved presets:", error);
+        setError("Could not load saved presets");
+      });
+  }, [user?.id]);
+
+  const handleSaveCurrent = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await createSavedPreset({ name, options });
+      setSavedPresets(prev => [...prev, saved]);
+      setPresetName("");
+      setError(null);
+    } catch (error) {
+      console.error("Failed to save preset:", error);
+      setError("Could not save preset");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: SavedPreset) => {
+    try {
+      await deleteSavedPreset(preset.id);
+      setSavedPresets(prev => prev.filter(item => item.id !== preset.id));
+    } catch (error) {
+      console.error("Failed to delete preset:", error);
+      setError(`Could not delete "${preset.name}"`);
+    }
+  };
+
+  const handleExport = () => {
+    const content = serializePresets(
+      savedPresets.map(({ name, description, options }) => ({
+        name,
+        description: description ?? undefined,
+        options
+      }))
+    );
+    const url = URL.createObjectURL(new Blob([content], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "svg-converter-presets.json";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const entries = parsePresetFile(await file.text());
+      const imported: SavedPreset[] = [];
+      for (const entry of entries) {
+        imported.push(await createSavedPreset(entry));
+      }
+      setSavedPresets(prev => [...prev, ...imported]);
+      setError(null);
+    } catch (error) {
+      console.error("Failed to import presets:", error);
+      setError(error instanceof Error && error.message.startsWith("Preset ")
+        ? error.message
+        : "Could not import presets - check the file format");
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = "";
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="mt-4">
+        <h3 className="text-sm font-medium mb-2">Saved Presets</h3>
+        <p className="text-xs text-gray-500">Sign in to save presets to your account.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium">Saved Presets</h3>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => importInputRef.current?.click()}
+            data-testid="import-presets"
+          >
+            <Upload className="h-3 w-3 mr-1" />
+            Import
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={handleExport}
+            disabled={savedPresets.length === 0}
+            data-testid="export-presets"
+          >
+            <Download className="h-3 w-3 mr-1" />
+            Export
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      {savedPresets.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-3">
+          {savedPresets.map(preset => (
+            <div key={preset.id} className="flex items-stretch gap-1">
+              <Button
+                variant={activePreset === savedPresetKey(preset) ? "default" : "outline"}
+                className="flex-1 justify-start text-left h-auto py-2 px-3 overflow-hidden"
+                onClick={() => onApply(preset)}
+                data-testid={`saved-preset-${preset.id}`}
+              >
+                <Bookmark className="h-4 w-4 mr-2 flex-shrink-0" />
+                <span className="font-medium text-sm truncate">{preset.name}</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-auto px-2 text-gray-500 hover:text-red-600"
+                onClick={() => handleDelete(preset)}
+                title={`Delete "${preset.name}"`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSaveCurrent();
+          }}
+          placeholder="Name for current settings"
+          maxLength={100}
+          className="h-8 text-sm"
+          data-testid="preset-name-input"
+        />
+        <Button
+          size="sm"
+          className="h-8"
+          onClick={handleSaveCurrent}
+          disabled={!presetName.trim() || isSaving}
+          data-testid="save-preset"
+        >
+          <Save className="h-3 w-3 mr-1" />
+          Save
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
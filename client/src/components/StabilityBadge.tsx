@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { SVGOptions } from '@/lib/svg-converter';
+import { runStabilityTest, StabilityTestResult } from '@/lib/fetch-helpers';
+
+interface StabilityBadgeProps {
+  file: File | null;
+  options: SVGOptions;
+}
+
+export function StabilityBadge({ file, options }: StabilityBadgeProps) {
+  const [result, setResult] = useState<{ result: StabilityTestResult; report: string } | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
+
+  // A result only describes the file and settings it was run with
+  useEffect(() => {
+    setResult(null);
+    setStatus('idle');
+    setError(null);
+  }, [file, options]);
+
+  const handleRunTest = async () => {
+    if (!file) return;
+
+    setShowReport(false);
+    setStatus('loading');
+    try {
+      setResult(await runStabilityTest(file, options, { iterations: 3, perturb: true }));
+      setStatus('idle');
+    } catch (error) {
+      console.error('Stability test failed:', error);
+      setResult(null);
+      setError(error instanceof Error ? error.message : 'Stability test failed');
+      setStatus('error');
+    }
+  };
+
+  if (!file) return null;
+
+  if (status === 'loading') {
+    return (
+      <Badge variant="outline" className="text-xs">
+        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        Testing IDs...
+      </Badge>
+    );
+  }
+
+  if (!result) {
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        className={`h-6 px-2 text-xs ${status === 'error' ? 'text-red-600' : ''}`}
+        onClick={handleRunTest}
+        title={error || 'Re-convert this image and check that element IDs stay the same'}
+        data-testid="run-stability-test"
+      >
+        <ShieldCheck className="h-3 w-3 mr-1" />
+        {status === 'error' ? 'Retry ID check' : 'Check ID stability'}
+      </Button>
+    );
+  }
+
+  const { consistencyScore, perturbationScore, passed } = result.result;
+  const colorClass = !passed
+    ? 'bg-red-100 text-red-700 border-red-200'
+    : perturbationScore !== undefined && perturbationScore < 80
+      ? 'bg-amber-100 text-amber-700 border-amber-200'
+      : 'bg-green-100 text-green-700 border-green-200';
+
+  return (
+    <>
+      <button type="button" onClick={() => setShowReport(true)} data-testid="stability-badge">
+        <Badge variant="outline" className={`text-xs cursor-pointer ${colorClass}`}>
+          <ShieldCheck className="h-3 w-3 mr-1" />
+          IDs {consistencyScore}% stable
+          {perturbationScore !== undefined && ` · ${perturbationScore}% on tweaks`}
+        </Badge>
+      </button>
+
+      <Dialog open={showReport} onOpenChange={setShowReport}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>ID Stability Report</DialogTitle>
+            <DialogDescription>
+              {file.name} re-converted with identical and slightly tweaked settings
+            </DialogDescription>
+          </DialogHeader>
+          <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap rounded bg-gray-50 p-3 text-xs font-mono">
+            {result.report}
+          </pre>
+          <Button variant="outline" size="sm" className="text-xs" onClick={handleRunTest}>
+            Run again
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,307 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Sparkles, Copy, RotateCcw, Loader2 } from 'lucide-react';
+import { SVGGroup } from '@/components/GroupingPanel';
+import {
+  fetchAnimationTemplates,
+  applyAnimationTemplate,
+  AnimationTemplateSummary,
+  TemplateCategory,
+  TemplateFramework
+} from '@/lib/fetch-helpers';
+
+interface TemplateGalleryProps {
+  svgContent: string;
+  selectedGroup: SVGGroup | null;
+  className?: string;
+}
+
+const CATEGORY_LABELS: Record<TemplateCategory, string> = {
+  motion: 'Motion',
+  attention: 'Attention',
+  entrance: 'Entrance',
+  exit: 'Exit',
+  special: 'Special'
+};
+
+// Templates and preview CSS reference elements by ID, so only CSS-safe IDs can be targeted
+const isTargetableId = (id: string) => /^[A-Za-z_][\w-]*$/.test(id);
+
+export function TemplateGallery({
+  svgContent,
+  selectedGroup,
+  className = ""
+}: TemplateGalleryProps) {
+  const [category, setCategory] = useState<TemplateCategory | 'all'>('all');
+  const [templates, setTemplates] = useState<AnimationTemplateSummary[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [hoveredTemplateId, setHoveredTemplateId] = useState<string | null>(null);
+  const [framework, setFramework] = useState<TemplateFramework>('gsap');
+  const [previewCss, setPreviewCss] = useState<Record<string, string>>({});
+  const [code, setCode] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [replayCount, setReplayCount] = useState(0);
+
+  // Load the template library whenever the category filter changes
+  useEffect(() => {
+    let cancelled = false;
+    fetchAnimationTemplates(category === 'all' ? undefined : category)
+      .then(({ templates }) => {
+        if (cancelled) return;
+        setTemplates(templates);
+        setLoadError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Failed to load animation templates:', error);
+        setLoadError('Could not load animation templates');
+      });
+    return () => { cancelled = true; };
+  }, [category]);
+
+  const previewTemplate = useMemo(() => {
+    const id = hoveredTemplateId || activeTemplateId;
+    return templates.find(template => template.id === id) || null;
+  }, [templates, hoveredTemplateId, activeTemplateId]);
+
+  // Multi-element templates stagger across the group's children, others animate the group itself
+  const getTargetIds = (template: AnimationTemplateSummary): string[] => {
+    if (!selectedGroup) return [];
+    const children = (selectedGroup.children || []).filter(child => child.visible && isTargetableId(child.id));
+    if (template.applies === 'multiple' && children.length > 0) {
+      return children.map(child => child.id);
+    }
+    return isTargetableId(selectedGroup.id) ? [selectedGroup.id] : [];
+  };
+
+  const previewTargetIds = previewTemplate ? getTargetIds(previewTemplate) : [];
+  const previewKey = previewTemplate ? `${previewTemplate.id}|${previewTargetIds.join(',')}` : '';
+
+  // Fetch (and cache) the CSS version of the previewed template for the live preview
+  useEffect(() => {
+    if (!previewTemplate || previewTargetIds.length === 0 || previewCss[previewKey] !== undefined) return;
+
+    applyAnimationTemplate(previewTemplate.id, { elementIds: previewTargetIds, framework: 'css' })
+      .then(result => setPreviewCss(prev => ({ ...prev, [previewKey]: result.code })))
+      .catch(error => console.error('Failed to load template preview:', error));
+    // previewKey already captures the template and target IDs
+  }, [previewKey]);
+
+  const activeTemplate = templates.find(template => template.id === activeTemplateId) || null;
+  const activeTargetIds = activeTemplate ? getTargetIds(activeTemplate) : [];
+  const activeKey = activeTemplate ? `${activeTemplate.id}|${framework}|${activeTargetIds.join(',')}` : '';
+
+  // Generate the exportable code for the chosen template and framework
+  useEffect(() => {
+    if (!activeTemplate || activeTargetIds.length === 0) {
+      setCode('');
+      return;
+    }
+
+    let cancelled = false;
+    setIsGenerating(true);
+    applyAnimationTemplate(activeTemplate.id, { elementIds: activeTargetIds, framework })
+      .then(result => {
+        if (!cancelled) setCode(result.code);
+      })
+      .catch(error => {
+        console.error('Failed to apply animation template:', error);
+        if (!cancelled) setCode('');
+      })
+      .finally(() => {
+        if (!cancelled) setIsGenerating(false);
+      });
+    return () => { cancelled = true; };
+    // activeKey already captures the template, framework and target IDs
+  }, [activeKey]);
+
+  // Isolated document so template selectors never touch the main canvas
+  const previewDocument = useMemo(() => {
+    if (!svgContent || !previewTemplate) return null;
+    const pivotCss = previewTargetIds
+      .map(id => `#${id} { transform-box: fill-box; transform-origin: center; }`)
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    html, body { margin: 0; height: 100%; background: #fff; }
+    body { display: flex; align-items: center; justify-content: center; }
+    svg { width: 100%; height: 100%; }
+    ${pivotCss}
+    ${previewCss[previewKey] || ''}
+  </style>
+</head>
+<body>${svgContent}</body>
+</html>`;
+    // previewKey already captures the template and target IDs
+  }, [svgContent, previewKey, previewCss]);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm flex items-center">
+            <Sparkles className="h-4 w-4 mr-2" />
+            Animation Templates
+          </CardTitle>
+          <Badge variant="outline" className="text-xs">
+            {templates.length} template{templates.length !== 1 ? 's' : ''}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="pt-0 space-y-4">
+        {/* Target */}
+        <div className="text-xs text-gray-600">
+          {selectedGroup ? (
+            <>Target: <span className="font-medium">{selectedGroup.name}</span></>
+          ) : (
+            'Select a layer or group in the Layers panel to preview templates'
+          )}
+        </div>
+
+        {/* Live preview */}
+        <div className="relative border rounded bg-gray-50 h-40 overflow-hidden">
+          {previewDocument && previewTargetIds.length > 0 ? (
+            <iframe
+              key={`${previewKey}|${replayCount}`}
+              srcDoc={previewDocument}
+              sandbox=""
+              className="w-full h-full"
+              title="Template Preview"
+              data-testid="template-preview"
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center text-xs text-gray-500 px-4 text-center">
+              {selectedGroup ? 'Hover a template to preview it' : 'No target selected'}
+            </div>
+          )}
+          {previewDocument && previewTargetIds.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="absolute top-2 right-2 h-6 px-2 text-xs"
+              onClick={() => setReplayCount(count => count + 1)}
+              title="Replay"
+            >
+              <RotateCcw className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+
+        {/* Category filter */}
+        <div className="space-y-1">
+          <Label className="text-xs font-medium">Category</Label>
+          <Select value={category} onValueChange={(value) => setCategory(value as TemplateCategory | 'all')}>
+            <SelectTrigger className="h-8 text-xs" data-testid="template-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All templates</SelectItem>
+              {(Object.keys(CATEGORY_LABELS) as TemplateCategory[]).map(key => (
+                <SelectItem key={key} value={key}>{CATEGORY_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Template list */}
+        {loadError ? (
+          <div className="text-xs text-red-600">{loadError}</div>
+        ) : (
+          <div
+            className="space-y-1 max-h-56 overflow-y-auto"
+            onMouseLeave={() => setHoveredTemplateId(null)}
+          >
+            {templates.map(template => (
+              <button
+                key={template.id}
+                type="button"
+                className={`w-full text-left rounded border px-2 py-1.5 transition-colors ${
+                  activeTemplateId === template.id ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+                onMouseEnter={() => setHoveredTemplateId(template.id)}
+                onClick={() => setActiveTemplateId(template.id)}
+                data-testid={`template-${template.id}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium">{template.name}</span>
+                  <Badge variant="secondary" className="text-xs h-4 px-1">
+                    {template.duration}s
+                  </Badge>
+                </div>
+                <div className="text-xs text-gray-500">{template.preview}</div>
+              </button>
+            ))}
+            {templates.length === 0 && (
+              <div className="text-xs text-gray-500 text-center py-2">No templates in this category</div>
+            )}
+          </div>
+        )}
+
+        {/* Generated code */}
+        {activeTemplate && (
+          <div className="space-y-2 pt-2 border-t">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs font-medium">{activeTemplate.name}</Label>
+              <Select value={framework} onValueChange={(value) => setFramework(value as TemplateFramework)}>
+                <SelectTrigger className="h-7 w-28 text-xs" data-testid="template-framework">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gsap">GSAP</SelectItem>
+                  <SelectItem value="css">CSS</SelectItem>
+                  <SelectItem value="waapi">Web API</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="relative">
+              <Textarea
+                value={isGenerating ? '' : code || '// Select a target to generate code'}
+                readOnly
+                className="font-mono text-xs h-32 resize-none bg-gray-50"
+                data-testid="template-code"
+              />
+              {isGenerating ? (
+                <Loader2 className="absolute top-2 right-2 h-4 w-4 animate-spin text-gray-400" />
+              ) : code && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={copyCode}
+                  className="absolute top-2 right-2 h-6 px-2 text-xs"
+                  data-testid="copy-template-code"
+                >
+                  {copied ? (
+                    <>✓ Copied</>
+                  ) : (
+                    <><Copy className="w-3 h-3 mr-1" />Copy</>
+                  )}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useRef, Dispatch, SetStateAction } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { SVGOptions } from "@/lib/svg-converter";
+import { toEngineChoice, type ConversionResult, type EngineChoice } from "@/lib/fetch-helpers";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -17,7 +18,8 @@ export async function convertImageWithOptions(
   }>>,
   isBatch = false,
   fileIndex = 0,
-  batchLength = 1
+  batchLength = 1,
+  onResult?: (result: ConversionResult) => void
 ): Promise<string | null> {
   // Set detailed loading status for better UX
   const fileName = file.name || 'image';
@@ -55,7 +57,8 @@ export async function convertImageWithOptions(
       throw new Error(errorData.error || `Error: ${response.status} ${response.statusText}`);
     }
 
-    const data = await response.json();
+    const data: ConversionResult = await response.json();
+    onResult?.(data);
     
     console.log("Received SVG data:", !!data.svg, data.svg ? data.svg.substring(0, 100) + "..." : "No SVG data");
     
@@ -112,6 +115,8 @@ interface UploadAreaProps {
   setSvgContent: Dispatch<SetStateAction<string | null>>;
   setSvgContents: Dispatch<SetStateAction<(string | null)[]>>;
   setActiveFileIndex: Dispatch<SetStateAction<number>>;
+  setEngineChoice?: Dispatch<SetStateAction<EngineChoice | null>>;
+  onConversionResult?: (result: ConversionResult) => void;
   options: SVGOptions;
 }
 
@@ -124,6 +129,8 @@ export default function UploadArea({
   setSvgContent,
   setSvgContents,
   setActiveFileIndex,
+  setEngineChoice,
+  onConversionResult,
   options
 }: UploadAreaProps) {
   const [isDragging, setIsDragging] = useState(false);
@@ -233,7 +240,11 @@ export default function UploadArea({
       setConversionStatus,
       isBatch,
       fileIndex,
-      selectedFiles.length
+      selectedFiles.length,
+      isBatch ? undefined : result => {
+        setEngineChoice?.(toEngineChoice(result));
+        onConversionResult?.(result);
+      }
     );
     
     if (svgData) {
@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  email: string;
+}
+
+export interface LoginData {
+  username: string;
+  password: string;
+}
+
+export interface RegisterData extends LoginData {
+  email: string;
+}
+
+const USER_QUERY_KEY = ["/api/user"];
+
+// Pull the server's error message out of apiRequest's "<status>: <body>" errors
+export function getAuthErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    if (Array.isArray(parsed.details) && parsed.details[0]?.message) {
+      return parsed.details[0].message;
+    }
+    return parsed.error || body;
+  } catch {
+    return body;
+  }
+}
+
+export function useAuth() {
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (user) => queryClient.setQueryData(USER_QUERY_KEY, user),
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData) => {
+      const res = await apiRequest("POST", "/api/register", data);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: (user) => queryClient.setQueryData(USER_QUERY_KEY, user),
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => queryClient.setQueryData(USER_QUERY_KEY, null),
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
@@ -44,6 +44,16 @@ export interface GeneratedCode {
   preview?: string; // HTML preview code
 }
 
+export interface EngineTimelineEntry {
+  elementId: string;
+  property: 'position' | 'rotation' | 'scale' | 'opacity' | 'color' | 'path';
+  start: number; // Seconds
+  duration: number; // Seconds
+  keyframes: Array<{ time: number; value: any }>;
+  easing?: string;
+  loop?: boolean;
+}
+
 /**
  * GSAP Code Generator - Professional animation library
  */
@@ -837,4 +847,83 @@ export function generateReactCode(elements: AnimationElement[], options: CodeGen
 export default function AnimatedSVG() {
   return <div>React component generator in development</div>;
 }`;
-}
\ No newline at end of file
+}
+
+/**
+ * Game Engine Timeline Generator - Same motion as the web exports, as keyframe tracks
+ * Values use SVG conventions (clockwise degrees, y down, position offsets in SVG units)
+ */
+export function generateEngineTimeline(
+  elements: AnimationElement[],
+  options: CodeGeneratorOptions
+): EngineTimelineEntry[] {
+  const stagger = options.stagger || 0.1;
+  const timeline: EngineTimelineEntry[] = [];
+
+  elements.forEach((element, index) => {
+    const base = {
+      elementId: element.id,
+      start: options.animationType === 'hover' ? 0 : index * stagger,
+      duration: options.duration,
+      easing: options.easing
+    };
+    const fromTo = (from: any, to: any) => [{ time: 0, value: from }, { time: 1, value: to }];
+
+    switch (options.animationType) {
+      case 'entrance':
+        timeline.push(
+          { ...base, property: 'opacity', keyframes: fromTo(0, 1) },
+          { ...base, property: 'scale', keyframes: fromTo(0.3, 1) },
+          { ...base, property: 'rotation', keyframes: fromTo(-180, 0) }
+        );
+        break;
+      case 'loop':
+        timeline.push({ ...base, property: 'rotation', keyframes: fromTo(0, 360), easing: 'none', loop: true });
+        break;
+      case 'hover':
+      case 'click':
+        timeline.push(
+          { ...base, property: 'scale', keyframes: [{ time: 0, value: 1 }, { time: 0.5, value: 1.1 }, { time: 1, value: 1 }] },
+          { ...base, property: 'rotation', keyframes: [{ time: 0, value: 0 }, { time: 0.5, value: 5 }, { time: 1, value: 0 }] }
+        );
+        break;
+      case 'scroll':
+        timeline.push(
+          { ...base, property: 'opacity', keyframes: fromTo(0, 1) },
+          { ...base, property: 'position', keyframes: fromTo({ x: 0, y: 50 }, { x: 0, y: 0 }) }
+        );
+        break;
+      default:
+        // Draw-on has no engine equivalent for sprites, so it falls back to a fade
+        timeline.push(
+          { ...base, property: 'opacity', keyframes: fromTo(0, 1) },
+          { ...base, property: 'scale', keyframes: fromTo(0.8, 1) }
+        );
+    }
+  });
+
+  return timeline;
+}
+
+/**
+ * Lottie Timeline Generator - The engine tracks, except that draw-on becomes a 0-1 path
+ * track per element, which the Lottie export turns into trim paths
+ */
+export function generateLottieTimeline(
+  elements: AnimationElement[],
+  options: CodeGeneratorOptions
+): EngineTimelineEntry[] {
+  if (options.animationType !== 'drawon') {
+    return generateEngineTimeline(elements, options);
+  }
+
+  const stagger = options.stagger || 0.1;
+  return elements.map((element, index) => ({
+    elementId: element.id,
+    property: 'path' as const,
+    start: index * stagger,
+    duration: options.duration,
+    keyframes: [{ time: 0, value: 0 }, { time: 1, value: 1 }],
+    easing: options.easing
+  }));
+}
@@ -1,4 +1,4 @@
-import { SVGOptions } from "./svg-converter";
+import { SVGOptions, initialSVGOptions } from "./svg-converter";
 
 export type PresetCategory = 
   | "logo" 
@@ -228,6 +228,7 @@ export const presets: Preset[] = [
       fillGaps: false,
       clipOverflow: false,
       nonScalingStroke: true,
+      expandStrokes: true, // Cutters and stroke-less renderers need filled outlines
       turdSize: 8, // Aggressively remove small details
       alphaMax: 1.5, // Very smooth corners
       optTolerance: 0.5, // Heavy simplification
@@ -254,7 +255,7 @@ export const presets: Preset[] = [
     name: "Print Media",
     description: "Precise color and high-quality vector paths suitable for printing",
     options: {
-      fileFormat: "svg",
+      fileFormat: "pdf", // Print shops take PDF; each color becomes a PDF layer
       svgVersion: "1.1",
       drawStyle: "fillShapes",
       strokeWidth: 0.25,
@@ -316,4 +317,39 @@ export function applyPreset(preset: Preset): SVGOptions {
   }
   
   return options;
-}
\ No newline at end of file
+}
+
+// Shareable preset file format
+export const PRESET_FILE_VERSION = 1;
+
+export interface PresetFileEntry {
+  name: string;
+  description?: string;
+  options: SVGOptions;
+}
+
+export function serializePresets(entries: PresetFileEntry[]): string {
+  return JSON.stringify({ version: PRESET_FILE_VERSION, presets: entries }, null, 2);
+}
+
+/**
+ * Parse a preset file. Accepts a single preset or a { presets: [...] } bundle;
+ * options missing from older files fall back to the current defaults.
+ */
+export function parsePresetFile(content: string): PresetFileEntry[] {
+  const data = JSON.parse(content);
+  const entries: unknown[] = Array.isArray(data?.presets) ? data.presets : [data];
+
+  return entries.map((entry, index) => {
+    const candidate = entry as Partial<PresetFileEntry> | null;
+    if (!candidate || typeof candidate.name !== "string" || !candidate.name.trim() ||
+        typeof candidate.options !== "object" || candidate.options === null) {
+      throw new Error(`Preset ${index + 1} is missing a name or options`);
+    }
+    return {
+      name: candidate.name.trim(),
+      description: typeof candidate.description === "string" ? candidate.description : undefined,
+      options: { ...initialSVGOptions, ...candidate.options }
+    };
+  });
+}
@@ -1,4 +1,119 @@
 // Helper functions for API requests
+import type { EngineTimelineEntry, PivotPoint } from './code-generators';
+import type { SVGOptions } from './svg-converter';
+
+export interface ColorAnalysis {
+  isColorImage: boolean;
+  colorComplexity: number;
+  distinctColors: number;
+  entropy: number;
+  dominantColors: Array<{ color: string; coverage: number }>;
+  hasAlpha: boolean;
+  transparentRatio: number;
+  edgeDensity: number;
+  antiAliasing: number;
+  flatness: number;
+  suggestedNumberOfColors: number;
+  recommendedEngine: 'potrace' | 'imagetracer' | 'potrace-color';
+  reason: string;
+}
+
+// Which engine traced the image; analysis is only present when the engine was picked automatically
+export interface EngineChoice {
+  engine: 'potrace' | 'imagetracer' | 'potrace-color' | 'svg';
+  analysis?: ColorAnalysis;
+}
+
+export interface ComplexityAnalysis {
+  totalNodes: number;
+  pathNodes: number;
+  groupNodes: number;
+  complexityScore: number;
+  complexity: 'low' | 'medium' | 'high';
+  estimatedFPS: number;
+  recommendations: string[];
+  potentialReduction: number;
+  pointCount: number;
+  visualError?: number;
+}
+
+// Produced by the server's animation processing when animationMode is on
+export interface AnimationMetadata {
+  elementCount: number;
+  groupCount: number;
+  pathCount: number;
+  hasTransforms: boolean;
+  complexity: 'low' | 'medium' | 'high';
+  animationReadiness: number; // 0-100
+  viewBox?: { x: number; y: number; width: number; height: number; aspectRatio: number };
+  colors?: Array<{ color: string; usage: number }>;
+  pathLengths?: Array<{
+    pathId: string;
+    length: number;
+    hasStroke: boolean;
+    strokeWidth: string;
+    strokeColor: string;
+  }>;
+  accessibility?: {
+    hasRole: boolean;
+    hasTitle: boolean;
+    hasDescription: boolean;
+    hasReducedMotionSupport: boolean;
+    elementCount: number;
+    interactiveElements: number;
+  };
+  performance?: ComplexityAnalysis;
+  optimizationResult?: {
+    beforeAnalysis: ComplexityAnalysis;
+    afterAnalysis: ComplexityAnalysis;
+    reductionAchieved: number;
+    optimizationsApplied: string[];
+  };
+}
+
+export interface ConversionTimings {
+  analysisMs: number;
+  traceMs: number;
+  fidelityMs: number;
+  outputMs: number;
+  totalMs: number;
+}
+
+// Rasterized result compared with the source bitmap, when scoreFidelity is on
+export interface FidelityReport {
+  ssim: number; // 0-1
+  meanError: number; // 0-1
+  maxError: number;
+  changedPixels: number; // Share of pixels, 0-1
+  width: number;
+  height: number;
+  heatmap: string; // PNG data URL
+}
+
+// The result in a non-SVG fileFormat, downloaded in place of the SVG
+export interface ConversionOutput {
+  format: string;
+  mimeType: string;
+  extension: string;
+  encoding: 'utf8' | 'base64';
+  data: string;
+}
+
+// /api/convert response; SVG uploads come back without analysis or timings
+export interface ConversionResult extends Partial<EngineChoice> {
+  svg: string;
+  metadata?: AnimationMetadata;
+  fidelity?: FidelityReport;
+  timings?: ConversionTimings;
+  output?: ConversionOutput;
+}
+
+/**
+ * The engine part of a conversion result, or null when no engine ran
+ */
+export function toEngineChoice(result: ConversionResult): EngineChoice | null {
+  return result.engine ? { engine: result.engine, analysis: result.analysis } : null;
+}
 
 /**
  * Upload and convert an image to SVG
@@ -6,7 +121,7 @@
 export async function convertImageToSVG(
   file: File,
   options: Record<string, any>
-): Promise<{ svg: string }> {
+): Promise<ConversionResult> {
   const formData = new FormData();
   formData.append('image', file);
 
@@ -34,6 +149,41 @@ export async function convertImageToSVG(
   return response.json();
 }
 
+/**
+ * Fetch the bitmap the tracer will see after preprocessing, as a PNG blob
+ */
+export async function fetchPreprocessPreview(
+  file: File,
+  options: Record<string, any>
+): Promise<{ image: Blob; engine: Exclude<EngineChoice['engine'], 'svg'> }> {
+  const formData = new FormData();
+  formData.append('image', file);
+
+  Object.entries(options).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      formData.append(key, value.join(','));
+    } else {
+      formData.append(key, value.toString());
+    }
+  });
+
+  const response = await fetch('/api/preprocess-preview', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return {
+    image: await response.blob(),
+    engine: (response.headers.get('X-Trace-Engine') ?? 'potrace') as Exclude<EngineChoice['engine'], 'svg'>,
+  };
+}
+
 /**
  * Apply color to SVG content
  */
@@ -79,3 +229,456 @@ export async function setSvgBackground(
 
   return response.json();
 }
+
+/**
+ * Export an animation rig bundle (rig JSON, script and sprites) for a game engine
+ */
+export async function exportGameEngineBundle(payload: {
+  svg: string;
+  engine: 'unity' | 'godot' | 'generic';
+  includeSprites: boolean;
+  duration?: number;
+  loop?: boolean;
+  pivotPoints: PivotPoint[];
+  timeline: EngineTimelineEntry[];
+}): Promise<Blob> {
+  const response = await fetch('/api/export/game-engine', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.blob();
+}
+
+/**
+ * Export the animation as Lottie JSON for lottie-web and the mobile players
+ */
+export async function exportLottieAnimation(payload: {
+  svg: string;
+  name?: string;
+  frameRate?: number;
+  pivotPoints: PivotPoint[];
+  timeline: EngineTimelineEntry[];
+}): Promise<Blob> {
+  const response = await fetch('/api/export/lottie', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.blob();
+}
+
+export type TemplateCategory = 'motion' | 'attention' | 'entrance' | 'exit' | 'special';
+export type TemplateFramework = 'gsap' | 'css' | 'waapi';
+
+export interface AnimationTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  category: TemplateCategory;
+  duration: number;
+  easing: string;
+  applies: 'single' | 'multiple' | 'group';
+  preview: string;
+}
+
+/**
+ * Fetch the animation template library, optionally filtered by category
+ */
+export async function fetchAnimationTemplates(
+  category?: TemplateCategory
+): Promise<{ templates: AnimationTemplateSummary[] }> {
+  const query = category ? `?category=${encodeURIComponent(category)}` : '';
+  const response = await fetch(`/api/animation/templates${query}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Generate animation template code for the given elements
+ */
+export async function applyAnimationTemplate(
+  templateId: string,
+  payload: {
+    elementIds: string[];
+    framework: TemplateFramework;
+    stagger?: number;
+  }
+): Promise<{ templateId: string; framework: TemplateFramework; elementIds: string[]; code: string }> {
+  const response = await fetch(`/api/animation/templates/${encodeURIComponent(templateId)}/apply`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export interface PathMorphResponse {
+  svg: string;
+  code: { gsap: string; css: string; waapi: string };
+  tracks: Array<{ id: string; sourceId: string | null; targetId: string | null; compatibility: number }>;
+  stats: {
+    sourcePaths: number;
+    targetPaths: number;
+    matched: number;
+    unmatchedSource: number;
+    unmatchedTarget: number;
+    averageCompatibility: number;
+  };
+  engines: { source: string; target: string };
+}
+
+/**
+ * Convert two images and build a plugin-free path morph between them
+ */
+export async function createPathMorph(
+  source: File,
+  target: File,
+  options: Record<string, any>,
+  morphOptions: {
+    pointCount: number;
+    duration: number;
+    stagger: number;
+    loop: boolean;
+  }
+): Promise<PathMorphResponse> {
+  const formData = new FormData();
+  formData.append('source', source);
+  formData.append('target', target);
+
+  // Conversion options apply to both images
+  Object.entries({ ...options, ...morphOptions }).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      formData.append(key, value.join(','));
+    } else {
+      formData.append(key, value.toString());
+    }
+  });
+
+  const response = await fetch('/api/animation/morph', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export interface StabilityTestResult {
+  testId: string;
+  timestamp: string;
+  passed: boolean;
+  consistencyScore: number;
+  perturbationScore?: number;
+  engine?: string;
+  details: {
+    totalTests: number;
+    passedTests: number;
+    failedTests: number;
+    averageVariation: number;
+    maxVariation: number;
+  };
+  scenarios?: Array<{ conversionAttempt: number; name: string; elementCount: number; matchRate: number }>;
+  recommendations: string[];
+}
+
+/**
+ * Re-convert an image several times and check that its animation IDs stay stable
+ */
+export async function runStabilityTest(
+  file: File,
+  options: Record<string, any>,
+  testOptions: { iterations: number; perturb: boolean }
+): Promise<{ result: StabilityTestResult; report: string }> {
+  const formData = new FormData();
+  formData.append('image', file);
+
+  Object.entries({ ...options, ...testOptions }).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      formData.append(key, value.join(','));
+    } else {
+      formData.append(key, value.toString());
+    }
+  });
+
+  const response = await fetch('/api/animation/stability-test', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export interface SearchGoal {
+  maxBytes?: number;
+  maxPaths?: number;
+  maxError?: number; // Mean color error, 0-1
+}
+
+export interface SearchCandidate {
+  engine: 'potrace' | 'imagetracer';
+  parameters: Partial<Pick<SVGOptions, 'turdSize' | 'optTolerance' | 'numberOfColors' | 'ltres' | 'qtres' | 'pathomit' | 'blurRadius'>>;
+  bytes: number;
+  paths: number;
+  error: number;
+  ssim: number;
+  meetsGoal: boolean;
+}
+
+export interface ParameterSearchResult {
+  goal: SearchGoal;
+  front: SearchCandidate[]; // Smallest first, each more accurate than the last
+  recommended: SearchCandidate;
+  evaluated: number;
+  skippedEngines: { engine: 'potrace' | 'imagetracer'; reason: string }[]; // Engines that could not trace at all
+  searchScale: number;
+  durationMs: number;
+}
+
+/**
+ * Search for tracing settings that meet a size, path count or error goal
+ */
+export async function searchConversionParameters(
+  file: File,
+  options: Record<string, any>,
+  goal: SearchGoal
+): Promise<ParameterSearchResult> {
+  const formData = new FormData();
+  formData.append('image', file);
+
+  Object.entries({ ...options, ...goal }).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      formData.append(key, value.join(','));
+    } else {
+      formData.append(key, value.toString());
+    }
+  });
+
+  const response = await fetch('/api/optimize-parameters', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  const { result } = await response.json();
+  return result;
+}
+
+export interface ConversionHistoryItem {
+  id: number;
+  userId: number | null;
+  originalFilename: string;
+  outputFormat: string;
+  createdAt: string;
+  optionsId: number | null;
+  sourceHash: string;
+  engine: string;
+  outputSize: number;
+  options: Record<string, unknown> | null;
+}
+
+export interface ConversionHistoryPage {
+  items: ConversionHistoryItem[];
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Fetch a page of past conversions, newest first
+ */
+export async function fetchConversionHistory(page: number = 1, limit: number = 20): Promise<ConversionHistoryPage> {
+  const params = new URLSearchParams({ page: page.toString(), limit: limit.toString() });
+  const response = await fetch(`/api/history?${params.toString()}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * URL that re-downloads the SVG produced by a past conversion
+ */
+export function getHistoryDownloadUrl(id: number): string {
+  return `/api/history/${id}/download`;
+}
+
+export interface SavedPreset {
+  id: number;
+  name: string;
+  description: string | null;
+  options: SVGOptions;
+}
+
+export interface SavedPresetInput {
+  name: string;
+  description?: string;
+  options: SVGOptions;
+}
+
+/**
+ * Fetch the presets saved on the server
+ */
+export async function fetchSavedPresets(): Promise<SavedPreset[]> {
+  const response = await fetch('/api/presets');
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  const { presets } = await response.json();
+  return presets;
+}
+
+/**
+ * Save a new named preset
+ */
+export async function createSavedPreset(preset: SavedPresetInput): Promise<SavedPreset> {
+  const response = await fetch('/api/presets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(preset),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  const { preset: saved } = await response.json();
+  return saved;
+}
+
+/**
+ * Replace the name, description and options of a saved preset
+ */
+export async function updateSavedPreset(id: number, preset: SavedPresetInput): Promise<SavedPreset> {
+  const response = await fetch(`/api/presets/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(preset),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  const { preset: saved } = await response.json();
+  return saved;
+}
+
+/**
+ * Delete a saved preset
+ */
+export async function deleteSavedPreset(id: number): Promise<void> {
+  const response = await fetch(`/api/presets/${id}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+}
+
+export interface ApiKeySummary {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+/**
+ * Fetch the signed-in user's API keys (without their secret values)
+ */
+export async function fetchApiKeys(): Promise<ApiKeySummary[]> {
+  const response = await fetch('/api/keys');
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  const { apiKeys } = await response.json();
+  return apiKeys;
+}
+
+/**
+ * Create an API key - the returned key is the only time its value is available
+ */
+export async function createApiKey(name: string): Promise<{ apiKey: ApiKeySummary; key: string }> {
+  const response = await fetch('/api/keys', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Revoke an API key
+ */
+export async function deleteApiKey(id: number): Promise<void> {
+  const response = await fetch(`/api/keys/${id}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Error: ${response.status} ${response.statusText}`);
+  }
+}
@@ -12,6 +12,22 @@ export type SettingId =
   | "drawStyle"
   | "strokeWidth"
   | "traceEngine"
+
+  // DXF options
+  | "dxfUnits"
+  | "dxfScale"
+
+  // PNG/WebP options
+  | "rasterMode"
+  | "rasterPadding"
+  | "rasterBackground"
+
+  // HPGL/G-code options
+  | "toolpathTolerance"
+  | "toolDiameter"
+  | "toolpathFeedRates"
+  | "toolpathZ"
+  | "toolpathScale"
   
   // Potrace specific options
   | "shapeStacking"
@@ -43,7 +59,24 @@ export type SettingId =
   | "roundcoords"
   
   // Custom palette option
-  | "customPalette";
+  | "customPalette"
+
+  // Transparency options
+  | "removeBackground"
+  | "backgroundTolerance"
+
+  // Preprocessing options
+  | "crop"
+  | "rotation"
+  | "upscaleTo"
+  | "denoise"
+  | "autoLevels"
+  | "contrast"
+  | "posterize"
+  | "thresholdMode"
+
+  // Animation mode options
+  | "simplifyTolerance";
 
 interface SettingHelpText {
   title: string;
@@ -59,7 +92,7 @@ export const settingsHelpText: Record<SettingId, SettingHelpText> = {
     tips: (
       <>
         <strong>SVG</strong>: Best for web, scales infinitely, supports animations and interactivity. <br />
-        <strong>PDF/EPS</strong>: Ideal for print, widely supported in design applications. <br />
+        <strong>PDF/EPS</strong>: Ideal for print, widely supported in design applications. PDF keeps each color as a layer. <br />
         <strong>DXF</strong>: Used primarily for CAD and CNC applications. <br />
         <strong>PNG</strong>: Creates raster image with transparency, not scalable like vector formats.
       </>
@@ -78,6 +111,123 @@ export const settingsHelpText: Record<SettingId, SettingHelpText> = {
       </>
     )
   },
+
+  dxfUnits: {
+    title: "DXF Units",
+    description:
+      "The drawing units written into the DXF. One image pixel is treated as 1/96 inch, the same size browsers give it.",
+    tips: (
+      <>
+        <strong>Millimeters</strong>: What most laser cutters and CAD tools expect. <br />
+        <strong>Inches</strong>: For US machines and shop drawings. <br />
+        <strong>Pixels</strong>: Keeps the coordinates of the SVG, with no unit set.
+      </>
+    )
+  },
+
+  dxfScale: {
+    title: "DXF Scale",
+    description:
+      "Multiplies the size of the drawing after the unit conversion.",
+    tips: (
+      <>
+        <strong>1</strong>: Actual size at 96 pixels per inch. <br />
+        <strong>Pro tip</strong>: To cut a 600 px wide trace at 150 mm, use millimeters and a scale of 150 / 158.75 = 0.945.
+      </>
+    )
+  },
+
+  rasterMode: {
+    title: "Image Sizes",
+    description:
+      "The traced vectors are rendered back to pixels at each size, so even a tiny source comes out sharp. More than one size downloads as a ZIP.",
+    tips: (
+      <>
+        <strong>Scales</strong>: Multiples of the traced size, such as @1x, @2x and @3x for screens. <br />
+        <strong>Sizes</strong>: Exact widths (512) or boxes (512x256) in pixels. <br />
+        <strong>App icon set</strong>: favicon.ico, apple-touch-icon.png and the Android launcher mipmaps in one ZIP.
+      </>
+    )
+  },
+
+  rasterPadding: {
+    title: "Padding",
+    description:
+      "Empty space around the artwork on every edge, as a percent of the image's short side.",
+    tips: (
+      <>
+        <strong>0%</strong>: The artwork touches the edges. <br />
+        <strong>10-20%</strong>: Typical for app icons, which platforms crop to rounded shapes.
+      </>
+    )
+  },
+
+  rasterBackground: {
+    title: "Background",
+    description:
+      "Fill behind the artwork in the rendered images. A background added with the preview's transparency toggle is part of the SVG and is always drawn.",
+    tips: (
+      <>
+        <strong>Transparent</strong>: Keeps the alpha channel. <br />
+        <strong>Color</strong>: Flattens onto a solid color. The Apple touch icon is always flattened, onto white when transparent.
+      </>
+    )
+  },
+
+  toolpathTolerance: {
+    title: "Curve Tolerance",
+    description:
+      "Plotters and CNC controllers move in straight lines, so curves are split into short segments that stay within this distance (mm) of the true curve.",
+    tips: (
+      <>
+        <strong>0.01-0.05 mm</strong>: Smooth curves for cutting and engraving. <br />
+        <strong>0.1-0.2 mm</strong>: Smaller files for pen plotting, where the pen width hides the facets.
+      </>
+    )
+  },
+
+  toolDiameter: {
+    title: "Kerf / Tool Diameter",
+    description:
+      "Width of material the blade, laser or bit removes (mm). Outlines move out by half of it and holes move in, so parts come out at their drawn size.",
+    tips: (
+      <>
+        <strong>0</strong>: Cut exactly on the line (pens and drag knives). <br />
+        <strong>Laser</strong>: Typically 0.1-0.2 mm. <br />
+        <strong>Router</strong>: The bit diameter. Holes narrower than the bit are left out.
+      </>
+    )
+  },
+
+  toolpathFeedRates: {
+    title: "Feed Rates",
+    description:
+      "Cutting speed in mm/min for each color group, in order, separated by commas. Groups beyond the list use the last value. Each group is its own pen in HPGL and its own pass in G-code.",
+    tips: (
+      <>
+        <strong>Example</strong>: 1200,600 cuts the first color fast and every other color at 600 mm/min. <br />
+        <strong>G-code</strong>: The machine pauses (M0) before each new color group so you can change tools.
+      </>
+    )
+  },
+
+  toolpathZ: {
+    title: "Z Heights and Plunge",
+    description:
+      "G-code only: the tool travels at the safe height, drops to the cut height at the plunge rate, and cuts. Heights are in mm from the work surface.",
+    tips: (
+      <>
+        <strong>Pen plotters</strong>: Cut height 0 and a small safe height such as 2. <br />
+        <strong>Routers</strong>: A negative cut height sets the depth of the cut.
+      </>
+    )
+  },
+
+  toolpathScale: {
+    title: "Toolpath Scale",
+    description:
+      "Multiplies the size of the toolpaths. At 1, one image pixel is 1/96 inch (0.265 mm).",
+  },
   
   drawStyle: {
     title: "Draw Style",
@@ -140,7 +290,8 @@ export const settingsHelpText: Record<SettingId, SettingHelpText> = {
       <>
         <strong>Lines</strong>: Straight line segments only (most compatible, angular result). <br />
         <strong>Quadratic/Cubic Bezier</strong>: Curved lines with control points (smoother results). <br />
-        <strong>Arcs</strong>: Circle and ellipse segments (good for mechanical drawings). <br />
+        <strong>Arcs</strong>: Circle and ellipse segments (good for mechanical drawings). With Lines and Arcs only, curved runs are fitted with true arcs for CNC and plotters. <br />
+        Curves of a type you turn off are approximated with the allowed types, so shapes keep their outline. <br />
         <strong>Pro tip</strong>: For simplest output, use only Lines. For smoothest results, use all types.
       </>
     )
@@ -207,6 +358,7 @@ export const settingsHelpText: Record<SettingId, SettingHelpText> = {
       <>
         <strong>Auto</strong>: Automatically selects the best engine based on your image (recommended). <br />
         <strong>Potrace</strong>: Excellent for black & white images, logos, and line art. <br />
+        <strong>Layered Potrace</strong>: Splits flat color artwork into one layer per color and traces each with Potrace - the smoothest curves for color logos. <br />
         <strong>ImageTracer</strong>: Better for color images, photographs, and detailed illustrations.
       </>
     )
@@ -421,4 +573,148 @@ export const settingsHelpText: Record<SettingId, SettingHelpText> = {
       </>
     )
   },
+
+  // Transparency options
+  removeBackground: {
+    title: "Remove Background",
+    description:
+      "Clears the solid color surrounding the artwork before tracing by flood-filling from the image corners. Transparent areas of the source are always left empty.",
+    tips: (
+      <>
+        <strong>Enable</strong> for logos and products photographed or scanned on a plain background. <br />
+        <strong>Disable</strong> when the background color also appears inside the artwork and touches the edges.
+      </>
+    )
+  },
+
+  backgroundTolerance: {
+    title: "Background Tolerance",
+    description:
+      "How different a color can be from the corner color and still count as background (0-100).",
+    tips: (
+      <>
+        <strong>Low values</strong> (2-8): Only the exact background color is removed. <br />
+        <strong>Medium values</strong> (10-20): Handles paper texture, JPEG noise and soft shadows. <br />
+        <strong>High values</strong> (30+): Risks eating into light parts of the artwork. <br />
+        <strong>Pro tip</strong>: Edges just beyond the tolerance are faded rather than cut, so anti-aliasing stays smooth.
+      </>
+    )
+  },
+
+  // Preprocessing options
+  crop: {
+    title: "Crop",
+    description:
+      "Trace only part of the image. Enter the region as left, top, width, height in source pixels.",
+    tips: (
+      <>
+        <strong>Example</strong>: 100,50,400,300 keeps a 400x300 region starting 100px from the left and 50px from the top. <br />
+        <strong>Pro tip</strong>: Leave empty to trace the whole image.
+      </>
+    )
+  },
+
+  rotation: {
+    title: "Rotation",
+    description:
+      "Rotate the image before tracing. Deskew detects small tilts in scans of text or line art and straightens them.",
+    tips: (
+      <>
+        <strong>Rotation</strong>: Degrees clockwise; uncovered corners stay transparent. <br />
+        <strong>Deskew</strong>: Corrects tilts of up to 15 degrees, on top of the rotation.
+      </>
+    )
+  },
+
+  upscaleTo: {
+    title: "Upscale Small Images",
+    description:
+      "Enlarges images whose long side is below the target before tracing, so icons and thumbnails trace into smoother curves.",
+    tips: (
+      <>
+        <strong>Off</strong> (0): Trace at the original size. <br />
+        <strong>1024-2048</strong>: Good for icons, favicons and low-resolution logos. <br />
+        <strong>Pro tip</strong>: The SVG is drawn at the upscaled size.
+      </>
+    )
+  },
+
+  denoise: {
+    title: "Denoise",
+    description:
+      "Median filter that removes speckles and JPEG noise while keeping edges sharp.",
+    tips: (
+      <>
+        <strong>Off</strong> (0): No filtering. <br />
+        <strong>3-5</strong>: Cleans scans and photos of printed material. <br />
+        <strong>7+</strong>: Heavy smoothing; thin lines may disappear.
+      </>
+    )
+  },
+
+  autoLevels: {
+    title: "Levels",
+    description:
+      "Remaps brightness so the chosen black and white points become pure black and white. Auto levels picks them from the image.",
+    tips: (
+      <>
+        <strong>Auto levels</strong>: Fixes faded scans and washed-out photos. <br />
+        <strong>Black/white point</strong>: Raise the black point to darken faint lines, lower the white point to clean paper texture.
+      </>
+    )
+  },
+
+  contrast: {
+    title: "Contrast",
+    description:
+      "Scales brightness differences around mid-gray before tracing.",
+    tips: (
+      <>
+        <strong>Below 1</strong>: Softer image, fewer hard edges. <br />
+        <strong>1</strong>: Unchanged. <br />
+        <strong>Above 1</strong>: Separates ink from paper more clearly.
+      </>
+    )
+  },
+
+  posterize: {
+    title: "Posterize",
+    description:
+      "Reduces each color channel to a few levels, giving flat color areas that trace into fewer shapes.",
+    tips: (
+      <>
+        <strong>Off</strong> (0): Full color depth. <br />
+        <strong>2-4</strong>: Strong poster look, very few shapes. <br />
+        <strong>6-8</strong>: Flattens gradients while keeping most colors.
+      </>
+    )
+  },
+
+  thresholdMode: {
+    title: "Black & White Threshold",
+    description:
+      "How the black and white tracer decides which pixels are ink.",
+    tips: (
+      <>
+        <strong>Fixed</strong>: Pixels darker than the threshold value are ink. <br />
+        <strong>Otsu</strong>: Picks the threshold that best splits the image into dark and light. <br />
+        <strong>Adaptive</strong>: Compares each pixel with its surroundings; best for photos of documents with uneven lighting.
+      </>
+    )
+  },
+
+  // Animation mode options
+  simplifyTolerance: {
+    title: "Simplify Tolerance",
+    description:
+      "How far (in pixels) simplified outlines may move from the traced ones. Paths are thinned and refitted with smooth curves, and touching shapes of the same color are merged into one.",
+    tips: (
+      <>
+        <strong>Lower values</strong> (0.1-0.3): Close to the trace, fewer points removed. <br />
+        <strong>Medium values</strong> (0.5-1): Large point savings with no visible change at normal sizes. <br />
+        <strong>Higher values</strong> (2+): Lightest animations, but small details start to soften. <br />
+        <strong>Pro tip</strong>: Set to 0 to turn simplification and merging off. The readiness panel shows the resulting point count and maximum deviation.
+      </>
+    )
+  },
 };
\ No newline at end of file
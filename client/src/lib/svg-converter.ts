@@ -4,11 +4,25 @@ export type SVGOptions = {
   // Common options
   fileFormat: string;
   svgVersion: string;
+  dxfUnits?: 'mm' | 'cm' | 'in' | 'px'; // Drawing units when fileFormat is dxf
+  dxfScale?: number;                    // Extra scale on top of the unit conversion
+  rasterMode?: 'scales' | 'sizes' | 'iconSet'; // How PNG/WebP sizes are chosen
+  rasterScales?: number[];              // Multiples of the SVG size, e.g. [1, 2, 3]
+  rasterSizes?: string[];               // "512" (width) or "512x256"
+  rasterPadding?: number;               // Percent of the short side, 0-40
+  rasterBackground?: string;            // Hex color or "transparent"
+  toolpathTolerance?: number;           // HPGL/G-code chord tolerance, mm
+  toolDiameter?: number;                // Kerf or cutter diameter, mm, 0 = cut on the line
+  toolpathFeedRates?: number[];         // mm/min per color group in order
+  toolpathPlungeRate?: number;          // G-code, mm/min
+  toolpathSafeZ?: number;               // G-code travel height, mm
+  toolpathCutZ?: number;                // G-code cutting height, mm
+  toolpathScale?: number;               // Extra scale on top of 96 px to the inch
   drawStyle: string;
   strokeWidth: number;
   
   // Trace engine selection
-  traceEngine: 'potrace' | 'imagetracer' | 'auto';
+  traceEngine: 'potrace' | 'imagetracer' | 'potrace-color' | 'auto';
   
   // Advanced vectorization options
   shapeStacking: 'stacked' | 'layered' | 'flat' | 'placeCutouts';
@@ -18,6 +32,7 @@ export type SVGOptions = {
   fillGaps: boolean;
   clipOverflow: boolean;
   nonScalingStroke: boolean;
+  expandStrokes?: boolean; // Replace strokes with filled outlines (stroke-free output)
   
   // Potrace advanced options (for fine-tuning)
   turdSize?: number;      // Suppress speckles of this size or smaller
@@ -47,11 +62,47 @@ export type SVGOptions = {
   idPrefix?: string;
   flattenTransforms?: boolean;
   generateStableIds?: boolean;
+  simplifyTolerance?: number; // Max outline deviation (px) when simplifying and merging paths
+
+  // Transparency options
+  removeBackground?: boolean;     // Clear the solid background color around the artwork before tracing
+  backgroundTolerance?: number;   // 0-100, how far from the corner color still counts as background
+
+  // Preprocessing options (applied to the bitmap before tracing)
+  crop?: string;          // "left,top,width,height" in source pixels, empty = whole image
+  rotation?: number;      // degrees clockwise
+  deskew?: boolean;       // straighten slightly rotated scans
+  upscaleTo?: number;     // upscale small images until the long side reaches this, 0 = off
+  denoise?: number;       // median filter size, 0 = off
+  autoLevels?: boolean;   // stretch the darkest and lightest pixels to black and white
+  blackPoint?: number;    // levels, 0-255
+  whitePoint?: number;    // levels, 0-255
+  contrast?: number;      // 1 = unchanged
+  posterize?: number;     // levels per channel, 0 = off
+  thresholdMode?: 'fixed' | 'otsu' | 'adaptive'; // how potrace separates ink from paper
+  threshold?: number;     // fixed-mode luminance threshold, 0-255
+
+  // Compare the result with the source bitmap (SSIM, color error and a heatmap)
+  scoreFidelity?: boolean;
 };
 
 export const initialSVGOptions: SVGOptions = {
   // Common options
   fileFormat: "svg",
+  dxfUnits: "mm",
+  dxfScale: 1,
+  rasterMode: "scales",
+  rasterScales: [1, 2, 3],
+  rasterSizes: [],
+  rasterPadding: 0,
+  rasterBackground: "transparent",
+  toolpathTolerance: 0.05,
+  toolDiameter: 0,
+  toolpathFeedRates: [1000],
+  toolpathPlungeRate: 300,
+  toolpathSafeZ: 5,
+  toolpathCutZ: -1,
+  toolpathScale: 1,
   svgVersion: "1.1",
   drawStyle: "fillShapes",
   strokeWidth: 2.0,
@@ -96,6 +147,27 @@ export const initialSVGOptions: SVGOptions = {
   idPrefix: 'anim_',
   flattenTransforms: false,
   generateStableIds: true,
+
+  // Transparency options
+  removeBackground: false,
+  backgroundTolerance: 10,
+
+  // Preprocessing options - all stages off
+  crop: "",
+  rotation: 0,
+  deskew: false,
+  upscaleTo: 0,
+  denoise: 0,
+  autoLevels: false,
+  blackPoint: 0,
+  whitePoint: 255,
+  contrast: 1,
+  posterize: 0,
+  thresholdMode: "fixed",
+  threshold: 128,
+
+  // Turned on while the split view is open, where the error heatmap is overlaid
+  scoreFidelity: false,
 };
 
 export function updateSvgColor(svgContent: string, color: string): string {
@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -17,7 +17,9 @@ import {
   Lock,
   Unlock,
   RotateCcw,
-  Zap
+  Zap,
+  Sparkles,
+  Shuffle
 } from "lucide-react";
 import UploadArea, { convertImageWithOptions } from "@/components/UploadArea";
 import SVGPreview from "@/components/SVGPreview";
@@ -25,8 +27,53 @@ import ConversionSettings from "@/components/ConversionSettings";
 import { PivotPointEditor } from "@/components/PivotPointEditor";
 import { CodeExportPanel } from "@/components/CodeExportPanel";
 import { GroupingPanel, SVGGroup } from "@/components/GroupingPanel";
+import { TemplateGallery } from "@/components/TemplateGallery";
+import { PathMorphPanel } from "@/components/PathMorphPanel";
+import { StabilityBadge } from "@/components/StabilityBadge";
+import { AnimationReadinessPanel } from "@/components/AnimationReadinessPanel";
 import { SVGOptions, initialSVGOptions } from "@/lib/svg-converter";
 import { AnimationElement } from "@/lib/code-generators";
+import { AnimationMetadata, ConversionResult } from "@/lib/fetch-helpers";
+
+/**
+ * Animatable elements of the SVG (anything with an ID), with path lengths and stroke
+ * details taken from the server's stroke preparation where available
+ */
+function buildAnimationElements(svgContent: string, metadata?: AnimationMetadata): AnimationElement[] {
+  try {
+    const svgDoc = new DOMParser().parseFromString(svgContent, 'image/svg+xml');
+    const elements = svgDoc.querySelectorAll('path[id], rect[id], circle[id], ellipse[id], polygon[id], line[id], g[id]');
+    const pathInfo = new Map((metadata?.pathLengths ?? []).map(info => [info.pathId, info]));
+
+    return Array.from(elements).map(element => {
+      const id = element.getAttribute('id')!;
+      const fill = element.getAttribute('fill');
+      const stroke = element.getAttribute('stroke');
+      const colors = [fill, stroke].filter((color): color is string =>
+        !!color && color !== 'none' && color !== 'transparent'
+      );
+
+      const info = pathInfo.get(id);
+      // SVG uploads have no metadata - fall back to the attribute stroke preparation writes
+      const lengthAttr = element.getAttribute('data-length');
+      const pathLength = info?.length ?? (lengthAttr ? parseFloat(lengthAttr) : undefined);
+      const hasStroke = info?.hasStroke ?? !!(stroke && stroke !== 'none' && stroke !== 'transparent');
+
+      return {
+        id,
+        type: element.tagName.toLowerCase(),
+        colors,
+        pathLength,
+        hasStroke,
+        strokeWidth: info?.strokeWidth ?? element.getAttribute('stroke-width') ?? undefined,
+        strokeColor: hasStroke ? (info?.strokeColor ?? stroke ?? undefined) : undefined,
+      };
+    });
+  } catch (error) {
+    console.error('Error extracting animation elements:', error);
+    return [];
+  }
+}
 
 export default function AnimationWorkspace() {
   // Core file and conversion state
@@ -52,6 +99,7 @@ export default function AnimationWorkspace() {
     idPrefix: 'anim_',
     flattenTransforms: false,
     generateStableIds: true,
+    simplifyTolerance: 0.5,
   });
 
   // Animation-specific state
@@ -77,6 +125,8 @@ export default function AnimationWorkspace() {
     pivot: false,
     colors: false,
     export: false,
+    templates: false,
+    morph: false,
   });
 
   // Pivot point state
@@ -89,12 +139,30 @@ export default function AnimationWorkspace() {
     relativeY: number;
   }>>([]);
 
-  // Mock animation elements for testing (will be extracted from SVG in later tasks)
-  const [animationElements, setAnimationElements] = useState<AnimationElement[]>([]);
+  // Last conversion result, including the server's animation metadata
+  const [conversionResult, setConversionResult] = useState<ConversionResult | null>(null);
+
+  const animationElements = useMemo(
+    () => svgContent ? buildAnimationElements(svgContent, conversionResult?.metadata) : [],
+    [svgContent, conversionResult]
+  );
 
   // SVG structure state for grouping panel
   const [svgStructure, setSvgStructure] = useState<SVGGroup[]>([]);
 
+  // Group currently selected in the grouping panel
+  const selectedGroup = useMemo(() => {
+    const findGroup = (items: SVGGroup[]): SVGGroup | null => {
+      for (const item of items) {
+        if (item.id === animationData.selectedGroupId) return item;
+        const match = item.children ? findGroup(item.children) : null;
+        if (match) return match;
+      }
+      return null;
+    };
+    return animationData.selectedGroupId ? findGroup(svgStructure) : null;
+  }, [svgStructure, animationData.selectedGroupId]);
+
   // Handler for settings changes with animation awareness
   const handleSettingsChange = useCallback(async () => {
     if (file) {
@@ -107,58 +175,18 @@ export default function AnimationWorkspace() {
         file,
         options,
         setConversionStatus,
-        false
+        false,
+        0,
+        1,
+        setConversionResult
       );
       
       if (newSvgContent) {
         setSvgContent(newSvgContent);
-        // Extract animation elements from SVG (simplified for now)
-        const mockElements = extractAnimationElements(newSvgContent);
-        setAnimationElements(mockElements);
       }
     }
   }, [file, options]);
 
-  // Extract animation elements from SVG (enhanced implementation)
-  const extractAnimationElements = useCallback((svgContent: string): AnimationElement[] => {
-    try {
-      const parser = new DOMParser();
-      const svgDoc = parser.parseFromString(svgContent, 'image/svg+xml');
-      const elements = svgDoc.querySelectorAll('path[id], rect[id], circle[id], ellipse[id], polygon[id], line[id], g[id]');
-      
-      return Array.from(elements).map((element, index) => {
-        const id = element.getAttribute('id') || `element_${index}`;
-        const type = element.tagName.toLowerCase();
-        
-        // Extract colors from fill and stroke attributes
-        const fill = element.getAttribute('fill');
-        const stroke = element.getAttribute('stroke');
-        const strokeWidth = element.getAttribute('stroke-width');
-        const colors = [fill, stroke].filter(color => color && color !== 'none' && color !== 'transparent');
-        
-        // Extract path length from data attributes (added by stroke preparation)
-        const pathLengthAttr = element.getAttribute('data-length');
-        const pathLength = pathLengthAttr ? parseFloat(pathLengthAttr) : undefined;
-        
-        // Check if element has stroke for draw-on animations
-        const hasStroke = !!(stroke && stroke !== 'none' && stroke !== 'transparent');
-        
-        return {
-          id,
-          type,
-          colors: colors as string[],
-          pathLength,
-          hasStroke,
-          strokeWidth: strokeWidth || undefined,
-          strokeColor: hasStroke ? (stroke || undefined) : undefined,
-        };
-      });
-    } catch (error) {
-      console.error('Error extracting animation elements:', error);
-      return [];
-    }
-  }, []);
-
   return (
     <div className="bg-gray-50 font-sans text-gray-800 min-h-screen">
       {/* Animation Mode Header */}
@@ -233,6 +261,7 @@ export default function AnimationWorkspace() {
                   setSvgContent={setSvgContent}
                   setSvgContents={() => {}}
                   setActiveFileIndex={() => {}}
+                  onConversionResult={setConversionResult}
                   options={options}
                 />
               </CardContent>
@@ -242,6 +271,8 @@ export default function AnimationWorkspace() {
             <GroupingPanel 
               svgContent={svgContent || ''}
               onStructureChange={setSvgStructure}
+              selectedId={animationData.selectedGroupId}
+              onSelect={(group) => setAnimationData(prev => ({ ...prev, selectedGroupId: group.id }))}
             />
 
             {/* Quick Tools Panel */}
@@ -282,6 +313,26 @@ export default function AnimationWorkspace() {
                   <Code className="h-3 w-3 mr-2" />
                   {activePanels.export ? "Hide Export" : "Export Code"}
                 </Button>
+                <Button 
+                  variant={activePanels.templates ? "default" : "outline"} 
+                  size="sm" 
+                  className="w-full justify-start text-xs"
+                  onClick={() => setActivePanels(prev => ({ ...prev, templates: !prev.templates }))}
+                  data-testid="toggle-templates"
+                >
+                  <Sparkles className="h-3 w-3 mr-2" />
+                  {activePanels.templates ? "Hide Templates" : "Animation Templates"}
+                </Button>
+                <Button 
+                  variant={activePanels.morph ? "default" : "outline"} 
+                  size="sm" 
+                  className="w-full justify-start text-xs"
+                  onClick={() => setActivePanels(prev => ({ ...prev, morph: !prev.morph }))}
+                  data-testid="toggle-path-morph"
+                >
+                  <Shuffle className="h-3 w-3 mr-2" />
+                  {activePanels.morph ? "Hide Path Morph" : "Path Morph"}
+                </Button>
               </CardContent>
             </Card>
           </div>
@@ -296,6 +347,7 @@ export default function AnimationWorkspace() {
                     <Badge variant={activePanels.pivot ? "destructive" : animationData.previewMode === "static" ? "default" : "secondary"} className="text-xs">
                       {activePanels.pivot ? "Pivot Mode" : animationData.previewMode === "static" ? "Static" : "Preview"}
                     </Badge>
+                    {svgContent && <StabilityBadge file={file} options={options} />}
                     {conversionStatus.status === "loading" && (
                       <div className="flex items-center text-xs text-gray-500">
                         <div className="animate-spin h-3 w-3 border border-gray-300 border-t-blue-500 rounded-full mr-2"></div>
@@ -413,6 +465,30 @@ export default function AnimationWorkspace() {
             </Card>
             )}
 
+            {/* Readiness score and element list from the conversion metadata */}
+            <AnimationReadinessPanel
+              result={conversionResult}
+              elements={animationElements}
+              selectedId={animationData.selectedGroupId}
+              onSelect={(elementId) => setAnimationData(prev => ({ ...prev, selectedGroupId: elementId }))}
+            />
+
+            {/* Template Gallery - Live previews on the selected group */}
+            {activePanels.templates && (
+              <TemplateGallery
+                svgContent={svgContent || ''}
+                selectedGroup={selectedGroup}
+              />
+            )}
+
+            {/* Path Morph - Logo-to-logo transitions */}
+            {activePanels.morph && (
+              <PathMorphPanel
+                sourceFile={file}
+                options={options}
+              />
+            )}
+
             {/* Core Settings (Simplified) */}
             <Card>
               <CardHeader className="pb-3">
@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -9,7 +9,10 @@ import UploadArea, { convertImageWithOptions } from "@/components/UploadArea";
 import SVGPreview from "@/components/SVGPreview";
 import ConversionSettings from "@/components/ConversionSettings";
 import PrivacyTermsDialog from "@/components/PrivacyTermsDialog";
+import HistoryDrawer from "@/components/HistoryDrawer";
+import AccountMenu from "@/components/AccountMenu";
 import { SVGOptions, initialSVGOptions } from "@/lib/svg-converter";
+import { ConversionResult, ConversionOutput, EngineChoice, FidelityReport, toEngineChoice } from "@/lib/fetch-helpers";
 
 export default function Home() {
   // Single file state
@@ -40,6 +43,21 @@ export default function Home() {
     message: "No image uploaded",
   });
   const [options, setOptions] = useState<SVGOptions>(initialSVGOptions);
+  const [engineChoice, setEngineChoice] = useState<EngineChoice | null>(null);
+  const [fidelity, setFidelity] = useState<FidelityReport | null>(null);
+  const [output, setOutput] = useState<ConversionOutput | null>(null);
+
+  const handleConversionResult = useCallback((result: ConversionResult) => {
+    setEngineChoice(toEngineChoice(result));
+    setFidelity(result.fidelity ?? null);
+    setOutput(result.output ?? null);
+  }, []);
+
+  // Fidelity scoring rasterizes every result, so only ask for it while the split view can show it
+  const conversionOptions = useMemo<SVGOptions>(
+    () => ({ ...options, scoreFidelity: showSplitView && !batchMode }),
+    [options, showSplitView, batchMode]
+  );
 
   // Handler for settings changes to trigger real-time conversion
   const handleSettingsChange = useCallback(async () => {
@@ -56,7 +74,7 @@ export default function Home() {
       // Convert the active file with new settings
       const newSvgContent = await convertImageWithOptions(
         activeFile,
-        options,
+        conversionOptions,
         setConversionStatus,
         true,
         activeFileIndex,
@@ -83,16 +101,26 @@ export default function Home() {
       // Use the utility function to convert with new settings
       const newSvgContent = await convertImageWithOptions(
         file,
-        options,
+        conversionOptions,
         setConversionStatus,
-        false
+        false,
+        0,
+        1,
+        handleConversionResult
       );
       
       if (newSvgContent) {
         setSvgContent(newSvgContent);
       }
     }
-  }, [file, files, batchMode, activeFileIndex, options]);
+  }, [file, files, batchMode, activeFileIndex, conversionOptions, handleConversionResult]);
+
+  // Opening the split view on an unscored result converts again to fetch the heatmap
+  useEffect(() => {
+    if (showSplitView && !batchMode && file && !fidelity) {
+      handleSettingsChange();
+    }
+  }, [showSplitView]);
 
   return (
     <div className="bg-gray-50 font-sans text-gray-800 min-h-screen">
@@ -115,6 +143,8 @@ export default function Home() {
           </div>
           <div className="flex items-center gap-4">
             <ModeToggle />
+            <HistoryDrawer />
+            <AccountMenu />
             <Button variant="ghost" size="sm" className="text-muted-foreground">
               <HelpCircle className="h-4 w-4 mr-1" />
               Help
@@ -144,7 +174,9 @@ export default function Home() {
                 setSvgContent={setSvgContent}
                 setSvgContents={setSvgContents}
                 setActiveFileIndex={setActiveFileIndex}
-                options={options}
+                setEngineChoice={setEngineChoice}
+                onConversionResult={handleConversionResult}
+                options={conversionOptions}
               />
             </div>
 
@@ -157,6 +189,7 @@ export default function Home() {
                 files={files}
                 batchMode={batchMode}
                 onSettingsChange={handleSettingsChange}
+                engineChoice={batchMode ? null : engineChoice}
               />
               
               {/* Enhanced Status Display with Professional Loading Animation */}
@@ -226,6 +259,9 @@ export default function Home() {
               setColorMap={setColorMap}
               showSplitView={showSplitView}
               setShowSplitView={setShowSplitView}
+              fidelity={batchMode ? null : fidelity}
+              output={batchMode ? null : output}
+              options={options}
             />
           </div>
         </div>
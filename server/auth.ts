@@ -0,0 +1,196 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { authLimiter } from "./middleware/security";
+import { validateRegistration } from "./validation/inputValidation";
+import { hashApiKey, readApiKey } from "./utils/apiKeys";
+import { User as SelectUser } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+/**
+ * Account and Session Handling
+ * Username/password accounts with scrypt hashing and cookie sessions via passport,
+ * plus API keys for headless clients
+ */
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Hash a password as "<hash>.<salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compare a supplied password against a stored hash in constant time
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before a user leaves the server
+ */
+export function toPublicUser(user: SelectUser) {
+  return { id: user.id, username: user.username, email: user.email };
+}
+
+/**
+ * Owner ID for per-user data - null for anonymous requests
+ */
+export function getUserId(req: Request): number | null {
+  return req.user?.id ?? null;
+}
+
+/**
+ * Middleware that rejects anonymous requests
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Sign in requests that carry an API key. Requests without one fall through to the session.
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const key = readApiKey(req.headers);
+  if (!key) return next();
+
+  try {
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+    const user = apiKey ? await storage.getUser(apiKey.userId) : undefined;
+    if (!apiKey || !user) {
+      return res.status(401).json({ error: "Invalid API key" });
+    }
+
+    // Set the user for this request only - API key calls never start a session
+    req.user = user;
+    await storage.touchApiKey(apiKey.id, new Date().toISOString());
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    // Sessions won't survive a restart, which is fine for local development
+    console.warn("SESSION_SECRET not set - using a random per-process session secret");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE
+    }
+  };
+
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(authenticateApiKey);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account just ends the session
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", authLimiter, validateRegistration, async (req, res, next) => {
+    try {
+      const existingUser = await storage.getUserByUsername(req.body.username);
+      if (existingUser) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...req.body,
+        password: await hashPassword(req.body.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", authLimiter, (req, res, next) => {
+    passport.authenticate("local", (err: Error | null, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(toPublicUser(req.user));
+  });
+}
@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { z } from 'zod';
+import { svgOptionsSchema } from './validation/inputValidation';
+import { parseConversionOptions, convertImageBuffer, ConversionOptions } from './conversion/pipeline';
+import { outputExtension } from './conversion/outputFormats';
+import { presets, getPresetById, applyPreset, PresetCategory } from '../client/src/lib/conversion-presets';
+
+/**
+ * Vectorize CLI
+ * Runs the same conversion pipeline as /api/convert on local files, without the web server
+ */
+
+const USAGE = `Usage: vectorize convert <input...> [options]
+
+Inputs can be files or glob patterns (quote globs to stop the shell expanding them).
+
+Options:
+  -o, --output <path>     An output file for a single input, otherwise a directory (default: next to each input)
+                          Use "-" to write a single result to stdout. The fileFormat option picks the
+                          format (svg, dxf, pdf, eps, png, webp, hpgl or gcode) and with it the file extension
+  -p, --preset <id>       Start from a built-in preset: ${presets.map(preset => preset.id).join(', ')}
+      --options <file>    JSON file of conversion options, applied on top of the preset
+  -e, --engine <engine>   Trace engine: potrace, imagetracer, potrace-color or auto
+  -a, --animation         Produce animation-ready output (stable IDs, optimized structure)
+  -v, --verbose           Show pipeline logging (on stderr)
+  -h, --help              Show this help
+`;
+
+// Exit codes: conversion failures are distinguished from bad invocations
+const EXIT_CONVERSION_FAILED = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+interface CliArgs {
+  inputs: string[];
+  output?: string;
+  preset?: string;
+  optionsFile?: string;
+  engine?: string;
+  animation: boolean;
+  verbose: boolean;
+}
+
+function parseCliArgs(argv: string[]): CliArgs | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      preset: { type: 'string', short: 'p' },
+      options: { type: 'string' },
+      engine: { type: 'string', short: 'e' },
+      animation: { type: 'boolean', short: 'a', default: false },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  if (values.help) return null;
+
+  const [command, ...inputs] = positionals;
+  if (command !== 'convert') {
+    throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+  if (inputs.length === 0) {
+    throw new UsageError('No input files given');
+  }
+
+  return {
+    inputs,
+    output: values.output,
+    preset: values.preset,
+    optionsFile: values.options,
+    engine: values.engine,
+    animation: values.animation ?? false,
+    verbose: values.verbose ?? false
+  };
+}
+
+/**
+ * Layer preset, options file and flags, then validate them the way the API does
+ */
+function buildConversionOptions(args: CliArgs): ConversionOptions {
+  let merged: Record<string, unknown> = {};
+
+  if (args.preset) {
+    const preset = getPresetById(args.preset as PresetCategory);
+    if (!preset) {
+      throw new UsageError(`Unknown preset "${args.preset}". Available presets: ${presets.map(p => p.id).join(', ')}`);
+    }
+    merged = { ...applyPreset(preset) };
+  }
+
+  if (args.optionsFile) {
+    let fileOptions: unknown;
+    try {
+      fileOptions = JSON.parse(fs.readFileSync(args.optionsFile, 'utf8'));
+    } catch (error) {
+      throw new UsageError(`Could not read options file ${args.optionsFile}: ${(error as Error).message}`);
+    }
+    if (!fileOptions || typeof fileOptions !== 'object' || Array.isArray(fileOptions)) {
+      throw new UsageError(`Options file ${args.optionsFile} must contain a JSON object`);
+    }
+    merged = { ...merged, ...fileOptions };
+  }
+
+  if (args.engine) merged.traceEngine = args.engine;
+  if (args.animation) merged.animationMode = true;
+
+  try {
+    return parseConversionOptions(svgOptionsSchema.parse(merged));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const details = error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+      throw new UsageError(`Invalid conversion options - ${details}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Expand glob patterns; plain paths are kept even if they don't exist so they get reported
+ */
+async function resolveInputs(patterns: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    if (fg.isDynamicPattern(pattern)) {
+      // fast-glob only understands forward slashes
+      const globPattern = process.platform === 'win32' ? pattern.replace(/\\/g, '/') : pattern;
+      const matches = await fg(globPattern, { onlyFiles: true });
+      if (matches.length === 0) {
+        process.stderr.write(`warning: no files match ${pattern}\n`);
+      }
+      files.push(...matches.sort());
+    } else {
+      files.push(pattern);
+    }
+  }
+  return Array.from(new Set(files));
+}
+
+/**
+ * Work out where each input's output goes
+ */
+function planOutputs(inputs: string[], output: string | undefined, extension: string): Map<string, string> {
+  const outputName = (input: string) => `${path.basename(input, path.extname(input))}.${extension}`;
+  const plan = new Map<string, string>();
+
+  if (output === '-') {
+    if (inputs.length !== 1) {
+      throw new UsageError('Writing to stdout needs exactly one input');
+    }
+    plan.set(inputs[0], '-');
+    return plan;
+  }
+
+  // Anything that isn't a file name with the output's extension is treated as a directory
+  const isDirectory = output !== undefined && (
+    path.extname(output).toLowerCase() !== `.${extension}` ||
+    /[\\/]$/.test(output) ||
+    (fs.existsSync(output) && fs.statSync(output).isDirectory())
+  );
+
+  if (output !== undefined && !isDirectory && inputs.length > 1) {
+    throw new UsageError(`${inputs.length} inputs can't all be written to ${output} - pass a directory instead`);
+  }
+
+  for (const input of inputs) {
+    const target = output === undefined
+      ? path.join(path.dirname(input), outputName(input))
+      : isDirectory ? path.join(output, outputName(input)) : output;
+    if (Array.from(plan.values()).includes(target)) {
+      throw new UsageError(`More than one input would be written to ${target}`);
+    }
+    plan.set(input, target);
+  }
+  return plan;
+}
+
+const mimetypeFor = (file: string) =>
+  path.extname(file).toLowerCase() === '.svg' ? 'image/svg+xml' : 'application/octet-stream';
+
+async function runConvert(args: CliArgs): Promise<number> {
+  const options = buildConversionOptions(args);
+  const inputs = await resolveInputs(args.inputs);
+  if (inputs.length === 0) {
+    throw new UsageError('No input files found');
+  }
+  const extension = outputExtension(options);
+  const plan = planOutputs(inputs, args.output, extension);
+
+  let failures = 0;
+  for (const [input, target] of Array.from(plan.entries())) {
+    try {
+      const buffer = fs.readFileSync(input);
+      const result = await convertImageBuffer(buffer, mimetypeFor(input), options);
+
+      const data = result.output ? Buffer.from(result.output.data, result.output.encoding) : Buffer.from(result.svg);
+
+      if (target === '-') {
+        process.stdout.write(data);
+      } else {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, data);
+        const fidelity = result.fidelity ? `, SSIM ${result.fidelity.ssim}` : '';
+        process.stderr.write(`${input} -> ${target} (${result.engine}, ${data.length} bytes${fidelity}, ${result.timings.totalMs}ms)\n`);
+      }
+    } catch (error) {
+      failures++;
+      process.stderr.write(`error: ${input}: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  }
+
+  if (plan.size > 1) {
+    process.stderr.write(`${plan.size - failures} of ${plan.size} converted\n`);
+  }
+  return failures > 0 ? EXIT_CONVERSION_FAILED : 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let args: CliArgs | null;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    process.stderr.write(`error: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (!args) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  // The pipeline logs every step for the server log - keep the terminal readable, and keep
+  // verbose logging on stderr so it never mixes with a result written to stdout
+  console.log = args.verbose ? console.error : () => {};
+
+  try {
+    return await runConvert(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`error: ${error.message}\n`);
+      return EXIT_USAGE;
+    }
+    process.stderr.write(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_CONVERSION_FAILED;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
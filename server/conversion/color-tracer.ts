@@ -4,24 +4,36 @@ import * as crypto from 'crypto';
 import { JSDOM } from 'jsdom';
 import sharp from 'sharp';
 import { processImageBuffer } from '../utils/imageProcessing';
-import { ensureTransparentBackground, removeTracerBackgrounds } from '../utils/transparencyUtils';
+import { ensureTransparentBackground, removeTracerBackgrounds, removeTransparentShapes } from '../utils/transparencyUtils';
+import { prepareTracerInput, PreprocessingOptions } from '../utils/preprocessing';
 import { applySVGGrouping, optimizeSVGForUseCase } from '../utils/svgGroupingUtils';
-import { processForAnimation, AnimationProcessingOptions } from '../utils/animationSvgProcessor';
+import { expandStrokesToFills } from '../utils/strokeExpansion';
+import { processForAnimation, AnimationProcessingOptions, AnimationMetadata } from '../utils/animationSvgProcessor';
+import { TraceOutput, TraceEngine } from './types';
+import {
+  quantizeMedianCut,
+  luminanceOverWhite,
+  luminanceEntropy,
+  detectEdges,
+  estimateAntiAliasing,
+  measureFlatness,
+  chroma
+} from '../utils/colorHistogram';
 // Use dynamic import for imagetracer since it's a dual module (supports CJS and ESM)
 // This is a workaround for the "require is not defined in ES module scope" error
 let ImageTracer: any = null;
-import('imagetracer').then(module => {
+const imageTracerReady = import('imagetracer').then(module => {
   ImageTracer = module.default || module;
 });
 
 // Define the interface to accept all options from the client but only use what we need
-export interface ColorTracingOptions {
+export interface ColorTracingOptions extends PreprocessingOptions {
   // Common options from SVGOptions
   fileFormat?: string;
   svgVersion: string;
   drawStyle?: string;
   strokeWidth: number;
-  traceEngine?: 'potrace' | 'imagetracer' | 'auto';
+  traceEngine?: 'potrace' | 'imagetracer' | 'potrace-color' | 'auto';
   
   // Advanced grouping options now supported by ImageTracer
   shapeStacking?: 'stacked' | 'layered' | 'flat' | 'placeCutouts';
@@ -31,6 +43,7 @@ export interface ColorTracingOptions {
   fillGaps?: boolean;
   clipOverflow?: boolean;
   nonScalingStroke?: boolean;
+  expandStrokes?: boolean;
   
   // ImageTracerJS specific options
   numberOfColors: number; // 2-256
@@ -55,7 +68,8 @@ export interface ColorTracingOptions {
   idPrefix?: string;
   flattenTransforms?: boolean;
   generateStableIds?: boolean;
-  
+  simplifyTolerance?: number;
+
   // Additional options that may not be in the client-side options
   lineJoin?: 'round' | 'bevel' | 'miter';
   lineCap?: 'round' | 'square' | 'butt';
@@ -70,26 +84,33 @@ if (!fs.existsSync(tempDir)) {
 
 
 /**
- * Convert image buffer to color SVG using ImageTracerJS
+ * Convert image buffer to color SVG using ImageTracerJS, with animation metadata
+ * when animation mode is on
  */
 export async function convertImageToColorSVG(
   imageBuffer: Buffer,
   options: ColorTracingOptions
-): Promise<string> {
+): Promise<TraceOutput> {
   try {
     console.log("Converting image to Color SVG with ImageTracerJS...");
     console.log("Image buffer size:", imageBuffer?.length || 0, "bytes");
     console.log("Options:", JSON.stringify(options, null, 2));
     
+    // A conversion can start before the dynamic import settles (e.g. from the CLI)
+    await imageTracerReady;
+
     // Process the image buffer to normalize format and preserve quality
     const { processedBuffer, metadata, format } = await processImageBuffer(imageBuffer, 'ImageTracer conversion');
     
     console.log(`Processed ${format.toUpperCase()} image for ImageTracer conversion`);
     
-    // Create a temp file for ImageTracer using the processed PNG buffer
+    // Preprocess and snap alpha so transparent pixels share one invisible palette entry
+    const bitmap = await prepareTracerInput(processedBuffer, 'imagetracer', options);
+    
+    // Create a temp file for ImageTracer using the masked bitmap
     const tmpFilePath = path.join(tempDir, `${crypto.randomUUID()}.png`);
     console.log("Temp file path:", tmpFilePath);
-    fs.writeFileSync(tmpFilePath, processedBuffer);
+    fs.writeFileSync(tmpFilePath, bitmap);
     console.log("Temp file created. Size:", fs.statSync(tmpFilePath).size, "bytes");
     
     try {
@@ -154,7 +175,7 @@ export async function convertImageToColorSVG(
       console.log("ImageTracer parameters:", JSON.stringify(params, null, 2));
       
       // Trace the image using ImageTracer and get SVG string
-      return new Promise((resolve, reject) => {
+      const traced = await new Promise<TraceOutput>((resolve, reject) => {
         try {
           // Use the correct method name from the package
           const svgString = ImageTracer.imageTracer(
@@ -171,6 +192,9 @@ export async function convertImageToColorSVG(
           console.log("Applying transparent background processing...");
           processedSVG = removeTracerBackgrounds(processedSVG, 'imagetracer');
           
+          // Shapes traced from transparent pixels are invisible - drop them
+          processedSVG = removeTransparentShapes(processedSVG);
+          
           // Apply advanced SVG grouping and layering for ImageTracer
           console.log("Applying SVG grouping and layering to ImageTracer output...");
           if (options.shapeStacking || options.groupBy) {
@@ -180,6 +204,7 @@ export async function convertImageToColorSVG(
               allowedCurveTypes: options.allowedCurveTypes
             }).then(async (groupedSVG) => {
               let finalSVG = groupedSVG;
+              let metadata: AnimationMetadata | undefined;
               
               // Apply animation processing if in animation mode
               if (options.animationMode) {
@@ -196,19 +221,21 @@ export async function convertImageToColorSVG(
                   setupDrawOn: true,
                   enhanceAccessibility: true,
                   enablePerformanceOptimization: true,
-                  targetReduction: 30
+                  targetReduction: 30,
+                  simplifyTolerance: options.simplifyTolerance
                 };
                 
                 const processed = await processForAnimation(finalSVG, animationOptions);
                 finalSVG = processed.svg;
+                metadata = processed.metadata;
                 
                 console.log("Animation processing complete:", processed.metadata);
               }
               
-              resolve(finalSVG);
+              resolve({ svg: finalSVG, metadata });
             }).catch(err => {
               console.error("Error applying SVG grouping:", err);
-              resolve(processedSVG); // Return original on error
+              resolve({ svg: processedSVG }); // Return original on error
             });
           } else {
             // Handle animation processing even without grouping
@@ -226,18 +253,19 @@ export async function convertImageToColorSVG(
                 setupDrawOn: true,
                 enhanceAccessibility: true,
                 enablePerformanceOptimization: true,
-                targetReduction: 30
+                targetReduction: 30,
+                simplifyTolerance: options.simplifyTolerance
               };
               
               processForAnimation(processedSVG, animationOptions).then(processed => {
                 console.log("Animation processing complete:", processed.metadata);
-                resolve(processed.svg);
+                resolve({ svg: processed.svg, metadata: processed.metadata });
               }).catch(err => {
                 console.error("Error in animation processing:", err);
-                resolve(processedSVG);
+                resolve({ svg: processedSVG });
               });
             } else {
-              resolve(processedSVG);
+              resolve({ svg: processedSVG });
             }
           }
         } catch (traceErr) {
@@ -245,6 +273,11 @@ export async function convertImageToColorSVG(
           reject(new Error(`ImageTracer error: ${traceErr}`));
         }
       });
+
+      // Stroke-free output: ImageTracer strokes each shape in its own color to hide seams
+      return options.expandStrokes
+        ? { ...traced, svg: expandStrokesToFills(traced.svg) }
+        : traced;
     } finally {
       // Clean up the temp file
       try {
@@ -332,157 +365,150 @@ function setCorrectSvgVersion(svgContent: string, version: string): string {
   }
 }
 
+export interface ColorAnalysis {
+  isColorImage: boolean;
+  colorComplexity: number; // share of opaque pixels in clearly colored (non-gray) clusters, 0-1
+  distinctColors: number; // colors covering at least 1% of the opaque area
+  entropy: number; // luminance entropy in bits
+  dominantColors: Array<{ color: string; coverage: number }>;
+  hasAlpha: boolean;
+  transparentRatio: number;
+  edgeDensity: number; // share of pixels on a luminance edge
+  antiAliasing: number; // share of edge pixels that are blends of neighboring colors
+  flatness: number; // share of opaque pixels that closely match a dominant color
+  suggestedNumberOfColors: number;
+  recommendedEngine: TraceEngine;
+  reason: string;
+}
+
+// Analysis runs on a downsample - nearest-neighbour so no new blended colors are invented
+const ANALYSIS_SIZE = 160;
+const MAX_CLUSTERS = 32;
+const SIGNIFICANT_COVERAGE = 0.01;
+const MAX_REPORTED_COLORS = 8;
+// Clusters whose channels differ by more than this count as color rather than gray
+const CHROMA_THRESHOLD = 30;
+// Flat artwork is almost entirely made of its dominant colors; gradients aren't
+const FLAT_THRESHOLD = 0.85;
+// Flat artwork with up to this many colors is traced color by color with potrace
+const MAX_LAYERED_COLORS = 8;
+
+/**
+ * Pick an engine and color count from the histogram of an image.
+ * Potrace only traces one color, so it wins when there is a single shape color on a background;
+ * flat artwork with a few colors gets potrace curves layer by layer, gradients need ImageTracer.
+ */
+function recommendTracing(
+  distinctColors: number,
+  isColorImage: boolean,
+  flatness: number,
+  transparentRatio: number
+): Pick<ColorAnalysis, 'recommendedEngine' | 'reason' | 'suggestedNumberOfColors'> {
+  const isFlat = flatness >= FLAT_THRESHOLD;
+  // Gradients need extra palette entries to band smoothly; transparency takes a slot of its own
+  let suggested = isFlat ? distinctColors : distinctColors * 2;
+  if (transparentRatio > SIGNIFICANT_COVERAGE) suggested += 1;
+  const suggestedNumberOfColors = Math.max(2, Math.min(64, suggested));
+
+  if (distinctColors === 0) {
+    return { recommendedEngine: 'potrace', reason: 'No opaque pixels found', suggestedNumberOfColors };
+  }
+  if (distinctColors <= 2) {
+    return {
+      recommendedEngine: 'potrace',
+      reason: `Only ${distinctColors} color${distinctColors === 1 ? '' : 's'} found - Potrace traces single-color artwork most cleanly`,
+      suggestedNumberOfColors
+    };
+  }
+
+  const kind = isColorImage ? 'distinct colors' : 'gray levels';
+  if (isFlat && distinctColors <= MAX_LAYERED_COLORS) {
+    return {
+      recommendedEngine: 'potrace-color',
+      reason: `${distinctColors} flat ${kind} found - layered Potrace traces each one with clean curves`,
+      suggestedNumberOfColors
+    };
+  }
+
+  const gradientNote = isFlat ? '' : ` (gradients detected - only ${Math.round(flatness * 100)}% of pixels are solid color)`;
+  return {
+    recommendedEngine: 'imagetracer',
+    reason: `${distinctColors} ${kind} found - ImageTracer keeps each one as its own layer${gradientNote}`,
+    suggestedNumberOfColors
+  };
+}
+
 /**
  * Detect if an image is better suited for color tracing vs. black and white tracing
- * Returns a comprehensive color analysis using Sharp
+ * Builds a median-cut histogram of a downsampled copy and measures edges and anti-aliasing
  */
-export async function detectColorComplexity(imageBuffer: Buffer): Promise<{
-  isColorImage: boolean;
-  colorComplexity: number;
-  distinctColors: number;
-  entropy: number;
-  dominantColors: string[];
-  hasAlpha: boolean;
-}> {
+export async function detectColorComplexity(imageBuffer: Buffer): Promise<ColorAnalysis> {
   try {
-    console.log("Analyzing image color complexity with Sharp...");
-    const image = sharp(imageBuffer);
-    
-    // Get image stats (dominant color, entropy)
-    const stats = await image.stats();
-    
-    // Get metadata (channels, alpha)
-    const metadata = await image.metadata();
-    
-    console.log("Image metadata:", {
-      format: metadata.format,
-      width: metadata.width,
-      height: metadata.height,
-      channels: metadata.channels,
-      hasAlpha: metadata.hasAlpha
-    });
-    
-    console.log("Image stats entropy:", stats.entropy);
-    
-    // Calculate dominant colors from channel stats
-    const dominantColors: string[] = [];
-    
-    if (stats.channels) {
-      // Get channels mean values to determine dominant colors
-      const redMean = stats.channels[0].mean;
-      const greenMean = stats.channels[1].mean;
-      const blueMean = stats.channels[2].mean;
-      
-      // Add dominant color as hex
-      const dominantHex = '#' + 
-        Math.round(redMean).toString(16).padStart(2, '0') +
-        Math.round(greenMean).toString(16).padStart(2, '0') +
-        Math.round(blueMean).toString(16).padStart(2, '0');
-      
-      dominantColors.push(dominantHex);
-      
-      // Check if image has more than one dominant color by analyzing standard deviation
-      const colorVariation = 
-        stats.channels[0].stdev + 
-        stats.channels[1].stdev + 
-        stats.channels[2].stdev;
-      
-      console.log("Color variation score:", colorVariation);
-      
-      // Higher variation indicates more colors
-      if (colorVariation > 50) {
-        // Create additional color variations based on the stats
-        const altColor1 = '#' + 
-          Math.min(255, Math.round(redMean + stats.channels[0].stdev)).toString(16).padStart(2, '0') +
-          Math.min(255, Math.round(greenMean + stats.channels[1].stdev)).toString(16).padStart(2, '0') +
-          Math.min(255, Math.round(blueMean + stats.channels[2].stdev)).toString(16).padStart(2, '0');
-          
-        const altColor2 = '#' + 
-          Math.max(0, Math.round(redMean - stats.channels[0].stdev)).toString(16).padStart(2, '0') +
-          Math.max(0, Math.round(greenMean - stats.channels[1].stdev)).toString(16).padStart(2, '0') +
-          Math.max(0, Math.round(blueMean - stats.channels[2].stdev)).toString(16).padStart(2, '0');
-          
-        dominantColors.push(altColor1, altColor2);
-      }
-    }
-    
-    console.log("Detected dominant colors:", dominantColors);
-    
-    // Determine if it's a color image based on channel stats
-    let isColorImage = false;
-    let colorComplexity = 0;
-    let distinctColors = 0;
-    
-    if (stats.channels && stats.channels.length >= 3) {
-      // Calculate standard deviation across RGB to detect color variation
-      const redStd = stats.channels[0].stdev;
-      const greenStd = stats.channels[1].stdev;
-      const blueStd = stats.channels[2].stdev;
-      
-      // Mean standard deviation indicates color complexity
-      const meanStdDev = (redStd + greenStd + blueStd) / 3;
-      
-      // Calculate color similarity (normalized 0-1)
-      const meanValues = [stats.channels[0].mean, stats.channels[1].mean, stats.channels[2].mean];
-      const maxDiff = Math.max(
-        Math.abs(meanValues[0] - meanValues[1]),
-        Math.abs(meanValues[0] - meanValues[2]),
-        Math.abs(meanValues[1] - meanValues[2])
-      );
-      
-      // Normalized color difference (0 = grayscale, 1 = maximum color difference)
-      const normalizedColorDiff = maxDiff / 255;
-      
-      console.log("Color metrics:", {
-        meanStdDev,
-        normalizedColorDiff,
-        channelMeans: meanValues
-      });
-      
-      // Combine metrics for overall color complexity
-      colorComplexity = (normalizedColorDiff * 0.7) + (Math.min(meanStdDev / 50, 1) * 0.3);
-      
-      // Estimate distinct colors from stats
-      // Higher stdev and entropy indicate more distinct colors
-      distinctColors = Math.round(
-        (meanStdDev / 10) * 
-        (stats.entropy * 5) * 
-        Math.max(metadata.width || 100, metadata.height || 100) / 1000
-      );
-      
-      // Cap distinct colors at a reasonable maximum
-      distinctColors = Math.min(distinctColors, 256);
-      
-      // Image is considered color if complexity exceeds threshold
-      isColorImage = colorComplexity > 0.1 || normalizedColorDiff > 0.15;
+    console.log("Analyzing image color histogram with Sharp...");
+    const { data, info } = await sharp(imageBuffer)
+      .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true, kernel: 'nearest' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const sample = { data, width: info.width, height: info.height };
+    const pixelCount = info.width * info.height;
+
+    const { clusters, opaquePixels } = quantizeMedianCut(sample, MAX_CLUSTERS);
+    const significant = clusters.filter(cluster => cluster.coverage >= SIGNIFICANT_COVERAGE);
+
+    const colored = significant.filter(cluster => chroma(cluster.rgb) > CHROMA_THRESHOLD);
+    const colorComplexity = colored.reduce((sum, cluster) => sum + cluster.coverage, 0);
+
+    let partiallyTransparent = 0;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) partiallyTransparent++;
     }
-    
-    // Check if image has alpha channel
-    const hasAlpha = metadata.hasAlpha || false;
-    
-    const result = {
-      isColorImage,
+
+    const luminance = luminanceOverWhite(sample);
+    const { edges, density: edgeDensity } = detectEdges(luminance, info.width, info.height);
+    const antiAliasing = estimateAntiAliasing(
+      sample,
+      edges,
+      significant.slice(0, MAX_REPORTED_COLORS).map(cluster => cluster.rgb)
+    );
+
+    const flatness = measureFlatness(sample, significant.map(cluster => cluster.rgb));
+    const transparentRatio = (pixelCount - opaquePixels) / pixelCount;
+    const result: ColorAnalysis = {
+      isColorImage: colored.length > 0,
       colorComplexity,
-      distinctColors: Math.max(distinctColors, dominantColors.length),
-      entropy: stats.entropy,
-      dominantColors,
-      hasAlpha
+      distinctColors: significant.length,
+      entropy: luminanceEntropy(luminance),
+      dominantColors: significant.slice(0, MAX_REPORTED_COLORS).map(({ color, coverage }) => ({ color, coverage })),
+      hasAlpha: partiallyTransparent > 0,
+      transparentRatio,
+      edgeDensity,
+      antiAliasing,
+      flatness,
+      ...recommendTracing(significant.length, colored.length > 0, flatness, transparentRatio)
     };
-    
+
     console.log("Color analysis result:", result);
-    
+
     return result;
   } catch (error) {
     console.error('Error detecting color complexity with Sharp:', error);
-    
-    // Fallback to default values if Sharp analysis fails
+
+    // Fall back to the single-color tracer if the image can't be analyzed
     return {
       isColorImage: false,
       colorComplexity: 0,
       distinctColors: 0,
       entropy: 0,
-      dominantColors: ['#000000'],
-      hasAlpha: false
+      dominantColors: [],
+      hasAlpha: false,
+      transparentRatio: 0,
+      edgeDensity: 0,
+      antiAliasing: 0,
+      flatness: 0,
+      suggestedNumberOfColors: 2,
+      recommendedEngine: 'potrace',
+      reason: 'Color analysis failed - falling back to Potrace'
     };
   }
-}
\ No newline at end of file
+}
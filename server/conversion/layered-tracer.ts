@@ -0,0 +1,313 @@
+import * as potrace from 'potrace';
+import sharp from 'sharp';
+import { processImageBuffer } from '../utils/imageProcessing';
+import { prepareTracerInput } from '../utils/preprocessing';
+import { OPAQUE_ALPHA } from '../utils/alphaMask';
+import { applySVGGrouping } from '../utils/svgGroupingUtils';
+import { expandStrokesToFills } from '../utils/strokeExpansion';
+import { processForAnimation, AnimationProcessingOptions, AnimationMetadata } from '../utils/animationSvgProcessor';
+import { quantizeMedianCut, toHex, RGB } from '../utils/colorHistogram';
+import { getPotraceParameters } from './svg-converter';
+import type { ColorTracingOptions } from './color-tracer';
+import { TraceOutput } from './types';
+
+/**
+ * Layered Potrace Color Tracing
+ * Separates the image into a small palette, traces a black and white mask of every color
+ * with potrace and stacks the results as one <g> layer per color - potrace curves in full
+ * color. With shapeStacking 'placeCutouts' each mask holds exactly its own pixels; any
+ * other mode lets every layer extend under the layers above it, so no seams show between
+ * neighbouring colors.
+ */
+
+export interface LayeredTracingOptions extends ColorTracingOptions {
+  // Potrace options, applied to every layer
+  turdSize?: number;
+  alphaMax?: number;
+  optTolerance?: number;
+}
+
+interface ColorLayer {
+  rgb: RGB;
+  color: string;
+  pixels: number;
+}
+
+// Each layer is a full potrace run, so keep the palette small
+const MAX_LAYERS = 32;
+
+// A bottom layer this light that reaches every corner is the paper, not artwork
+const BACKGROUND_LUMINANCE = 240;
+
+const NOT_TRACED = -1;
+
+/**
+ * Convert an image to a layered color SVG traced with potrace
+ */
+export async function convertImageToLayeredSVG(
+  imageBuffer: Buffer,
+  options: LayeredTracingOptions
+): Promise<TraceOutput> {
+  try {
+    console.log("Converting image to layered color SVG with Potrace...");
+    console.log("Image buffer size:", imageBuffer?.length || 0, "bytes");
+
+    const { processedBuffer, format } = await processImageBuffer(imageBuffer, 'Layered Potrace conversion');
+    console.log(`Processed ${format.toUpperCase()} image for layered Potrace conversion`);
+
+    // Preprocess and snap alpha so transparent pixels never join a color layer
+    const bitmap = await prepareTracerInput(processedBuffer, 'potrace-color', options);
+    const { data, info } = await sharp(bitmap).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    const { width, height } = info;
+
+    if (options.colorMode === 'grayscale') {
+      toGrayscale(data);
+    }
+
+    const { layers, labels } = separateColors(data, width, height, options);
+    console.log(`Separated ${layers.length} color layers:`, layers.map(layer => layer.color).join(', '));
+
+    const params = getPotraceParameters(options);
+    console.log("Layered potrace parameters:", JSON.stringify(params, null, 2));
+
+    const cutouts = options.shapeStacking === 'placeCutouts';
+    const groups: string[] = [];
+    for (let index = 0; index < layers.length; index++) {
+      const mask = await buildMask(labels, width, height, label => cutouts ? label === index : label >= index);
+      const pathTag = await traceLayer(mask, params, layers[index].color);
+      if (!pathTag) continue;
+      groups.push(`<g id="layer-${index + 1}" data-color="${layers[index].color}">${stylePath(pathTag, layers[index].color, options)}</g>`);
+    }
+
+    const version = ['1.0', '1.1', '2.0'].includes(options.svgVersion) ? options.svgVersion : '1.1';
+    let result = `<svg xmlns="http://www.w3.org/2000/svg" version="${version}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+      groups.join('') +
+      '</svg>';
+
+    console.log("Applying SVG grouping and layering to layered output...");
+    result = await applySVGGrouping(result, {
+      shapeStacking: options.shapeStacking || 'placeCutouts',
+      groupBy: options.groupBy || 'none',
+      allowedCurveTypes: options.allowedCurveTypes
+    });
+
+    let animationMetadata: AnimationMetadata | undefined;
+    if (options.animationMode) {
+      console.log("Processing layered SVG for animation-ready output...");
+      const animationOptions: AnimationProcessingOptions = {
+        idPrefix: options.idPrefix || 'anim_',
+        flattenTransforms: options.flattenTransforms || false,
+        preserveHierarchy: true,
+        generateStableIds: options.generateStableIds || true,
+        optimizeForAnimation: true,
+        optimizeViewBox: true,
+        extractColors: true,
+        prepareStrokes: true,
+        setupDrawOn: true,
+        enhanceAccessibility: true,
+        enablePerformanceOptimization: true,
+        targetReduction: 30,
+        simplifyTolerance: options.simplifyTolerance
+      };
+
+      const processed = await processForAnimation(result, animationOptions);
+      result = processed.svg;
+      animationMetadata = processed.metadata;
+
+      console.log("Animation processing complete:", processed.metadata);
+    }
+
+    if (options.nonScalingStroke) {
+      result = result.replace(/<path /g, '<path vector-effect="non-scaling-stroke" ');
+    }
+
+    // Potrace paths never leave the bitmap, so clipOverflow has nothing to clip here
+    if (options.expandStrokes) {
+      result = expandStrokesToFills(result);
+    }
+
+    return { svg: result, metadata: animationMetadata };
+  } catch (error) {
+    console.error("Error converting image to layered SVG:", error);
+    throw error;
+  }
+}
+
+/**
+ * Quantize the opaque pixels and label each one with its layer. Layers are ordered by
+ * coverage, largest at the bottom; colors under minColorRatio fold into their nearest
+ * neighbour instead of leaving holes.
+ */
+function separateColors(
+  data: Buffer,
+  width: number,
+  height: number,
+  options: LayeredTracingOptions
+): { layers: ColorLayer[]; labels: Int16Array } {
+  const maxColors = Math.max(2, Math.min(MAX_LAYERS, options.numberOfColors || 16));
+  let palette: RGB[] = options.customPalette?.length
+    ? options.customPalette.slice(0, MAX_LAYERS).map(hexToRgb)
+    : quantizeMedianCut({ data, width, height }, maxColors).clusters.map(cluster => cluster.rgb);
+
+  let labels = assignPixels(data, palette);
+  let counts = countLabels(labels, palette.length);
+  const opaque = counts.reduce((sum, count) => sum + count, 0);
+  if (opaque === 0) return { layers: [], labels };
+
+  const minPixels = opaque * (options.minColorRatio ?? 0);
+  const largest = counts.indexOf(Math.max(...counts));
+  const kept = palette.filter((_, index) => index === largest || counts[index] >= minPixels);
+  if (kept.length < palette.length) {
+    palette = kept;
+    labels = assignPixels(data, palette);
+    counts = countLabels(labels, palette.length);
+  }
+
+  // Relabel so that label order is stacking order
+  const order = palette.map((_, index) => index).sort((a, b) => counts[b] - counts[a]);
+  const rank = new Int16Array(palette.length);
+  order.forEach((index, position) => { rank[index] = position; });
+  for (let pixel = 0; pixel < labels.length; pixel++) {
+    if (labels[pixel] !== NOT_TRACED) labels[pixel] = rank[labels[pixel]];
+  }
+  const layers = order.map(index => ({ rgb: palette[index], color: toHex(palette[index]), pixels: counts[index] }));
+
+  if (isPaper(layers[0], labels, width, height)) {
+    console.log(`Dropping background layer ${layers[0].color}`);
+    for (let pixel = 0; pixel < labels.length; pixel++) {
+      if (labels[pixel] !== NOT_TRACED) labels[pixel] = labels[pixel] === 0 ? NOT_TRACED : labels[pixel] - 1;
+    }
+    layers.shift();
+  }
+
+  return { layers, labels };
+}
+
+/**
+ * Nearest palette color for every opaque pixel; NOT_TRACED for transparent ones
+ */
+function assignPixels(data: Buffer, palette: RGB[]): Int16Array {
+  const labels = new Int16Array(data.length / 4).fill(NOT_TRACED);
+  // Flat artwork repeats the same few colors, so remember each lookup
+  const cache = new Map<number, number>();
+
+  for (let pixel = 0; pixel < labels.length; pixel++) {
+    const offset = pixel * 4;
+    if (data[offset + 3] < OPAQUE_ALPHA || palette.length === 0) continue;
+
+    const key = (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2];
+    let label = cache.get(key);
+    if (label === undefined) {
+      let best = Infinity;
+      label = 0;
+      palette.forEach(([r, g, b], index) => {
+        const distance = (data[offset] - r) ** 2 + (data[offset + 1] - g) ** 2 + (data[offset + 2] - b) ** 2;
+        if (distance < best) {
+          best = distance;
+          label = index;
+        }
+      });
+      cache.set(key, label);
+    }
+    labels[pixel] = label;
+  }
+  return labels;
+}
+
+function countLabels(labels: Int16Array, colors: number): number[] {
+  const counts = new Array(colors).fill(0);
+  labels.forEach(label => {
+    if (label !== NOT_TRACED) counts[label]++;
+  });
+  return counts;
+}
+
+/**
+ * Whether the bottom layer is a light background: it holds all four corners
+ */
+function isPaper(layer: ColorLayer | undefined, labels: Int16Array, width: number, height: number): boolean {
+  if (!layer) return false;
+  const [r, g, b] = layer.rgb;
+  if (0.299 * r + 0.587 * g + 0.114 * b < BACKGROUND_LUMINANCE) return false;
+  return [0, width - 1, (height - 1) * width, height * width - 1].every(pixel => labels[pixel] === 0);
+}
+
+/**
+ * Black and white PNG for potrace: black where the label is part of this layer's mask
+ */
+async function buildMask(
+  labels: Int16Array,
+  width: number,
+  height: number,
+  inMask: (label: number) => boolean
+): Promise<Buffer> {
+  const gray = Buffer.alloc(width * height, 255);
+  for (let pixel = 0; pixel < labels.length; pixel++) {
+    if (labels[pixel] !== NOT_TRACED && inMask(labels[pixel])) gray[pixel] = 0;
+  }
+  return sharp(gray, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+/**
+ * Trace one mask and return its <path> tag, or null when potrace found no shapes
+ */
+async function traceLayer(
+  mask: Buffer,
+  params: ReturnType<typeof getPotraceParameters>,
+  color: string
+): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const tracer = new potrace.Potrace();
+    tracer.setParameters({
+      threshold: params.threshold,
+      blackOnWhite: true,
+      optCurve: true,
+      turdSize: params.turdSize,
+      alphaMax: params.alphaMax,
+      optTolerance: params.optTolerance,
+      turnPolicy: params.turnPolicy
+    });
+
+    tracer.loadImage(mask, (err: any) => {
+      if (err) {
+        return reject(new Error(`Failed to load layer mask: ${err.message || err}`));
+      }
+      try {
+        const pathTag = tracer.getPathTag(color);
+        resolve(/\sd="\s*"/.test(pathTag) ? null : pathTag);
+      } catch (traceErr) {
+        reject(new Error(`Failed to trace layer ${color}: ${traceErr}`));
+      }
+    });
+  });
+}
+
+/**
+ * Apply the drawing style to a layer path, stroking in the layer's own color
+ */
+function stylePath(pathTag: string, color: string, options: LayeredTracingOptions): string {
+  const strokeWidth = options.strokeWidth || 1;
+  if (options.drawStyle === 'strokeOutlines') {
+    return pathTag.replace(/stroke="none" fill="[^"]*"/, `stroke="${color}" stroke-width="${strokeWidth}" fill="none"`);
+  }
+  if (options.drawStyle === 'strokeEdges') {
+    return pathTag.replace(/stroke="none"/, `stroke="${color}" stroke-width="${strokeWidth * 0.7}"`);
+  }
+  return pathTag;
+}
+
+function toGrayscale(data: Buffer): void {
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const gray = Math.round(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+    data[offset] = data[offset + 1] = data[offset + 2] = gray;
+  }
+}
+
+function hexToRgb(color: string): RGB {
+  const hex = color.replace('#', '');
+  return [
+    parseInt(hex.substring(0, 2), 16),
+    parseInt(hex.substring(2, 4), 16),
+    parseInt(hex.substring(4, 6), 16)
+  ];
+}
@@ -0,0 +1,135 @@
+import { svgToDxf, DxfUnits } from '../utils/dxfWriter';
+import { svgToPdf } from '../utils/pdfWriter';
+import { svgToEps } from '../utils/epsWriter';
+import { rasterizeSvg, isRasterBundle, RasterMode } from '../utils/rasterExport';
+import { svgToHpgl, svgToGcode, ToolpathOptions } from '../utils/toolpathWriter';
+import { ConversionOutput } from './types';
+
+/**
+ * Output Formats
+ * Writes the finished SVG in the fileFormat the options ask for. SVG itself needs no
+ * extra output; formats without a writer fall back to it as well.
+ */
+
+export interface OutputFormatOptions {
+  fileFormat?: string;
+  dxfUnits?: DxfUnits;
+  dxfScale?: number;
+  rasterMode?: RasterMode;
+  rasterScales?: number[];
+  rasterSizes?: string[];
+  rasterPadding?: number;
+  rasterBackground?: string;
+  toolpathTolerance?: number;
+  toolDiameter?: number;
+  toolpathFeedRates?: number[];
+  toolpathPlungeRate?: number;
+  toolpathSafeZ?: number;
+  toolpathCutZ?: number;
+  toolpathScale?: number;
+}
+
+// File extension of each format with a writer
+const EXTENSIONS: Record<string, string> = {
+  dxf: 'dxf',
+  pdf: 'pdf',
+  eps: 'eps',
+  png: 'png',
+  webp: 'webp',
+  hpgl: 'plt',
+  gcode: 'gcode'
+};
+
+/**
+ * Extension of the file the options produce; several raster sizes come as a ZIP
+ */
+export function outputExtension(options: OutputFormatOptions): string {
+  if ((options.fileFormat === 'png' || options.fileFormat === 'webp') && isRasterBundle(rasterOptions(options))) {
+    return 'zip';
+  }
+  return (options.fileFormat && EXTENSIONS[options.fileFormat]) || 'svg';
+}
+
+/**
+ * Render the SVG in the requested format, or undefined when the SVG is the output
+ */
+export async function renderOutput(svg: string, options: OutputFormatOptions): Promise<ConversionOutput | undefined> {
+  switch (options.fileFormat) {
+    case 'dxf':
+      return {
+        format: 'dxf',
+        mimeType: 'application/dxf',
+        extension: 'dxf',
+        encoding: 'utf8',
+        data: svgToDxf(svg, { units: options.dxfUnits, scale: options.dxfScale })
+      };
+    case 'pdf':
+      return {
+        format: 'pdf',
+        mimeType: 'application/pdf',
+        extension: 'pdf',
+        encoding: 'base64',
+        data: svgToPdf(svg).toString('base64')
+      };
+    case 'eps':
+      return {
+        format: 'eps',
+        mimeType: 'application/postscript',
+        extension: 'eps',
+        encoding: 'utf8',
+        data: svgToEps(svg)
+      };
+    case 'png':
+    case 'webp': {
+      const raster = await rasterizeSvg(svg, rasterOptions(options));
+      return {
+        format: options.fileFormat,
+        mimeType: raster.mimeType,
+        extension: raster.extension,
+        encoding: 'base64',
+        data: raster.data.toString('base64')
+      };
+    }
+    case 'hpgl':
+      return {
+        format: 'hpgl',
+        mimeType: 'application/vnd.hp-hpgl',
+        extension: 'plt',
+        encoding: 'utf8',
+        data: svgToHpgl(svg, toolpathOptions(options))
+      };
+    case 'gcode':
+      return {
+        format: 'gcode',
+        mimeType: 'text/x-gcode',
+        extension: 'gcode',
+        encoding: 'utf8',
+        data: svgToGcode(svg, toolpathOptions(options))
+      };
+    default:
+      return undefined;
+  }
+}
+
+function rasterOptions(options: OutputFormatOptions) {
+  return {
+    format: options.fileFormat === 'webp' ? 'webp' as const : 'png' as const,
+    mode: options.rasterMode,
+    scales: options.rasterScales,
+    sizes: options.rasterSizes,
+    padding: options.rasterPadding,
+    background: options.rasterBackground
+  };
+}
+
+function toolpathOptions(options: OutputFormatOptions): ToolpathOptions {
+  return {
+    tolerance: options.toolpathTolerance,
+    toolDiameter: options.toolDiameter,
+    feedRates: options.toolpathFeedRates,
+    plungeRate: options.toolpathPlungeRate,
+    safeZ: options.toolpathSafeZ,
+    cutZ: options.toolpathCutZ,
+    scale: options.toolpathScale
+  };
+}
@@ -0,0 +1,321 @@
+import sharp from 'sharp';
+import { traceImage, svgOnlyOptions, ConversionOptions } from './pipeline';
+
+/**
+ * Parameter Search
+ * Looks for tracing settings that meet a file size, path count or fidelity goal. A coarse
+ * grid over both engines is traced on a downscaled copy of the image, the best settings
+ * are refined step by step, and the size-vs-error Pareto front is re-measured at full size.
+ */
+
+export type SearchEngine = 'potrace' | 'imagetracer';
+
+export interface SearchGoal {
+  maxBytes?: number;
+  maxPaths?: number;
+  maxError?: number; // Fidelity mean color error, 0-1
+}
+
+export type SearchParameters = Partial<Pick<
+  ConversionOptions,
+  'turdSize' | 'optTolerance' | 'numberOfColors' | 'ltres' | 'qtres' | 'pathomit' | 'blurRadius'
+>>;
+
+export interface SearchCandidate {
+  engine: SearchEngine;
+  parameters: SearchParameters;
+  bytes: number;
+  paths: number;
+  error: number; // Fidelity mean color error, 0-1
+  ssim: number;
+  meetsGoal: boolean;
+}
+
+export interface ParameterSearchResult {
+  goal: SearchGoal;
+  front: SearchCandidate[]; // Smallest first; each entry has less error than the one before
+  recommended: SearchCandidate;
+  evaluated: number; // Traces run, including the full-size checks
+  skippedEngines: { engine: SearchEngine; reason: string }[]; // Engines none of whose traces succeeded
+  searchScale: number; // Downscale factor the grid and refinement ran at
+  durationMs: number;
+}
+
+interface SearchDimension {
+  values: number[];
+  coarse: number[]; // Indices into values tried in the first pass
+  apply: (value: number) => SearchParameters;
+}
+
+interface Evaluation {
+  engine: SearchEngine;
+  indices: number[];
+  candidate: SearchCandidate;
+}
+
+// Long side of the image the search traces
+const SEARCH_SIZE = 256;
+
+// Upper bound on traces at search size
+const MAX_EVALUATIONS = 120;
+
+// Neighbour passes around the best candidates after the coarse grid
+const REFINE_ROUNDS = 2;
+
+// Front members re-traced at full size
+const MAX_FINAL_CANDIDATES = 8;
+
+/**
+ * Setting ladders per engine. Each dimension moves one rung at a time during refinement.
+ */
+const SEARCH_SPACE: Record<SearchEngine, SearchDimension[]> = {
+  potrace: [
+    { values: [0, 1, 2, 4, 8, 16, 32], coarse: [1, 3, 5], apply: turdSize => ({ turdSize }) },
+    { values: [0.1, 0.2, 0.4, 0.6, 0.8, 1.2], coarse: [0, 2, 5], apply: optTolerance => ({ optTolerance }) }
+  ],
+  imagetracer: [
+    { values: [2, 4, 6, 8, 12, 16, 24, 32, 48, 64], coarse: [1, 5, 8], apply: numberOfColors => ({ numberOfColors }) },
+    // Line and curve thresholds move together
+    { values: [0.1, 0.25, 0.5, 1, 2, 4, 8], coarse: [1, 3, 5], apply: threshold => ({ ltres: threshold, qtres: threshold }) },
+    { values: [0, 2, 4, 8, 16, 32, 64], coarse: [1, 4], apply: pathomit => ({ pathomit }) },
+    { values: [0, 1, 2, 3, 5], coarse: [0, 2], apply: blurRadius => ({ blurRadius }) }
+  ]
+};
+
+/**
+ * Search tracing settings for the given goal. The source must already be validated as a
+ * raster image; other conversion options (palette, animation mode, ...) are kept as given.
+ */
+export async function searchParameters(
+  fileBuffer: Buffer,
+  detectedFormat: string,
+  baseOptions: ConversionOptions,
+  goal: SearchGoal
+): Promise<ParameterSearchResult> {
+  const startedAt = Date.now();
+  const { buffer: searchBuffer, scale } = await downscaleForSearch(fileBuffer);
+  const evaluations = new Map<string, Evaluation | null>();
+  const lastErrors = new Map<SearchEngine, string>();
+  let traces = 0;
+
+  const evaluate = async (engine: SearchEngine, indices: number[]) => {
+    const key = `${engine}:${indices.join(',')}`;
+    if (evaluations.has(key) || traces >= MAX_EVALUATIONS) return;
+    traces++;
+    const candidate = await traceCandidate(searchBuffer, baseOptions, engine, indices, goal, scale)
+      .catch(error => {
+        lastErrors.set(engine, error instanceof Error ? error.message : String(error));
+        return null;
+      });
+    evaluations.set(key, candidate && { engine, indices, candidate });
+  };
+  const succeeded = () => Array.from(evaluations.values()).filter((entry): entry is Evaluation => entry !== null);
+
+  // Coarse grid. An engine whose first trace fails is tried once more and then skipped,
+  // so a broken engine is reported instead of quietly halving the search.
+  const skippedEngines: ParameterSearchResult['skippedEngines'] = [];
+  for (const engine of Object.keys(SEARCH_SPACE) as SearchEngine[]) {
+    const grid = coarseGrid(SEARCH_SPACE[engine]);
+    for (let position = 0; position < grid.length; position++) {
+      await evaluate(engine, grid[position]);
+      const failed = position === 1 && !succeeded().some(entry => entry.engine === engine) && lastErrors.has(engine);
+      if (failed) {
+        skippedEngines.push({ engine, reason: lastErrors.get(engine)! });
+        console.warn(`Parameter search: skipping ${engine} - ${lastErrors.get(engine)}`);
+        break;
+      }
+    }
+  }
+
+  // Step around the recommended candidate and its neighbours on the front
+  for (let round = 0; round < REFINE_ROUNDS; round++) {
+    const before = evaluations.size;
+    for (const seed of refinementSeeds(succeeded(), goal)) {
+      for (const indices of neighbours(SEARCH_SPACE[seed.engine], seed.indices)) {
+        await evaluate(seed.engine, indices);
+      }
+    }
+    if (evaluations.size === before) break;
+  }
+
+  const searched = succeeded();
+  if (searched.length === 0) {
+    throw new Error('Parameter search failed - no settings could be traced');
+  }
+
+  // Search-size byte counts are estimates, so measure the front again at full size
+  const final: SearchCandidate[] = [];
+  for (const { engine, indices } of finalSelection(searched, goal)) {
+    traces++;
+    const candidate = await traceCandidate(fileBuffer, baseOptions, engine, indices, goal, 1, detectedFormat)
+      .catch(() => null);
+    if (candidate) final.push(candidate);
+  }
+  if (final.length === 0) {
+    throw new Error('Parameter search failed - no settings could be traced at full size');
+  }
+
+  return {
+    goal,
+    front: paretoFront(final),
+    recommended: recommend(final, goal),
+    evaluated: traces,
+    skippedEngines,
+    searchScale: scale,
+    durationMs: Date.now() - startedAt
+  };
+}
+
+/**
+ * Trace one point of the search space and measure it; null if scoring fails, and tracing
+ * errors are logged and rethrown. Byte counts at reduced scale are extrapolated to full size.
+ */
+async function traceCandidate(
+  buffer: Buffer,
+  baseOptions: ConversionOptions,
+  engine: SearchEngine,
+  indices: number[],
+  goal: SearchGoal,
+  scale: number,
+  detectedFormat: string = 'png'
+): Promise<SearchCandidate | null> {
+  const parameters = Object.assign({}, ...SEARCH_SPACE[engine].map((dimension, index) =>
+    dimension.apply(dimension.values[indices[index]])
+  )) as SearchParameters;
+
+  try {
+    // Candidates are only measured, so no output format is rendered
+    const { svg, fidelity } = await traceImage(buffer, detectedFormat, {
+      ...svgOnlyOptions(baseOptions),
+      ...parameters,
+      traceEngine: engine,
+      // preserveColors forces color tracing
+      preserveColors: engine === 'potrace' ? false : baseOptions.preserveColors,
+      scoreFidelity: true
+    });
+    if (!fidelity) return null;
+
+    const candidate = {
+      engine,
+      parameters,
+      bytes: Math.round(Buffer.byteLength(svg) / scale),
+      paths: svg.match(/<path\b/g)?.length ?? 0,
+      error: fidelity.meanError,
+      ssim: fidelity.ssim
+    };
+    return { ...candidate, meetsGoal: goalViolation(candidate, goal) === 0 };
+  } catch (error) {
+    console.warn(`Parameter search: ${engine} ${JSON.stringify(parameters)} failed:`, error instanceof Error ? error.message : error);
+    throw error;
+  }
+}
+
+/**
+ * Shrink the source so its long side is at most SEARCH_SIZE
+ */
+async function downscaleForSearch(fileBuffer: Buffer): Promise<{ buffer: Buffer; scale: number }> {
+  const { data, info } = await sharp(fileBuffer)
+    .resize(SEARCH_SIZE, SEARCH_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  const { width = info.width, height = info.height } = await sharp(fileBuffer).metadata();
+
+  return { buffer: data, scale: Math.max(info.width, info.height) / Math.max(width, height) };
+}
+
+function coarseGrid(dimensions: SearchDimension[]): number[][] {
+  return dimensions.reduce<number[][]>(
+    (grid, dimension) => grid.flatMap(indices => dimension.coarse.map(index => [...indices, index])),
+    [[]]
+  );
+}
+
+function neighbours(dimensions: SearchDimension[], indices: number[]): number[][] {
+  return dimensions.flatMap((dimension, position) =>
+    [-1, 1]
+      .map(step => indices[position] + step)
+      .filter(index => index >= 0 && index < dimension.values.length)
+      .map(index => indices.map((current, i) => i === position ? index : current))
+  );
+}
+
+/**
+ * The recommended candidate plus its cheaper and more accurate neighbours on the front
+ */
+function refinementSeeds(evaluations: Evaluation[], goal: SearchGoal): Evaluation[] {
+  if (evaluations.length === 0) return [];
+  const byCandidate = new Map(evaluations.map(entry => [entry.candidate, entry]));
+  const candidates = evaluations.map(entry => entry.candidate);
+  const front = paretoFront(candidates);
+  const best = recommend(candidates, goal);
+  const position = front.indexOf(best);
+
+  const seeds = position >= 0 ? front.slice(Math.max(0, position - 1), position + 2) : [best];
+  return seeds.map(candidate => byCandidate.get(candidate)!);
+}
+
+/**
+ * Spread up to MAX_FINAL_CANDIDATES members of the front, always keeping the recommended one
+ */
+function finalSelection(evaluations: Evaluation[], goal: SearchGoal): Evaluation[] {
+  const byCandidate = new Map(evaluations.map(entry => [entry.candidate, entry]));
+  const candidates = evaluations.map(entry => entry.candidate);
+  const front = paretoFront(candidates);
+  const best = recommend(candidates, goal);
+
+  const picked = new Set<SearchCandidate>([best]);
+  const step = Math.max(1, (front.length - 1) / (MAX_FINAL_CANDIDATES - 2));
+  for (let position = 0; position < front.length && picked.size < MAX_FINAL_CANDIDATES; position += step) {
+    picked.add(front[Math.round(position)]);
+  }
+  picked.add(front[front.length - 1]);
+
+  return Array.from(picked).map(candidate => byCandidate.get(candidate)!);
+}
+
+/**
+ * Candidates no other candidate beats on both size and error, smallest first
+ */
+function paretoFront(candidates: SearchCandidate[]): SearchCandidate[] {
+  const sorted = [...candidates].sort((a, b) => a.bytes - b.bytes || a.error - b.error);
+  const front: SearchCandidate[] = [];
+  for (const candidate of sorted) {
+    if (front.length === 0 || candidate.error < front[front.length - 1].error) {
+      front.push(candidate);
+    }
+  }
+  return front;
+}
+
+/**
+ * Among candidates that meet the goal: the smallest when only an error limit was set,
+ * otherwise the most accurate. If none meet it, the one closest to doing so.
+ */
+function recommend(candidates: SearchCandidate[], goal: SearchGoal): SearchCandidate {
+  const feasible = candidates.filter(candidate => goalViolation(candidate, goal) === 0);
+  const smallestFirst = goal.maxError !== undefined && goal.maxBytes === undefined && goal.maxPaths === undefined;
+
+  if (feasible.length > 0) {
+    return feasible.reduce((best, candidate) => {
+      const order = smallestFirst
+        ? candidate.bytes - best.bytes || candidate.error - best.error
+        : candidate.error - best.error || candidate.bytes - best.bytes;
+      return order < 0 ? candidate : best;
+    });
+  }
+
+  return candidates.reduce((best, candidate) =>
+    goalViolation(candidate, goal) < goalViolation(best, goal) ? candidate : best
+  );
+}
+
+/**
+ * Sum of how far each metric overshoots its limit, relative to the limit (0 = goal met)
+ */
+function goalViolation(candidate: Pick<SearchCandidate, 'bytes' | 'paths' | 'error'>, goal: SearchGoal): number {
+  const overshoot = (value: number, limit?: number) =>
+    limit === undefined ? 0 : Math.max(0, value / Math.max(limit, Number.EPSILON) - 1);
+  return overshoot(candidate.bytes, goal.maxBytes) +
+    overshoot(candidate.paths, goal.maxPaths) +
+    overshoot(candidate.error, goal.maxError);
+}
@@ -0,0 +1,269 @@
+import { convertImageToSVG } from './svg-converter';
+import { convertImageToColorSVG, detectColorComplexity, ColorAnalysis } from './color-tracer';
+import { convertImageToLayeredSVG } from './layered-tracer';
+import { sanitizeSvgContent, validateImageFormat } from '../validation/inputValidation';
+import { scoreFidelity, FidelityReport } from '../utils/fidelityScoring';
+import { preprocessImage, hasGeometry } from '../utils/preprocessing';
+import { ThresholdMode } from '../utils/alphaMask';
+import { DxfUnits } from '../utils/dxfWriter';
+import { RasterMode } from '../utils/rasterExport';
+import { renderOutput } from './outputFormats';
+import { ConversionResult, TraceEngine } from './types';
+
+/**
+ * Shared Conversion Pipeline
+ * Option parsing and engine selection for features that trace uploaded images server-side
+ */
+
+export type { TraceEngine, TraceEngineUsed, TraceOutput, ConversionOutput, ConversionTimings, ConversionResult } from './types';
+
+/**
+ * Convert multipart form fields into tracing options (same defaults as /api/convert)
+ */
+export function parseConversionOptions(body: Record<string, any>) {
+  return {
+    // Common options
+    fileFormat: body.fileFormat || "svg",
+    svgVersion: body.svgVersion || "1.1",
+    drawStyle: body.drawStyle || "fillShapes",
+    strokeWidth: parseFloat(body.strokeWidth) || 0.5,
+
+    // Engine selection
+    traceEngine: body.traceEngine || "auto",
+
+    // Potrace specific options
+    shapeStacking: body.shapeStacking || "placeCutouts",
+    groupBy: body.groupBy || "none",
+    lineFit: body.lineFit || "medium",
+    allowedCurveTypes: body.allowedCurveTypes?.split(',') || ["lines", "quadraticBezier", "cubicBezier"],
+    fillGaps: body.fillGaps === 'true',
+    clipOverflow: body.clipOverflow === 'true',
+    nonScalingStroke: body.nonScalingStroke === 'true',
+    expandStrokes: body.expandStrokes === 'true',
+
+    // Potrace advanced options
+    turdSize: body.turdSize ? parseInt(body.turdSize) : undefined,
+    alphaMax: body.alphaMax ? parseFloat(body.alphaMax) : undefined,
+    optTolerance: body.optTolerance ? parseFloat(body.optTolerance) : undefined,
+
+    // ImageTracerJS specific options
+    numberOfColors: parseInt(body.numberOfColors || "16"),
+    colorMode: (body.colorMode || "color") as 'color' | 'grayscale',
+    minColorRatio: parseFloat(body.minColorRatio || "0.02"),
+    colorQuantization: (body.colorQuantization || "default") as 'default' | 'riemersma' | 'floyd-steinberg',
+    blurRadius: parseInt(body.blurRadius || "0"),
+    preserveColors: body.preserveColors === 'true',
+
+    // ImageTracer advanced options
+    colorSampling: body.colorSampling !== undefined ?
+      parseInt(body.colorSampling) as 0 | 1 : undefined,
+    ltres: body.ltres ? parseFloat(body.ltres) : undefined,
+    qtres: body.qtres ? parseFloat(body.qtres) : undefined,
+    pathomit: body.pathomit ? parseInt(body.pathomit) : undefined,
+    roundcoords: body.roundcoords ? parseInt(body.roundcoords) : undefined,
+
+    // Custom palette option
+    customPalette: body.customPalette ?
+      (typeof body.customPalette === 'string' ?
+        JSON.parse(body.customPalette) : body.customPalette) : undefined,
+
+    // Animation mode options
+    animationMode: body.animationMode === 'true',
+    idPrefix: body.idPrefix || 'anim_',
+    flattenTransforms: body.flattenTransforms === 'true',
+    generateStableIds: body.generateStableIds !== 'false',
+    simplifyTolerance: body.simplifyTolerance ? parseFloat(body.simplifyTolerance) : undefined,
+
+    // Transparency options
+    removeBackground: body.removeBackground === 'true',
+    backgroundTolerance: body.backgroundTolerance ? parseFloat(body.backgroundTolerance) : undefined,
+
+    // Preprocessing options
+    crop: body.crop || undefined,
+    rotation: body.rotation ? parseFloat(body.rotation) : undefined,
+    deskew: body.deskew === 'true',
+    upscaleTo: body.upscaleTo ? parseInt(body.upscaleTo) : undefined,
+    denoise: body.denoise ? parseInt(body.denoise) : undefined,
+    autoLevels: body.autoLevels === 'true',
+    blackPoint: body.blackPoint ? parseFloat(body.blackPoint) : undefined,
+    whitePoint: body.whitePoint ? parseFloat(body.whitePoint) : undefined,
+    contrast: body.contrast ? parseFloat(body.contrast) : undefined,
+    posterize: body.posterize ? parseInt(body.posterize) : undefined,
+    thresholdMode: (body.thresholdMode || "fixed") as ThresholdMode,
+    threshold: body.threshold ? parseFloat(body.threshold) : undefined,
+
+    // DXF output options
+    dxfUnits: (body.dxfUnits || "mm") as DxfUnits,
+    dxfScale: body.dxfScale ? parseFloat(body.dxfScale) : undefined,
+
+    // PNG/WebP output options
+    rasterMode: (body.rasterMode || "scales") as RasterMode,
+    rasterScales: body.rasterScales ?
+      (typeof body.rasterScales === 'string' ?
+        body.rasterScales.split(',').map(parseFloat) : body.rasterScales) as number[] : undefined,
+    // Entries still being typed in the settings panel are skipped
+    rasterSizes: body.rasterSizes ?
+      ((typeof body.rasterSizes === 'string' ? body.rasterSizes.split(',') : body.rasterSizes) as string[])
+        .filter(size => /^\d+(x\d+)?$/i.test(size)).slice(0, 10) : undefined,
+    rasterPadding: body.rasterPadding ? parseFloat(body.rasterPadding) : undefined,
+    rasterBackground: body.rasterBackground || undefined,
+
+    // HPGL/G-code output options (millimeters)
+    toolpathTolerance: body.toolpathTolerance ? parseFloat(body.toolpathTolerance) : undefined,
+    toolDiameter: body.toolDiameter ? parseFloat(body.toolDiameter) : undefined,
+    toolpathFeedRates: body.toolpathFeedRates ?
+      (typeof body.toolpathFeedRates === 'string' ?
+        body.toolpathFeedRates.split(',').map(parseFloat) : body.toolpathFeedRates) as number[] : undefined,
+    toolpathPlungeRate: body.toolpathPlungeRate ? parseFloat(body.toolpathPlungeRate) : undefined,
+    toolpathSafeZ: body.toolpathSafeZ ? parseFloat(body.toolpathSafeZ) : undefined,
+    toolpathCutZ: body.toolpathCutZ ? parseFloat(body.toolpathCutZ) : undefined,
+    toolpathScale: body.toolpathScale ? parseFloat(body.toolpathScale) : undefined,
+
+    // Compare the result with the source bitmap
+    scoreFidelity: body.scoreFidelity === 'true'
+  };
+}
+
+export type ConversionOptions = ReturnType<typeof parseConversionOptions>;
+
+/**
+ * Options for traces whose SVG is only used internally (parameter search, morphs, stability
+ * tests): plain SVG output, no fidelity score, and none of the output format settings
+ */
+export function svgOnlyOptions(options: ConversionOptions): ConversionOptions {
+  return {
+    ...options,
+    fileFormat: 'svg',
+    scoreFidelity: false,
+    dxfScale: undefined,
+    rasterScales: undefined,
+    rasterSizes: undefined,
+    rasterPadding: undefined,
+    rasterBackground: undefined,
+    toolpathTolerance: undefined,
+    toolDiameter: undefined,
+    toolpathFeedRates: undefined,
+    toolpathPlungeRate: undefined,
+    toolpathSafeZ: undefined,
+    toolpathCutZ: undefined,
+    toolpathScale: undefined
+  };
+}
+
+/**
+ * Choose the tracing engine. In auto mode the color histogram decides, and the analysis is
+ * returned so callers can explain the choice; preserveColors always picks a color engine.
+ */
+export async function selectEngine(
+  fileBuffer: Buffer,
+  options: Pick<ConversionOptions, 'traceEngine' | 'preserveColors'>
+): Promise<{ engine: TraceEngine; analysis?: ColorAnalysis }> {
+  const analysis = options.traceEngine === 'auto' ? await detectColorComplexity(fileBuffer) : undefined;
+
+  if (options.traceEngine === 'imagetracer' || options.traceEngine === 'potrace-color') {
+    return { engine: options.traceEngine, analysis };
+  }
+  const engine: TraceEngine = analysis?.recommendedEngine ?? 'potrace';
+  if (options.preserveColors && engine === 'potrace') {
+    return { engine: 'imagetracer', analysis };
+  }
+  return { engine, analysis };
+}
+
+/**
+ * Pick an engine and trace an already-validated raster image, timing each step, and
+ * score the result against the source when asked to.
+ * onEngineSelected lets queue jobs report progress before the (slow) trace starts.
+ */
+export async function traceImage(
+  fileBuffer: Buffer,
+  detectedFormat: string,
+  options: ConversionOptions,
+  onEngineSelected?: (engine: TraceEngine) => void
+): Promise<ConversionResult> {
+  const startedAt = Date.now();
+  const { engine, analysis } = await selectEngine(fileBuffer, options);
+  const analyzedAt = Date.now();
+  onEngineSelected?.(engine);
+
+  console.log(`Tracing ${detectedFormat.toUpperCase()} image with ${engine}`);
+  const { svg, metadata } = engine === 'imagetracer'
+    ? await convertImageToColorSVG(fileBuffer, options)
+    : engine === 'potrace-color'
+      ? await convertImageToLayeredSVG(fileBuffer, options)
+      : await convertImageToSVG(fileBuffer, options);
+  const tracedAt = Date.now();
+
+  const sanitizedSvg = sanitizeSvgContent(svg);
+  if (!sanitizedSvg) {
+    throw new Error('SVG generation failed - empty result');
+  }
+
+  // A failed score shouldn't fail a conversion that succeeded. Crops and rotations are
+  // applied to the reference too, so only the tracing itself counts as error.
+  let fidelity: FidelityReport | undefined;
+  if (options.scoreFidelity) {
+    try {
+      const reference = hasGeometry(options)
+        ? await preprocessImage(fileBuffer, options, { geometryOnly: true })
+        : fileBuffer;
+      fidelity = await scoreFidelity(sanitizedSvg, reference);
+    } catch (error) {
+      console.warn('Fidelity scoring failed:', error instanceof Error ? error.message : error);
+    }
+  }
+  const scoredAt = Date.now();
+
+  // DXF and the other non-SVG formats are written from the final SVG
+  const output = await renderOutput(sanitizedSvg, options);
+  const renderedAt = Date.now();
+
+  return {
+    svg: sanitizedSvg,
+    engine,
+    detectedFormat,
+    analysis,
+    metadata,
+    fidelity,
+    output,
+    timings: {
+      analysisMs: analyzedAt - startedAt,
+      traceMs: tracedAt - analyzedAt,
+      fidelityMs: scoredAt - tracedAt,
+      outputMs: renderedAt - scoredAt,
+      totalMs: renderedAt - startedAt
+    }
+  };
+}
+
+/**
+ * Validate an uploaded image and trace it with the engine the options select
+ */
+export async function convertImageBuffer(
+  fileBuffer: Buffer,
+  mimetype: string,
+  options: ConversionOptions
+): Promise<ConversionResult> {
+  const startedAt = Date.now();
+  const formatValidation = await validateImageFormat(fileBuffer, mimetype);
+  if (!formatValidation.isValid) {
+    throw new Error(formatValidation.error || 'Invalid image format');
+  }
+
+  // SVG uploads are already vector - pass them through sanitized
+  if (formatValidation.detectedFormat === 'svg') {
+    const svg = sanitizeSvgContent(fileBuffer.toString('utf8'));
+    const sanitizedAt = Date.now();
+    const output = await renderOutput(svg, options);
+    const renderedAt = Date.now();
+    return {
+      svg,
+      engine: 'svg',
+      detectedFormat: 'svg',
+      output,
+      timings: { analysisMs: 0, traceMs: 0, fidelityMs: 0, outputMs: renderedAt - sanitizedAt, totalMs: renderedAt - startedAt }
+    };
+  }
+
+  return traceImage(fileBuffer, formatValidation.detectedFormat, options);
+}
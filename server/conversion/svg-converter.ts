@@ -5,10 +5,13 @@ import * as path from 'path';
 import * as crypto from 'crypto';
 import { processImageBuffer } from '../utils/imageProcessing';
 import { ensureTransparentBackground, removeTracerBackgrounds } from '../utils/transparencyUtils';
+import { prepareTracerInput, PreprocessingOptions } from '../utils/preprocessing';
 import { applySVGGrouping, optimizeSVGForUseCase } from '../utils/svgGroupingUtils';
-import { processForAnimation, AnimationProcessingOptions } from '../utils/animationSvgProcessor';
+import { expandStrokesToFills } from '../utils/strokeExpansion';
+import { processForAnimation, AnimationProcessingOptions, AnimationMetadata } from '../utils/animationSvgProcessor';
+import { TraceOutput } from './types';
 
-interface TracingOptions {
+interface TracingOptions extends PreprocessingOptions {
   fileFormat: string;
   svgVersion: string;
   drawStyle: string;
@@ -19,6 +22,7 @@ interface TracingOptions {
   fillGaps: boolean;
   clipOverflow: boolean;
   nonScalingStroke: boolean;
+  expandStrokes?: boolean;
   strokeWidth: number;
   
   // Advanced Potrace options (exposed for fine-tuning)
@@ -31,8 +35,17 @@ interface TracingOptions {
   idPrefix?: string;
   flattenTransforms?: boolean;
   generateStableIds?: boolean;
+  simplifyTolerance?: number;
 }
 
+export type PotraceParameterOptions = Partial<Pick<
+  TracingOptions,
+  'lineFit' | 'fillGaps' | 'drawStyle' | 'allowedCurveTypes' | 'turdSize' | 'alphaMax' | 'optTolerance'
+>>;
+
+// The bitmap potrace receives is already black and white, so any mid-gray threshold works
+const POTRACE_THRESHOLD = 128;
+
 // Ensure temp directory exists
 const tempDir = path.join(process.cwd(), 'temp');
 if (!fs.existsSync(tempDir)) {
@@ -41,12 +54,12 @@ if (!fs.existsSync(tempDir)) {
 
 
 /**
- * Convert image buffer to SVG string
+ * Convert image buffer to SVG, with animation metadata when animation mode is on
  */
 export async function convertImageToSVG(
   imageBuffer: Buffer,
   options: TracingOptions
-): Promise<string> {
+): Promise<TraceOutput> {
   try {
     console.log("Converting image to SVG...");
     console.log("Image buffer size:", imageBuffer?.length || 0, "bytes");
@@ -57,10 +70,13 @@ export async function convertImageToSVG(
     
     console.log(`Processed ${format.toUpperCase()} image for Potrace conversion`);
     
-    // Create a temp file for potrace using the processed PNG buffer
+    // Preprocess, mask out transparent pixels and threshold before potrace sees the image
+    const bitmap = await prepareTracerInput(processedBuffer, 'potrace', options);
+    
+    // Create a temp file for potrace using the masked bitmap
     const tmpFilePath = path.join(tempDir, `${crypto.randomUUID()}.png`);
     console.log("Temp file path:", tmpFilePath);
-    fs.writeFileSync(tmpFilePath, processedBuffer);
+    fs.writeFileSync(tmpFilePath, bitmap);
     console.log("Temp file created. Size:", fs.statSync(tmpFilePath).size, "bytes");
     
     try {
@@ -68,31 +84,7 @@ export async function convertImageToSVG(
       const params: any = {
         background: '#fff',
         color: '#000',
-        threshold: 128,
-        // Use user-provided turdSize if available, otherwise derive from line fit
-        turdSize: options.turdSize !== undefined ? options.turdSize : 
-                 options.lineFit === 'coarse' ? 4 : 
-                 options.lineFit === 'medium' ? 2 : 
-                 options.lineFit === 'fine' ? 1 : 0.5,
-        // Use user-provided alphaMax if available, otherwise derive from fillGaps
-        alphaMax: options.alphaMax !== undefined ? options.alphaMax : 
-                 options.fillGaps ? 1.2 : 1,
-        optCurve: true,
-        // Use user-provided optTolerance if available, otherwise derive from lineFit
-        optTolerance: options.optTolerance !== undefined ? options.optTolerance : 
-                     getOptTolerance(options.lineFit),
-        blackOnWhite: true,
-        // Use appropriate turn policy based on drawing style
-        turnPolicy: options.drawStyle === 'strokeOutlines' ? 'black' : 'minority',
-        // Set curve type options
-        curveOptions: {
-          optCurve: true,
-          threshold: getLineFitThreshold(options.lineFit),
-          alphaMax: options.alphaMax !== undefined ? options.alphaMax : 
-                   options.fillGaps ? 1.2 : 1,
-          // Handle curve types from options
-          allowedCurveTypes: options.allowedCurveTypes
-        }
+        ...getPotraceParameters(options)
       };
       
       console.log("Processed potrace parameters:", JSON.stringify(params, null, 2));
@@ -119,6 +111,7 @@ export async function convertImageToSVG(
       });
       
       // Apply animation processing if in animation mode
+      let animationMetadata: AnimationMetadata | undefined;
       if (options.animationMode) {
         console.log("Processing SVG for animation-ready output...");
         const animationOptions: AnimationProcessingOptions = {
@@ -133,11 +126,13 @@ export async function convertImageToSVG(
           setupDrawOn: true,
           enhanceAccessibility: true,
           enablePerformanceOptimization: true,
-          targetReduction: 30
+          targetReduction: 30,
+          simplifyTolerance: options.simplifyTolerance
         };
         
         const processed = await processForAnimation(result, animationOptions);
         result = processed.svg;
+        animationMetadata = processed.metadata;
         
         console.log("Animation processing complete:", processed.metadata);
       }
@@ -158,6 +153,11 @@ export async function convertImageToSVG(
         // Default fill style - ensure fill is black
         result = result.replace(/<path /g, `<path fill="black" `);
       }
+
+      // Stroke-free output: outline the strokes added above
+      if (options.expandStrokes) {
+        result = expandStrokesToFills(result);
+      }
       
       // Add clip path if selected
       if (options.clipOverflow) {
@@ -179,7 +179,7 @@ export async function convertImageToSVG(
         }
       }
       
-      return result;
+      return { svg: result, metadata: animationMetadata };
     } finally {
       // Clean up the temp file
       try {
@@ -196,6 +196,41 @@ export async function convertImageToSVG(
   }
 }
 
+/**
+ * Potrace parameters derived from the line fit, gap and drawing style settings, with the
+ * advanced overrides applied. Shared with the layered color tracer.
+ */
+export function getPotraceParameters(options: PotraceParameterOptions) {
+  const lineFit = options.lineFit || 'medium';
+  const alphaMax = options.alphaMax !== undefined ? options.alphaMax :
+                   options.fillGaps ? 1.2 : 1;
+  return {
+    threshold: POTRACE_THRESHOLD,
+    // Use user-provided turdSize if available, otherwise derive from line fit
+    turdSize: options.turdSize !== undefined ? options.turdSize : 
+             lineFit === 'coarse' ? 4 : 
+             lineFit === 'medium' ? 2 : 
+             lineFit === 'fine' ? 1 : 0.5,
+    // Use user-provided alphaMax if available, otherwise derive from fillGaps
+    alphaMax,
+    optCurve: true,
+    // Use user-provided optTolerance if available, otherwise derive from lineFit
+    optTolerance: options.optTolerance !== undefined ? options.optTolerance : 
+                 getOptTolerance(lineFit),
+    blackOnWhite: true,
+    // Use appropriate turn policy based on drawing style
+    turnPolicy: options.drawStyle === 'strokeOutlines' ? 'black' : 'minority',
+    // Set curve type options
+    curveOptions: {
+      optCurve: true,
+      threshold: getLineFitThreshold(lineFit),
+      alphaMax,
+      // Handle curve types from options
+      allowedCurveTypes: options.allowedCurveTypes
+    }
+  };
+}
+
 /**
  * Trace an image file using potrace
  */
@@ -0,0 +1,54 @@
+import type { AnimationMetadata } from '../utils/animationSvgProcessor';
+import type { FidelityReport } from '../utils/fidelityScoring';
+import type { ColorAnalysis } from './color-tracer';
+
+/**
+ * Conversion Result Types
+ * Shared by the trace engines, the sync /api/convert route, queue jobs and the CLI
+ */
+
+// potrace-color separates the colors and traces each one with potrace
+export type TraceEngine = 'potrace' | 'imagetracer' | 'potrace-color';
+
+export type TraceEngineUsed = TraceEngine | 'svg';
+
+/**
+ * What a trace engine hands back - metadata is only present when animation mode ran
+ */
+export interface TraceOutput {
+  svg: string;
+  metadata?: AnimationMetadata;
+}
+
+/**
+ * The result written in a non-SVG fileFormat, alongside the SVG used for previews
+ */
+export interface ConversionOutput {
+  format: string;
+  mimeType: string;
+  extension: string;
+  encoding: 'utf8' | 'base64';
+  data: string;
+}
+
+export interface ConversionTimings {
+  analysisMs: number; // Color analysis for auto engine selection (0 when skipped)
+  traceMs: number;
+  fidelityMs: number; // Rasterizing and scoring the result (0 when skipped)
+  outputMs: number; // Rendering the fileFormat output (0 for SVG)
+  totalMs: number;
+}
+
+export interface ConversionResult {
+  svg: string;
+  engine: TraceEngineUsed;
+  detectedFormat: string;
+  // Present when the engine was picked automatically
+  analysis?: ColorAnalysis;
+  metadata?: AnimationMetadata;
+  // Present when scoreFidelity is on
+  fidelity?: FidelityReport;
+  // Present when fileFormat asks for something other than SVG
+  output?: ConversionOutput;
+  timings: ConversionTimings;
+}
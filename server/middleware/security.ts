@@ -56,14 +56,21 @@ export const upload = multer({
   }
 });
 
+/**
+ * Rate limit signed-in users by account so a shared IP (office, NAT) doesn't
+ * exhaust everyone's quota; anonymous requests are still limited per IP
+ */
+const rateLimitKey = (req: Request) => req.user ? `user:${req.user.id}` : (req.ip || 'unknown');
+
 /**
  * Rate limiter for API endpoints
  */
 export const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100,                 // Limit each IP to 100 requests per windowMs
+  max: 100,                 // Limit each user/IP to 100 requests per windowMs
   standardHeaders: true,    // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false,     // Disable the `X-RateLimit-*` headers
+  keyGenerator: rateLimitKey,
   message: {
     status: 429,
     error: "Too many requests, please try again later."
@@ -75,15 +82,30 @@ export const apiLimiter = rateLimit({
  */
 export const conversionLimiter = rateLimit({
   windowMs: 5 * 60 * 1000,  // 5 minutes
-  max: 20,                  // Limit each IP to 20 requests per windowMs
+  max: 20,                  // Limit each user/IP to 20 requests per windowMs
   standardHeaders: true,    // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false,     // Disable the `X-RateLimit-*` headers
+  keyGenerator: rateLimitKey,
   message: {
     status: 429,
     error: "Too many conversion requests, please try again later."
   }
 });
 
+/**
+ * Rate limiter for login and registration to slow down password guessing
+ */
+export const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,                  // Limit each IP to 10 attempts per windowMs
+  standardHeaders: true,    // Return rate limit info in the `RateLimit-*` headers
+  legacyHeaders: false,     // Disable the `X-RateLimit-*` headers
+  message: {
+    status: 429,
+    error: "Too many login attempts, please try again later."
+  }
+});
+
 /**
  * Security headers configuration using helmet
  */
@@ -146,6 +168,17 @@ export const cleanupTempFiles = (req: Request, res: Response, next: NextFunction
       });
     }
     
+    // Named fields case (upload.fields)
+    if (req.files && !Array.isArray(req.files)) {
+      Object.values(req.files).flat().forEach(file => {
+        try {
+          fs.unlinkSync(file.path);
+        } catch (err) {
+          console.error(`Error removing temp file ${file.path}:`, err);
+        }
+      });
+    }
+    
     // Call the original end method
     return originalEnd.apply(this, args);
   };
@@ -56,7 +56,7 @@ export interface ConversionJobPayload {
   filePath: string; // Path to the temporary file
   options: any; // Conversion options
   originalFilename?: string; // Original file name for user display
-  userId?: string; // Optional user ID for authentication scenarios
+  userId?: number; // Owner's account ID when the request was authenticated
 }
 
 export interface BatchConversionJobPayload {
@@ -66,7 +66,7 @@ export interface BatchConversionJobPayload {
     originalFilename?: string;
   }[];
   options: any;
-  userId?: string;
+  userId?: number;
 }
 
 export interface ColorJobPayload {
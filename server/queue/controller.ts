@@ -11,6 +11,8 @@ import {
 } from './processor';
 import { conversionQueue, JobType } from './config';
 import { sanitizeSvgContent } from '../validation/inputValidation';
+import { getUserId } from '../auth';
+import { parseConversionOptions } from '../conversion/pipeline';
 
 // Flag to check if Redis connection is enabled
 const REDIS_ENABLED = process.env.REDIS_ENABLED === 'true';
@@ -33,7 +35,8 @@ export const queueController = {
       
       const job = await conversionQueue.getJob(jobId);
       
-      if (!job) {
+      // Jobs queued by a signed-in user are only visible to that user
+      if (!job || (job.data.userId !== undefined && job.data.userId !== getUserId(req))) {
         return res.status(404).json({ error: 'Job not found' });
       }
       
@@ -69,59 +72,16 @@ export const queueController = {
       // Use the temporary file
       const fileId = path.basename(req.file.path);
       
-      // Apply user's options for conversion
-      const options = {
-        // Common options
-        fileFormat: req.body.fileFormat || "svg",
-        svgVersion: req.body.svgVersion || "1.1",
-        drawStyle: req.body.drawStyle || "fillShapes",
-        strokeWidth: parseFloat(req.body.strokeWidth) || 0.5,
-        
-        // Engine selection
-        traceEngine: req.body.traceEngine || "auto", // potrace, imagetracer, or auto
-        
-        // Potrace specific options
-        shapeStacking: req.body.shapeStacking || "placeCutouts",
-        groupBy: req.body.groupBy || "none",
-        lineFit: req.body.lineFit || "medium",
-        allowedCurveTypes: req.body.allowedCurveTypes?.split(',') || ["lines", "quadraticBezier", "cubicBezier"],
-        fillGaps: req.body.fillGaps === 'true',
-        clipOverflow: req.body.clipOverflow === 'true',
-        nonScalingStroke: req.body.nonScalingStroke === 'true',
-        
-        // Potrace advanced options (exposed for fine-tuning)
-        turdSize: req.body.turdSize ? parseInt(req.body.turdSize) : undefined,
-        alphaMax: req.body.alphaMax ? parseFloat(req.body.alphaMax) : undefined,
-        optTolerance: req.body.optTolerance ? parseFloat(req.body.optTolerance) : undefined,
-        
-        // ImageTracerJS specific options
-        numberOfColors: parseInt(req.body.numberOfColors || "16"),
-        colorMode: (req.body.colorMode || "color") as 'color' | 'grayscale',
-        minColorRatio: parseFloat(req.body.minColorRatio || "0.02"),
-        colorQuantization: (req.body.colorQuantization || "default") as 'default' | 'riemersma' | 'floyd-steinberg',
-        blurRadius: parseInt(req.body.blurRadius || "0"),
-        preserveColors: req.body.preserveColors === 'true',
-        
-        // ImageTracer advanced options (exposed for fine-tuning)
-        colorSampling: req.body.colorSampling !== undefined ? 
-          parseInt(req.body.colorSampling) as 0 | 1 : undefined,
-        ltres: req.body.ltres ? parseFloat(req.body.ltres) : undefined,
-        qtres: req.body.qtres ? parseFloat(req.body.qtres) : undefined,
-        pathomit: req.body.pathomit ? parseInt(req.body.pathomit) : undefined,
-        roundcoords: req.body.roundcoords ? parseInt(req.body.roundcoords) : undefined,
-        
-        // Custom palette option
-        customPalette: req.body.customPalette ? 
-          (typeof req.body.customPalette === 'string' ? 
-            JSON.parse(req.body.customPalette) : req.body.customPalette) : undefined
-      };
+      // Same option parsing and defaults as /api/convert
+      const options = parseConversionOptions(req.body);
       
       // Add the job to the queue
       const job = await addConversionJob({
         fileId,
         filePath: req.file.path,
         originalFilename: req.file.originalname,
-        options
+        options,
+        userId: getUserId(req) ?? undefined
       });
       
       return res.status(202).json({
@@ -162,57 +122,14 @@ export const queueController = {
         originalFilename: file.originalname
       }));
       
-      // Apply user's options for conversion
-      const options = {
-        // Common options
-        fileFormat: req.body.fileFormat || "svg",
-        svgVersion: req.body.svgVersion || "1.1",
-        drawStyle: req.body.drawStyle || "fillShapes",
-        strokeWidth: parseFloat(req.body.strokeWidth) || 0.5,
-        
-        // Engine selection
-        traceEngine: req.body.traceEngine || "auto", // potrace, imagetracer, or auto
-        
-        // Potrace specific options
-        shapeStacking: req.body.shapeStacking || "placeCutouts",
-        groupBy: req.body.groupBy || "none",
-        lineFit: req.body.lineFit || "medium",
-        allowedCurveTypes: req.body.allowedCurveTypes?.split(',') || ["lines", "quadraticBezier", "cubicBezier"],
-        fillGaps: req.body.fillGaps === 'true',
-        clipOverflow: req.body.clipOverflow === 'true',
-        nonScalingStroke: req.body.nonScalingStroke === 'true',
-        
-        // Potrace advanced options (exposed for fine-tuning)
-        turdSize: req.body.turdSize ? parseInt(req.body.turdSize) : undefined,
-        alphaMax: req.body.alphaMax ? parseFloat(req.body.alphaMax) : undefined,
-        optTolerance: req.body.optTolerance ? parseFloat(req.body.optTolerance) : undefined,
-        
-        // ImageTracerJS specific options
-        numberOfColors: parseInt(req.body.numberOfColors || "16"),
-        colorMode: (req.body.colorMode || "color") as 'color' | 'grayscale',
-        minColorRatio: parseFloat(req.body.minColorRatio || "0.02"),
-        colorQuantization: (req.body.colorQuantization || "default") as 'default' | 'riemersma' | 'floyd-steinberg',
-        blurRadius: parseInt(req.body.blurRadius || "0"),
-        preserveColors: req.body.preserveColors === 'true',
-        
-        // ImageTracer advanced options (exposed for fine-tuning)
-        colorSampling: req.body.colorSampling !== undefined ? 
-          parseInt(req.body.colorSampling) as 0 | 1 : undefined,
-        ltres: req.body.ltres ? parseFloat(req.body.ltres) : undefined,
-        qtres: req.body.qtres ? parseFloat(req.body.qtres) : undefined,
-        pathomit: req.body.pathomit ? parseInt(req.body.pathomit) : undefined,
-        roundcoords: req.body.roundcoords ? parseInt(req.body.roundcoords) : undefined,
-        
-        // Custom palette option
-        customPalette: req.body.customPalette ? 
-          (typeof req.body.customPalette === 'string' ? 
-            JSON.parse(req.body.customPalette) : req.body.customPalette) : undefined
-      };
+      // Same option parsing and defaults as /api/convert
+      const options = parseConversionOptions(req.body);
       
       // Add the batch job to the queue
       const job = await addBatchConversionJob({
         files,
-        options
+        options,
+        userId: getUserId(req) ?? undefined
       });
       
       return res.status(202).json({
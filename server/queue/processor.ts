@@ -10,10 +10,10 @@ import {
   ColorJobPayload,
   BackgroundJobPayload
 } from './config';
-import { convertImageToSVG } from '../conversion/svg-converter';
-import { convertImageToColorSVG, detectColorComplexity } from '../conversion/color-tracer';
+import { traceImage, ConversionResult } from '../conversion/pipeline';
 import { applySvgColor, setTransparentBackground } from '../conversion/svg-converter';
 import { sanitizeSvgContent, validateImageFormat } from '../validation/inputValidation';
+import { recordConversion } from '../utils/conversionHistory';
 
 // Socket.io server instance - will be set when initializing the processor
 let io: SocketIOServer | null = null;
@@ -30,6 +30,11 @@ function emitProgress(jobId: string, progress: number, status: string, result?:
   }
 }
 
+// Batch and fallback conversions skip format validation, so go by the upload's extension
+function formatFromPath(filePath: string): string {
+  return path.extname(filePath).slice(1).toLowerCase() || 'unknown';
+}
+
 // Process single image conversion jobs
 async function processConversionJob(job: Job<ConversionJobPayload>) {
   try {
@@ -75,6 +80,14 @@ async function processConversionJob(job: Job<ConversionJobPayload>) {
       console.log("SVG file detected in queue - returning original content (already vector format)");
       const svgContent = fileBuffer.toString('utf8');
       const sanitizedSvg = sanitizeSvgContent(svgContent);
+      await recordConversion({
+        sourceBuffer: fileBuffer,
+        originalFilename: job.data.originalFilename,
+        options,
+        engine: 'svg',
+        svg: sanitizedSvg,
+        userId: job.data.userId
+      });
       
       emitProgress(
         job.id.toString(), 
@@ -88,48 +101,33 @@ async function processConversionJob(job: Job<ConversionJobPayload>) {
     
     emitProgress(job.id.toString(), 35, 'Analyzing image...');
     
-    let result: string;
-    
-    // PRIORITY: If preserveColors is enabled, always use color tracing
-    if (options.preserveColors) {
-      emitProgress(job.id.toString(), 50, 'Preserving original colors with color tracer...');
-      result = await convertImageToColorSVG(fileBuffer, options);
-    }
-    // Auto-detect the best conversion method if requested
-    else if (options.traceEngine === 'auto') {
-      // Update progress
+    if (options.traceEngine === 'auto') {
       emitProgress(job.id.toString(), 40, 'Analyzing image colors...');
-      
-      // Analyze image colors
-      const colorAnalysis = await detectColorComplexity(fileBuffer);
-      
-      // Choose engine based on color complexity - lowered threshold for better color preservation
-      if (colorAnalysis.isColorImage && colorAnalysis.distinctColors > 4) {
-        emitProgress(job.id.toString(), 50, 'Converting color image...');
-        result = await convertImageToColorSVG(fileBuffer, options);
-      } else {
-        emitProgress(job.id.toString(), 50, 'Converting black and white image...');
-        result = await convertImageToSVG(fileBuffer, options);
-      }
-    } 
-    // Use explicitly selected engine
-    else if (options.traceEngine === 'imagetracer') {
-      emitProgress(job.id.toString(), 50, 'Converting with color tracer...');
-      result = await convertImageToColorSVG(fileBuffer, options);
-    } 
-    // Default to potrace
-    else {
-      emitProgress(job.id.toString(), 50, 'Converting with Potrace...');
-      result = await convertImageToSVG(fileBuffer, options);
     }
     
-    // Sanitize and validate the SVG
-    emitProgress(job.id.toString(), 80, 'Sanitizing SVG...');
-    const sanitizedSvg = sanitizeSvgContent(result);
-    
-    if (!sanitizedSvg || sanitizedSvg.length === 0) {
-      throw new Error('SVG generation failed - empty result');
-    }
+    // Auto mode picks the engine from the color histogram; preserveColors forces color tracing
+    const result = await traceImage(fileBuffer, formatValidation.detectedFormat, options, engine => {
+      if (engine === 'imagetracer') {
+        emitProgress(job.id.toString(), 50, options.preserveColors
+          ? 'Preserving original colors with color tracer...'
+          : 'Converting with color tracer...');
+      } else if (engine === 'potrace-color') {
+        emitProgress(job.id.toString(), 50, 'Tracing color layers with Potrace...');
+      } else {
+        emitProgress(job.id.toString(), 50, 'Converting with Potrace...');
+      }
+    });
+    emitProgress(job.id.toString(), 80, 'Saving conversion...');
+    const { svg: sanitizedSvg, engine, analysis, metadata, fidelity, timings, output } = result;
+    
+    await recordConversion({
+      sourceBuffer: fileBuffer,
+      originalFilename: job.data.originalFilename,
+      options,
+      engine,
+      svg: sanitizedSvg,
+      userId: job.data.userId
+    });
     
     // Clean up the temp file
     try {
@@ -143,10 +141,10 @@ async function processConversionJob(job: Job<ConversionJobPayload>) {
       job.id.toString(), 
       100, 
       'Conversion complete',
-      { svg: sanitizedSvg }
+      { svg: sanitizedSvg, engine, analysis, metadata, fidelity, timings, output }
     );
     
-    return { svg: sanitizedSvg };
+    return { svg: sanitizedSvg, engine, analysis, metadata, fidelity, timings, output };
   } catch (error) {
     console.error('Error in conversion job:', error);
     // Clean up temp file even on failure
@@ -167,7 +165,7 @@ async function processConversionJob(job: Job<ConversionJobPayload>) {
 async function processBatchConversionJob(job: Job<BatchConversionJobPayload>) {
   try {
     const { files, options } = job.data;
-    const results: { fileId: string; svg: string }[] = [];
+    const results: Array<{ fileId: string } & Pick<ConversionResult, 'svg' | 'engine' | 'metadata' | 'fidelity' | 'timings' | 'output'>> = [];
     const totalFiles = files.length;
     
     // Emit initial progress
@@ -195,31 +193,24 @@ async function processBatchConversionJob(job: Job<BatchConversionJobPayload>) {
         // Read the file
         const fileBuffer = fs.readFileSync(file.filePath);
         
-        // Determine which conversion method to use
-        let result: string;
-        if (options.traceEngine === 'auto') {
-          const colorAnalysis = await detectColorComplexity(fileBuffer);
-          if (colorAnalysis.isColorImage && colorAnalysis.distinctColors > 8) {
-            result = await convertImageToColorSVG(fileBuffer, options);
-          } else {
-            result = await convertImageToSVG(fileBuffer, options);
-          }
-        } 
-        else if (options.traceEngine === 'imagetracer') {
-          result = await convertImageToColorSVG(fileBuffer, options);
-        } 
-        else {
-          result = await convertImageToSVG(fileBuffer, options);
-        }
-        
-        // Sanitize and add to results
-        const sanitizedSvg = sanitizeSvgContent(result);
-        if (sanitizedSvg && sanitizedSvg.length > 0) {
-          results.push({
-            fileId: file.fileId,
-            svg: sanitizedSvg
-          });
-        }
+        const { svg: sanitizedSvg, engine, metadata, fidelity, timings, output } = await traceImage(fileBuffer, formatFromPath(file.filePath), options);
+        results.push({
+          fileId: file.fileId,
+          svg: sanitizedSvg,
+          engine,
+          metadata,
+          fidelity,
+          timings,
+          output
+        });
+        await recordConversion({
+          sourceBuffer: fileBuffer,
+          originalFilename: file.originalFilename,
+          options,
+          engine,
+          svg: sanitizedSvg,
+          userId: job.data.userId
+        });
         
         // Clean up the temp file
         try {
@@ -232,6 +223,10 @@ async function processBatchConversionJob(job: Job<BatchConversionJobPayload>) {
         io?.emit(`job:${job.id.toString()}:file:${fileIndex}`, {
           fileId: file.fileId,
           svg: sanitizedSvg,
+          engine,
+          metadata,
+          fidelity,
+          timings,
           progress: 100
         });
         
@@ -389,35 +384,17 @@ async function processConversionSynchronously(payload: ConversionJobPayload) {
     console.log(`File buffer created, size: ${fileBuffer.length} bytes`);
     
     const options = payload.options;
-    let result: string;
-    
-    // Auto-detect the best conversion method if requested
-    if (options.traceEngine === 'auto') {
-      // Analyze image colors
-      const colorAnalysis = await detectColorComplexity(fileBuffer);
-      
-      // Choose engine based on color complexity
-      if (colorAnalysis.isColorImage && colorAnalysis.distinctColors > 8) {
-        result = await convertImageToColorSVG(fileBuffer, options);
-      } else {
-        result = await convertImageToSVG(fileBuffer, options);
-      }
-    } 
-    // Use explicitly selected engine
-    else if (options.traceEngine === 'imagetracer') {
-      result = await convertImageToColorSVG(fileBuffer, options);
-    } 
-    // Default to potrace
-    else {
-      result = await convertImageToSVG(fileBuffer, options);
-    }
-    
-    // Sanitize the SVG
-    const sanitizedSvg = sanitizeSvgContent(result);
-    
-    if (!sanitizedSvg || sanitizedSvg.length === 0) {
-      throw new Error('SVG generation failed - empty result');
-    }
+    // Auto mode picks the engine from the color histogram
+    const { svg: sanitizedSvg, engine, analysis, metadata, fidelity, timings } = await traceImage(fileBuffer, formatFromPath(payload.filePath), options);
+    
+    await recordConversion({
+      sourceBuffer: fileBuffer,
+      originalFilename: payload.originalFilename,
+      options,
+      engine,
+      svg: sanitizedSvg,
+      userId: payload.userId
+    });
     
     // Clean up the temp file
     try {
@@ -426,7 +403,7 @@ async function processConversionSynchronously(payload: ConversionJobPayload) {
       console.error('Error cleaning up temp file:', cleanupError);
     }
     
-    return { svg: sanitizedSvg };
+    return { svg: sanitizedSvg, engine, analysis, metadata, fidelity, timings };
   } catch (error) {
     console.error('Error in synchronous conversion:', error);
     
@@ -476,7 +453,8 @@ export async function addBatchConversionJob(payload: BatchConversionJobPayload)
           fileId: file.fileId,
           filePath: file.filePath,
           originalFilename: file.originalFilename,
-          options: payload.options
+          options: payload.options,
+          userId: payload.userId
         });
         results.push({ fileId: file.fileId, svg: result.svg });
       } catch (error) {
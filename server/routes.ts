@@ -3,8 +3,8 @@ import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
 import * as fs from "fs";
 import { storage } from "./storage";
-import { convertImageToSVG, applySvgColor, setTransparentBackground } from "./conversion/svg-converter";
-import { convertImageToColorSVG, detectColorComplexity } from "./conversion/color-tracer";
+import { setupAuth, getUserId, requireAuth } from "./auth";
+import { applySvgColor, setTransparentBackground } from "./conversion/svg-converter";
 import { 
   upload, 
   apiLimiter, 
@@ -19,14 +19,73 @@ import {
   validateColorInput,
   validateBackgroundInput,
   sanitizeSvgContent,
-  validateImageFormat
+  validateImageFormat,
+  validateGameEngineExport,
+  validateLottieExport,
+  validateTemplateQuery,
+  validateTemplateApply,
+  validateMorphOptions,
+  validateStabilityTest,
+  validateParameterSearch,
+  validateHistoryQuery,
+  validatePreset,
+  validateApiKey
 } from "./validation/inputValidation";
+import { parseConversionOptions, svgOnlyOptions, convertImageBuffer, traceImage, selectEngine, ConversionOutput } from "./conversion/pipeline";
+import { renderOutput } from "./conversion/outputFormats";
+import { processImageBuffer } from "./utils/imageProcessing";
+import { prepareTracerInput } from "./utils/preprocessing";
+import { createPathMorph } from "./utils/pathMorphing";
+import { runStabilityTests, generateStabilityReport } from "./utils/idStabilityTester";
+import { searchParameters } from "./conversion/parameterSearch";
+import { recordConversion, toConversionSummary, MAX_HISTORY_PER_USER, HISTORY_RETENTION_DAYS } from "./utils/conversionHistory";
+import { presetToRow, rowToPreset } from "./utils/userPresets";
+import { generateApiKey, toApiKeySummary } from "./utils/apiKeys";
+import { buildOpenApiDocument } from "./utils/openApi";
+import { createGameEngineBundle } from "./utils/gameEngineBundle";
+import { svgToLottie } from "./utils/lottieExporter";
+import {
+  listTemplateSummaries,
+  getTemplateById,
+  applyTemplate,
+  generateStaggeredTemplate,
+  AnimationTemplate
+} from "./utils/animationTemplates";
 import { queueController } from "./queue/controller";
 import { initializeJobProcessors, setSocketServer } from "./queue/processor";
 
+/**
+ * Reply with the SVG as JSON, or as the raw document when the client asks for image/svg+xml.
+ * Output in another fileFormat rides along in the JSON, or is sent as a download when the
+ * client asks for its content type. Extra details only go into the JSON form.
+ */
+function sendSvg(
+  req: Request,
+  res: Response,
+  svg: string,
+  details: Record<string, unknown> = {},
+  output?: ConversionOutput
+) {
+  res.vary('Accept');
+  const preferred = req.accepts(['application/json', 'image/svg+xml', ...(output ? [output.mimeType] : [])]);
+  if (output && preferred === output.mimeType) {
+    const baseName = (req.file?.originalname || 'converted').replace(/\.[^.]+$/, '');
+    return res.status(200)
+      .type(output.mimeType)
+      .attachment(`${baseName}.${output.extension}`)
+      .send(Buffer.from(output.data, output.encoding));
+  }
+  if (preferred === 'image/svg+xml') {
+    return res.status(200).type('image/svg+xml').send(svg);
+  }
+  return res.status(200).json({ svg, ...details, output });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Apply global security middleware
   app.use(securityHeaders);
+  // Sessions first so rate limits can key on the signed-in user
+  setupAuth(app);
   app.use(apiLimiter);
   app.use(cleanupTempFiles);
   
@@ -74,6 +133,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "/api/convert", 
     conversionLimiter, 
     upload.single("image"), 
+    validateSvgOptions,
     async (req, res) => {
       try {
         console.log("Received conversion request");
@@ -91,58 +151,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           path: req.file.path
         });
 
-        // Convert form data strings to appropriate types
-        const options = {
-          // Common options
-          fileFormat: req.body.fileFormat || "svg",
-          svgVersion: req.body.svgVersion || "1.1",
-          drawStyle: req.body.drawStyle || "fillShapes",
-          strokeWidth: parseFloat(req.body.strokeWidth) || 0.5,
-          
-          // Engine selection
-          traceEngine: req.body.traceEngine || "auto", // potrace, imagetracer, or auto
-          
-          // Potrace specific options
-          shapeStacking: req.body.shapeStacking || "placeCutouts",
-          groupBy: req.body.groupBy || "none",
-          lineFit: req.body.lineFit || "medium",
-          allowedCurveTypes: req.body.allowedCurveTypes?.split(',') || ["lines", "quadraticBezier", "cubicBezier"],
-          fillGaps: req.body.fillGaps === 'true',
-          clipOverflow: req.body.clipOverflow === 'true',
-          nonScalingStroke: req.body.nonScalingStroke === 'true',
-          
-          // Potrace advanced options (exposed for fine-tuning)
-          turdSize: req.body.turdSize ? parseInt(req.body.turdSize) : undefined,
-          alphaMax: req.body.alphaMax ? parseFloat(req.body.alphaMax) : undefined,
-          optTolerance: req.body.optTolerance ? parseFloat(req.body.optTolerance) : undefined,
-          
-          // ImageTracerJS specific options
-          numberOfColors: parseInt(req.body.numberOfColors || "16"),
-          colorMode: (req.body.colorMode || "color") as 'color' | 'grayscale',
-          minColorRatio: parseFloat(req.body.minColorRatio || "0.02"),
-          colorQuantization: (req.body.colorQuantization || "default") as 'default' | 'riemersma' | 'floyd-steinberg',
-          blurRadius: parseInt(req.body.blurRadius || "0"),
-          preserveColors: req.body.preserveColors === 'true',
-          
-          // ImageTracer advanced options (exposed for fine-tuning)
-          colorSampling: req.body.colorSampling !== undefined ? 
-            parseInt(req.body.colorSampling) as 0 | 1 : undefined,
-          ltres: req.body.ltres ? parseFloat(req.body.ltres) : undefined,
-          qtres: req.body.qtres ? parseFloat(req.body.qtres) : undefined,
-          pathomit: req.body.pathomit ? parseInt(req.body.pathomit) : undefined,
-          roundcoords: req.body.roundcoords ? parseInt(req.body.roundcoords) : undefined,
-          
-          // Custom palette option
-          customPalette: req.body.customPalette ? 
-            (typeof req.body.customPalette === 'string' ? 
-              JSON.parse(req.body.customPalette) : req.body.customPalette) : undefined,
-          
-          // Animation mode options
-          animationMode: req.body.animationMode === 'true',
-          idPrefix: req.body.idPrefix || 'anim_',
-          flattenTransforms: req.body.flattenTransforms === 'true',
-          generateStableIds: req.body.generateStableIds !== 'false' // Default to true
-        };
+        // validateSvgOptions has already normalised form fields and JSON options
+        const options = parseConversionOptions(req.body);
 
         console.log("Processing conversion with options:", options);
         
@@ -183,58 +193,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log("SVG file detected - returning original content (already vector format)");
           const svgContent = fileBuffer.toString('utf8');
           const sanitizedSvg = sanitizeSvgContent(svgContent);
-          return res.status(200).json({ svg: sanitizedSvg });
+          await recordConversion({
+            sourceBuffer: fileBuffer,
+            originalFilename: req.file.originalname,
+            options,
+            engine: 'svg',
+            svg: sanitizedSvg,
+            userId: getUserId(req)
+          });
+          return sendSvg(req, res, sanitizedSvg, { engine: 'svg' }, await renderOutput(sanitizedSvg, options));
         }
         
-        // Choose conversion method based on traceEngine option
         console.log(`Starting SVG conversion with ${options.traceEngine} engine...`);
         
-        let result: string;
-        
-        // PRIORITY: If preserveColors is enabled, always use color tracing
-        if (options.preserveColors) {
-          console.log("Using ImageTracerJS to preserve original colors");
-          result = await convertImageToColorSVG(fileBuffer, options);
-        }
-        // Use color analysis to auto-detect the best engine if not explicitly specified
-        else if (options.traceEngine === 'auto') {
-          const colorAnalysis = await detectColorComplexity(fileBuffer);
-          console.log("Image color analysis:", colorAnalysis);
-          
-          // Choose engine based on color complexity - lowered threshold for better color preservation
-          if (colorAnalysis.isColorImage && colorAnalysis.distinctColors > 4) {
-            console.log("Auto-selected imagetracer for color image");
-            result = await convertImageToColorSVG(fileBuffer, options);
-          } else {
-            console.log("Auto-selected potrace for black and white/low-color image");
-            result = await convertImageToSVG(fileBuffer, options);
-          }
-        } 
-        // Otherwise use the explicitly selected engine
-        else if (options.traceEngine === 'imagetracer') {
-          console.log("Using ImageTracerJS for color conversion");
-          result = await convertImageToColorSVG(fileBuffer, options);
-        } 
-        else {
-          // Default to potrace
-          console.log("Using Potrace for black and white conversion");
-          result = await convertImageToSVG(fileBuffer, options);
+        // Auto mode picks the engine from the color histogram and reports why
+        const result = await traceImage(fileBuffer, formatValidation.detectedFormat, options, engine => {
+          console.log(`Using ${engine} for conversion`);
+        });
+        if (result.analysis) {
+          console.log(`Auto engine selection: ${result.analysis.recommendedEngine} - ${result.analysis.reason}`);
         }
+        console.log(`Conversion complete in ${result.timings.totalMs}ms, SVG length: ${result.svg.length} characters`);
         
-        console.log(`Conversion complete, SVG length: ${result?.length || 0} characters`);
-        
-        // Sanitize SVG content for security
-        console.log("Sanitizing SVG content...");
-        const sanitizedSvg = sanitizeSvgContent(result);
-        console.log(`Sanitization complete, final SVG length: ${sanitizedSvg?.length || 0} characters`);
-        
-        if (!sanitizedSvg || sanitizedSvg.length === 0) {
-          console.error("SVG generation produced empty result");
-          return res.status(500).json({ error: "SVG generation failed - empty result" });
-        }
+        await recordConversion({
+          sourceBuffer: fileBuffer,
+          originalFilename: req.file.originalname,
+          options,
+          engine: result.engine,
+          svg: result.svg,
+          userId: getUserId(req)
+        });
         
         console.log("Sending successful response with SVG data");
-        res.status(200).json({ svg: sanitizedSvg });
+        const { svg, engine, analysis, metadata, fidelity, timings, output } = result;
+        sendSvg(req, res, svg, { engine, analysis, metadata, fidelity, timings }, output);
       } catch (error) {
         console.error("Error in image conversion:", error);
         
@@ -303,6 +295,470 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     }
   );
+
+  // Endpoint for exporting an animation rig bundle for Unity/Godot
+  app.post(
+    "/api/export/game-engine",
+    validateGameEngineExport,
+    async (req, res) => {
+      try {
+        const { svg, engine, includeSprites, spriteSize, duration, frameRate, loop, pivotPoints, timeline } = req.body;
+        console.log(`Exporting ${engine} rig with ${timeline.length} timeline entries and ${pivotPoints.length} pivot points`);
+
+        const bundle = await createGameEngineBundle(
+          sanitizeSvgContent(svg),
+          { duration, frameRate, loop, pivotPoints, timeline },
+          { engine, includeSprites, spriteSize }
+        );
+
+        res.setHeader("Content-Type", "application/zip");
+        res.setHeader("Content-Disposition", `attachment; filename="${bundle.filename}"`);
+        res.setHeader("Content-Length", bundle.archive.length.toString());
+        res.status(200).send(bundle.archive);
+      } catch (error) {
+        console.error("Error exporting game engine rig:", error);
+        
+        if (error instanceof Error) {
+          return res.status(400).json({ 
+            error: "Failed to export game engine rig", 
+            details: error.message 
+          });
+        }
+        
+        return res.status(500).json({ 
+          error: "An unexpected error occurred during game engine export" 
+        });
+      }
+    }
+  );
+
+  // Endpoint for exporting the animation as Lottie JSON
+  app.post(
+    "/api/export/lottie",
+    validateLottieExport,
+    (req, res) => {
+      try {
+        const { svg, name, frameRate, pivotPoints, timeline } = req.body;
+        console.log(`Exporting Lottie animation with ${timeline.length} timeline entries and ${pivotPoints.length} pivot points`);
+
+        const animation = svgToLottie(sanitizeSvgContent(svg), { name, frameRate, pivotPoints, timeline });
+
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Content-Disposition", 'attachment; filename="animation.json"');
+        res.status(200).send(JSON.stringify(animation));
+      } catch (error) {
+        console.error("Error exporting Lottie animation:", error);
+        
+        if (error instanceof Error) {
+          return res.status(400).json({ 
+            error: "Failed to export Lottie animation", 
+            details: error.message 
+          });
+        }
+        
+        return res.status(500).json({ 
+          error: "An unexpected error occurred during Lottie export" 
+        });
+      }
+    }
+  );
+
+  // Endpoint for listing the animation template library
+  app.get(
+    "/api/animation/templates",
+    validateTemplateQuery,
+    (req, res) => {
+      const category = req.query.category as AnimationTemplate['category'] | undefined;
+      res.status(200).json({ templates: listTemplateSummaries(category) });
+    }
+  );
+
+  // Endpoint for generating template code for one or more elements
+  app.post(
+    "/api/animation/templates/:id/apply",
+    validateTemplateApply,
+    (req, res) => {
+      const template = getTemplateById(req.params.id);
+      if (!template) {
+        return res.status(404).json({ 
+          error: "Template not found", 
+          details: `No animation template with id "${req.params.id}"` 
+        });
+      }
+
+      try {
+        const { elementIds, framework, stagger } = req.body;
+        const code = elementIds.length === 1
+          ? applyTemplate(template.id, elementIds[0], framework)
+          : generateStaggeredTemplate(template.id, elementIds, stagger, framework);
+
+        res.status(200).json({ templateId: template.id, framework, elementIds, code: code.trim() });
+      } catch (error) {
+        console.error("Error applying animation template:", error);
+        
+        if (error instanceof Error) {
+          return res.status(400).json({ 
+            error: "Failed to apply animation template", 
+            details: error.message 
+          });
+        }
+        
+        return res.status(500).json({ 
+          error: "An unexpected error occurred while applying the template" 
+        });
+      }
+    }
+  );
+
+  // Endpoint for converting two images and morphing the first into the second
+  app.post(
+    "/api/animation/morph",
+    conversionLimiter,
+    upload.fields([{ name: "source", maxCount: 1 }, { name: "target", maxCount: 1 }]),
+    validateMorphOptions,
+    async (req, res) => {
+      try {
+        const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+        const sourceFile = files?.source?.[0];
+        const targetFile = files?.target?.[0];
+
+        if (!sourceFile || !targetFile) {
+          return res.status(400).json({ error: "Both a source and a target image are required" });
+        }
+
+        const { pointCount, duration, stagger, ease, loop } = req.body;
+        // The morph only uses the SVGs, so no output format is rendered
+        const conversionOptions = svgOnlyOptions(parseConversionOptions(req.body));
+        console.log(`Creating path morph from ${sourceFile.originalname} to ${targetFile.originalname}`);
+
+        // Convert sequentially - both traces are CPU heavy
+        const source = await convertImageBuffer(fs.readFileSync(sourceFile.path), sourceFile.mimetype, conversionOptions);
+        const target = await convertImageBuffer(fs.readFileSync(targetFile.path), targetFile.mimetype, conversionOptions);
+
+        const morph = createPathMorph(source.svg, target.svg, { pointCount, duration, stagger, ease, loop });
+
+        res.status(200).json({
+          svg: morph.svg,
+          code: morph.code,
+          tracks: morph.tracks.map(({ id, sourceId, targetId, compatibility }) => ({ id, sourceId, targetId, compatibility })),
+          stats: morph.stats,
+          engines: { source: source.engine, target: target.engine }
+        });
+      } catch (error) {
+        console.error("Error creating path morph:", error);
+        
+        if (error instanceof Error) {
+          return res.status(400).json({ 
+            error: "Failed to create path morph", 
+            details: error.message 
+          });
+        }
+        
+        return res.status(500).json({ 
+          error: "An unexpected error occurred while creating the morph" 
+        });
+      }
+    }
+  );
+  
+  // Endpoint for checking that animation IDs survive re-conversion
+  app.post(
+    "/api/animation/stability-test",
+    conversionLimiter,
+    upload.single("image"),
+    validateStabilityTest,
+    async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ error: "No image file provided" });
+        }
+
+        const { iterations, perturb } = req.body;
+        const conversionOptions = parseConversionOptions(req.body);
+        console.log(`Running ID stability test on ${req.file.originalname} (${iterations} iterations, perturb: ${perturb})`);
+
+        const result = await runStabilityTests(
+          fs.readFileSync(req.file.path),
+          conversionOptions,
+          iterations,
+          { mimetype: req.file.mimetype, perturb }
+        );
+
+        res.status(200).json({
+          result,
+          report: generateStabilityReport(result)
+        });
+      } catch (error) {
+        console.error("Error running stability test:", error);
+        
+        if (error instanceof Error) {
+          return res.status(400).json({ 
+            error: "Failed to run stability test", 
+            details: error.message 
+          });
+        }
+        
+        return res.status(500).json({ 
+          error: "An unexpected error occurred while testing ID stability" 
+        });
+      }
+    }
+  );
+  
+  // Endpoint for previewing the bitmap the tracer will see after preprocessing
+  app.post(
+    "/api/preprocess-preview",
+    conversionLimiter,
+    upload.single("image"),
+    validateSvgOptions,
+    async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ error: "No image file provided" });
+        }
+
+        const fileBuffer = fs.readFileSync(req.file.path);
+        const formatValidation = await validateImageFormat(fileBuffer, req.file.mimetype);
+        if (!formatValidation.isValid || formatValidation.detectedFormat === 'svg') {
+          return res.status(400).json({
+            error: "Invalid image format",
+            details: formatValidation.error || "Only raster images are preprocessed"
+          });
+        }
+
+        const options = parseConversionOptions(req.body);
+        const { engine } = await selectEngine(fileBuffer, options);
+        const { processedBuffer } = await processImageBuffer(fileBuffer, 'preprocessing preview');
+        const bitmap = await prepareTracerInput(processedBuffer, engine, options);
+
+        res.setHeader("Content-Type", "image/png");
+        res.setHeader("X-Trace-Engine", engine);
+        res.status(200).send(bitmap);
+      } catch (error) {
+        console.error("Error previewing preprocessing:", error);
+        
+        if (error instanceof Error) {
+          return res.status(400).json({ 
+            error: "Failed to preprocess image", 
+            details: error.message 
+          });
+        }
+        
+        return res.status(500).json({ 
+          error: "An unexpected error occurred while preprocessing the image" 
+        });
+      }
+    }
+  );
+
+  // Endpoint for searching tracing settings that meet a size, path count or error goal
+  app.post(
+    "/api/optimize-parameters",
+    conversionLimiter,
+    upload.single("image"),
+    validateParameterSearch,
+    async (req, res) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ error: "No image file provided" });
+        }
+
+        const fileBuffer = fs.readFileSync(req.file.path);
+        const formatValidation = await validateImageFormat(fileBuffer, req.file.mimetype);
+        if (!formatValidation.isValid || formatValidation.detectedFormat === 'svg') {
+          return res.status(400).json({
+            error: "Invalid image format",
+            details: formatValidation.error || "Parameter search needs a raster image"
+          });
+        }
+
+        const { maxBytes, maxPaths, maxError } = req.body;
+        console.log(`Searching tracing parameters for ${req.file.originalname}`);
+
+        const result = await searchParameters(
+          fileBuffer,
+          formatValidation.detectedFormat,
+          parseConversionOptions(req.body),
+          { maxBytes, maxPaths, maxError }
+        );
+
+        res.status(200).json({ result });
+      } catch (error) {
+        console.error("Error searching parameters:", error);
+        
+        if (error instanceof Error) {
+          return res.status(400).json({ 
+            error: "Failed to search parameters", 
+            details: error.message 
+          });
+        }
+        
+        return res.status(500).json({ 
+          error: "An unexpected error occurred while searching parameters" 
+        });
+      }
+    }
+  );
+  
+  // Endpoint for listing past conversions, newest first
+  app.get("/api/history", requireAuth, validateHistoryQuery, async (req, res) => {
+    try {
+      const page = Number(req.query.page) || 1;
+      const limit = Number(req.query.limit) || 20;
+      const { items, total } = await storage.listConversions(req.user!.id, limit, (page - 1) * limit);
+
+      res.status(200).json({
+        items: items.map(toConversionSummary),
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      });
+    } catch (error) {
+      console.error("Error listing conversion history:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while loading history" 
+      });
+    }
+  });
+
+  // Endpoint for re-downloading the SVG from a past conversion
+  app.get("/api/history/:id/download", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const conversion = Number.isInteger(id) ? await storage.getConversion(id) : undefined;
+      // Other users' conversions are reported as missing rather than forbidden
+      if (!conversion || conversion.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Conversion not found" });
+      }
+
+      const baseName = sanitizeFilename(conversion.originalFilename).replace(/\.[^.]+$/, '') || 'image';
+      res.setHeader('Content-Type', 'image/svg+xml');
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}.svg"`);
+      res.status(200).send(conversion.svg);
+    } catch (error) {
+      console.error("Error downloading conversion:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while downloading the conversion" 
+      });
+    }
+  });
+  
+  // Endpoints for saved conversion presets, which belong to a signed-in account
+  app.get("/api/presets", requireAuth, async (req, res) => {
+    try {
+      const rows = await storage.listSvgOptions(req.user!.id);
+      res.status(200).json({ presets: rows.map(rowToPreset) });
+    } catch (error) {
+      console.error("Error listing presets:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while loading presets" 
+      });
+    }
+  });
+
+  app.post("/api/presets", requireAuth, validatePreset, async (req, res) => {
+    try {
+      const row = await storage.createSvgOptions(presetToRow(req.body, req.user!.id));
+      res.status(201).json({ preset: rowToPreset(row) });
+    } catch (error) {
+      console.error("Error saving preset:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while saving the preset" 
+      });
+    }
+  });
+
+  app.put("/api/presets/:id", requireAuth, validatePreset, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = Number.isInteger(id) ? await storage.getSvgOptions(id) : undefined;
+      if (!existing || existing.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      const row = await storage.updateSvgOptions(id, presetToRow(req.body, req.user!.id));
+      if (!row) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.status(200).json({ preset: rowToPreset(row) });
+    } catch (error) {
+      console.error("Error updating preset:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while updating the preset" 
+      });
+    }
+  });
+
+  app.delete("/api/presets/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = Number.isInteger(id) ? await storage.getSvgOptions(id) : undefined;
+      const deleted = !!existing && existing.userId === req.user!.id && await storage.deleteSvgOptions(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Preset not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting preset:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while deleting the preset" 
+      });
+    }
+  });
+  
+  // Endpoints for managing API keys - the plain key is only returned once, on creation
+  app.get("/api/keys", requireAuth, async (req, res) => {
+    try {
+      const rows = await storage.listApiKeys(req.user!.id);
+      res.status(200).json({ apiKeys: rows.map(toApiKeySummary) });
+    } catch (error) {
+      console.error("Error listing API keys:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while loading API keys" 
+      });
+    }
+  });
+
+  app.post("/api/keys", requireAuth, validateApiKey, async (req, res) => {
+    try {
+      const { key, keyHash, keyPrefix } = generateApiKey();
+      const row = await storage.createApiKey({
+        userId: req.user!.id,
+        name: req.body.name,
+        keyHash,
+        keyPrefix,
+        createdAt: new Date().toISOString()
+      });
+      res.status(201).json({ apiKey: toApiKeySummary(row), key });
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while creating the API key" 
+      });
+    }
+  });
+
+  app.delete("/api/keys/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = Number.isInteger(id) ? await storage.getApiKey(id) : undefined;
+      const deleted = !!existing && existing.userId === req.user!.id && await storage.deleteApiKey(id);
+      if (!deleted) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting API key:", error);
+      return res.status(500).json({ 
+        error: "An unexpected error occurred while deleting the API key" 
+      });
+    }
+  });
+
+  // Machine-readable description of the headless API
+  app.get("/api/openapi.json", (req, res) => {
+    res.status(200).json(buildOpenApiDocument(`${req.protocol}://${req.get("host")}`));
+  });
   
   // Add privacy policy and terms of service routes
   app.get("/api/privacy-policy", (req, res) => {
@@ -310,8 +766,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       title: "Privacy Policy",
       lastUpdated: "April 15, 2025",
       content: [
-        "We do not store your images permanently. All uploaded images are processed in memory and immediately deleted after conversion.",
-        "We do not track individual users or store personal information.",
+        "We do not store your images. Uploaded images are processed and deleted as soon as the conversion finishes.",
+        "Conversions made without an account are not kept after the response is sent.",
+        `If you are signed in, your conversion history keeps the generated SVG, the original filename, the settings used and a fingerprint (hash) of the source image - never the image itself. History is visible only to your account and keeps your ${MAX_HISTORY_PER_USER} most recent conversions for up to ${HISTORY_RETENTION_DAYS} days.`,
+        "Accounts are optional. If you create one we store only your username, email address and a salted hash of your password.",
         "We use rate limiting to prevent abuse of our services.",
         "Images are only processed for conversion to SVG and are not shared with third parties."
       ]
@@ -335,8 +793,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use(errorHandler);
   
   // Add queue-based API routes
-  app.post('/api/queue/convert', conversionLimiter, upload.single('image'), queueController.queueConversion);
-  app.post('/api/queue/batch', conversionLimiter, upload.array('images', 20), queueController.queueBatchConversion);
+  app.post('/api/queue/convert', conversionLimiter, upload.single('image'), validateSvgOptions, queueController.queueConversion);
+  app.post('/api/queue/batch', conversionLimiter, upload.array('images', 20), validateSvgOptions, queueController.queueBatchConversion);
   app.post('/api/queue/color', validateColorInput, queueController.queueColorApplication);
   app.post('/api/queue/background', validateBackgroundInput, queueController.queueBackgroundSetting);
   app.get('/api/queue/job/:jobId', queueController.getJobStatus);
@@ -1,21 +1,86 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, desc, eq, inArray, lt, or, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import {
+  users,
+  conversions,
+  svgOptions,
+  apiKeys,
+  type User,
+  type InsertUser,
+  type Conversion,
+  type InsertConversion,
+  type SvgOptions,
+  type InsertSvgOptions,
+  type ApiKey,
+  type InsertApiKey
+} from "@shared/schema";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
 
+export interface ConversionPage {
+  items: Conversion[];
+  total: number;
+}
+
+// Per-user queries take the signed-in owner's ID; anonymous rows are never listed
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  createConversion(conversion: InsertConversion): Promise<Conversion>;
+  getConversion(id: number): Promise<Conversion | undefined>;
+  listConversions(userId: number, limit: number, offset: number): Promise<ConversionPage>;
+  pruneConversions(userId: number, keep: number, createdBefore: string): Promise<number>;
+
+  listSvgOptions(userId: number): Promise<SvgOptions[]>;
+  getSvgOptions(id: number): Promise<SvgOptions | undefined>;
+  createSvgOptions(options: InsertSvgOptions): Promise<SvgOptions>;
+  updateSvgOptions(id: number, options: InsertSvgOptions): Promise<SvgOptions | undefined>;
+  deleteSvgOptions(id: number): Promise<boolean>;
+
+  listApiKeys(userId: number): Promise<ApiKey[]>;
+  getApiKey(id: number): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  touchApiKey(id: number, usedAt: string): Promise<void>;
+  deleteApiKey(id: number): Promise<boolean>;
 }
 
+// Keep in-memory history bounded - every entry holds a full SVG
+const MAX_MEMORY_CONVERSIONS = 200;
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private conversions: Map<number, Conversion>;
+  private svgOptions: Map<number, SvgOptions>;
+  private apiKeys: Map<number, ApiKey>;
   currentId: number;
+  currentConversionId: number;
+  currentSvgOptionsId: number;
+  currentApiKeyId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.conversions = new Map();
+    this.svgOptions = new Map();
+    this.apiKeys = new Map();
     this.currentId = 1;
+    this.currentConversionId = 1;
+    this.currentSvgOptionsId = 1;
+    this.currentApiKeyId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +99,284 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async createConversion(insertConversion: InsertConversion): Promise<Conversion> {
+    const id = this.currentConversionId++;
+    const conversion: Conversion = {
+      ...insertConversion,
+      id,
+      userId: insertConversion.userId ?? null,
+      optionsId: insertConversion.optionsId ?? null,
+      options: insertConversion.options ?? null
+    };
+    this.conversions.set(id, conversion);
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.conversions.size > MAX_MEMORY_CONVERSIONS) {
+      const oldestId = this.conversions.keys().next().value;
+      if (oldestId !== undefined) this.conversions.delete(oldestId);
+    }
+
+    return conversion;
+  }
+
+  async getConversion(id: number): Promise<Conversion | undefined> {
+    return this.conversions.get(id);
+  }
+
+  async listConversions(userId: number, limit: number, offset: number): Promise<ConversionPage> {
+    const newestFirst = Array.from(this.conversions.values())
+      .filter(conversion => conversion.userId === userId)
+      .reverse();
+    return {
+      items: newestFirst.slice(offset, offset + limit),
+      total: newestFirst.length
+    };
+  }
+
+  async pruneConversions(userId: number, keep: number, createdBefore: string): Promise<number> {
+    const newestFirst = Array.from(this.conversions.values())
+      .filter(conversion => conversion.userId === userId)
+      .reverse();
+    const expired = newestFirst.filter((conversion, index) => index >= keep || conversion.createdAt < createdBefore);
+    expired.forEach(conversion => this.conversions.delete(conversion.id));
+    return expired.length;
+  }
+
+  async listSvgOptions(userId: number): Promise<SvgOptions[]> {
+    return Array.from(this.svgOptions.values()).filter(options => options.userId === userId);
+  }
+
+  async getSvgOptions(id: number): Promise<SvgOptions | undefined> {
+    return this.svgOptions.get(id);
+  }
+
+  async createSvgOptions(insertOptions: InsertSvgOptions): Promise<SvgOptions> {
+    const id = this.currentSvgOptionsId++;
+    const options = this.withSvgOptionDefaults(id, insertOptions);
+    this.svgOptions.set(id, options);
+    return options;
+  }
+
+  async updateSvgOptions(id: number, insertOptions: InsertSvgOptions): Promise<SvgOptions | undefined> {
+    const existing = this.svgOptions.get(id);
+    if (!existing) return undefined;
+    const options = this.withSvgOptionDefaults(id, { ...insertOptions, userId: existing.userId });
+    this.svgOptions.set(id, options);
+    return options;
+  }
+
+  async deleteSvgOptions(id: number): Promise<boolean> {
+    return this.svgOptions.delete(id);
+  }
+
+  async listApiKeys(userId: number): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values()).filter(apiKey => apiKey.userId === userId);
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const id = this.currentApiKeyId++;
+    const apiKey: ApiKey = { ...insertApiKey, id, lastUsedAt: null };
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  async touchApiKey(id: number, usedAt: string): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) apiKey.lastUsedAt = usedAt;
+  }
+
+  async deleteApiKey(id: number): Promise<boolean> {
+    return this.apiKeys.delete(id);
+  }
+
+  // Mirror the column defaults the database would apply
+  private withSvgOptionDefaults(id: number, options: InsertSvgOptions): SvgOptions {
+    return {
+      id,
+      userId: options.userId ?? null,
+      name: options.name,
+      description: options.description ?? null,
+      fileFormat: options.fileFormat ?? "svg",
+      svgVersion: options.svgVersion ?? "1.1",
+      drawStyle: options.drawStyle ?? "fillShapes",
+      shapeStacking: options.shapeStacking ?? "placeCutouts",
+      groupBy: options.groupBy ?? "none",
+      lineFit: options.lineFit ?? "medium",
+      allowedCurveTypes: options.allowedCurveTypes ?? "lines,quadraticBezier,cubicBezier,circularArcs,ellipticalArcs",
+      fillGaps: options.fillGaps ?? true,
+      clipOverflow: options.clipOverflow ?? false,
+      nonScalingStroke: options.nonScalingStroke ?? true,
+      strokeWidth: options.strokeWidth ?? "2.0",
+      traceEngine: options.traceEngine ?? "auto",
+      turdSize: options.turdSize ?? null,
+      alphaMax: options.alphaMax ?? null,
+      optTolerance: options.optTolerance ?? null,
+      numberOfColors: options.numberOfColors ?? 24,
+      colorMode: options.colorMode ?? "color",
+      minColorRatio: options.minColorRatio ?? 0.01,
+      colorQuantization: options.colorQuantization ?? "floyd-steinberg",
+      blurRadius: options.blurRadius ?? 0,
+      preserveColors: options.preserveColors ?? true,
+      colorSampling: options.colorSampling ?? null,
+      ltres: options.ltres ?? null,
+      qtres: options.qtres ?? null,
+      pathomit: options.pathomit ?? null,
+      roundcoords: options.roundcoords ?? null,
+      customPalette: options.customPalette ?? "",
+      animationMode: options.animationMode ?? false,
+      idPrefix: options.idPrefix ?? "anim_",
+      flattenTransforms: options.flattenTransforms ?? false,
+      generateStableIds: options.generateStableIds ?? true,
+      extraOptions: options.extraOptions ?? null
+    };
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  // Imported lazily because ./db throws when DATABASE_URL is missing
+  private db = import("./db").then(module => module.db);
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const db = await this.db;
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const db = await this.db;
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const db = await this.db;
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async createConversion(insertConversion: InsertConversion): Promise<Conversion> {
+    const db = await this.db;
+    const [conversion] = await db.insert(conversions).values(insertConversion).returning();
+    return conversion;
+  }
+
+  async getConversion(id: number): Promise<Conversion | undefined> {
+    const db = await this.db;
+    const [conversion] = await db.select().from(conversions).where(eq(conversions.id, id));
+    return conversion;
+  }
+
+  async listConversions(userId: number, limit: number, offset: number): Promise<ConversionPage> {
+    const db = await this.db;
+    const owner = eq(conversions.userId, userId);
+    const items = await db.select()
+      .from(conversions)
+      .where(owner)
+      .orderBy(desc(conversions.id))
+      .limit(limit)
+      .offset(offset);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(conversions).where(owner);
+    return { items, total: count };
+  }
+
+  async pruneConversions(userId: number, keep: number, createdBefore: string): Promise<number> {
+    const db = await this.db;
+    const surplus = await db.select({ id: conversions.id })
+      .from(conversions)
+      .where(eq(conversions.userId, userId))
+      .orderBy(desc(conversions.id))
+      .offset(keep);
+    const expired = lt(conversions.createdAt, createdBefore);
+    const deleted = await db.delete(conversions)
+      .where(and(
+        eq(conversions.userId, userId),
+        surplus.length > 0 ? or(expired, inArray(conversions.id, surplus.map(row => row.id))) : expired
+      ))
+      .returning({ id: conversions.id });
+    return deleted.length;
+  }
+
+  async listSvgOptions(userId: number): Promise<SvgOptions[]> {
+    const db = await this.db;
+    return db.select().from(svgOptions).where(eq(svgOptions.userId, userId)).orderBy(svgOptions.id);
+  }
+
+  async getSvgOptions(id: number): Promise<SvgOptions | undefined> {
+    const db = await this.db;
+    const [options] = await db.select().from(svgOptions).where(eq(svgOptions.id, id));
+    return options;
+  }
+
+  async createSvgOptions(insertOptions: InsertSvgOptions): Promise<SvgOptions> {
+    const db = await this.db;
+    const [options] = await db.insert(svgOptions).values(insertOptions).returning();
+    return options;
+  }
+
+  async updateSvgOptions(id: number, insertOptions: InsertSvgOptions): Promise<SvgOptions | undefined> {
+    const db = await this.db;
+    // Ownership never changes on update
+    const { userId, ...changes } = insertOptions;
+    const [options] = await db.update(svgOptions).set(changes).where(eq(svgOptions.id, id)).returning();
+    return options;
+  }
+
+  async deleteSvgOptions(id: number): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db.delete(svgOptions).where(eq(svgOptions.id, id)).returning({ id: svgOptions.id });
+    return deleted.length > 0;
+  }
+
+  async listApiKeys(userId: number): Promise<ApiKey[]> {
+    const db = await this.db;
+    return db.select().from(apiKeys).where(eq(apiKeys.userId, userId)).orderBy(apiKeys.id);
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    const db = await this.db;
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const db = await this.db;
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey;
+  }
+
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const db = await this.db;
+    const [apiKey] = await db.insert(apiKeys).values(insertApiKey).returning();
+    return apiKey;
+  }
+
+  async touchApiKey(id: number, usedAt: string): Promise<void> {
+    const db = await this.db;
+    await db.update(apiKeys).set({ lastUsedAt: usedAt }).where(eq(apiKeys.id, id));
+  }
+
+  async deleteApiKey(id: number): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db.delete(apiKeys).where(eq(apiKeys.id, id)).returning({ id: apiKeys.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+export const storage: IStorage = process.env.DATABASE_URL ? new DatabaseStorage() : new MemStorage();
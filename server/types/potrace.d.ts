@@ -12,7 +12,7 @@ declare module 'potrace' {
       [key: string]: any;
     }): void;
     
-    loadImage(path: string, callback: (err: Error | null) => void): void;
+    loadImage(path: string | Buffer, callback: (err: Error | null) => void): void;
     
     getSVG(scale?: number): string;
     
@@ -1,4 +1,5 @@
 import { JSDOM } from 'jsdom';
+import * as crypto from 'crypto';
 
 /**
  * Accessibility enhancement utilities for SVG animations
@@ -89,12 +90,15 @@ export function enhanceAccessibility(
       }
 
       // Set aria-labelledby to reference title
-      const titleId = 'svg-title-' + Math.random().toString(36).slice(2, 8);
+      // Derived from the title and canvas rather than random so re-conversions keep the same IDs
+      const idSeed = [titleText, svgElement.getAttribute('viewBox'), svgElement.getAttribute('width'), svgElement.getAttribute('height')].join('|');
+      const idSuffix = crypto.createHash('md5').update(idSeed).digest('hex').slice(0, 6);
+      const titleId = 'svg-title-' + idSuffix;
       titleElement.setAttribute('id', titleId);
       svgElement.setAttribute('aria-labelledby', titleId);
       
       if (options.customDescription) {
-        const descId = 'svg-desc-' + Math.random().toString(36).slice(2, 8);
+        const descId = 'svg-desc-' + idSuffix;
         const descElement = svgElement.querySelector('desc');
         if (descElement) {
           descElement.setAttribute('id', descId);
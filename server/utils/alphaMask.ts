@@ -0,0 +1,286 @@
+import sharp from 'sharp';
+
+/**
+ * Alpha Mask Preparation
+ * Turns the normalized RGBA image into the bitmap each tracer sees, so transparency in the
+ * source decides where shapes can appear instead of background heuristics after tracing.
+ * Optionally removes a solid background color first by flood-filling from the corners.
+ */
+
+export interface AlphaMaskOptions {
+  removeBackground?: boolean;
+  backgroundTolerance?: number; // 0-100, color distance from the corner color still counted as background
+}
+
+export type ThresholdMode = 'fixed' | 'otsu' | 'adaptive';
+
+export interface ThresholdOptions {
+  thresholdMode?: ThresholdMode;
+  threshold?: number; // 0-255, luminance below which a pixel is ink in fixed mode
+}
+
+// Pixels at least this opaque are traced; matches the color analysis in colorHistogram
+export const OPAQUE_ALPHA = 128;
+
+// Background tolerance used when none is given
+export const DEFAULT_BACKGROUND_TOLERANCE = 10;
+
+// Fixed luminance threshold used when none is given
+export const DEFAULT_THRESHOLD = 128;
+
+// Adaptive mode: a pixel is ink when this share darker than its neighbourhood mean
+// (Bradley-Roth), or darker than ADAPTIVE_DARK_FLOOR anywhere
+const ADAPTIVE_SENSITIVITY = 0.15;
+const ADAPTIVE_DARK_FLOOR = 64;
+
+// Adaptive mode window, as a share of the short side (never below MIN_ADAPTIVE_WINDOW px)
+const ADAPTIVE_WINDOW_SHARE = 1 / 16;
+const MIN_ADAPTIVE_WINDOW = 15;
+
+// Edge pixels up to this multiple of the tolerance fade out instead of being cut
+const FEATHER_FACTOR = 2;
+
+// Below this share of dark pixels among the opaque ones, potrace traces the silhouette instead
+const MIN_INK_SHARE = 0.01;
+
+const MAX_COLOR_DISTANCE = Math.sqrt(3) * 255;
+
+interface RgbaImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bitmap for potrace: black where a pixel is opaque and darker than the threshold, white
+ * everywhere else. Light artwork on a transparent background (white logos) would leave
+ * nothing to trace, so then the opaque silhouette is traced.
+ */
+export async function preparePotraceBitmap(
+  pngBuffer: Buffer,
+  options: AlphaMaskOptions & ThresholdOptions = {}
+): Promise<Buffer> {
+  const image = await readRgba(pngBuffer, options);
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+
+  // Same luminance weights as potrace; transparent pixels count as white paper
+  const luminance = new Float32Array(pixelCount);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const offset = pixel * 4;
+    luminance[pixel] = data[offset + 3] < OPAQUE_ALPHA
+      ? 255
+      : 0.2126 * data[offset] + 0.7152 * data[offset + 1] + 0.0722 * data[offset + 2];
+  }
+  const isInk = inkClassifier(luminance, width, height, data, options);
+
+  const ink = new Uint8Array(pixelCount);
+  let opaque = 0;
+  let dark = 0;
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    if (data[pixel * 4 + 3] < OPAQUE_ALPHA) continue;
+    opaque++;
+    if (isInk(pixel)) {
+      ink[pixel] = 1;
+      dark++;
+    }
+  }
+
+  const silhouette = opaque < pixelCount && dark < opaque * MIN_INK_SHARE;
+  if (silhouette) {
+    console.log("Opaque pixels are almost all light - tracing the alpha silhouette");
+  }
+
+  const gray = Buffer.alloc(pixelCount, 255);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    if (silhouette ? data[pixel * 4 + 3] >= OPAQUE_ALPHA : ink[pixel]) gray[pixel] = 0;
+  }
+
+  return sharp(gray, { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+/**
+ * Otsu's threshold: the luminance that best separates the opaque pixels into two classes
+ */
+export function otsuThreshold(luminance: Float32Array, rgba?: Buffer): number {
+  const histogram = new Float64Array(256);
+  let total = 0;
+  luminance.forEach((value, pixel) => {
+    if (rgba && rgba[pixel * 4 + 3] < OPAQUE_ALPHA) return;
+    histogram[Math.min(255, Math.round(value))]++;
+    total++;
+  });
+  if (total === 0) return DEFAULT_THRESHOLD;
+
+  let sum = 0;
+  histogram.forEach((count, level) => { sum += count * level; });
+
+  let best = DEFAULT_THRESHOLD;
+  let bestVariance = -1;
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    backgroundSum += level * histogram[level];
+    const foregroundCount = total - backgroundCount;
+    if (backgroundCount === 0 || foregroundCount === 0) continue;
+
+    const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      // Pixels at or below the split level are the dark class
+      best = level + 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Decide per pixel whether it is ink. Adaptive mode compares each pixel with the mean of
+ * its neighbourhood, which copes with uneven lighting; the dark floor keeps solid areas
+ * larger than the window from turning hollow.
+ */
+function inkClassifier(
+  luminance: Float32Array,
+  width: number,
+  height: number,
+  rgba: Buffer,
+  options: ThresholdOptions
+): (pixel: number) => boolean {
+  const mode = options.thresholdMode ?? 'fixed';
+  if (mode === 'fixed') {
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    return pixel => luminance[pixel] < threshold;
+  }
+
+  if (mode === 'otsu') {
+    const threshold = otsuThreshold(luminance, rgba);
+    console.log(`Otsu threshold: ${threshold}`);
+    return pixel => luminance[pixel] < threshold;
+  }
+
+  const window = Math.max(MIN_ADAPTIVE_WINDOW, Math.round(Math.min(width, height) * ADAPTIVE_WINDOW_SHARE));
+  const means = boxMeans(luminance, width, height, Math.floor(window / 2));
+  return pixel => luminance[pixel] < ADAPTIVE_DARK_FLOOR ||
+    luminance[pixel] < means[pixel] * (1 - ADAPTIVE_SENSITIVITY);
+}
+
+/**
+ * Mean over a (2 * radius + 1)^2 window around every pixel, clipped at the edges (summed-area table)
+ */
+function boxMeans(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += values[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const means = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum = integral[bottom * stride + right] - integral[top * stride + right] -
+        integral[bottom * stride + left] + integral[top * stride + left];
+      means[y * width + x] = sum / ((bottom - top) * (right - left));
+    }
+  }
+  return means;
+}
+
+/**
+ * RGBA image for ImageTracer with alpha snapped to fully opaque or fully transparent, so
+ * every transparent pixel lands in one invisible palette entry and soft edges are split
+ * at the same coverage as for potrace
+ */
+export async function prepareColorBitmap(pngBuffer: Buffer, options: AlphaMaskOptions = {}): Promise<Buffer> {
+  const { data, width, height } = await readRgba(pngBuffer, options);
+
+  for (let offset = 0; offset < data.length; offset += 4) {
+    if (data[offset + 3] < OPAQUE_ALPHA) {
+      data.fill(0, offset, offset + 4);
+    } else {
+      data[offset + 3] = 255;
+    }
+  }
+
+  return sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+/**
+ * Make the background transparent: flood-fill from each corner across pixels within
+ * tolerance of that corner's color. Pixels just outside the tolerance along the fill
+ * boundary are faded rather than cut, which keeps anti-aliased edges smooth.
+ * Returns the number of pixels cleared.
+ */
+export function removeSolidBackground(image: RgbaImage, tolerance: number = DEFAULT_BACKGROUND_TOLERANCE): number {
+  const { data, width, height } = image;
+  const limit = (Math.max(0, Math.min(100, tolerance)) / 100) * MAX_COLOR_DISTANCE;
+  const featherLimit = limit * FEATHER_FACTOR;
+  // 0 = untouched, 1 = background, 2 = feathered edge
+  const state = new Uint8Array(width * height);
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+  let cleared = 0;
+
+  for (const corner of corners) {
+    if (state[corner] !== 0 || data[corner * 4 + 3] < OPAQUE_ALPHA) continue;
+    const seed = [data[corner * 4], data[corner * 4 + 1], data[corner * 4 + 2]];
+    const distanceToSeed = (pixel: number) => Math.hypot(
+      data[pixel * 4] - seed[0],
+      data[pixel * 4 + 1] - seed[1],
+      data[pixel * 4 + 2] - seed[2]
+    );
+
+    const stack = [corner];
+    state[corner] = 1;
+    while (stack.length > 0) {
+      const pixel = stack.pop()!;
+      cleared++;
+
+      const x = pixel % width;
+      const neighbours = [
+        x > 0 ? pixel - 1 : -1,
+        x < width - 1 ? pixel + 1 : -1,
+        pixel - width,
+        pixel + width
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour < 0 || neighbour >= width * height || state[neighbour] === 1) continue;
+
+        // Already transparent pixels connect background regions
+        const distance = data[neighbour * 4 + 3] < OPAQUE_ALPHA ? 0 : distanceToSeed(neighbour);
+        if (distance <= limit) {
+          state[neighbour] = 1;
+          stack.push(neighbour);
+        } else if (state[neighbour] === 0 && distance < featherLimit) {
+          state[neighbour] = 2;
+          const coverage = (distance - limit) / (featherLimit - limit);
+          data[neighbour * 4 + 3] = Math.round(data[neighbour * 4 + 3] * coverage);
+        }
+      }
+    }
+  }
+
+  for (let pixel = 0; pixel < state.length; pixel++) {
+    if (state[pixel] === 1) data[pixel * 4 + 3] = 0;
+  }
+  return cleared;
+}
+
+async function readRgba(pngBuffer: Buffer, options: AlphaMaskOptions): Promise<RgbaImage> {
+  const { data, info } = await sharp(pngBuffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const image = { data, width: info.width, height: info.height };
+
+  if (options.removeBackground) {
+    const cleared = removeSolidBackground(image, options.backgroundTolerance);
+    console.log(`Background removal cleared ${cleared} of ${info.width * info.height} pixels`);
+  }
+  return image;
+}
@@ -24,33 +24,37 @@ export interface AnimationProcessingOptions {
   customDescription?: string;
   enablePerformanceOptimization?: boolean;
   targetReduction?: number;
+  simplifyTolerance?: number; // Max outline deviation in pixels for path simplification
+}
+
+export interface AnimationMetadata {
+  elementCount: number;
+  groupCount: number;
+  pathCount: number;
+  hasTransforms: boolean;
+  complexity: 'low' | 'medium' | 'high';
+  animationReadiness: number; // 0-100 score
+  viewBox?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    aspectRatio: number;
+  };
+  colors?: Array<{
+    color: string;
+    usage: number;
+  }>;
+  pathLengths?: PathLengthInfo[];
+  accessibility?: AccessibilityMetadata;
+  performance?: ComplexityAnalysis;
+  // Without the before/after SVG copies, so the metadata stays small enough to send to clients
+  optimizationResult?: Omit<OptimizationResult, 'originalSVG' | 'optimizedSVG'>;
 }
 
 export interface ProcessedAnimationSVG {
   svg: string;
-  metadata: {
-    elementCount: number;
-    groupCount: number;
-    pathCount: number;
-    hasTransforms: boolean;
-    complexity: 'low' | 'medium' | 'high';
-    animationReadiness: number; // 0-100 score
-    viewBox?: {
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-      aspectRatio: number;
-    };
-    colors?: Array<{
-      color: string;
-      usage: number;
-    }>;
-    pathLengths?: PathLengthInfo[];
-    accessibility?: AccessibilityMetadata;
-    performance?: ComplexityAnalysis;
-    optimizationResult?: OptimizationResult;
-  };
+  metadata: AnimationMetadata;
 }
 
 /**
@@ -72,14 +76,7 @@ export async function processForAnimation(
     }
 
     let processedSvg = svgContent;
-    const metadata: {
-      elementCount: number;
-      groupCount: number;
-      pathCount: number;
-      hasTransforms: boolean;
-      complexity: 'low' | 'medium' | 'high';
-      animationReadiness: number;
-    } = {
+    const metadata: AnimationMetadata = {
       elementCount: 0,
       groupCount: 0,
       pathCount: 0,
@@ -148,7 +145,8 @@ export async function processForAnimation(
           simplifyPaths: true,
           removeRedundantGroups: true,
           optimizeForFPS: true,
-          targetFPS: 60
+          targetFPS: 60,
+          simplifyTolerance: options.simplifyTolerance
         };
         
         optimizationResult = performanceOptimize(processedSvg, perfOptions);
@@ -186,7 +184,7 @@ export async function processForAnimation(
     
     // Add viewBox info if available
     if (viewBoxInfo && viewBoxInfo.isOptimized) {
-      (metadata as any).viewBox = {
+      metadata.viewBox = {
         x: viewBoxInfo.x,
         y: viewBoxInfo.y,
         width: viewBoxInfo.width,
@@ -198,23 +196,24 @@ export async function processForAnimation(
     // Extract color information if requested
     if (options.extractColors) {
       const colors = extractColorsFromSVG(processedSvg);
-      (metadata as any).colors = colors;
+      metadata.colors = colors;
     }
     
     // Add path length information if available
     if (pathLengthInfo.length > 0) {
-      (metadata as any).pathLengths = pathLengthInfo;
+      metadata.pathLengths = pathLengthInfo;
     }
     
     // Add accessibility metadata if available
     if (accessibilityMetadata) {
-      (metadata as any).accessibility = accessibilityMetadata;
+      metadata.accessibility = accessibilityMetadata;
     }
     
     // Add performance metadata if available
     if (optimizationResult) {
-      (metadata as any).performance = optimizationResult.afterAnalysis;
-      (metadata as any).optimizationResult = optimizationResult;
+      const { originalSVG, optimizedSVG, ...summary } = optimizationResult;
+      metadata.performance = optimizationResult.afterAnalysis;
+      metadata.optimizationResult = summary;
     }
     
     // Calculate complexity based on element count and structure
@@ -385,6 +385,21 @@ document.querySelector('#${elementId}').animate([
   }
 ];
 
+/**
+ * Template metadata without the code generators, safe to send to the client
+ */
+export type AnimationTemplateSummary = Omit<AnimationTemplate, 'gsapCode' | 'cssCode' | 'wapiCode'>;
+
+export const TEMPLATE_CATEGORIES: AnimationTemplate['category'][] = ['motion', 'attention', 'entrance', 'exit', 'special'];
+
+/**
+ * List template metadata, optionally filtered by category
+ */
+export function listTemplateSummaries(category?: AnimationTemplate['category']): AnimationTemplateSummary[] {
+  const templates = category ? getTemplatesByCategory(category) : ANIMATION_TEMPLATES;
+  return templates.map(({ gsapCode, cssCode, wapiCode, ...summary }) => summary);
+}
+
 /**
  * Get templates by category
  */
@@ -444,17 +459,18 @@ const tl = gsap.timeline();
 
 ${elementIds.map((elementId, index) => {
   const delay = index * staggerDelay;
-  return `tl.add(() => {
-  ${template.gsapCode(elementId).replace('gsap.', '').replace(/;$/, '')}
-}, ${delay.toFixed(2)});`;
-}).join('\n')}
-
-return tl;`;
+  const code = template.gsapCode(elementId).trim().replace(/;$/, '');
+  const tweenStart = code.indexOf('gsap.');
+  const tween = `tl.add(${code.slice(tweenStart)}, ${delay.toFixed(2)});`;
+  // Templates with setup lines (e.g. reading data-length) get their own block scope
+  return tweenStart > 0 ? `{\n${code.slice(0, tweenStart)}${tween}\n}` : tween;
+}).join('\n\n')}`;
   } else if (framework === 'css') {
+    // The delay must follow the animation shorthand, which would otherwise reset it
     return `/* Staggered ${template.name} Animation */
 ${elementIds.map((elementId, index) => {
   const delay = index * staggerDelay;
-  return template.cssCode(elementId).replace(/animation:/, `animation-delay: ${delay}s;\n  animation:`);
+  return template.cssCode(elementId).replace(/(animation:[^;]*;)/, `$1\n  animation-delay: ${delay.toFixed(2)}s;`);
 }).join('\n\n')}`;
   } else {
     return `// Staggered ${template.name} Animation
@@ -0,0 +1,53 @@
+import * as crypto from 'crypto';
+import type { ApiKey } from '@shared/schema';
+
+/**
+ * API Keys
+ * Generation and hashing of keys that let scripts call the API without a session
+ */
+
+const API_KEY_PREFIX = 'vk_';
+
+// Enough of the key to recognise it in a list without making it usable
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+/**
+ * Keys are long random strings, so a plain SHA-256 is enough to store them safely
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Create a new key - the plain value is only ever returned here
+ */
+export function generateApiKey(): { key: string; keyHash: string; keyPrefix: string } {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH)
+  };
+}
+
+/**
+ * Read a key from `X-API-Key` or an `Authorization: Bearer` header
+ */
+export function readApiKey(headers: { authorization?: string; 'x-api-key'?: string | string[] }): string | null {
+  const headerKey = headers['x-api-key'];
+  if (typeof headerKey === 'string' && headerKey.trim()) {
+    return headerKey.trim();
+  }
+
+  const match = headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Drop the hash before a key is listed
+ */
+export function toApiKeySummary({ keyHash, ...summary }: ApiKey): ApiKeySummary {
+  return summary;
+}
@@ -0,0 +1,307 @@
+/**
+ * Color Histogram Analysis
+ * Median-cut quantization, edge density and anti-aliasing estimates over raw RGBA pixels
+ */
+
+export type RGB = [number, number, number];
+
+export interface ColorCluster {
+  color: string;
+  rgb: RGB;
+  coverage: number; // share of opaque pixels, 0-1
+}
+
+export interface PixelSample {
+  data: Uint8Array | Buffer; // RGBA, 4 bytes per pixel
+  width: number;
+  height: number;
+}
+
+// Pixels more transparent than this are treated as background, not color
+const OPAQUE_ALPHA = 128;
+
+// 5 bits per channel keeps the histogram at 32k bins while still separating real colors
+const HISTOGRAM_BITS = 5;
+const HISTOGRAM_SHIFT = 8 - HISTOGRAM_BITS;
+
+// Median-cut clusters closer than this (RGB distance) are the same perceived color
+const MERGE_DISTANCE = 32;
+
+// Luminance gradient (|dx| + |dy|) that counts as an edge
+const EDGE_THRESHOLD = 64;
+
+// How far a pixel may sit from a color (or a blend line) and still match it
+const BLEND_TOLERANCE = 24;
+
+// Tighter match for flatness - allows compression noise but not a gradient step
+const FLAT_TOLERANCE = 16;
+
+interface HistogramBin {
+  key: number[]; // quantized r, g, b
+  count: number;
+  sum: RGB;
+}
+
+interface ColorBox {
+  bins: HistogramBin[];
+  count: number;
+}
+
+export const toHex = ([r, g, b]: RGB) =>
+  '#' + [r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('');
+
+const distance = (a: RGB, b: RGB) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+/**
+ * Spread between the strongest and weakest channel - 0 for pure grays
+ */
+export const chroma = ([r, g, b]: RGB) => Math.max(r, g, b) - Math.min(r, g, b);
+
+/**
+ * Build a quantized histogram of the opaque pixels
+ */
+function buildHistogram(sample: PixelSample): { bins: HistogramBin[]; opaque: number } {
+  const bins = new Map<number, HistogramBin>();
+  const { data } = sample;
+  let opaque = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < OPAQUE_ALPHA) continue;
+    opaque++;
+
+    const r = data[i] >> HISTOGRAM_SHIFT;
+    const g = data[i + 1] >> HISTOGRAM_SHIFT;
+    const b = data[i + 2] >> HISTOGRAM_SHIFT;
+    const key = (r << (HISTOGRAM_BITS * 2)) | (g << HISTOGRAM_BITS) | b;
+
+    let bin = bins.get(key);
+    if (!bin) {
+      bin = { key: [r, g, b], count: 0, sum: [0, 0, 0] };
+      bins.set(key, bin);
+    }
+    bin.count++;
+    bin.sum[0] += data[i];
+    bin.sum[1] += data[i + 1];
+    bin.sum[2] += data[i + 2];
+  }
+
+  return { bins: Array.from(bins.values()), opaque };
+}
+
+function channelRange(box: ColorBox, channel: number): number {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const bin of box.bins) {
+    min = Math.min(min, bin.key[channel]);
+    max = Math.max(max, bin.key[channel]);
+  }
+  return max - min;
+}
+
+/**
+ * Split a box at the weighted median of its widest channel
+ */
+function splitBox(box: ColorBox): [ColorBox, ColorBox] {
+  const ranges = [0, 1, 2].map(channel => channelRange(box, channel));
+  const channel = ranges.indexOf(Math.max(...ranges));
+  const sorted = [...box.bins].sort((a, b) => a.key[channel] - b.key[channel]);
+
+  let running = 0;
+  let splitAt = 1;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    running += sorted[i].count;
+    splitAt = i + 1;
+    if (running >= box.count / 2) break;
+  }
+
+  const low = sorted.slice(0, splitAt);
+  const high = sorted.slice(splitAt);
+  const total = (bins: HistogramBin[]) => bins.reduce((sum, bin) => sum + bin.count, 0);
+  return [{ bins: low, count: total(low) }, { bins: high, count: total(high) }];
+}
+
+function boxMean(box: ColorBox): RGB {
+  const sum: RGB = [0, 0, 0];
+  for (const bin of box.bins) {
+    sum[0] += bin.sum[0];
+    sum[1] += bin.sum[1];
+    sum[2] += bin.sum[2];
+  }
+  return [sum[0] / box.count, sum[1] / box.count, sum[2] / box.count];
+}
+
+/**
+ * Median-cut quantization of the opaque pixels, with near-identical clusters merged.
+ * Returns clusters sorted by coverage, largest first.
+ */
+export function quantizeMedianCut(sample: PixelSample, maxColors: number): { clusters: ColorCluster[]; opaquePixels: number } {
+  const { bins, opaque } = buildHistogram(sample);
+  if (opaque === 0) return { clusters: [], opaquePixels: 0 };
+
+  const boxes: ColorBox[] = [{ bins, count: opaque }];
+  while (boxes.length < maxColors) {
+    // Split where it matters most: big, spread-out boxes first
+    let target = -1;
+    let bestScore = 0;
+    boxes.forEach((box, index) => {
+      if (box.bins.length < 2) return;
+      const score = box.count * Math.max(...[0, 1, 2].map(channel => channelRange(box, channel)));
+      if (score > bestScore) {
+        bestScore = score;
+        target = index;
+      }
+    });
+    if (target === -1) break;
+    boxes.splice(target, 1, ...splitBox(boxes[target]));
+  }
+
+  // Median cut happily splits one noisy flat region in two - fold those back together
+  const merged: { rgb: RGB; count: number }[] = [];
+  for (const box of boxes.sort((a, b) => b.count - a.count)) {
+    const rgb = boxMean(box);
+    const match = merged.find(cluster => distance(cluster.rgb, rgb) < MERGE_DISTANCE);
+    if (match) {
+      const total = match.count + box.count;
+      match.rgb = [0, 1, 2].map(channel =>
+        (match.rgb[channel] * match.count + rgb[channel] * box.count) / total
+      ) as RGB;
+      match.count = total;
+    } else {
+      merged.push({ rgb, count: box.count });
+    }
+  }
+
+  const clusters = merged
+    .map(({ rgb, count }) => ({
+      color: toHex(rgb),
+      rgb: rgb.map(Math.round) as RGB,
+      coverage: count / opaque
+    }))
+    .sort((a, b) => b.coverage - a.coverage);
+
+  return { clusters, opaquePixels: opaque };
+}
+
+/**
+ * Share of opaque pixels that sit right on one of the palette colors. Flat artwork scores
+ * close to 1 (only anti-aliased edges miss); gradients and photos fall well below.
+ */
+export function measureFlatness(sample: PixelSample, palette: RGB[]): number {
+  const { data } = sample;
+  let opaque = 0;
+  let matched = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < OPAQUE_ALPHA) continue;
+    opaque++;
+    const pixel: RGB = [data[i], data[i + 1], data[i + 2]];
+    if (palette.some(color => distance(color, pixel) <= FLAT_TOLERANCE)) matched++;
+  }
+
+  return opaque > 0 ? matched / opaque : 0;
+}
+
+/**
+ * Luminance of every pixel, composited over white so transparent areas read as background
+ */
+export function luminanceOverWhite(sample: PixelSample): Float32Array {
+  const { data } = sample;
+  const luminance = new Float32Array(sample.width * sample.height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const alpha = data[i + 3] / 255;
+    const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    luminance[p] = y * alpha + 255 * (1 - alpha);
+  }
+  return luminance;
+}
+
+/**
+ * Shannon entropy (bits) of the luminance histogram
+ */
+export function luminanceEntropy(luminance: Float32Array): number {
+  const histogram = new Array(256).fill(0);
+  for (let p = 0; p < luminance.length; p++) {
+    histogram[Math.min(255, Math.round(luminance[p]))]++;
+  }
+  let entropy = 0;
+  for (const count of histogram) {
+    if (count === 0) continue;
+    const p = count / luminance.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Mark pixels whose luminance gradient crosses the edge threshold
+ */
+export function detectEdges(luminance: Float32Array, width: number, height: number): { edges: Uint8Array; density: number } {
+  const edges = new Uint8Array(width * height);
+  let count = 0;
+  let interior = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const dx = luminance[p + 1] - luminance[p - 1];
+      const dy = luminance[p + width] - luminance[p - width];
+      interior++;
+      if (Math.abs(dx) + Math.abs(dy) >= EDGE_THRESHOLD) {
+        edges[p] = 1;
+        count++;
+      }
+    }
+  }
+
+  return { edges, density: interior > 0 ? count / interior : 0 };
+}
+
+/**
+ * Share of edge pixels that are blends rather than real colors - either partially
+ * transparent, or lying between two dominant colors without matching either
+ */
+export function estimateAntiAliasing(sample: PixelSample, edges: Uint8Array, palette: RGB[]): number {
+  const { data } = sample;
+  let edgePixels = 0;
+  let blended = 0;
+
+  for (let p = 0; p < edges.length; p++) {
+    if (!edges[p]) continue;
+    edgePixels++;
+
+    const i = p * 4;
+    const alpha = data[i + 3];
+    if (alpha > 0 && alpha < 255) {
+      blended++;
+      continue;
+    }
+    if (alpha === 0) continue;
+
+    const pixel: RGB = [data[i], data[i + 1], data[i + 2]];
+    if (palette.some(color => distance(color, pixel) <= BLEND_TOLERANCE)) continue;
+    if (isBetweenColors(pixel, palette)) blended++;
+  }
+
+  return edgePixels > 0 ? blended / edgePixels : 0;
+}
+
+// Does the pixel sit on the line between any two palette colors (away from the ends)?
+function isBetweenColors(pixel: RGB, palette: RGB[]): boolean {
+  for (let a = 0; a < palette.length; a++) {
+    for (let b = a + 1; b < palette.length; b++) {
+      const start = palette[a];
+      const direction: RGB = [palette[b][0] - start[0], palette[b][1] - start[1], palette[b][2] - start[2]];
+      const lengthSquared = direction[0] ** 2 + direction[1] ** 2 + direction[2] ** 2;
+      if (lengthSquared === 0) continue;
+
+      const t = ((pixel[0] - start[0]) * direction[0] +
+        (pixel[1] - start[1]) * direction[1] +
+        (pixel[2] - start[2]) * direction[2]) / lengthSquared;
+      if (t <= 0.05 || t >= 0.95) continue;
+
+      const projected: RGB = [start[0] + direction[0] * t, start[1] + direction[1] * t, start[2] + direction[2] * t];
+      if (distance(projected, pixel) <= BLEND_TOLERANCE) return true;
+    }
+  }
+  return false;
+}
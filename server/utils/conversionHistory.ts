@@ -0,0 +1,74 @@
+import * as crypto from 'crypto';
+import { storage } from '../storage';
+import type { Conversion } from '@shared/schema';
+
+/**
+ * Conversion History
+ * Records finished conversions of signed-in users so they can be listed and re-downloaded
+ * later. Anonymous conversions are never stored, and each account keeps a bounded window.
+ */
+
+export interface ConversionRecordInput {
+  sourceBuffer: Buffer;
+  originalFilename?: string;
+  options: Record<string, any>;
+  engine: string;
+  svg: string;
+  userId?: number | null;
+}
+
+export type ConversionSummary = Omit<Conversion, 'svg'>;
+
+// Newest conversions kept per account
+export const MAX_HISTORY_PER_USER = 100;
+
+// Conversions older than this are removed
+export const HISTORY_RETENTION_DAYS = 30;
+
+/**
+ * Hash the uploaded image so repeat conversions of the same source can be spotted
+ */
+export function hashSource(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Store a history row for a signed-in user's successful conversion and prune their history.
+ * History is best-effort - a storage failure never fails the conversion itself.
+ */
+export async function recordConversion(input: ConversionRecordInput): Promise<Conversion | null> {
+  const { userId } = input;
+  if (userId === null || userId === undefined) return null;
+
+  try {
+    const conversion = await storage.createConversion({
+      userId,
+      originalFilename: input.originalFilename || 'image',
+      outputFormat: input.options.fileFormat || 'svg',
+      createdAt: new Date().toISOString(),
+      sourceHash: hashSource(input.sourceBuffer),
+      engine: input.engine,
+      outputSize: Buffer.byteLength(input.svg, 'utf8'),
+      options: { ...input.options },
+      svg: input.svg
+    });
+    console.log(`Recorded conversion ${conversion.id} (${input.engine}, ${conversion.outputSize} bytes)`);
+
+    const cutoff = new Date(Date.now() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const pruned = await storage.pruneConversions(userId, MAX_HISTORY_PER_USER, cutoff);
+    if (pruned > 0) {
+      console.log(`Pruned ${pruned} old conversion${pruned !== 1 ? 's' : ''} for user ${userId}`);
+    }
+    return conversion;
+  } catch (error) {
+    console.error('Error recording conversion history:', error);
+    return null;
+  }
+}
+
+/**
+ * Strip the stored SVG so history listings stay small
+ */
+export function toConversionSummary({ svg, ...summary }: Conversion): ConversionSummary {
+  return summary;
+}
@@ -0,0 +1,341 @@
+import { arcCenter, distanceToSegment, flattenSegmentAdaptive, lerp, PathSegment, Point } from './pathGeometry';
+
+/**
+ * Curve Approximation
+ * Rewrites path segments so they only use the allowed curve types, staying within a
+ * distance tolerance of the original outline instead of collapsing curves to chords
+ */
+
+type CubicSegment = Extract<PathSegment, { type: 'C' }>;
+type QuadraticSegment = Extract<PathSegment, { type: 'Q' }>;
+type ArcSegment = Extract<PathSegment, { type: 'A' }>;
+type LineSegment = Extract<PathSegment, { type: 'L' }>;
+
+// Maximum distance (user units, usually pixels) between the original and approximated outline
+export const DEFAULT_CURVE_TOLERANCE = 0.25;
+
+// Cubic-to-quadratic splitting depth (up to 256 quadratics per cubic)
+const MAX_SPLIT_DEPTH = 8;
+
+// Fewest line segments worth replacing with a fitted arc
+const MIN_ARC_SEGMENTS = 3;
+
+// Longest run of points considered for a single fitted arc
+const MAX_ARC_POINTS = 512;
+
+// Arcs whose radii differ by less than this share are drawn as circles
+const CIRCULAR_RATIO = 1e-3;
+
+const EPSILON = 1e-9;
+
+interface Circle {
+  center: Point;
+  radius: number;
+}
+
+/**
+ * Rewrite segments so every curve is one of the allowed types.
+ *
+ * Disallowed curves become the closest allowed form: quadratics are elevated to cubics
+ * exactly, arcs become cubics (then quadratics if needed), cubics are split into
+ * quadratics, and anything left is flattened into lines. When arcs are allowed but
+ * neither Bezier type is, runs of lines that follow a circle are fitted back into arcs.
+ * Allowed segments are passed through untouched.
+ */
+export function restrictCurveTypes(
+  segments: PathSegment[],
+  allowedTypes: string[],
+  tolerance = DEFAULT_CURVE_TOLERANCE
+): PathSegment[] {
+  const allowed = new Set(allowedTypes);
+  const allowsCubic = allowed.has('cubicBezier');
+  const allowsQuadratic = allowed.has('quadraticBezier');
+  const fitsArcs = !allowsCubic && !allowsQuadratic &&
+    (allowed.has('circularArcs') || allowed.has('ellipticalArcs'));
+
+  // Fitting adds its own error on top of flattening, so split the budget between them
+  const flattenTolerance = fitsArcs ? tolerance / 2 : tolerance;
+
+  const isAllowed = (segment: PathSegment): boolean => {
+    switch (segment.type) {
+      case 'C': return allowsCubic;
+      case 'Q': return allowsQuadratic;
+      case 'A': return allowed.has('ellipticalArcs') || (allowed.has('circularArcs') && isCircularArc(segment));
+      default: return true;
+    }
+  };
+
+  const approximate = (segment: PathSegment): PathSegment[] => {
+    if (isAllowed(segment)) return [segment];
+
+    if (segment.type === 'Q' && allowsCubic) {
+      return [elevateQuadratic(segment)];
+    }
+    if (segment.type === 'A' && (allowsCubic || allowsQuadratic)) {
+      const cubics = arcToCubics(segment);
+      return allowsCubic ? cubics : cubics.flatMap(cubic => cubicToQuadratics(cubic, tolerance));
+    }
+    if (segment.type === 'C' && allowsQuadratic) {
+      return cubicToQuadratics(segment, tolerance);
+    }
+    return toLines(segment.from, flattenSegmentAdaptive(segment, flattenTolerance));
+  };
+
+  const approximated = segments.flatMap(approximate);
+  return fitsArcs ? fitArcsToLines(approximated, tolerance / 2) : approximated;
+}
+
+/**
+ * Exact degree elevation - a quadratic is a cubic with both controls 2/3 of the way to its control
+ */
+export function elevateQuadratic(segment: QuadraticSegment): CubicSegment {
+  const { from, c, to } = segment;
+  return {
+    type: 'C',
+    from,
+    c1: lerp(from, c, 2 / 3),
+    c2: lerp(to, c, 2 / 3),
+    to
+  };
+}
+
+/**
+ * Split an arc into cubics of at most 90 degrees each (max error ~0.03% of the radius)
+ */
+export function arcToCubics(segment: ArcSegment): CubicSegment[] {
+  const { cx, cy, rx, ry, phi, theta1, deltaTheta } = segment.center;
+  const pieces = Math.max(1, Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2) - EPSILON));
+  const step = deltaTheta / pieces;
+  const handle = 4 / 3 * Math.tan(step / 4);
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  // Map a point on the unit circle onto the (rotated) ellipse
+  const map = (u: number, v: number): Point => ({
+    x: cx + cosPhi * rx * u - sinPhi * ry * v,
+    y: cy + sinPhi * rx * u + cosPhi * ry * v
+  });
+
+  const cubics: CubicSegment[] = [];
+  let from = segment.from;
+  for (let piece = 0; piece < pieces; piece++) {
+    const start = theta1 + step * piece;
+    const end = start + step;
+    const cosStart = Math.cos(start);
+    const sinStart = Math.sin(start);
+    const cosEnd = Math.cos(end);
+    const sinEnd = Math.sin(end);
+    // Land exactly on the original endpoint rather than a recomputed one
+    const to = piece === pieces - 1 ? segment.to : map(cosEnd, sinEnd);
+
+    cubics.push({
+      type: 'C',
+      from,
+      c1: map(cosStart - handle * sinStart, sinStart + handle * cosStart),
+      c2: map(cosEnd + handle * sinEnd, sinEnd - handle * cosEnd),
+      to
+    });
+    from = to;
+  }
+  return cubics;
+}
+
+/**
+ * Approximate a cubic with quadratics, halving it until each half fits within tolerance
+ */
+export function cubicToQuadratics(segment: CubicSegment, tolerance: number, depth = 0): QuadraticSegment[] {
+  const { from, c1, c2, to } = segment;
+
+  // Max distance between the cubic and the quadratic sharing its mid-point tangent
+  const error = Math.sqrt(3) / 36 * Math.hypot(
+    to.x - 3 * c2.x + 3 * c1.x - from.x,
+    to.y - 3 * c2.y + 3 * c1.y - from.y
+  );
+
+  if (error <= tolerance || depth >= MAX_SPLIT_DEPTH) {
+    return [{
+      type: 'Q',
+      from,
+      c: {
+        x: (3 * (c1.x + c2.x) - from.x - to.x) / 4,
+        y: (3 * (c1.y + c2.y) - from.y - to.y) / 4
+      },
+      to
+    }];
+  }
+
+  const [first, second] = splitCubic(segment);
+  return [
+    ...cubicToQuadratics(first, tolerance, depth + 1),
+    ...cubicToQuadratics(second, tolerance, depth + 1)
+  ];
+}
+
+/**
+ * Replace runs of consecutive lines that follow a circle (within tolerance) with arcs
+ */
+export function fitArcsToLines(segments: PathSegment[], tolerance: number): PathSegment[] {
+  const result: PathSegment[] = [];
+  let run: LineSegment[] = [];
+
+  const flush = () => {
+    result.push(...fitRun(run, tolerance));
+    run = [];
+  };
+
+  for (const segment of segments) {
+    if (segment.type === 'L') {
+      run.push(segment);
+    } else {
+      flush();
+      result.push(segment);
+    }
+  }
+  flush();
+  return result;
+}
+
+function fitRun(run: LineSegment[], tolerance: number): PathSegment[] {
+  if (run.length < MIN_ARC_SEGMENTS) return run;
+
+  const points = [run[0].from, ...run.map(segment => segment.to)];
+  const result: PathSegment[] = [];
+  let start = 0;
+
+  while (start < run.length) {
+    // Gallop outwards while the points stay on one circle, then binary search the
+    // point where they leave it
+    let best = null as { end: number; arc: ArcSegment } | null;
+    const limit = Math.min(points.length - 1, start + MAX_ARC_POINTS);
+    let holds = start + MIN_ARC_SEGMENTS - 1;
+    let fails = limit + 1;
+
+    const tryEnd = (end: number) => {
+      const fit = fitArc(points, start, end, tolerance);
+      if (!fit) {
+        fails = end;
+        return false;
+      }
+      holds = end;
+      if (fit.arc) best = { end, arc: fit.arc };
+      return true;
+    };
+
+    for (let end = start + MIN_ARC_SEGMENTS; end <= limit && tryEnd(end) && end < limit;) {
+      end = Math.min(limit, start + (end - start) * 2);
+    }
+    while (fails - holds > 1) {
+      tryEnd(Math.floor((holds + fails) / 2));
+    }
+
+    if (best) {
+      result.push(best.arc);
+      start = best.end;
+    } else {
+      result.push(run[start]);
+      start++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Try to describe points[start..end] as one circular arc. Returns null when the points
+ * leave the circle; `arc` is undefined when they fit but are too straight to be worth one.
+ */
+function fitArc(points: Point[], start: number, end: number, tolerance: number): { arc?: ArcSegment } | null {
+  const from = points[start];
+  const to = points[end];
+  const circle = circleThrough(from, points[Math.floor((start + end) / 2)], to);
+  if (!circle) return { arc: undefined };
+
+  const { center, radius } = circle;
+  const angleOf = (point: Point) => Math.atan2(point.y - center.y, point.x - center.x);
+  let sweep = 0;
+  let bulge = 0;
+
+  for (let index = start; index <= end; index++) {
+    const point = points[index];
+    if (Math.abs(Math.hypot(point.x - center.x, point.y - center.y) - radius) > tolerance) return null;
+    bulge = Math.max(bulge, distanceToSegment(point, from, to));
+    if (index === end) break;
+
+    // Each chord must hug the circle too, not just its endpoints
+    const next = points[index + 1];
+    const halfChord = Math.hypot(next.x - point.x, next.y - point.y) / 2;
+    if (halfChord > radius || radius - Math.sqrt(radius * radius - halfChord * halfChord) > tolerance) return null;
+
+    // The arc has to keep turning the same way
+    let delta = angleOf(next) - angleOf(point);
+    if (delta > Math.PI) delta -= 2 * Math.PI;
+    if (delta < -Math.PI) delta += 2 * Math.PI;
+    if (sweep !== 0 && Math.sign(delta) !== Math.sign(sweep) && Math.abs(delta) > EPSILON) return null;
+    sweep += delta;
+  }
+
+  // A full turn can't be written as one arc, and nearly straight runs read better as lines
+  if (Math.abs(sweep) >= 2 * Math.PI - EPSILON) return null;
+  if (bulge <= tolerance) return { arc: undefined };
+
+  const largeArc = Math.abs(sweep) > Math.PI;
+  const clockwise = sweep > 0;
+  const arcCenterParams = arcCenter(from, to, radius, radius, 0, largeArc, clockwise);
+  if (!arcCenterParams) return { arc: undefined };
+
+  return {
+    arc: {
+      type: 'A',
+      from,
+      to,
+      rx: radius,
+      ry: radius,
+      rotation: 0,
+      largeArc,
+      sweep: clockwise,
+      center: arcCenterParams
+    }
+  };
+}
+
+function isCircularArc(segment: ArcSegment): boolean {
+  const { rx, ry } = segment.center;
+  return Math.abs(rx - ry) <= CIRCULAR_RATIO * Math.max(rx, ry);
+}
+
+function toLines(from: Point, points: Point[]): LineSegment[] {
+  const lines: LineSegment[] = [];
+  let current = from;
+  for (const point of points) {
+    lines.push({ type: 'L', from: current, to: point });
+    current = point;
+  }
+  return lines;
+}
+
+function splitCubic(segment: CubicSegment): [CubicSegment, CubicSegment] {
+  const { from, c1, c2, to } = segment;
+  const a = lerp(from, c1, 0.5);
+  const b = lerp(c1, c2, 0.5);
+  const c = lerp(c2, to, 0.5);
+  const d = lerp(a, b, 0.5);
+  const e = lerp(b, c, 0.5);
+  const mid = lerp(d, e, 0.5);
+  return [
+    { type: 'C', from, c1: a, c2: d, to: mid },
+    { type: 'C', from: mid, c1: e, c2: c, to }
+  ];
+}
+
+function circleThrough(a: Point, b: Point, c: Point): Circle | null {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < EPSILON) return null;
+
+  const a2 = a.x * a.x + a.y * a.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const c2 = c.x * c.x + c.y * c.y;
+  const center = {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d
+  };
+  return { center, radius: Math.hypot(a.x - center.x, a.y - center.y) };
+}
@@ -0,0 +1,393 @@
+import { PathSegment, Point } from './pathGeometry';
+import { arcToCubics, elevateQuadratic } from './curveApproximation';
+import { extractShapes, VectorShape } from './svgShapes';
+import { RGB } from './colorHistogram';
+
+/**
+ * DXF Writer
+ * Writes traced SVG outlines as an AutoCAD 2000 DXF: straight runs become LWPOLYLINEs,
+ * Bezier runs cubic SPLINEs and circular arcs ARCs, on one layer per color group.
+ * DXF's y axis points up, so the drawing is flipped to keep it the right way round.
+ * The file carries the full R2000 structure (handles, owner links, block records and the
+ * root dictionary), since strict readers reject AC1015 files without it.
+ */
+
+export type DxfUnits = 'mm' | 'cm' | 'in' | 'px';
+
+export interface DxfOptions {
+  units?: DxfUnits;
+  scale?: number; // Extra multiplier on top of the unit conversion
+}
+
+type CubicSegment = Extract<PathSegment, { type: 'C' }>;
+type ArcSegment = Extract<PathSegment, { type: 'A' }>;
+type GroupCodes = (string | number)[];
+
+// SVG user units are CSS pixels, 96 to the inch
+const UNITS_PER_PIXEL: Record<DxfUnits, number> = {
+  mm: 25.4 / 96,
+  cm: 2.54 / 96,
+  in: 1 / 96,
+  px: 1
+};
+
+// $INSUNITS codes; pixels have no DXF unit
+const INSUNITS: Record<DxfUnits, number> = {
+  mm: 4,
+  cm: 5,
+  in: 1,
+  px: 0
+};
+
+// Arcs whose radii differ by less than this share are drawn as circular ARCs
+const CIRCULAR_TOLERANCE = 1e-3;
+
+const EPSILON = 1e-9;
+
+const PRECISION = 6;
+
+/**
+ * Convert an SVG document to DXF text
+ */
+export function svgToDxf(svgContent: string, options: DxfOptions = {}): string {
+  const units = options.units ?? 'mm';
+  const factor = UNITS_PER_PIXEL[units] * (options.scale && options.scale > 0 ? options.scale : 1);
+  const { viewBox, shapes, layers } = extractShapes(svgContent);
+
+  // Flip y around the viewBox and move its corner to the origin
+  const toDxf = ({ x, y }: Point): Point => ({
+    x: (x - viewBox.x) * factor,
+    y: (viewBox.y + viewBox.height - y) * factor
+  });
+
+  const writer = new DxfWriter();
+  const layerNames = new Map(layers.map(layer => [layer, sanitizeLayerName(layer)]));
+  shapes.forEach(shape => writeShape(writer, shape, layerNames.get(shape.layer)!, toDxf));
+
+  const layerColors = new Map<string, RGB | null>();
+  shapes.forEach(shape => {
+    const name = layerNames.get(shape.layer)!;
+    if (!layerColors.has(name)) layerColors.set(name, shape.fill ?? shape.stroke);
+  });
+
+  const width = viewBox.width * factor;
+  const height = viewBox.height * factor;
+  const paperSpace = writer.handle();
+  const layerRecords = [['0', null] as [string, RGB | null], ...Array.from(layerColors.entries()).filter(([name]) => name !== '0')];
+
+  const tables = [
+    0, 'SECTION', 2, 'TABLES',
+    ...symbolTable(writer, 'VPORT', owner => [
+      tableRecord(writer, 'VPORT', owner, 'AcDbViewportTableRecord', [
+        2, '*Active', 70, 0,
+        10, 0, 20, 0, 11, 1, 21, 1,
+        12, format(width / 2), 22, format(height / 2),
+        40, format(height || 1), 41, format(height > 0 ? width / height : 1)
+      ])
+    ]),
+    ...symbolTable(writer, 'LTYPE', owner => ['ByBlock', 'ByLayer', 'Continuous'].map(name =>
+      tableRecord(writer, 'LTYPE', owner, 'AcDbLinetypeTableRecord', [
+        2, name, 70, 0, 3, name === 'Continuous' ? 'Solid line' : '', 72, 65, 73, 0, 40, 0
+      ])
+    )),
+    ...symbolTable(writer, 'LAYER', owner => layerRecords.map(([name, color]) => layerRecord(writer, owner, name, color))),
+    ...symbolTable(writer, 'STYLE', owner => [
+      tableRecord(writer, 'STYLE', owner, 'AcDbTextStyleTableRecord', [
+        2, 'Standard', 70, 0, 40, 0, 41, 1, 50, 0, 71, 0, 42, 2.5, 3, 'txt', 4, ''
+      ])
+    ]),
+    ...symbolTable(writer, 'VIEW', () => []),
+    ...symbolTable(writer, 'UCS', () => []),
+    ...symbolTable(writer, 'APPID', owner => [
+      tableRecord(writer, 'APPID', owner, 'AcDbRegAppTableRecord', [2, 'ACAD', 70, 0])
+    ]),
+    ...symbolTable(writer, 'DIMSTYLE', owner => [
+      // Dimension styles carry their handle in group 105 instead of 5
+      tableRecord(writer, 'DIMSTYLE', owner, 'AcDbDimStyleTableRecord', [2, 'Standard', 70, 0], 105)
+    ], [100, 'AcDbDimStyleTable', 71, 0]),
+    ...symbolTable(writer, 'BLOCK_RECORD', owner => [
+      blockRecord(writer.modelSpace, owner, '*Model_Space'),
+      blockRecord(paperSpace, owner, '*Paper_Space')
+    ]),
+    0, 'ENDSEC'
+  ];
+
+  const blocks = [
+    0, 'SECTION', 2, 'BLOCKS',
+    ...block(writer, writer.modelSpace, '*Model_Space', false),
+    ...block(writer, paperSpace, '*Paper_Space', true),
+    0, 'ENDSEC'
+  ];
+
+  // The named object dictionary, with the group dictionary every drawing has
+  const root = writer.handle();
+  const groups = writer.handle();
+  const objects = [
+    0, 'SECTION', 2, 'OBJECTS',
+    0, 'DICTIONARY', 5, root, 330, 0, 100, 'AcDbDictionary', 281, 1, 3, 'ACAD_GROUP', 350, groups,
+    0, 'DICTIONARY', 5, groups, 330, root, 100, 'AcDbDictionary', 281, 1,
+    0, 'ENDSEC'
+  ];
+
+  // Written last, once every handle has been handed out
+  const header = [
+    0, 'SECTION', 2, 'HEADER',
+    9, '$ACADVER', 1, 'AC1015',
+    9, '$HANDSEED', 5, writer.handleSeed,
+    9, '$INSUNITS', 70, INSUNITS[units],
+    9, '$EXTMIN', 10, 0, 20, 0, 30, 0,
+    9, '$EXTMAX', 10, format(width), 20, format(height), 30, 0,
+    0, 'ENDSEC'
+  ];
+
+  return [
+    ...header,
+    0, 'SECTION', 2, 'CLASSES', 0, 'ENDSEC',
+    ...tables,
+    ...blocks,
+    0, 'SECTION', 2, 'ENTITIES',
+    ...writer.codes,
+    0, 'ENDSEC',
+    ...objects,
+    0, 'EOF'
+  ].map(String).join('\n') + '\n';
+}
+
+/**
+ * Accumulates entity group codes and hands out object handles
+ */
+class DxfWriter {
+  codes: GroupCodes = [];
+  private nextHandle = 1;
+  // The *Model_Space block record owns every entity
+  readonly modelSpace = this.handle();
+
+  handle(): string {
+    return (this.nextHandle++).toString(16).toUpperCase();
+  }
+
+  get handleSeed(): string {
+    return this.nextHandle.toString(16).toUpperCase();
+  }
+
+  entity(type: string, layer: string, subclass: string, body: GroupCodes) {
+    this.codes.push(
+      0, type,
+      5, this.handle(),
+      330, this.modelSpace,
+      100, 'AcDbEntity',
+      8, layer,
+      100, subclass,
+      ...body
+    );
+  }
+
+  polyline(layer: string, points: Point[], closed: boolean) {
+    if (points.length < 2) return;
+    this.entity('LWPOLYLINE', layer, 'AcDbPolyline', [
+      90, points.length,
+      70, closed ? 1 : 0,
+      ...points.flatMap(point => [10, format(point.x), 20, format(point.y)])
+    ]);
+  }
+
+  /**
+   * Piecewise cubic Bezier as one clamped B-spline: interior knots repeat three times
+   */
+  spline(layer: string, cubics: CubicSegment[]) {
+    if (cubics.length === 0) return;
+    const controls = [cubics[0].from, ...cubics.flatMap(cubic => [cubic.c1, cubic.c2, cubic.to])];
+    const knots = [0, 0, 0, 0];
+    for (let piece = 1; piece < cubics.length; piece++) knots.push(piece, piece, piece);
+    knots.push(cubics.length, cubics.length, cubics.length, cubics.length);
+
+    this.entity('SPLINE', layer, 'AcDbSpline', [
+      210, 0, 220, 0, 230, 1,
+      70, 8, // planar
+      71, 3,
+      72, knots.length,
+      73, controls.length,
+      74, 0,
+      ...knots.flatMap(knot => [40, knot]),
+      ...controls.flatMap(point => [10, format(point.x), 20, format(point.y), 30, 0])
+    ]);
+  }
+
+  arc(layer: string, center: Point, radius: number, startDegrees: number, endDegrees: number) {
+    this.entity('ARC', layer, 'AcDbCircle', [
+      10, format(center.x), 20, format(center.y), 30, 0,
+      40, format(radius),
+      100, 'AcDbArc',
+      50, format(normalizeDegrees(startDegrees)),
+      51, format(normalizeDegrees(endDegrees))
+    ]);
+  }
+}
+
+/**
+ * Write one shape subpath by subpath, splitting each into runs of lines, curves and arcs
+ */
+function writeShape(writer: DxfWriter, shape: VectorShape, layer: string, toDxf: (point: Point) => Point) {
+  const subpaths: { segments: PathSegment[]; closed: boolean }[] = [];
+  for (const segment of shape.segments) {
+    if (segment.type === 'M' || subpaths.length === 0) {
+      subpaths.push({ segments: [], closed: false });
+      if (segment.type === 'M') continue;
+    }
+    const current = subpaths[subpaths.length - 1];
+    if (segment.type === 'Z') {
+      current.closed = true;
+      if (distance(segment.from, segment.to) > EPSILON) current.segments.push({ type: 'L', from: segment.from, to: segment.to });
+      continue;
+    }
+    current.segments.push(segment);
+  }
+
+  for (const { segments, closed } of subpaths) {
+    if (segments.length === 0) continue;
+
+    // A closed outline of straight edges is a single closed polyline
+    if (segments.every(segment => segment.type === 'L')) {
+      const points = [segments[0].from, ...segments.map(segment => segment.to)].map(toDxf);
+      if (closed && points.length > 2 && distance(points[0], points[points.length - 1]) < EPSILON) points.pop();
+      writer.polyline(layer, points, closed);
+      continue;
+    }
+
+    let lineRun: Point[] = [];
+    let curveRun: CubicSegment[] = [];
+    const flushLines = () => {
+      if (lineRun.length > 1) writer.polyline(layer, lineRun, false);
+      lineRun = [];
+    };
+    const flushCurves = () => {
+      writer.spline(layer, curveRun);
+      curveRun = [];
+    };
+    const mapCubic = (cubic: CubicSegment): CubicSegment => ({
+      type: 'C', from: toDxf(cubic.from), c1: toDxf(cubic.c1), c2: toDxf(cubic.c2), to: toDxf(cubic.to)
+    });
+
+    for (const segment of segments) {
+      if (segment.type === 'L') {
+        flushCurves();
+        if (lineRun.length === 0) lineRun.push(toDxf(segment.from));
+        lineRun.push(toDxf(segment.to));
+      } else if (segment.type === 'C' || segment.type === 'Q') {
+        flushLines();
+        curveRun.push(mapCubic(segment.type === 'C' ? segment : elevateQuadratic(segment)));
+      } else if (segment.type === 'A') {
+        flushLines();
+        if (isCircular(segment)) {
+          flushCurves();
+          writeArc(writer, layer, segment, toDxf);
+        } else {
+          curveRun.push(...arcToCubics(segment).map(mapCubic));
+        }
+      }
+    }
+    flushLines();
+    flushCurves();
+  }
+}
+
+function isCircular(segment: ArcSegment): boolean {
+  const { rx, ry } = segment.center;
+  return Math.abs(rx - ry) <= CIRCULAR_TOLERANCE * Math.max(rx, ry);
+}
+
+/**
+ * DXF arcs always run counter-clockwise. SVG's positive sweep is clockwise on screen and
+ * stays clockwise after the y flip, so those arcs swap their end angles.
+ */
+function writeArc(writer: DxfWriter, layer: string, segment: ArcSegment, toDxf: (point: Point) => Point) {
+  const center = toDxf({ x: segment.center.cx, y: segment.center.cy });
+  const from = toDxf(segment.from);
+  const to = toDxf(segment.to);
+  const radius = distance(center, from);
+  const angle = (point: Point) => (Math.atan2(point.y - center.y, point.x - center.x) * 180) / Math.PI;
+
+  if (segment.sweep) {
+    writer.arc(layer, center, radius, angle(to), angle(from));
+  } else {
+    writer.arc(layer, center, radius, angle(from), angle(to));
+  }
+}
+
+/**
+ * A symbol table owning the records built for it
+ */
+function symbolTable(
+  writer: DxfWriter,
+  type: string,
+  records: (owner: string) => GroupCodes[],
+  extra: GroupCodes = []
+): GroupCodes {
+  const handle = writer.handle();
+  const entries = records(handle);
+  return [
+    0, 'TABLE', 2, type, 5, handle, 330, 0,
+    100, 'AcDbSymbolTable', 70, entries.length,
+    ...extra,
+    ...entries.flat(),
+    0, 'ENDTAB'
+  ];
+}
+
+function tableRecord(
+  writer: DxfWriter,
+  type: string,
+  owner: string,
+  subclass: string,
+  body: GroupCodes,
+  handleCode = 5
+): GroupCodes {
+  return [0, type, handleCode, writer.handle(), 330, owner, 100, 'AcDbSymbolTableRecord', 100, subclass, ...body];
+}
+
+function layerRecord(writer: DxfWriter, owner: string, name: string, color: RGB | null): GroupCodes {
+  const body: GroupCodes = [2, name, 70, 0, 62, 7, 6, 'Continuous', 370, -3];
+  if (color) {
+    // True color (group 420) overrides the index color in AutoCAD 2004 and later readers
+    body.push(420, (color[0] << 16) | (color[1] << 8) | color[2]);
+  }
+  return tableRecord(writer, 'LAYER', owner, 'AcDbLayerTableRecord', body);
+}
+
+// Block records take their handle up front, as entities and blocks point at them
+function blockRecord(handle: string, owner: string, name: string): GroupCodes {
+  return [0, 'BLOCK_RECORD', 5, handle, 330, owner, 100, 'AcDbSymbolTableRecord', 100, 'AcDbBlockTableRecord', 2, name];
+}
+
+/**
+ * The empty BLOCK/ENDBLK pair of a layout block; its entities live in the ENTITIES section
+ */
+function block(writer: DxfWriter, record: string, name: string, paperSpace: boolean): GroupCodes {
+  const space = paperSpace ? [67, 1] : [];
+  return [
+    0, 'BLOCK', 5, writer.handle(), 330, record, 100, 'AcDbEntity', ...space, 8, '0',
+    100, 'AcDbBlockBegin', 2, name, 70, 0, 10, 0, 20, 0, 30, 0, 3, name, 1, '',
+    0, 'ENDBLK', 5, writer.handle(), 330, record, 100, 'AcDbEntity', ...space, 8, '0',
+    100, 'AcDbBlockEnd'
+  ];
+}
+
+/**
+ * DXF layer names can't contain <>/\":;?*|=`
+ */
+function sanitizeLayerName(name: string): string {
+  return name.replace(/[<>/\\":;?*|=`]/g, '_').slice(0, 255) || '0';
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function format(value: number): string {
+  const rounded = Number(value.toFixed(PRECISION));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
@@ -0,0 +1,101 @@
+import { extractShapes, VectorShape } from './svgShapes';
+import { pageSize, pageTransform, pathOperators } from './pdfWriter';
+import { RGB } from './colorHistogram';
+
+/**
+ * EPS Writer
+ * Writes traced SVG outlines as Encapsulated PostScript (Level 2). The prolog defines the
+ * PDF path operator names, so paths are written exactly as in the PDF. PostScript has no
+ * layers or transparency: color groups are marked with DSC object comments and
+ * translucent paint is drawn opaque.
+ */
+
+export interface EpsOptions {
+  title?: string;
+}
+
+const PROLOG = [
+  '/m /moveto load def',
+  '/l /lineto load def',
+  '/c /curveto load def',
+  '/h /closepath load def',
+  '/q /gsave load def',
+  '/Q /grestore load def',
+  '/cm { [ 7 1 roll ] concat } bind def',
+  '/rg /setrgbcolor load def',
+  '/w /setlinewidth load def'
+];
+
+const PRECISION = 3;
+
+/**
+ * Convert an SVG document to EPS text
+ */
+export function svgToEps(svgContent: string, options: EpsOptions = {}): string {
+  const document = extractShapes(svgContent);
+  const page = pageSize(document);
+
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(page.width)} ${Math.ceil(page.height)}`,
+    `%%HiResBoundingBox: 0 0 ${format(page.width)} ${format(page.height)}`,
+    '%%Creator: SVG Converter',
+    ...(options.title ? [`%%Title: ${dscText(options.title)}`] : []),
+    '%%LanguageLevel: 2',
+    '%%Pages: 1',
+    '%%EndComments',
+    '%%BeginProlog',
+    // Private dictionary, so the short names never leak into the including document
+    '10 dict begin',
+    ...PROLOG,
+    '%%EndProlog',
+    '%%Page: 1 1',
+    pageTransform(document)
+  ];
+
+  let openLayer: string | null = null;
+  document.shapes.forEach(shape => {
+    if (shape.layer !== openLayer) {
+      if (openLayer !== null) lines.push('%%EndObject');
+      lines.push(`%%BeginObject: ${dscText(shape.layer)}`);
+      openLayer = shape.layer;
+    }
+    lines.push(...paintShape(shape, pathOperators(shape.segments)));
+  });
+  if (openLayer !== null) lines.push('%%EndObject');
+
+  lines.push('Q', 'end', 'showpage', '%%Trailer', '%%EOF');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * PostScript paints and then discards the path, so a filled and stroked shape builds its
+ * path twice
+ */
+function paintShape(shape: VectorShape, path: string[]): string[] {
+  const fill = shape.fillRule === 'evenodd' ? 'eofill' : 'fill';
+  const operators: string[] = [];
+  if (shape.fill) {
+    operators.push(`${color(shape.fill)} rg`, ...path, fill);
+  }
+  if (shape.stroke) {
+    operators.push(`${color(shape.stroke)} rg`, `${format(shape.strokeWidth)} w`, ...path, 'stroke');
+  }
+  return operators;
+}
+
+/**
+ * DSC comment text: one line, printable ASCII
+ */
+function dscText(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '?');
+}
+
+function color([r, g, b]: RGB): string {
+  return [r, g, b].map(channel => format(channel / 255)).join(' ');
+}
+
+function format(value: number): string {
+  const rounded = Number(value.toFixed(PRECISION));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
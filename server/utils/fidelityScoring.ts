@@ -0,0 +1,178 @@
+import sharp from 'sharp';
+import { processImageBuffer } from './imageProcessing';
+
+/**
+ * Fidelity Scoring
+ * Rasterizes a traced SVG back at the source resolution and compares it with the
+ * preprocessed source bitmap: per-pixel color error, SSIM and a diff heatmap
+ */
+
+export interface FidelityReport {
+  ssim: number; // Mean structural similarity of luminance, 0-1 (1 = identical)
+  meanError: number; // Mean per-pixel color distance, 0-1
+  maxError: number; // 0-1
+  changedPixels: number; // Share of pixels with a color distance above CHANGED_THRESHOLD, 0-1
+  width: number; // Resolution the comparison ran at
+  height: number;
+  heatmap: string; // PNG data URL, transparent where the trace matches the source
+}
+
+// Larger sources are compared at a reduced size to bound memory and time
+const MAX_SCORING_PIXELS = 4_000_000;
+
+// Heatmaps are sent inline, so keep them small
+const MAX_HEATMAP_SIZE = 1024;
+
+// Color distance (0-1) above which a pixel counts as changed
+const CHANGED_THRESHOLD = 0.1;
+
+// Errors are scaled up so small differences still show in the heatmap
+const HEATMAP_GAIN = 2;
+
+// SSIM windows (pixels) and the stride between them
+const SSIM_WINDOW = 8;
+const SSIM_STRIDE = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// sharp renders SVGs at 72 dpi by default; cap the density for tiny viewBoxes
+const SVG_BASE_DENSITY = 72;
+const MAX_SVG_DENSITY = 2400;
+
+const MAX_COLOR_DISTANCE = Math.sqrt(3) * 255;
+
+/**
+ * Score how closely an SVG reproduces the image it was traced from. Both images are
+ * composited onto white, so transparent areas compare as background.
+ */
+export async function scoreFidelity(svg: string, sourceBuffer: Buffer): Promise<FidelityReport> {
+  const { processedBuffer, metadata } = await processImageBuffer(sourceBuffer, 'fidelity scoring');
+  const scale = Math.min(1, Math.sqrt(MAX_SCORING_PIXELS / (metadata.width! * metadata.height!)));
+  const width = Math.max(1, Math.round(metadata.width! * scale));
+  const height = Math.max(1, Math.round(metadata.height! * scale));
+
+  const [source, traced] = await Promise.all([
+    sharp(processedBuffer)
+      .resize(width, height, { fit: 'fill' })
+      .flatten({ background: '#ffffff' })
+      .removeAlpha()
+      .raw()
+      .toBuffer(),
+    rasterizeSvg(svg, width, height)
+  ]);
+
+  const pixelCount = width * height;
+  const errors = new Float32Array(pixelCount);
+  let errorSum = 0;
+  let maxError = 0;
+  let changed = 0;
+
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    const offset = pixel * 3;
+    const error = Math.hypot(
+      source[offset] - traced[offset],
+      source[offset + 1] - traced[offset + 1],
+      source[offset + 2] - traced[offset + 2]
+    ) / MAX_COLOR_DISTANCE;
+    errors[pixel] = error;
+    errorSum += error;
+    maxError = Math.max(maxError, error);
+    if (error > CHANGED_THRESHOLD) changed++;
+  }
+
+  return {
+    ssim: round(computeSsim(toLuma(source, pixelCount), toLuma(traced, pixelCount), width, height)),
+    meanError: round(errorSum / pixelCount),
+    maxError: round(maxError),
+    changedPixels: round(changed / pixelCount),
+    width,
+    height,
+    heatmap: await renderHeatmap(errors, width, height)
+  };
+}
+
+/**
+ * Render an SVG to RGB pixels at exactly width x height
+ */
+async function rasterizeSvg(svg: string, width: number, height: number): Promise<Buffer> {
+  const svgBuffer = Buffer.from(svg);
+  const { width: intrinsicWidth } = await sharp(svgBuffer).metadata();
+  const density = intrinsicWidth
+    ? Math.min(MAX_SVG_DENSITY, Math.max(1, (SVG_BASE_DENSITY * width) / intrinsicWidth))
+    : SVG_BASE_DENSITY;
+
+  return sharp(svgBuffer, { density })
+    .resize(width, height, { fit: 'fill' })
+    .flatten({ background: '#ffffff' })
+    .removeAlpha()
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Mean SSIM over overlapping square windows (Wang et al. 2004, uniform weights)
+ */
+function computeSsim(a: Float32Array, b: Float32Array, width: number, height: number): number {
+  const window = Math.min(SSIM_WINDOW, width, height);
+  const area = window * window;
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + window <= height; top += SSIM_STRIDE) {
+    for (let left = 0; left + window <= width; left += SSIM_STRIDE) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = top; y < top + window; y++) {
+        for (let x = left, index = y * width + left; x < left + window; x++, index++) {
+          sumA += a[index];
+          sumB += b[index];
+          sumAA += a[index] * a[index];
+          sumBB += b[index] * b[index];
+          sumAB += a[index] * b[index];
+        }
+      }
+      const meanA = sumA / area;
+      const meanB = sumB / area;
+      const varianceA = sumAA / area - meanA * meanA;
+      const varianceB = sumBB / area - meanB * meanB;
+      const covariance = sumAB / area - meanA * meanB;
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varianceA + varianceB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows > 0 ? total / windows : 1;
+}
+
+/**
+ * Errors as a yellow-to-red overlay whose opacity follows the error
+ */
+async function renderHeatmap(errors: Float32Array, width: number, height: number): Promise<string> {
+  const pixels = Buffer.alloc(errors.length * 4);
+  errors.forEach((error, pixel) => {
+    const intensity = Math.min(1, error * HEATMAP_GAIN);
+    pixels[pixel * 4] = 255;
+    pixels[pixel * 4 + 1] = Math.round(255 * (1 - intensity));
+    pixels[pixel * 4 + 2] = 0;
+    pixels[pixel * 4 + 3] = Math.round(255 * intensity);
+  });
+
+  const png = await sharp(pixels, { raw: { width, height, channels: 4 } })
+    .resize(MAX_HEATMAP_SIZE, MAX_HEATMAP_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+// Rec. 601 luma
+function toLuma(rgb: Buffer, pixelCount: number): Float32Array {
+  const luma = new Float32Array(pixelCount);
+  for (let pixel = 0; pixel < pixelCount; pixel++) {
+    luma[pixel] = 0.299 * rgb[pixel * 3] + 0.587 * rgb[pixel * 3 + 1] + 0.114 * rgb[pixel * 3 + 2];
+  }
+  return luma;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,217 @@
+import sharp from 'sharp';
+import { JSDOM } from 'jsdom';
+import {
+  exportToUnity,
+  exportToGodot,
+  exportToGenericJSON,
+  generateUnityCSharpScript,
+  generateGodotScript,
+  GameEngineRig,
+  GameEngineAnimationData
+} from './gameEngineExporter';
+import { createZipArchive, ZipEntry } from './zipArchive';
+
+/**
+ * Game Engine Export Bundles
+ * Packages a rig, its playback script and per-element sprites into a downloadable zip
+ */
+
+export type GameEngineTarget = 'unity' | 'godot' | 'generic';
+
+export interface GameEngineBundleOptions {
+  engine: GameEngineTarget;
+  includeSprites: boolean;
+  spriteSize: number; // Longest edge of the full canvas, in pixels
+}
+
+export interface GameEngineBundle {
+  archive: Buffer;
+  filename: string;
+  rig: GameEngineRig;
+  spriteCount: number;
+}
+
+// Cap on rasterized elements so very busy traces don't stall the export
+const MAX_SPRITES = 200;
+
+/**
+ * Build the complete export bundle for a game engine
+ */
+export async function createGameEngineBundle(
+  svgContent: string,
+  animationData: GameEngineAnimationData,
+  options: GameEngineBundleOptions
+): Promise<GameEngineBundle> {
+  console.log(`Building ${options.engine} export bundle...`);
+
+  const rig = options.engine === 'unity'
+    ? exportToUnity(svgContent, animationData)
+    : options.engine === 'godot'
+      ? exportToGodot(svgContent, animationData)
+      : exportToGenericJSON(svgContent, animationData);
+
+  const entries: ZipEntry[] = [
+    { name: 'source.svg', data: svgContent }
+  ];
+
+  let spriteCount = 0;
+  if (options.includeSprites) {
+    const sprites = await renderElementSprites(svgContent, rig, options.spriteSize);
+    sprites.forEach(sprite => {
+      const element = rig.svg.elements.find(e => e.id === sprite.elementId);
+      if (element) {
+        element.properties.sprite = sprite.placement;
+      }
+      entries.push({ name: sprite.placement.file, data: sprite.png });
+    });
+    spriteCount = sprites.length;
+  }
+
+  entries.push({ name: 'rig.json', data: JSON.stringify(rig, null, 2) });
+
+  if (options.engine === 'unity') {
+    entries.push({ name: 'SVGAnimationRig.cs', data: generateUnityCSharpScript(rig) });
+  } else if (options.engine === 'godot') {
+    entries.push({ name: 'svg_animation_rig.gd', data: generateGodotScript(rig) });
+  }
+
+  entries.push({ name: 'README.txt', data: generateBundleReadme(rig, spriteCount) });
+
+  console.log(`Bundle contains ${entries.length} files (${spriteCount} sprites)`);
+
+  return {
+    archive: createZipArchive(entries),
+    filename: `${options.engine}-rig.zip`,
+    rig,
+    spriteCount
+  };
+}
+
+/**
+ * Rasterize each drawable element onto its own trimmed, transparent PNG
+ */
+async function renderElementSprites(
+  svgContent: string,
+  rig: GameEngineRig,
+  spriteSize: number
+): Promise<Array<{
+  elementId: string;
+  png: Buffer;
+  placement: { file: string; x: number; y: number; width: number; height: number; scale: number };
+}>> {
+  const dom = new JSDOM(svgContent);
+  const document = dom.window.document;
+  const svgElement = document.querySelector('svg');
+  if (!svgElement) {
+    throw new Error('No SVG element found');
+  }
+
+  const { x: viewX, y: viewY, width: viewWidth, height: viewHeight } = rig.svg.viewBox;
+  const scale = spriteSize / Math.max(viewWidth, viewHeight);
+  const canvasWidth = Math.max(1, Math.round(viewWidth * scale));
+  const canvasHeight = Math.max(1, Math.round(viewHeight * scale));
+  const defs = Array.from(svgElement.querySelectorAll('defs')).map(def => def.outerHTML).join('');
+
+  const drawable = rig.svg.elements.filter(element => element.type !== 'group');
+  if (drawable.length > MAX_SPRITES) {
+    console.warn(`Rendering the first ${MAX_SPRITES} of ${drawable.length} elements as sprites`);
+  }
+
+  const usedFiles = new Set<string>();
+  const sprites = [];
+
+  for (const element of drawable.slice(0, MAX_SPRITES)) {
+    const node = document.getElementById(element.id);
+    if (!node) continue;
+
+    try {
+      // Re-create the ancestor groups without their other children so inherited
+      // fills and transforms still apply to the isolated element
+      let markup = node.outerHTML;
+      let ancestor: Element | null = node.parentElement;
+      while (ancestor && ancestor !== svgElement) {
+        const shell = ancestor.cloneNode(false) as Element;
+        shell.innerHTML = markup;
+        markup = shell.outerHTML;
+        ancestor = ancestor.parentElement;
+      }
+
+      const spriteSvg = `<svg xmlns="http://www.w3.org/2000/svg" width="${canvasWidth}" height="${canvasHeight}" viewBox="${viewX} ${viewY} ${viewWidth} ${viewHeight}">${defs}${markup}</svg>`;
+      const canvas = await sharp(Buffer.from(spriteSvg)).png().toBuffer();
+
+      // Skip elements that render nothing visible (e.g. fully clipped or transparent)
+      const stats = await sharp(canvas).stats();
+      if (stats.channels.length < 4 || stats.channels[3].max === 0) continue;
+
+      const { data, info } = await sharp(canvas).trim().png().toBuffer({ resolveWithObject: true });
+      const left = -(info.trimOffsetLeft || 0);
+      const top = -(info.trimOffsetTop || 0);
+
+      let file = `sprites/${element.id.replace(/[^\w.-]/g, '_')}.png`;
+      for (let suffix = 1; usedFiles.has(file); suffix++) {
+        file = `sprites/${element.id.replace(/[^\w.-]/g, '_')}_${suffix}.png`;
+      }
+      usedFiles.add(file);
+
+      sprites.push({
+        elementId: element.id,
+        png: data,
+        placement: {
+          file,
+          // Sprite rectangle in SVG user units
+          x: round(viewX + left / scale),
+          y: round(viewY + top / scale),
+          width: round(info.width / scale),
+          height: round(info.height / scale),
+          scale: round(scale)
+        }
+      });
+    } catch (error) {
+      console.warn(`Could not render sprite for ${element.id}:`, error);
+    }
+  }
+
+  return sprites;
+}
+
+/**
+ * Round to two decimals for compact rig output
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Import notes shipped alongside the rig
+ */
+function generateBundleReadme(rig: GameEngineRig, spriteCount: number): string {
+  const engineNotes: Record<string, string> = {
+    unity: `1. Copy the sprites folder and SVGAnimationRig.cs into your Assets folder.
+2. Create an empty GameObject, add one child per sprite and set each child's
+   position from its sprite x/y in rig.json (divide by pixelsPerUnit, negate y).
+3. Add SVGAnimationRig to the parent and assign the child transforms.`,
+    godot: `1. Copy the sprites folder and svg_animation_rig.gd into your project.
+2. Create a Node2D, add one Sprite per PNG (centered = false) positioned at its
+   sprite x/y from rig.json.
+3. Attach svg_animation_rig.gd to the Node2D and assign the node paths.`,
+    generic: `Read rig.json for element transforms, pivots, sprite placement and keyframes.`
+  };
+
+  return `SVG Animation Rig (${rig.metadata.engine})
+Exported: ${rig.metadata.exported}
+
+Elements: ${rig.svg.elements.length}
+Animations: ${rig.animations.length}
+Sprites: ${spriteCount}
+Duration: ${rig.metadata.duration}s
+Coordinate system: ${rig.metadata.coordinateSystem}
+
+Files
+- rig.json: elements, pivots, sprite placement and animation keyframes
+- source.svg: the original artwork
+- sprites/: one trimmed PNG per element
+
+Import
+${engineNotes[rig.metadata.engine] || engineNotes.generic}
+`;
+}
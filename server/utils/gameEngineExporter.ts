@@ -1,3 +1,5 @@
+import { JSDOM } from 'jsdom';
+
 /**
  * Game Engine Export Utilities
  * Export SVG animations to Unity, Godot, Unreal Engine formats
@@ -10,6 +12,7 @@ export interface GameEngineRig {
     exported: string;
     frameRate: number;
     duration: number;
+    coordinateSystem: 'y-down' | 'y-up';
   };
   svg: {
     viewBox: { x: number; y: number; width: number; height: number };
@@ -21,7 +24,7 @@ export interface GameEngineRig {
 
 export interface GameEngineElement {
   id: string;
-  type: 'path' | 'circle' | 'rect' | 'polygon' | 'group';
+  type: 'path' | 'circle' | 'rect' | 'ellipse' | 'line' | 'polygon' | 'polyline' | 'group';
   name: string;
   transform: {
     position: { x: number; y: number };
@@ -30,6 +33,7 @@ export interface GameEngineElement {
     pivot: { x: number; y: number };
   };
   properties: Record<string, any>;
+  parentId?: string;
   children?: string[]; // IDs of child elements
 }
 
@@ -40,6 +44,7 @@ export interface GameEngineAnimation {
   property: 'position' | 'rotation' | 'scale' | 'opacity' | 'color' | 'path';
   keyframes: GameEngineKeyframe[];
   loop: boolean;
+  delay: number; // Seconds from the start of the timeline
   duration: number;
   easing: string;
 }
@@ -58,29 +63,94 @@ export interface GameEngineTimeline {
   }>;
 }
 
+/**
+ * Pivot point placed in the animation workspace, in SVG user units
+ */
+export interface GameEnginePivotInput {
+  elementId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Single timeline entry authored in the animation workspace
+ * Keyframe values use SVG conventions: degrees clockwise, y pointing down,
+ * position values are offsets from the element's rest position
+ */
+export interface GameEngineTimelineEntry {
+  elementId: string;
+  property: GameEngineAnimation['property'];
+  start: number; // Seconds
+  duration: number; // Seconds
+  keyframes: GameEngineKeyframe[];
+  easing?: string;
+  loop?: boolean;
+  name?: string;
+}
+
+export interface GameEngineAnimationData {
+  duration?: number;
+  frameRate?: number;
+  loop?: boolean;
+  pivotPoints?: GameEnginePivotInput[];
+  timeline?: GameEngineTimelineEntry[];
+}
+
+type ExportEngine = 'unity' | 'godot' | 'generic';
+
+// Engine-facing names for each animatable property
+const ENGINE_PROPERTY_NAMES: Record<ExportEngine, Record<GameEngineAnimation['property'], string>> = {
+  unity: {
+    position: 'localPosition',
+    rotation: 'localEulerAngles.z',
+    scale: 'localScale',
+    opacity: 'SpriteRenderer.color.a',
+    color: 'SpriteRenderer.color',
+    path: 'path'
+  },
+  godot: {
+    position: 'position',
+    rotation: 'rotation_degrees',
+    scale: 'scale',
+    opacity: 'modulate:a',
+    color: 'modulate',
+    path: 'polygon'
+  },
+  generic: {
+    position: 'position',
+    rotation: 'rotation',
+    scale: 'scale',
+    opacity: 'opacity',
+    color: 'color',
+    path: 'path'
+  }
+};
+
 /**
  * Export SVG animations to Unity format
  */
 export function exportToUnity(
-  svgContent: string, 
-  animationData: any
+  svgContent: string,
+  animationData: GameEngineAnimationData
 ): GameEngineRig {
   console.log('Exporting to Unity format...');
-  
+
+  const animations = generateUnityAnimations(animationData);
   const rig: GameEngineRig = {
     metadata: {
       version: '1.0',
       engine: 'unity',
       exported: new Date().toISOString(),
-      frameRate: 60,
-      duration: animationData.duration || 3
+      frameRate: animationData.frameRate || 60,
+      duration: getTimelineDuration(animationData, animations),
+      coordinateSystem: 'y-up'
     },
     svg: {
       viewBox: extractViewBox(svgContent),
-      elements: extractElements(svgContent, 'unity')
+      elements: extractElements(svgContent, 'unity', animationData.pivotPoints || [])
     },
-    animations: generateUnityAnimations(animationData),
-    timeline: generateTimeline(animationData)
+    animations,
+    timeline: generateTimeline(animationData, animations)
   };
 
   console.log(`Unity rig exported with ${rig.svg.elements.length} elements and ${rig.animations.length} animations`);
@@ -91,25 +161,27 @@ export function exportToUnity(
  * Export SVG animations to Godot format
  */
 export function exportToGodot(
-  svgContent: string, 
-  animationData: any
+  svgContent: string,
+  animationData: GameEngineAnimationData
 ): GameEngineRig {
   console.log('Exporting to Godot format...');
-  
+
+  const animations = generateGodotAnimations(animationData);
   const rig: GameEngineRig = {
     metadata: {
       version: '1.0',
       engine: 'godot',
       exported: new Date().toISOString(),
-      frameRate: 60,
-      duration: animationData.duration || 3
+      frameRate: animationData.frameRate || 60,
+      duration: getTimelineDuration(animationData, animations),
+      coordinateSystem: 'y-down'
     },
     svg: {
       viewBox: extractViewBox(svgContent),
-      elements: extractElements(svgContent, 'godot')
+      elements: extractElements(svgContent, 'godot', animationData.pivotPoints || [])
     },
-    animations: generateGodotAnimations(animationData),
-    timeline: generateTimeline(animationData)
+    animations,
+    timeline: generateTimeline(animationData, animations)
   };
 
   console.log(`Godot rig exported with ${rig.svg.elements.length} elements and ${rig.animations.length} animations`);
@@ -120,25 +192,27 @@ export function exportToGodot(
  * Export SVG animations to generic JSON format
  */
 export function exportToGenericJSON(
-  svgContent: string, 
-  animationData: any
+  svgContent: string,
+  animationData: GameEngineAnimationData
 ): GameEngineRig {
   console.log('Exporting to generic JSON format...');
-  
+
+  const animations = generateGenericAnimations(animationData);
   const rig: GameEngineRig = {
     metadata: {
       version: '1.0',
       engine: 'generic',
       exported: new Date().toISOString(),
-      frameRate: 60,
-      duration: animationData.duration || 3
+      frameRate: animationData.frameRate || 60,
+      duration: getTimelineDuration(animationData, animations),
+      coordinateSystem: 'y-down'
     },
     svg: {
       viewBox: extractViewBox(svgContent),
-      elements: extractElements(svgContent, 'generic')
+      elements: extractElements(svgContent, 'generic', animationData.pivotPoints || [])
     },
-    animations: generateGenericAnimations(animationData),
-    timeline: generateTimeline(animationData)
+    animations,
+    timeline: generateTimeline(animationData, animations)
   };
 
   console.log(`Generic JSON rig exported with ${rig.svg.elements.length} elements and ${rig.animations.length} animations`);
@@ -151,7 +225,7 @@ export function exportToGenericJSON(
 function extractViewBox(svgContent: string): { x: number; y: number; width: number; height: number } {
   const viewBoxMatch = svgContent.match(/viewBox="([^"]+)"/);
   if (viewBoxMatch) {
-    const values = viewBoxMatch[1].split(/\s+/).map(v => parseFloat(v));
+    const values = viewBoxMatch[1].split(/[\s,]+/).map(v => parseFloat(v));
     return {
       x: values[0] || 0,
       y: values[1] || 0,
@@ -159,36 +233,82 @@ function extractViewBox(svgContent: string): { x: number; y: number; width: numb
       height: values[3] || 100
     };
   }
-  return { x: 0, y: 0, width: 100, height: 100 };
+
+  // Fall back to the root width/height that tracers emit without a viewBox
+  const widthMatch = svgContent.match(/<svg[^>]*\swidth="([\d.]+)/);
+  const heightMatch = svgContent.match(/<svg[^>]*\sheight="([\d.]+)/);
+  return {
+    x: 0,
+    y: 0,
+    width: widthMatch ? parseFloat(widthMatch[1]) : 100,
+    height: heightMatch ? parseFloat(heightMatch[1]) : 100
+  };
 }
 
 /**
  * Extract elements from SVG for game engine
  */
-function extractElements(svgContent: string, engine: string): GameEngineElement[] {
+function extractElements(
+  svgContent: string,
+  engine: ExportEngine,
+  pivotPoints: GameEnginePivotInput[]
+): GameEngineElement[] {
   try {
-    const parser = new DOMParser();
-    const svgDoc = parser.parseFromString(svgContent, 'text/xml');
+    const dom = new JSDOM(svgContent);
+    const svgElement = dom.window.document.querySelector('svg');
+    if (!svgElement) {
+      throw new Error('No SVG element found');
+    }
+
+    const svgElements = Array.from(
+      svgElement.querySelectorAll('path, circle, rect, ellipse, polygon, polyline, line, g')
+    ).filter(element => !element.closest('defs, clipPath, mask, pattern'));
+
+    // Assign deterministic IDs up front so parent/child references resolve
+    svgElements.forEach((element, index) => {
+      if (!element.getAttribute('id')) {
+        element.setAttribute('id', `element_${index}`);
+      }
+    });
+
+    const pivotsById = new Map(pivotPoints.map(pivot => [pivot.elementId, pivot]));
     const elements: GameEngineElement[] = [];
-    
-    const svgElements = svgDoc.querySelectorAll('path, circle, rect, ellipse, polygon, line, g');
-    
-    Array.from(svgElements).forEach(element => {
-      const id = element.getAttribute('id') || `element_${elements.length}`;
+
+    svgElements.forEach(element => {
+      const id = element.getAttribute('id')!;
+      const tagName = element.tagName.toLowerCase();
       const transform = parseTransform(element.getAttribute('transform') || '');
-      
+      const pivot = pivotsById.get(id);
+      if (pivot) {
+        transform.pivot = { x: pivot.x, y: pivot.y };
+      }
+
+      if (engine === 'unity') {
+        transform.position.y = -transform.position.y;
+        transform.pivot.y = -transform.pivot.y;
+        transform.rotation = -transform.rotation;
+      }
+
+      const parent: Element | null = element.parentElement;
+      const parentId = parent && parent !== svgElement && parent.tagName.toLowerCase() === 'g'
+        ? parent.getAttribute('id') || undefined
+        : undefined;
+
       elements.push({
         id,
-        type: element.tagName.toLowerCase() as any,
+        type: (tagName === 'g' ? 'group' : tagName) as GameEngineElement['type'],
         name: generateElementName(element, id),
         transform,
         properties: extractElementProperties(element, engine),
-        children: element.tagName === 'g' ? 
-          Array.from(element.children).map(child => child.getAttribute('id') || `child_${Math.random()}`) :
+        parentId,
+        children: tagName === 'g' ?
+          Array.from(element.children)
+            .map(child => child.getAttribute('id'))
+            .filter((childId): childId is string => !!childId) :
           undefined
       });
     });
-    
+
     return elements;
   } catch (error) {
     console.error('Error extracting elements:', error);
@@ -248,20 +368,24 @@ function generateElementName(element: Element, id: string): string {
   if (className && className.includes('wheel')) return 'Wheel';
   if (className && className.includes('body')) return 'Body';
   if (className && className.includes('eye')) return 'Eye';
-  
+
   // Generate based on element type and properties
   const tagName = element.tagName.toLowerCase();
   const fill = element.getAttribute('fill');
   const stroke = element.getAttribute('stroke');
-  
+
+  if (tagName === 'g') {
+    return cleanId(id);
+  }
+
   let name = tagName.charAt(0).toUpperCase() + tagName.slice(1);
-  
+
   if (fill && fill !== 'none') {
-    name = `${getColorName(fill)} ${name}`;
+    name = `${getColorName(fill)} ${name}`.trim();
   } else if (stroke && stroke !== 'none') {
-    name = `${getColorName(stroke)} ${name}`;
+    name = `${getColorName(stroke)} ${name}`.trim();
   }
-  
+
   return name || cleanId(id);
 }
 
@@ -279,7 +403,7 @@ function getColorName(color: string): string {
     '#000000': 'Black', '#000': 'Black',
     '#ffffff': 'White', '#fff': 'White'
   };
-  
+
   return colorMap[color.toLowerCase()] || '';
 }
 
@@ -297,26 +421,27 @@ function cleanId(id: string): string {
  */
 function extractElementProperties(element: Element, engine: string): Record<string, any> {
   const properties: Record<string, any> = {};
-  
+  const tagName = element.tagName.toLowerCase();
+
   // Common properties
   const fill = element.getAttribute('fill');
   const stroke = element.getAttribute('stroke');
   const strokeWidth = element.getAttribute('stroke-width');
   const opacity = element.getAttribute('opacity');
-  
+
   if (fill && fill !== 'none') properties.fill = fill;
   if (stroke && stroke !== 'none') properties.stroke = stroke;
   if (strokeWidth) properties.strokeWidth = parseFloat(strokeWidth);
   if (opacity) properties.opacity = parseFloat(opacity);
-  
+
   // Path-specific properties
-  if (element.tagName === 'path') {
+  if (tagName === 'path') {
     const d = element.getAttribute('d');
     if (d) properties.pathData = d;
   }
-  
+
   // Circle properties
-  if (element.tagName === 'circle') {
+  if (tagName === 'circle') {
     const r = element.getAttribute('r');
     const cx = element.getAttribute('cx');
     const cy = element.getAttribute('cy');
@@ -324,9 +449,9 @@ function extractElementProperties(element: Element, engine: string): Record<stri
     if (cx) properties.centerX = parseFloat(cx);
     if (cy) properties.centerY = parseFloat(cy);
   }
-  
+
   // Rectangle properties
-  if (element.tagName === 'rect') {
+  if (tagName === 'rect') {
     const width = element.getAttribute('width');
     const height = element.getAttribute('height');
     const x = element.getAttribute('x');
@@ -336,240 +461,532 @@ function extractElementProperties(element: Element, engine: string): Record<stri
     if (x) properties.x = parseFloat(x);
     if (y) properties.y = parseFloat(y);
   }
-  
+
+  // Polygon/polyline properties
+  if (tagName === 'polygon' || tagName === 'polyline') {
+    const points = element.getAttribute('points');
+    if (points) properties.points = points;
+  }
+
+  // Godot polygons need to know whether the element is filled or outlined
+  if (engine === 'godot') {
+    properties.closed = tagName !== 'line' && tagName !== 'polyline';
+  }
+
   return properties;
 }
 
+/**
+ * Convert a keyframe value from SVG conventions to the target engine
+ */
+function convertValueForEngine(
+  property: GameEngineAnimation['property'],
+  value: any,
+  engine: ExportEngine
+): any {
+  if (engine !== 'unity') return value;
+
+  // Unity is y-up with counter-clockwise positive rotation
+  if (property === 'rotation' && typeof value === 'number') {
+    return -value;
+  }
+  if (property === 'position' && value && typeof value === 'object') {
+    return { x: value.x || 0, y: -(value.y || 0) };
+  }
+  return value;
+}
+
+/**
+ * Build engine animations from the workspace timeline
+ */
+function buildAnimationsFromTimeline(
+  animationData: GameEngineAnimationData,
+  engine: ExportEngine
+): GameEngineAnimation[] {
+  const timeline = animationData.timeline || [];
+
+  return timeline
+    .filter(entry => entry.keyframes.length >= 2)
+    .map((entry, index) => ({
+      id: `${engine}_${toIdentifier(entry.elementId)}_${entry.property}_${index}`,
+      name: entry.name || ENGINE_PROPERTY_NAMES[engine][entry.property],
+      targetElement: entry.elementId,
+      property: entry.property,
+      keyframes: [...entry.keyframes]
+        .sort((a, b) => a.time - b.time)
+        .map(keyframe => ({
+          ...keyframe,
+          value: convertValueForEngine(entry.property, keyframe.value, engine)
+        })),
+      loop: entry.loop ?? false,
+      delay: Math.max(0, entry.start),
+      duration: Math.max(0, entry.duration),
+      easing: entry.easing || 'linear'
+    }));
+}
+
 /**
  * Generate Unity-specific animations
  */
-function generateUnityAnimations(animationData: any): GameEngineAnimation[] {
-  const animations: GameEngineAnimation[] = [];
-  
-  // Example animations - in real implementation, this would parse actual animation data
-  animations.push({
-    id: 'spin_animation',
-    name: 'Spin Rotation',
-    targetElement: 'wheel_element',
-    property: 'rotation',
-    duration: 2,
-    loop: true,
-    easing: 'linear',
-    keyframes: [
-      { time: 0, value: 0 },
-      { time: 1, value: 360 }
-    ]
-  });
-  
-  return animations;
+function generateUnityAnimations(animationData: GameEngineAnimationData): GameEngineAnimation[] {
+  return buildAnimationsFromTimeline(animationData, 'unity');
 }
 
 /**
  * Generate Godot-specific animations
  */
-function generateGodotAnimations(animationData: any): GameEngineAnimation[] {
-  const animations: GameEngineAnimation[] = [];
-  
-  // Godot uses different coordinate system and naming conventions
-  animations.push({
-    id: 'godot_spin',
-    name: 'rotation_degrees',
-    targetElement: 'wheel_element',
-    property: 'rotation',
-    duration: 2,
-    loop: true,
-    easing: 'linear',
-    keyframes: [
-      { time: 0, value: 0 },
-      { time: 1, value: 360 }
-    ]
-  });
-  
-  return animations;
+function generateGodotAnimations(animationData: GameEngineAnimationData): GameEngineAnimation[] {
+  // Godot shares the SVG coordinate system, so only property names differ
+  return buildAnimationsFromTimeline(animationData, 'godot');
 }
 
 /**
  * Generate generic animations
  */
-function generateGenericAnimations(animationData: any): GameEngineAnimation[] {
-  const animations: GameEngineAnimation[] = [];
-  
-  // Generic format compatible with most engines
-  animations.push({
-    id: 'generic_spin',
-    name: 'Spin Animation',
-    targetElement: 'animated_element',
-    property: 'rotation',
-    duration: 2,
-    loop: true,
-    easing: 'linear',
-    keyframes: [
-      { time: 0, value: 0 },
-      { time: 1, value: 360 }
-    ]
-  });
-  
-  return animations;
+function generateGenericAnimations(animationData: GameEngineAnimationData): GameEngineAnimation[] {
+  return buildAnimationsFromTimeline(animationData, 'generic');
+}
+
+/**
+ * Total timeline length, covering every scheduled animation
+ */
+function getTimelineDuration(animationData: GameEngineAnimationData, animations: GameEngineAnimation[]): number {
+  const scheduledEnd = animations.reduce(
+    (end, animation) => Math.max(end, animation.delay + animation.duration),
+    0
+  );
+  return Math.max(animationData.duration || 0, scheduledEnd) || 3;
 }
 
 /**
  * Generate timeline data
  */
-function generateTimeline(animationData: any): GameEngineTimeline {
+function generateTimeline(animationData: GameEngineAnimationData, animations: GameEngineAnimation[]): GameEngineTimeline {
+  const tracks = new Map<string, string[]>();
+  animations.forEach(animation => {
+    const track = tracks.get(animation.targetElement) || [];
+    track.push(animation.id);
+    tracks.set(animation.targetElement, track);
+  });
+
   return {
-    duration: animationData.duration || 3,
-    tracks: [
-      {
-        elementId: 'animated_element',
-        animations: ['spin_animation']
-      }
-    ]
+    duration: getTimelineDuration(animationData, animations),
+    tracks: Array.from(tracks.entries()).map(([elementId, animationIds]) => ({
+      elementId,
+      animations: animationIds
+    }))
   };
 }
 
+/**
+ * Convert an element ID into a valid C#/GDScript identifier
+ */
+function toIdentifier(id: string): string {
+  const identifier = id.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Read a keyframe value as a 2D vector (numbers are treated as uniform values)
+ */
+function toVector(value: any, fallback: number): { x: number; y: number } {
+  if (typeof value === 'number') return { x: value, y: value };
+  if (value && typeof value === 'object') {
+    return {
+      x: typeof value.x === 'number' ? value.x : fallback,
+      y: typeof value.y === 'number' ? value.y : fallback
+    };
+  }
+  return { x: fallback, y: fallback };
+}
+
+/**
+ * Format a number as a C# float literal
+ */
+function csFloat(value: number): string {
+  return `${Number.isFinite(value) ? parseFloat(value.toFixed(4)) : 0}f`;
+}
+
+/**
+ * Format a number as a GDScript float literal
+ */
+function gdFloat(value: number): string {
+  const rounded = Number.isFinite(value) ? parseFloat(value.toFixed(4)) : 0;
+  return Number.isInteger(rounded) ? `${rounded}.0` : `${rounded}`;
+}
+
+/**
+ * Map GSAP-style easing names onto the ease modes used by the Unity script
+ * 0 = linear, 1 = ease in, 2 = ease out, 3 = ease in-out
+ */
+function getUnityEaseMode(easing: string): number {
+  if (!easing || easing === 'none' || easing === 'linear') return 0;
+  if (/inout/i.test(easing)) return 3;
+  if (/\.in$|ease-in$/i.test(easing)) return 1;
+  return 2;
+}
+
+/**
+ * Map GSAP-style easing names onto Godot Tween transition and ease constants
+ */
+function getGodotEasing(easing: string): { trans: string; ease: string } {
+  const name = (easing || 'linear').toLowerCase();
+  let trans = 'TRANS_QUAD';
+  if (name === 'none' || name === 'linear') trans = 'TRANS_LINEAR';
+  else if (name.startsWith('sine')) trans = 'TRANS_SINE';
+  else if (name.startsWith('power3') || name.startsWith('cubic')) trans = 'TRANS_CUBIC';
+  else if (name.startsWith('power4') || name.startsWith('quart')) trans = 'TRANS_QUART';
+  else if (name.startsWith('expo')) trans = 'TRANS_EXPO';
+  else if (name.startsWith('circ')) trans = 'TRANS_CIRC';
+  else if (name.startsWith('back')) trans = 'TRANS_BACK';
+  else if (name.startsWith('elastic')) trans = 'TRANS_ELASTIC';
+  else if (name.startsWith('bounce')) trans = 'TRANS_BOUNCE';
+
+  let ease = 'EASE_OUT';
+  if (name.includes('inout')) ease = 'EASE_IN_OUT';
+  else if (/\.in$|ease-in$/.test(name)) ease = 'EASE_IN';
+
+  return { trans, ease };
+}
+
 /**
  * Generate Unity C# script for the animation rig
  */
 export function generateUnityCSharpScript(rig: GameEngineRig): string {
+  const animatedIds = Array.from(new Set(rig.animations.map(animation => animation.targetElement)));
+  const positionIds = Array.from(new Set(
+    rig.animations.filter(animation => animation.property === 'position').map(animation => animation.targetElement)
+  ));
+
+  const curveFields: string[] = [];
+  const applyLines: string[] = [];
+
+  rig.animations.forEach((animation, index) => {
+    const element = rig.svg.elements.find(e => e.id === animation.targetElement);
+    const field = `${toIdentifier(animation.targetElement)}Transform`;
+    const times = animation.keyframes.map(keyframe => csFloat(keyframe.time)).join(', ');
+    const timing = `${csFloat(animation.delay)}, ${csFloat(animation.duration)}, ${animation.loop}`;
+    const ease = getUnityEaseMode(animation.easing);
+    const label = `// ${element?.name || animation.targetElement}: ${animation.name}`;
+
+    curveFields.push(`private static readonly float[] Anim${index}Times = { ${times} };`);
+
+    switch (animation.property) {
+      case 'rotation': {
+        const values = animation.keyframes.map(keyframe => csFloat(Number(keyframe.value) || 0)).join(', ');
+        curveFields.push(`private static readonly float[] Anim${index}Values = { ${values} };`);
+        applyLines.push(`${label}
+        if (${field} != null)
+        {
+            ${field}.localEulerAngles = new Vector3(0f, 0f, Sample(time, ${timing}, Anim${index}Times, Anim${index}Values, ${ease}));
+        }`);
+        break;
+      }
+      case 'opacity': {
+        const values = animation.keyframes.map(keyframe => csFloat(Number(keyframe.value) || 0)).join(', ');
+        curveFields.push(`private static readonly float[] Anim${index}Values = { ${values} };`);
+        applyLines.push(`${label}
+        SetOpacity(${field}, Sample(time, ${timing}, Anim${index}Times, Anim${index}Values, ${ease}));`);
+        break;
+      }
+      case 'scale':
+      case 'position': {
+        const fallback = animation.property === 'scale' ? 1 : 0;
+        const vectors = animation.keyframes.map(keyframe => toVector(keyframe.value, fallback));
+        curveFields.push(`private static readonly float[] Anim${index}X = { ${vectors.map(v => csFloat(v.x)).join(', ')} };`);
+        curveFields.push(`private static readonly float[] Anim${index}Y = { ${vectors.map(v => csFloat(v.y)).join(', ')} };`);
+        const x = `Sample(time, ${timing}, Anim${index}Times, Anim${index}X, ${ease})`;
+        const y = `Sample(time, ${timing}, Anim${index}Times, Anim${index}Y, ${ease})`;
+        const assignment = animation.property === 'scale'
+          ? `${field}.localScale = new Vector3(${x}, ${y}, 1f);`
+          : `${field}.localPosition = ${toIdentifier(animation.targetElement)}BasePosition + new Vector3(${x}, ${y}, 0f) / pixelsPerUnit;`;
+        applyLines.push(`${label}
+        if (${field} != null)
+        {
+            ${assignment}
+        }`);
+        break;
+      }
+      default:
+        applyLines.push(`${label} - ${animation.property} keyframes are available in rig.json`);
+    }
+  });
+
   return `using UnityEngine;
-using System.Collections;
 
-[System.Serializable]
-public class SVGAnimationRig : MonoBehaviour 
+// Generated SVG animation rig: ${rig.svg.elements.length} elements, ${rig.animations.length} animations
+public class SVGAnimationRig : MonoBehaviour
 {
     [Header("Animation Settings")]
-    public float duration = ${rig.metadata.duration}f;
+    public float duration = ${csFloat(rig.metadata.duration)};
     public bool autoPlay = true;
     public bool loop = true;
-    
+    public float pixelsPerUnit = 100f;
+
     [Header("SVG Elements")]
-    ${rig.svg.elements.map(element => 
-      `public Transform ${element.name.replace(/\s/g, '')}Transform;`
-    ).join('\n    ')}
-    
-    private Coroutine animationCoroutine;
-    
+    ${animatedIds.map(id => `public Transform ${toIdentifier(id)}Transform;`).join('\n    ')}
+
+    ${curveFields.join('\n    ')}
+
+    ${positionIds.map(id => `private Vector3 ${toIdentifier(id)}BasePosition;`).join('\n    ')}
+    private float elapsedTime;
+    private bool playing;
+
     void Start()
     {
+        ${positionIds.map(id => {
+          const field = `${toIdentifier(id)}Transform`;
+          return `if (${field} != null) ${toIdentifier(id)}BasePosition = ${field}.localPosition;`;
+        }).join('\n        ')}
         if (autoPlay)
         {
             PlayAnimation();
         }
     }
-    
+
     public void PlayAnimation()
     {
-        if (animationCoroutine != null)
+        elapsedTime = 0f;
+        playing = true;
+        ApplyTimeline(0f);
+    }
+
+    public void StopAnimation()
+    {
+        playing = false;
+    }
+
+    void Update()
+    {
+        if (!playing) return;
+
+        elapsedTime += Time.deltaTime;
+        if (elapsedTime > duration)
         {
-            StopCoroutine(animationCoroutine);
+            if (loop)
+            {
+                elapsedTime %= duration;
+            }
+            else
+            {
+                elapsedTime = duration;
+                playing = false;
+            }
         }
-        animationCoroutine = StartCoroutine(AnimateElements());
+
+        ApplyTimeline(elapsedTime);
     }
-    
-    public void StopAnimation()
+
+    void ApplyTimeline(float time)
+    {
+        ${applyLines.join('\n        ')}
+    }
+
+    static float Sample(float time, float delay, float length, bool repeat, float[] times, float[] values, int easeMode)
     {
-        if (animationCoroutine != null)
+        float local = Mathf.Max(0f, time - delay);
+        if (repeat && length > 0f)
         {
-            StopCoroutine(animationCoroutine);
-            animationCoroutine = null;
+            local %= length;
         }
+        float t = length > 0f ? Mathf.Clamp01(local / length) : 1f;
+
+        for (int i = 0; i < times.Length - 1; i++)
+        {
+            if (t <= times[i + 1])
+            {
+                float span = times[i + 1] - times[i];
+                float u = span > 0f ? (t - times[i]) / span : 1f;
+                return Mathf.LerpUnclamped(values[i], values[i + 1], Ease(u, easeMode));
+            }
+        }
+        return values[values.Length - 1];
     }
-    
-    IEnumerator AnimateElements()
+
+    static float Ease(float t, int easeMode)
     {
-        float elapsedTime = 0f;
-        
-        ${rig.svg.elements.map(element => {
-          const transformVar = element.name.replace(/\s/g, '');
-          return `Vector3 ${transformVar}StartPos = ${transformVar}Transform.position;
-        Vector3 ${transformVar}StartRot = ${transformVar}Transform.eulerAngles;`;
-        }).join('\n        ')}
-        
-        while (elapsedTime < duration)
+        switch (easeMode)
         {
-            float progress = elapsedTime / duration;
-            
-            ${rig.animations.map(animation => {
-              const elementName = rig.svg.elements.find(e => e.id === animation.targetElement)?.name.replace(/\s/g, '') || 'Element';
-              
-              switch (animation.property) {
-                case 'rotation':
-                  return `// ${animation.name}
-            ${elementName}Transform.rotation = Quaternion.Euler(0, 0, ${animation.keyframes[1].value}f * progress);`;
-                case 'position':
-                  return `// ${animation.name}
-            ${elementName}Transform.position = Vector3.Lerp(${elementName}StartPos, ${elementName}StartPos + new Vector3(${animation.keyframes[1].value}, 0, 0), progress);`;
-                default:
-                  return `// ${animation.name} - Custom property`;
-              }
-            }).join('\n            ')}
-            
-            elapsedTime += Time.deltaTime;
-            yield return null;
+            case 1: return t * t;
+            case 2: return 1f - (1f - t) * (1f - t);
+            case 3: return t < 0.5f ? 2f * t * t : 1f - Mathf.Pow(-2f * t + 2f, 2f) / 2f;
+            default: return t;
         }
-        
-        if (loop)
+    }
+
+    static void SetOpacity(Transform target, float alpha)
+    {
+        if (target == null) return;
+        SpriteRenderer spriteRenderer = target.GetComponent<SpriteRenderer>();
+        if (spriteRenderer != null)
         {
-            animationCoroutine = StartCoroutine(AnimateElements());
+            Color color = spriteRenderer.color;
+            color.a = alpha;
+            spriteRenderer.color = color;
         }
     }
 }`;
 }
 
+/**
+ * Format the tweened property and endpoint values of one Godot tween segment
+ */
+function formatGodotSegment(
+  property: GameEngineAnimation['property'],
+  from: any,
+  to: any,
+  identifier: string
+): { property: string; fromValue: string; toValue: string } {
+  switch (property) {
+    case 'scale': {
+      const a = toVector(from, 1);
+      const b = toVector(to, 1);
+      return {
+        property: 'scale',
+        fromValue: `Vector2(${gdFloat(a.x)}, ${gdFloat(a.y)})`,
+        toValue: `Vector2(${gdFloat(b.x)}, ${gdFloat(b.y)})`
+      };
+    }
+    case 'position': {
+      const a = toVector(from, 0);
+      const b = toVector(to, 0);
+      return {
+        property: 'position',
+        fromValue: `${identifier}_base + Vector2(${gdFloat(a.x)}, ${gdFloat(a.y)})`,
+        toValue: `${identifier}_base + Vector2(${gdFloat(b.x)}, ${gdFloat(b.y)})`
+      };
+    }
+    default:
+      return {
+        property: property === 'opacity' ? 'modulate:a' : 'rotation_degrees',
+        fromValue: gdFloat(Number(from) || 0),
+        toValue: gdFloat(Number(to) || 0)
+      };
+  }
+}
+
 /**
  * Generate Godot GDScript for the animation rig
  */
 export function generateGodotScript(rig: GameEngineRig): string {
+  const animatedIds = Array.from(new Set(rig.animations.map(animation => animation.targetElement)));
+  const timelineLines: string[] = [];
+  const loopBlocks: Array<{ delay: number; block: string }> = [];
+
+  rig.animations.forEach(animation => {
+    const element = rig.svg.elements.find(e => e.id === animation.targetElement);
+    const identifier = toIdentifier(animation.targetElement).toLowerCase();
+    const node = `${identifier}_node`;
+    const { trans, ease } = getGodotEasing(animation.easing);
+    const target = animation.loop ? 'loop_tween' : 'tween';
+    const offset = animation.loop ? 0 : animation.delay;
+    const label = `# ${element?.name || animation.targetElement}: ${animation.name}`;
+
+    if (animation.property === 'color' || animation.property === 'path') {
+      timelineLines.push(`${label} - ${animation.property} keyframes are available in rig.json`);
+      return;
+    }
+
+    const segments: string[] = [];
+    for (let i = 0; i < animation.keyframes.length - 1; i++) {
+      const from = animation.keyframes[i];
+      const to = animation.keyframes[i + 1];
+      const segmentDuration = Math.max(0.001, (to.time - from.time) * animation.duration);
+      const segmentDelay = offset + from.time * animation.duration;
+      const { property, fromValue, toValue } = formatGodotSegment(animation.property, from.value, to.value, identifier);
+
+      segments.push(`${target}.tween_property(${node}, "${property}", ${toValue}, ${gdFloat(segmentDuration)}).from(${fromValue}).set_delay(${gdFloat(segmentDelay)}).set_trans(Tween.${trans}).set_ease(Tween.${ease})`);
+    }
+
+    const block = animation.loop
+      ? `${label}
+    if ${node}:
+        var loop_tween = create_tween().set_loops().set_parallel(true)
+        loop_tween.tween_interval(${gdFloat(animation.duration)})
+        ${segments.join('\n        ')}
+        loop_tweens.append(loop_tween)`
+      : `${label}
+    if ${node}:
+        ${segments.join('\n        ')}`;
+
+    if (animation.loop) {
+      loopBlocks.push({ delay: animation.delay, block });
+    } else {
+      timelineLines.push(block);
+    }
+  });
+
+  // Looping animations run on their own tweens, started once their delay has elapsed
+  let elapsed = 0;
+  const loopLines = loopBlocks
+    .sort((a, b) => a.delay - b.delay)
+    .map(({ delay, block }) => {
+      const wait = delay - elapsed;
+      elapsed = delay;
+      return wait > 0
+        ? `yield(get_tree().create_timer(${gdFloat(wait)}), "timeout")\n    ${block}`
+        : block;
+    });
+  const loopStart = loopLines.length > 0 ? loopLines.join('\n    ') : 'pass';
+
   return `extends Node2D
 class_name SVGAnimationRig
 
+# Generated SVG animation rig: ${rig.svg.elements.length} elements, ${rig.animations.length} animations
+
 # Animation settings
-export var duration: float = ${rig.metadata.duration}
+export var duration: float = ${gdFloat(rig.metadata.duration)}
 export var auto_play: bool = true
 export var loop: bool = true
 
 # SVG element references
-${rig.svg.elements.map(element => 
-  `export var ${element.name.replace(/\s/g, '').toLowerCase()}_node: Node2D`
-).join('\n')}
+${animatedIds.map(id => `export(NodePath) var ${toIdentifier(id).toLowerCase()}_path`).join('\n')}
+
+${animatedIds.map(id => {
+  const identifier = toIdentifier(id).toLowerCase();
+  return `onready var ${identifier}_node: Node2D = get_node_or_null(${identifier}_path) if ${identifier}_path else null
+onready var ${identifier}_base: Vector2 = ${identifier}_node.position if ${identifier}_node else Vector2.ZERO`;
+}).join('\n')}
 
 var tween: SceneTreeTween
+var loop_tweens: Array = []
 
 func _ready():
     if auto_play:
         play_animation()
 
 func play_animation():
-    if tween:
-        tween.kill()
-    
-    tween = create_tween()
-    tween.set_loops() if loop else tween
-    
-    ${rig.animations.map(animation => {
-      const elementName = rig.svg.elements.find(e => e.id === animation.targetElement)?.name.replace(/\s/g, '').toLowerCase() || 'element';
-      
-      switch (animation.property) {
-        case 'rotation':
-          return `# ${animation.name}
-    tween.parallel().tween_property(${elementName}_node, "rotation_degrees", ${animation.keyframes[1].value}, duration)`;
-        case 'position':
-          return `# ${animation.name}
-    tween.parallel().tween_property(${elementName}_node, "position", Vector2(${animation.keyframes[1].value}, 0), duration)`;
-        default:
-          return `# ${animation.name} - Custom property`;
-      }
-    }).join('\n    ')}
+    stop_animation()
+
+    tween = create_tween().set_parallel(true)
+    if loop:
+        tween.set_loops()
+    # Keep every pass of the timeline the full duration long
+    tween.tween_interval(duration)
+
+    ${timelineLines.length > 0 ? timelineLines.join('\n    ') : 'pass'}
+
+    _start_loops()
+
+func _start_loops():
+    ${loopStart}
 
 func stop_animation():
     if tween:
         tween.kill()
+    for loop_tween in loop_tweens:
+        loop_tween.kill()
+    loop_tweens.clear()
 
 func pause_animation():
     if tween:
         tween.pause()
+    for loop_tween in loop_tweens:
+        loop_tween.pause()
 
 func resume_animation():
     if tween:
-        tween.play()`;
-}
\ No newline at end of file
+        tween.play()
+    for loop_tween in loop_tweens:
+        loop_tween.play()`;
+}
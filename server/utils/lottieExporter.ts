@@ -0,0 +1,434 @@
+import { PathSegment, Point, pathBounds } from './pathGeometry';
+import { arcToCubics, elevateQuadratic } from './curveApproximation';
+import { extractShapes, VectorShape } from './svgShapes';
+import { GameEnginePivotInput, GameEngineTimelineEntry } from './gameEngineExporter';
+import { RGB } from './colorHistogram';
+
+/**
+ * Lottie Exporter
+ * Writes a traced SVG and its workspace timeline as Lottie (bodymovin) JSON for lottie-web
+ * and the iOS and Android players. Every animated element becomes a shape layer with its
+ * pivot as the anchor point, nested animated elements are parented to their group, and
+ * draw-on tracks become trim paths. Shapes outside any animated element share one static layer.
+ */
+
+export interface LottiePivotInput extends GameEnginePivotInput {
+  relativeX?: number; // 0-1 within the element's bounds, preferred over x and y
+  relativeY?: number;
+}
+
+export interface LottieOptions {
+  name?: string;
+  frameRate?: number;
+  pivotPoints?: LottiePivotInput[];
+  timeline?: GameEngineTimelineEntry[];
+}
+
+// Lottie is plain JSON with terse keys; layers and shape items stay loosely typed
+type LottieObject = Record<string, any>;
+
+export interface LottieAnimation {
+  v: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm: string;
+  ddd: 0;
+  assets: LottieObject[];
+  layers: LottieObject[];
+}
+
+// Tangents are relative to their vertex
+interface Subpath {
+  vertices: Point[];
+  ins: Point[];
+  outs: Point[];
+  closed: boolean;
+}
+
+interface BezierPath {
+  c: boolean;
+  v: number[][];
+  i: number[][];
+  o: number[][];
+}
+
+// Oldest bodymovin schema the current players all read
+const LOTTIE_VERSION = '5.7.4';
+
+const DEFAULT_FRAME_RATE = 30;
+
+const STATIC_LAYER = 'static';
+
+// Outline width for draw-on of shapes that are only filled, in SVG units
+const DRAW_ON_STROKE_WIDTH = 1;
+
+// Share of a draw-on after which the fill of an outlined shape fades in
+const DRAW_ON_FILL_START = 0.75;
+
+const EPSILON = 1e-6;
+
+const ZERO: Point = { x: 0, y: 0 };
+
+const PRECISION = 3;
+
+// Cubic-bezier control points per easing, matching the CSS export
+const EASING_CURVES: Record<string, [number, number, number, number]> = {
+  'power2.out': [0.25, 0.46, 0.45, 0.94],
+  'power2.in': [0.55, 0.06, 0.68, 0.19],
+  'power2.inOut': [0.645, 0.045, 0.355, 1],
+  'back.out': [0.175, 0.885, 0.32, 1.275],
+  'elastic.out': [0.68, -0.55, 0.265, 1.55],
+  'bounce.out': [0.68, -0.55, 0.265, 1.55],
+  'none': [0, 0, 1, 1]
+};
+
+const DEFAULT_EASING: [number, number, number, number] = [0, 0, 0.58, 1];
+
+/**
+ * Convert an SVG document and its timeline to a Lottie animation
+ */
+export function svgToLottie(svgContent: string, options: LottieOptions = {}): LottieAnimation {
+  const { viewBox, size, shapes } = extractShapes(svgContent);
+  const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+  const timeline = options.timeline ?? [];
+  const pivots = new Map((options.pivotPoints ?? []).map(pivot => [pivot.elementId, pivot]));
+
+  // Lottie's canvas is the rendered size, so the viewBox is scaled onto it
+  const scaleX = size.width / viewBox.width;
+  const scaleY = size.height / viewBox.height;
+  const toComp = ({ x, y }: Point): Point => ({ x: (x - viewBox.x) * scaleX, y: (y - viewBox.y) * scaleY });
+
+  // Each shape belongs to its innermost animated element; the next one out is that layer's parent
+  const animated = new Set(timeline.map(entry => entry.elementId));
+  const owned = new Map<string, VectorShape[]>();
+  const parents = new Map<string, string | null>();
+  shapes.forEach(shape => {
+    const chain = shape.ids.filter(id => animated.has(id));
+    const owner = chain[0] ?? STATIC_LAYER;
+    if (!owned.has(owner)) owned.set(owner, []);
+    owned.get(owner)!.push(shape);
+    chain.forEach((id, index) => {
+      if (!parents.has(id)) parents.set(id, chain[index + 1] ?? null);
+    });
+  });
+
+  // Paint order, with groups that only hold other animated elements as null layers at the end
+  const layerIds = [...Array.from(owned.keys()), ...Array.from(parents.keys()).filter(id => !owned.has(id))];
+  const layerIndex = (id: string) => layerIds.indexOf(id) + 1;
+
+  const end = timeline.reduce((latest, entry) => Math.max(latest, entry.start + entry.duration), 0);
+  const outPoint = Math.max(1, Math.ceil((end || 1) * frameRate));
+
+  const layers = layerIds.map(id => {
+    const layerShapes = owned.get(id) ?? [];
+    const tracks = timeline.filter(entry => entry.elementId === id);
+    let anchor: Point = { x: 0, y: 0 };
+    if (id !== STATIC_LAYER) {
+      const bounds = pathBounds(shapes.filter(shape => shape.ids.includes(id)).flatMap(shape => shape.segments));
+      anchor = toComp(pivotAnchor(pivots.get(id), bounds));
+    }
+
+    const drawOn = tracks.find(track => track.property === 'path');
+    const parent = parents.get(id);
+    const layer: LottieObject = {
+      ddd: 0,
+      ind: layerIndex(id),
+      ty: layerShapes.length > 0 ? 4 : 3,
+      nm: id,
+      sr: 1,
+      ks: layerTransform(anchor, tracks, frameRate, { x: scaleX, y: scaleY }),
+      ao: 0,
+      ip: 0,
+      op: outPoint,
+      st: 0,
+      bm: 0
+    };
+    if (parent) layer.parent = layerIndex(parent);
+    if (layerShapes.length > 0) {
+      // Lottie lists the topmost item first, SVG paints it last
+      layer.shapes = layerShapes
+        .map((shape, index) => shapeGroups(shape, index, toComp, (scaleX + scaleY) / 2, drawOn, frameRate))
+        .reverse()
+        .flat();
+    }
+    return layer;
+  });
+
+  return {
+    v: LOTTIE_VERSION,
+    fr: frameRate,
+    ip: 0,
+    op: outPoint,
+    w: Math.round(size.width),
+    h: Math.round(size.height),
+    nm: options.name || 'SVG Animation',
+    ddd: 0,
+    assets: [],
+    // Frontmost layer first
+    layers: layers.reverse()
+  };
+}
+
+/**
+ * The pivot in SVG units: relative placement within the element's bounds when given, the
+ * absolute point otherwise, and the bounds center without a pivot - the same as
+ * transform-origin with transform-box: fill-box
+ */
+function pivotAnchor(pivot: LottiePivotInput | undefined, bounds: ReturnType<typeof pathBounds>): Point {
+  if (bounds && pivot?.relativeX !== undefined && pivot.relativeY !== undefined) {
+    return {
+      x: bounds.minX + (bounds.maxX - bounds.minX) * pivot.relativeX,
+      y: bounds.minY + (bounds.maxY - bounds.minY) * pivot.relativeY
+    };
+  }
+  if (pivot) return { x: pivot.x, y: pivot.y };
+  if (bounds) return { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  return { x: 0, y: 0 };
+}
+
+/**
+ * Layer transform with the anchor on the pivot. Position tracks hold offsets in SVG units
+ * from the rest position, the other tracks the values the web exports tween.
+ */
+function layerTransform(
+  anchor: Point,
+  tracks: GameEngineTimelineEntry[],
+  frameRate: number,
+  scale: Point
+): LottieObject {
+  const track = (property: GameEngineTimelineEntry['property']) => tracks.find(entry => entry.property === property);
+  const rest = [round(anchor.x), round(anchor.y)];
+
+  const position = track('position');
+  const rotation = track('rotation');
+  const scaleTrack = track('scale');
+  const opacity = track('opacity');
+
+  return {
+    o: opacity ? animatedValue(opacity, frameRate, value => [Number(value) * 100]) : staticValue(100),
+    r: rotation ? animatedValue(rotation, frameRate, value => [Number(value)]) : staticValue(0),
+    p: position
+      ? animatedValue(position, frameRate, value => [anchor.x + (value?.x ?? 0) * scale.x, anchor.y + (value?.y ?? 0) * scale.y])
+      : staticValue(rest),
+    a: staticValue(rest),
+    s: scaleTrack
+      ? animatedValue(scaleTrack, frameRate, value =>
+        typeof value === 'number' ? [value * 100, value * 100] : [(value?.x ?? 1) * 100, (value?.y ?? 1) * 100])
+      : staticValue([100, 100])
+  };
+}
+
+/**
+ * Keyframed property. Each keyframe carries the easing of the segment that follows it;
+ * Lottie holds the first value before the track starts and the last one after it ends.
+ */
+function animatedValue(
+  track: Pick<GameEngineTimelineEntry, 'start' | 'duration' | 'keyframes' | 'easing'>,
+  frameRate: number,
+  toValue: (value: any) => number[]
+): LottieObject {
+  const keyframes = [...track.keyframes].sort((a, b) => a.time - b.time);
+  return {
+    a: 1,
+    k: keyframes.map((keyframe, index) => {
+      const frame: LottieObject = {
+        t: round((track.start + keyframe.time * track.duration) * frameRate),
+        s: toValue(keyframe.value).map(value => round(value))
+      };
+      if (index < keyframes.length - 1) {
+        const [x1, y1, x2, y2] = EASING_CURVES[keyframe.easing ?? track.easing ?? ''] ?? DEFAULT_EASING;
+        frame.o = { x: [x1], y: [y1] };
+        frame.i = { x: [x2], y: [y2] };
+      }
+      return frame;
+    })
+  };
+}
+
+function staticValue(value: number | number[] | BezierPath): LottieObject {
+  return { a: 0, k: value };
+}
+
+/**
+ * One group per shape, or with a draw-on track a trimmed outline group above a fill group.
+ * Shapes without a stroke are outlined in their fill color and their fill fades in at the end.
+ */
+function shapeGroups(
+  shape: VectorShape,
+  index: number,
+  toComp: (point: Point) => Point,
+  strokeScale: number,
+  drawOn: GameEngineTimelineEntry | undefined,
+  frameRate: number
+): LottieObject[] {
+  const paths = bezierPaths(shape.segments, toComp).map((path, pathIndex) => ({
+    ty: 'sh',
+    nm: `Path ${pathIndex + 1}`,
+    ks: staticValue(path)
+  }));
+  if (paths.length === 0) return [];
+
+  const name = `Shape ${index + 1}`;
+  const fill = shape.fill ? fillItem(shape.fill, staticValue(round(shape.fillOpacity * 100)), shape.fillRule) : null;
+  const stroke = shape.stroke
+    ? strokeItem(shape.stroke, shape.strokeOpacity, shape.strokeWidth * strokeScale)
+    : null;
+
+  if (!drawOn) {
+    return [group(name, [...paths, ...(stroke ? [stroke] : []), ...(fill ? [fill] : [])])];
+  }
+
+  const trim = {
+    ty: 'tm',
+    nm: 'Draw On',
+    s: staticValue(0),
+    e: animatedValue(drawOn, frameRate, value => [Number(value) * 100]),
+    o: staticValue(0),
+    m: 1
+  };
+
+  if (stroke) {
+    // The fill stays as it is, as in the web draw-on
+    return [
+      group(`${name} Stroke`, [...paths, trim, stroke]),
+      ...(fill ? [group(`${name} Fill`, [...paths, fill])] : [])
+    ];
+  }
+
+  const outline = strokeItem(shape.fill!, shape.fillOpacity, DRAW_ON_STROKE_WIDTH * strokeScale);
+  const fadeIn = {
+    start: drawOn.start + drawOn.duration * DRAW_ON_FILL_START,
+    duration: drawOn.duration * (1 - DRAW_ON_FILL_START),
+    keyframes: [{ time: 0, value: 0 }, { time: 1, value: 1 }],
+    easing: drawOn.easing
+  };
+  return [
+    group(`${name} Outline`, [...paths, trim, outline]),
+    group(`${name} Fill`, [
+      ...paths,
+      fillItem(shape.fill!, animatedValue(fadeIn, frameRate, value => [value * shape.fillOpacity * 100]), shape.fillRule)
+    ])
+  ];
+}
+
+function group(name: string, items: LottieObject[]): LottieObject {
+  return {
+    ty: 'gr',
+    nm: name,
+    it: [
+      ...items,
+      {
+        ty: 'tr',
+        p: staticValue([0, 0]),
+        a: staticValue([0, 0]),
+        s: staticValue([100, 100]),
+        r: staticValue(0),
+        o: staticValue(100),
+        sk: staticValue(0),
+        sa: staticValue(0)
+      }
+    ]
+  };
+}
+
+function fillItem(color: RGB, opacity: LottieObject, fillRule: VectorShape['fillRule']): LottieObject {
+  return { ty: 'fl', nm: 'Fill', c: staticValue(lottieColor(color)), o: opacity, r: fillRule === 'evenodd' ? 2 : 1 };
+}
+
+function strokeItem(color: RGB, opacity: number, width: number): LottieObject {
+  return {
+    ty: 'st',
+    nm: 'Stroke',
+    c: staticValue(lottieColor(color)),
+    o: staticValue(round(opacity * 100)),
+    w: staticValue(round(width)),
+    lc: 2, // Round cap
+    lj: 2, // Round join
+    ml: 4
+  };
+}
+
+/**
+ * Subpaths as Lottie beziers: vertices with in and out tangents relative to them. Lines
+ * have zero tangents, and a closing vertex on top of the first one is merged into it.
+ */
+function bezierPaths(segments: PathSegment[], toComp: (point: Point) => Point): BezierPath[] {
+  const subpaths: Subpath[] = [];
+  let current: Subpath | null = null;
+
+  for (const segment of segments) {
+    if (segment.type === 'M' || !current || current.closed) {
+      current = { vertices: [toComp(segment.type === 'M' ? segment.to : segment.from)], ins: [ZERO], outs: [ZERO], closed: false };
+      subpaths.push(current);
+      if (segment.type === 'M') continue;
+    }
+    switch (segment.type) {
+      case 'L':
+        current.vertices.push(toComp(segment.to));
+        current.ins.push(ZERO);
+        current.outs.push(ZERO);
+        break;
+      case 'C':
+        cubicTo(current, segment.c1, segment.c2, segment.to, toComp);
+        break;
+      case 'Q': {
+        const cubic = elevateQuadratic(segment);
+        cubicTo(current, cubic.c1, cubic.c2, cubic.to, toComp);
+        break;
+      }
+      case 'A':
+        for (const cubic of arcToCubics(segment)) cubicTo(current, cubic.c1, cubic.c2, cubic.to, toComp);
+        break;
+      case 'Z': {
+        current.closed = true;
+        const last = current.vertices.length - 1;
+        if (last > 0 && distance(current.vertices[last], current.vertices[0]) < EPSILON) {
+          current.ins[0] = current.ins[last];
+          current.vertices.pop();
+          current.ins.pop();
+          current.outs.pop();
+        }
+        break;
+      }
+    }
+  }
+
+  const pair = ({ x, y }: Point) => [round(x), round(y)];
+  return subpaths
+    .filter(subpath => subpath.vertices.length > 1)
+    .map(subpath => ({
+      c: subpath.closed,
+      v: subpath.vertices.map(pair),
+      i: subpath.ins.map(pair),
+      o: subpath.outs.map(pair)
+    }));
+}
+
+function cubicTo(subpath: Subpath, c1: Point, c2: Point, to: Point, toComp: (point: Point) => Point) {
+  const last = subpath.vertices.length - 1;
+  const end = toComp(to);
+  subpath.outs[last] = relative(toComp(c1), subpath.vertices[last]);
+  subpath.vertices.push(end);
+  subpath.ins.push(relative(toComp(c2), end));
+  subpath.outs.push(ZERO);
+}
+
+function relative(point: Point, vertex: Point): Point {
+  return { x: point.x - vertex.x, y: point.y - vertex.y };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function lottieColor([r, g, b]: RGB): number[] {
+  return [r / 255, g / 255, b / 255, 1].map(channel => round(channel));
+}
+
+function round(value: number): number {
+  const rounded = Number(value.toFixed(PRECISION));
+  return Object.is(rounded, -0) ? 0 : rounded;
+}
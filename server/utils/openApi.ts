@@ -0,0 +1,421 @@
+import { z } from 'zod';
+import {
+  svgOptionsSchema,
+  presetSchema,
+  apiKeySchema,
+  historyQuerySchema,
+  parameterSearchSchema
+} from '../validation/inputValidation';
+
+/**
+ * OpenAPI Document
+ * Describes the headless API, with request schemas generated from the zod validators
+ * so the document can't drift from what the server actually accepts
+ */
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * Convert the subset of zod used by our validators into JSON Schema (OpenAPI 3.1 dialect).
+ * Transforms are documented by their input type, which is what clients send.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convertZodType(schema);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
+
+function convertZodType(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' };
+      for (const check of (def as z.ZodStringDef).checks) {
+        if (check.kind === 'min') result.minLength = check.value;
+        else if (check.kind === 'max') result.maxLength = check.value;
+        else if (check.kind === 'regex') result.pattern = check.regex.source;
+        else if (check.kind === 'email') result.format = 'email';
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of (def as z.ZodNumberDef).checks) {
+        if (check.kind === 'int') result.type = 'integer';
+        else if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        else if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values };
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return result;
+    }
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries<z.ZodTypeAny>(shape)) {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return required.length > 0
+        ? { type: 'object', properties, required }
+        : { type: 'object', properties };
+    }
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [zodToJsonSchema(def.innerType), { type: 'null' }] };
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+    default:
+      // z.any() and anything we don't model - accept any value
+      return {};
+  }
+}
+
+/**
+ * Turn an object schema into OpenAPI query parameters
+ */
+function toQueryParameters(schema: z.AnyZodObject) {
+  return Object.entries<z.ZodTypeAny>(schema.shape).map(([name, value]) => ({
+    name,
+    in: 'query',
+    required: !value.isOptional(),
+    schema: zodToJsonSchema(value)
+  }));
+}
+
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } });
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+  description,
+  content: jsonContent(ref('Error'))
+});
+
+// Anonymous access is allowed wherever this is used - a key just attributes the call to an account
+const optionalAuth = [{}, { apiKey: [] }, { bearerAuth: [] }, { sessionCookie: [] }];
+const requiredAuth = [{ apiKey: [] }, { bearerAuth: [] }, { sessionCookie: [] }];
+
+/**
+ * Build the OpenAPI document served at /api/openapi.json
+ */
+export function buildOpenApiDocument(serverUrl?: string) {
+  const conversionOptions = zodToJsonSchema(svgOptionsSchema);
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Vectorize API',
+      version: '1.0.0',
+      description:
+        'Convert raster images to SVG from scripts and CI pipelines. ' +
+        'Create an API key while signed in, then send it as `X-API-Key` or `Authorization: Bearer`.'
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'An API key sent as a bearer token' },
+        sessionCookie: { type: 'apiKey', in: 'cookie', name: 'connect.sid' }
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' }, details: {} },
+          required: ['error']
+        },
+        ConversionOptions: conversionOptions,
+        Preset: zodToJsonSchema(presetSchema),
+        ApiKeyRequest: zodToJsonSchema(apiKeySchema),
+        SearchCandidate: {
+          type: 'object',
+          properties: {
+            engine: { type: 'string', enum: ['potrace', 'imagetracer'] },
+            parameters: { type: 'object', description: 'Conversion options to apply, e.g. numberOfColors or turdSize' },
+            bytes: { type: 'integer' },
+            paths: { type: 'integer' },
+            error: { type: 'number', description: 'Mean per-pixel color distance from the source, 0-1' },
+            ssim: { type: 'number' },
+            meetsGoal: { type: 'boolean' }
+          },
+          required: ['engine', 'parameters', 'bytes', 'paths', 'error', 'ssim', 'meetsGoal']
+        },
+        ApiKey: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            userId: { type: 'integer' },
+            name: { type: 'string' },
+            keyPrefix: { type: 'string' },
+            createdAt: { type: 'string', format: 'date-time' },
+            lastUsedAt: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] }
+          },
+          required: ['id', 'userId', 'name', 'keyPrefix', 'createdAt', 'lastUsedAt']
+        }
+      }
+    },
+    paths: {
+      '/api/convert': {
+        post: {
+          summary: 'Convert an image to SVG',
+          description:
+            'Options can be sent as individual form fields (as the web app does) or as a single JSON-encoded ' +
+            '`options` field. Send `Accept: image/svg+xml` to receive the SVG document itself instead of JSON.',
+          security: optionalAuth,
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    image: { type: 'string', format: 'binary', description: 'PNG, JPEG, GIF, BMP, WebP, TIFF or SVG' },
+                    options: {
+                      type: 'string',
+                      contentMediaType: 'application/json',
+                      contentSchema: ref('ConversionOptions'),
+                      description: 'JSON object of conversion options'
+                    },
+                    ...conversionOptions.properties
+                  },
+                  required: ['image']
+                }
+              }
+            }
+          },
+          responses: {
+            '200': {
+              description: 'The converted SVG',
+              content: {
+                ...jsonContent({
+                  type: 'object',
+                  properties: {
+                    svg: { type: 'string' },
+                    engine: { type: 'string', enum: ['potrace', 'imagetracer', 'potrace-color', 'svg'] },
+                    analysis: {
+                      type: 'object',
+                      description: 'Color analysis behind the engine choice, present when traceEngine is auto'
+                    },
+                    metadata: {
+                      type: 'object',
+                      description: 'Animation metadata (complexity, readiness score, viewBox, colors, path lengths, ' +
+                        'accessibility and performance analysis), present when animationMode is on'
+                    },
+                    fidelity: {
+                      type: 'object',
+                      description: 'Comparison of the rasterized SVG with the source bitmap, present when scoreFidelity is on',
+                      properties: {
+                        ssim: { type: 'number', description: 'Structural similarity, 0-1 (1 = identical)' },
+                        meanError: { type: 'number', description: 'Mean per-pixel color distance, 0-1' },
+                        maxError: { type: 'number' },
+                        changedPixels: { type: 'number', description: 'Share of visibly different pixels, 0-1' },
+                        width: { type: 'integer' },
+                        height: { type: 'integer' },
+                        heatmap: { type: 'string', description: 'PNG data URL of the per-pixel error' }
+                      },
+                      required: ['ssim', 'meanError', 'maxError', 'changedPixels', 'width', 'height', 'heatmap']
+                    },
+                    timings: {
+                      type: 'object',
+                      description: 'Milliseconds spent on engine selection, tracing, fidelity scoring and rendering the output format, absent for SVG uploads',
+                      properties: {
+                        analysisMs: { type: 'number' },
+                        traceMs: { type: 'number' },
+                        fidelityMs: { type: 'number' },
+                        outputMs: { type: 'number' },
+                        totalMs: { type: 'number' }
+                      },
+                      required: ['analysisMs', 'traceMs', 'fidelityMs', 'outputMs', 'totalMs']
+                    },
+                    output: {
+                      type: 'object',
+                      description: 'The result in the requested fileFormat, present when that is not SVG. ' +
+                        'PNG and WebP come as a ZIP when several sizes or the app icon set are requested',
+                      properties: {
+                        format: { type: 'string', enum: ['dxf', 'pdf', 'eps', 'png', 'webp', 'hpgl', 'gcode'] },
+                        mimeType: { type: 'string' },
+                        extension: { type: 'string' },
+                        encoding: { type: 'string', enum: ['utf8', 'base64'] },
+                        data: { type: 'string', description: 'The file contents; base64 for binary formats such as PDF' }
+                      },
+                      required: ['format', 'mimeType', 'extension', 'encoding', 'data']
+                    }
+                  },
+                  required: ['svg', 'engine']
+                }),
+                'image/svg+xml': { schema: { type: 'string' } },
+                'application/dxf': { schema: { type: 'string' }, description: 'Sent as an attachment when fileFormat is dxf and Accept asks for it' },
+                'application/pdf': { schema: { type: 'string', format: 'binary' }, description: 'Sent as an attachment when fileFormat is pdf and Accept asks for it' },
+                'application/postscript': { schema: { type: 'string' }, description: 'Sent as an attachment when fileFormat is eps and Accept asks for it' },
+                'image/png': { schema: { type: 'string', format: 'binary' }, description: 'Sent as an attachment for a single PNG size when Accept asks for it' },
+                'image/webp': { schema: { type: 'string', format: 'binary' }, description: 'Sent as an attachment for a single WebP size when Accept asks for it' },
+                'application/zip': { schema: { type: 'string', format: 'binary' }, description: 'Several PNG/WebP sizes or the app icon set, when Accept asks for it' },
+                'application/vnd.hp-hpgl': { schema: { type: 'string' }, description: 'Sent as an attachment when fileFormat is hpgl and Accept asks for it' },
+                'text/x-gcode': { schema: { type: 'string' }, description: 'Sent as an attachment when fileFormat is gcode and Accept asks for it' }
+              }
+            },
+            '400': errorResponse('Missing image, invalid options or a failed conversion'),
+            '401': errorResponse('Invalid API key'),
+            '429': errorResponse('Rate limit exceeded')
+          }
+        }
+      },
+      '/api/optimize-parameters': {
+        post: {
+          summary: 'Search tracing settings that meet a size, path count or error goal',
+          description:
+            'Traces a grid of potrace and ImageTracer settings on a downscaled copy of the image, refines the best ' +
+            'ones and re-measures the size-vs-error Pareto front at full size. Other conversion options are kept as sent.',
+          security: optionalAuth,
+          requestBody: {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    image: { type: 'string', format: 'binary', description: 'PNG, JPEG, GIF, BMP, WebP or TIFF' },
+                    ...zodToJsonSchema(parameterSearchSchema).properties
+                  },
+                  required: ['image']
+                }
+              }
+            }
+          },
+          responses: {
+            '200': {
+              description: 'The Pareto front of settings, smallest first, and the recommended entry',
+              content: jsonContent({
+                type: 'object',
+                properties: {
+                  result: {
+                    type: 'object',
+                    properties: {
+                      goal: { type: 'object' },
+                      front: { type: 'array', items: ref('SearchCandidate') },
+                      recommended: ref('SearchCandidate'),
+                      evaluated: { type: 'integer', description: 'Number of traces run' },
+                      searchScale: { type: 'number', description: 'Downscale factor the search ran at' },
+                      durationMs: { type: 'number' }
+                    },
+                    required: ['goal', 'front', 'recommended', 'evaluated', 'searchScale', 'durationMs']
+                  }
+                },
+                required: ['result']
+              })
+            },
+            '400': errorResponse('Missing image, no goal set or no settings could be traced'),
+            '401': errorResponse('Invalid API key'),
+            '429': errorResponse('Rate limit exceeded')
+          }
+        }
+      },
+      '/api/history': {
+        get: {
+          summary: 'List past conversions, newest first',
+          security: requiredAuth,
+          parameters: toQueryParameters(historyQuerySchema),
+          responses: {
+            '200': { description: 'One page of conversion history' },
+            '400': errorResponse('Invalid pagination parameters'),
+            '401': errorResponse('Authentication required')
+          }
+        }
+      },
+      '/api/history/{id}/download': {
+        get: {
+          summary: 'Download the SVG from a past conversion',
+          security: requiredAuth,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: {
+            '200': { description: 'The stored SVG', content: { 'image/svg+xml': { schema: { type: 'string' } } } },
+            '401': errorResponse('Authentication required'),
+            '404': errorResponse('No such conversion')
+          }
+        }
+      },
+      '/api/presets': {
+        get: {
+          summary: 'List saved presets',
+          security: requiredAuth,
+          responses: {
+            '200': { description: 'Saved presets' },
+            '401': errorResponse('Authentication required')
+          }
+        },
+        post: {
+          summary: 'Save a preset',
+          security: requiredAuth,
+          requestBody: { required: true, content: jsonContent(ref('Preset')) },
+          responses: {
+            '201': { description: 'The saved preset' },
+            '400': errorResponse('Invalid preset'),
+            '401': errorResponse('Authentication required')
+          }
+        }
+      },
+      '/api/keys': {
+        get: {
+          summary: 'List your API keys',
+          security: requiredAuth,
+          responses: {
+            '200': {
+              description: 'API keys without their secret values',
+              content: jsonContent({
+                type: 'object',
+                properties: { apiKeys: { type: 'array', items: ref('ApiKey') } },
+                required: ['apiKeys']
+              })
+            },
+            '401': errorResponse('Authentication required')
+          }
+        },
+        post: {
+          summary: 'Create an API key',
+          description: 'The key itself is only returned in this response - store it somewhere safe.',
+          security: requiredAuth,
+          requestBody: { required: true, content: jsonContent(ref('ApiKeyRequest')) },
+          responses: {
+            '201': {
+              description: 'The new key',
+              content: jsonContent({
+                type: 'object',
+                properties: { apiKey: ref('ApiKey'), key: { type: 'string' } },
+                required: ['apiKey', 'key']
+              })
+            },
+            '400': errorResponse('Invalid API key request'),
+            '401': errorResponse('Authentication required')
+          }
+        }
+      },
+      '/api/keys/{id}': {
+        delete: {
+          summary: 'Revoke an API key',
+          security: requiredAuth,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: {
+            '204': { description: 'The key was revoked' },
+            '401': errorResponse('Authentication required'),
+            '404': errorResponse('No such API key')
+          }
+        }
+      }
+    }
+  };
+}
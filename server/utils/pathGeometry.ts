@@ -0,0 +1,705 @@
+/**
+ * SVG Path Geometry
+ * Tokenizes path data, normalizes it to absolute segments, and measures lengths, bounds
+ * and points along the path. Shared by every module that reads or rewrites `d` attributes.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface PathCommand {
+  command: string; // Original letter, case preserved
+  values: number[]; // Arc flags are stored as 0 or 1
+}
+
+export interface ArcCenter {
+  cx: number;
+  cy: number;
+  rx: number; // Radii after out-of-range correction
+  ry: number;
+  phi: number; // x-axis rotation in radians
+  theta1: number;
+  deltaTheta: number;
+}
+
+export type PathSegment =
+  | { type: 'M'; from: Point; to: Point }
+  | { type: 'L'; from: Point; to: Point }
+  | { type: 'C'; from: Point; c1: Point; c2: Point; to: Point }
+  | { type: 'Q'; from: Point; c: Point; to: Point }
+  | {
+      type: 'A';
+      from: Point;
+      to: Point;
+      rx: number;
+      ry: number;
+      rotation: number;
+      largeArc: boolean;
+      sweep: boolean;
+      center: ArcCenter;
+    }
+  | { type: 'Z'; from: Point; to: Point };
+
+export interface PathBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Parameters consumed by one instance of each command
+const ARGUMENT_COUNTS: Record<string, number> = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0
+};
+
+const NUMBER_PATTERN = new RegExp('[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?', 'y');
+
+// Adaptive Gauss-Legendre: stop splitting once halves agree to this (absolute) tolerance
+const LENGTH_TOLERANCE = 1e-6;
+const MAX_INTEGRATION_DEPTH = 16;
+
+// Subdivision depth for adaptive curve flattening (up to 1024 pieces per segment)
+const MAX_FLATTEN_DEPTH = 10;
+
+// 5-point Gauss-Legendre nodes and weights on [-1, 1]
+const GAUSS_NODES = [0, -0.5384693101056831, 0.5384693101056831, -0.9061798459386640, 0.9061798459386640];
+const GAUSS_WEIGHTS = [0.5688888888888889, 0.4786286704993665, 0.4786286704993665, 0.2369268850561891, 0.2369268850561891];
+
+/**
+ * Split path data into commands with implicit repeats expanded, following the SVG grammar.
+ * Like a browser, parsing stops at the first error and keeps everything before it.
+ */
+export function tokenizePath(pathData: string): PathCommand[] {
+  const commands: PathCommand[] = [];
+  let index = 0;
+  let command = '';
+
+  const skipSeparators = () => {
+    while (index < pathData.length && /[\s,]/.test(pathData[index])) index++;
+  };
+  const readNumber = (): number | null => {
+    skipSeparators();
+    NUMBER_PATTERN.lastIndex = index;
+    const match = NUMBER_PATTERN.exec(pathData);
+    if (!match) return null;
+    index += match[0].length;
+    return parseFloat(match[0]);
+  };
+  // Flags are a single 0 or 1 and may be written without separators ("a1 1 0 0010 10")
+  const readFlag = (): number | null => {
+    skipSeparators();
+    const flag = pathData[index];
+    if (flag !== '0' && flag !== '1') return null;
+    index++;
+    return flag === '1' ? 1 : 0;
+  };
+
+  while (true) {
+    skipSeparators();
+    if (index >= pathData.length) break;
+
+    const next = pathData[index];
+    if (/[a-zA-Z]/.test(next)) {
+      if (!(next.toUpperCase() in ARGUMENT_COUNTS)) break;
+      // Path data has to start with a moveto
+      if (commands.length === 0 && next.toUpperCase() !== 'M') break;
+      command = next;
+      index++;
+    } else if (!command || command.toUpperCase() === 'Z') {
+      break;
+    } else if (command === 'M') {
+      command = 'L'; // Extra coordinate pairs after a moveto are implicit linetos
+    } else if (command === 'm') {
+      command = 'l';
+    }
+
+    const type = command.toUpperCase();
+    const values: number[] = [];
+    for (let i = 0; i < ARGUMENT_COUNTS[type]; i++) {
+      const value = type === 'A' && (i === 3 || i === 4) ? readFlag() : readNumber();
+      if (value === null) return commands;
+      values.push(value);
+    }
+    commands.push({ command, values });
+  }
+
+  return commands;
+}
+
+/**
+ * Parse path data into absolute segments: H/V become L, S becomes C, T becomes Q,
+ * and degenerate arcs become lines
+ */
+export function parsePath(pathData: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let current: Point = { x: 0, y: 0 };
+  let subpathStart: Point = { x: 0, y: 0 };
+  let lastCubicControl: Point | null = null;
+  let lastQuadControl: Point | null = null;
+
+  for (const { command, values } of tokenizePath(pathData)) {
+    const type = command.toUpperCase();
+    const relative = command !== type;
+    const at = (i: number): Point => ({
+      x: values[i] + (relative ? current.x : 0),
+      y: values[i + 1] + (relative ? current.y : 0)
+    });
+    const from = current;
+    let cubicControl: Point | null = null;
+    let quadControl: Point | null = null;
+
+    switch (type) {
+      case 'M': {
+        const to = at(0);
+        segments.push({ type: 'M', from, to });
+        current = to;
+        subpathStart = to;
+        break;
+      }
+      case 'L': {
+        const to = at(0);
+        segments.push({ type: 'L', from, to });
+        current = to;
+        break;
+      }
+      case 'H': {
+        const to = { x: values[0] + (relative ? current.x : 0), y: current.y };
+        segments.push({ type: 'L', from, to });
+        current = to;
+        break;
+      }
+      case 'V': {
+        const to = { x: current.x, y: values[0] + (relative ? current.y : 0) };
+        segments.push({ type: 'L', from, to });
+        current = to;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const c1: Point = type === 'C'
+          ? at(0)
+          : lastCubicControl ? reflect(lastCubicControl, from) : from;
+        const c2 = at(type === 'C' ? 2 : 0);
+        const to = at(type === 'C' ? 4 : 2);
+        segments.push({ type: 'C', from, c1, c2, to });
+        cubicControl = c2;
+        current = to;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const c: Point = type === 'Q'
+          ? at(0)
+          : lastQuadControl ? reflect(lastQuadControl, from) : from;
+        const to = at(type === 'Q' ? 2 : 0);
+        segments.push({ type: 'Q', from, c, to });
+        quadControl = c;
+        current = to;
+        break;
+      }
+      case 'A': {
+        const to = at(5);
+        const [rx, ry, rotation, largeArc, sweep] = values;
+        const center = arcCenter(from, to, Math.abs(rx), Math.abs(ry), rotation, largeArc === 1, sweep === 1);
+        segments.push(center
+          ? { type: 'A', from, to, rx: Math.abs(rx), ry: Math.abs(ry), rotation, largeArc: largeArc === 1, sweep: sweep === 1, center }
+          : { type: 'L', from, to });
+        current = to;
+        break;
+      }
+      case 'Z': {
+        segments.push({ type: 'Z', from, to: subpathStart });
+        current = subpathStart;
+        break;
+      }
+    }
+
+    lastCubicControl = cubicControl;
+    lastQuadControl = quadControl;
+  }
+
+  return segments;
+}
+
+/**
+ * Write segments back out as compact path data, absolute or relative
+ */
+export function serializePath(
+  segments: PathSegment[],
+  { precision = 2, relative = false }: { precision?: number; relative?: boolean } = {}
+): string {
+  const format = (value: number) => formatNumber(value, precision);
+  const round = (value: number) => Math.round(value * 10 ** precision) / 10 ** precision;
+  let pathData = '';
+
+  for (const segment of segments) {
+    // Relative offsets are taken between rounded positions so rounding never accumulates
+    const origin = relative ? segment.from : { x: 0, y: 0 };
+    const point = (p: Point) => `${format(round(p.x) - round(origin.x))} ${format(round(p.y) - round(origin.y))}`;
+    const letter = (type: string) => relative ? type.toLowerCase() : type;
+
+    switch (segment.type) {
+      case 'M':
+      case 'L':
+        pathData += `${letter(segment.type)}${point(segment.to)}`;
+        break;
+      case 'C':
+        pathData += `${letter('C')}${point(segment.c1)} ${point(segment.c2)} ${point(segment.to)}`;
+        break;
+      case 'Q':
+        pathData += `${letter('Q')}${point(segment.c)} ${point(segment.to)}`;
+        break;
+      case 'A':
+        pathData += `${letter('A')}${format(segment.rx)} ${format(segment.ry)} ${format(segment.rotation)} ` +
+          `${segment.largeArc ? 1 : 0} ${segment.sweep ? 1 : 0} ${point(segment.to)}`;
+        break;
+      case 'Z':
+        pathData += 'Z';
+        break;
+    }
+  }
+
+  return pathData;
+}
+
+/**
+ * Rewrite path data with absolute coordinates and only M, L, C, Q, A and Z commands
+ */
+export function toAbsolutePathData(pathData: string, precision = 2): string {
+  return serializePath(parsePath(pathData), { precision });
+}
+
+/**
+ * Point on a segment at parameter t (0-1)
+ */
+export function pointAt(segment: PathSegment, t: number): Point {
+  switch (segment.type) {
+    case 'M':
+      return segment.to;
+    case 'L':
+    case 'Z':
+      return lerp(segment.from, segment.to, t);
+    case 'Q': {
+      const mt = 1 - t;
+      return {
+        x: mt * mt * segment.from.x + 2 * mt * t * segment.c.x + t * t * segment.to.x,
+        y: mt * mt * segment.from.y + 2 * mt * t * segment.c.y + t * t * segment.to.y
+      };
+    }
+    case 'C': {
+      const mt = 1 - t;
+      return {
+        x: mt * mt * mt * segment.from.x + 3 * mt * mt * t * segment.c1.x + 3 * mt * t * t * segment.c2.x + t * t * t * segment.to.x,
+        y: mt * mt * mt * segment.from.y + 3 * mt * mt * t * segment.c1.y + 3 * mt * t * t * segment.c2.y + t * t * t * segment.to.y
+      };
+    }
+    case 'A': {
+      const { cx, cy, rx, ry, phi, theta1, deltaTheta } = segment.center;
+      const theta = theta1 + deltaTheta * t;
+      const px = rx * Math.cos(theta);
+      const py = ry * Math.sin(theta);
+      return {
+        x: Math.cos(phi) * px - Math.sin(phi) * py + cx,
+        y: Math.sin(phi) * px + Math.cos(phi) * py + cy
+      };
+    }
+  }
+}
+
+/**
+ * Derivative of a segment with respect to t
+ */
+export function derivativeAt(segment: PathSegment, t: number): Point {
+  switch (segment.type) {
+    case 'M':
+      return { x: 0, y: 0 };
+    case 'L':
+    case 'Z':
+      return { x: segment.to.x - segment.from.x, y: segment.to.y - segment.from.y };
+    case 'Q': {
+      const mt = 1 - t;
+      return {
+        x: 2 * mt * (segment.c.x - segment.from.x) + 2 * t * (segment.to.x - segment.c.x),
+        y: 2 * mt * (segment.c.y - segment.from.y) + 2 * t * (segment.to.y - segment.c.y)
+      };
+    }
+    case 'C': {
+      const mt = 1 - t;
+      return {
+        x: 3 * mt * mt * (segment.c1.x - segment.from.x) + 6 * mt * t * (segment.c2.x - segment.c1.x) + 3 * t * t * (segment.to.x - segment.c2.x),
+        y: 3 * mt * mt * (segment.c1.y - segment.from.y) + 6 * mt * t * (segment.c2.y - segment.c1.y) + 3 * t * t * (segment.to.y - segment.c2.y)
+      };
+    }
+    case 'A': {
+      const { rx, ry, phi, theta1, deltaTheta } = segment.center;
+      const theta = theta1 + deltaTheta * t;
+      const dx = -rx * Math.sin(theta) * deltaTheta;
+      const dy = ry * Math.cos(theta) * deltaTheta;
+      return {
+        x: Math.cos(phi) * dx - Math.sin(phi) * dy,
+        y: Math.sin(phi) * dx + Math.cos(phi) * dy
+      };
+    }
+  }
+}
+
+/**
+ * Arc length of a segment between two parameters
+ */
+export function segmentLength(segment: PathSegment, t0 = 0, t1 = 1): number {
+  switch (segment.type) {
+    case 'M':
+      return 0;
+    case 'L':
+    case 'Z':
+      return Math.hypot(segment.to.x - segment.from.x, segment.to.y - segment.from.y) * Math.abs(t1 - t0);
+    case 'A':
+      // Circular arcs have a closed form
+      if (Math.abs(segment.center.rx - segment.center.ry) < 1e-9) {
+        return segment.center.rx * Math.abs(segment.center.deltaTheta) * Math.abs(t1 - t0);
+      }
+      return integrate(t => speedAt(segment, t), t0, t1);
+    default:
+      return integrate(t => speedAt(segment, t), t0, t1);
+  }
+}
+
+/**
+ * Total drawn length of a path, including closing segments
+ */
+export function pathLength(path: string | PathSegment[]): number {
+  return toSegments(path).reduce((total, segment) => total + segmentLength(segment), 0);
+}
+
+/**
+ * Point at a distance along the path, clamped to its ends
+ */
+export function pointAtLength(path: string | PathSegment[], distance: number): Point | null {
+  const segments = toSegments(path);
+  if (segments.length === 0) return null;
+
+  let remaining = Math.max(0, distance);
+  for (const segment of segments) {
+    if (segment.type === 'M') continue;
+    const length = segmentLength(segment);
+    if (remaining <= length) {
+      return pointAt(segment, parameterAtLength(segment, remaining, length));
+    }
+    remaining -= length;
+  }
+  return segments[segments.length - 1].to;
+}
+
+/**
+ * Tight bounding box of a segment, using the curve extrema rather than its control points
+ */
+export function segmentBounds(segment: PathSegment): PathBounds {
+  const points = segment.type === 'M' ? [segment.to] : [segment.from, segment.to];
+  for (const t of extremaParameters(segment)) {
+    points.push(pointAt(segment, t));
+  }
+  return boundsOfPoints(points);
+}
+
+/**
+ * Tight bounding box of a path, or null when it draws nothing
+ */
+export function pathBounds(path: string | PathSegment[]): PathBounds | null {
+  let bounds: PathBounds | null = null;
+  for (const segment of toSegments(path)) {
+    // A moveto only counts through the segment it starts, so a bare one adds nothing
+    if (segment.type === 'M') continue;
+    const box = segmentBounds(segment);
+    bounds = bounds
+      ? {
+          minX: Math.min(bounds.minX, box.minX),
+          minY: Math.min(bounds.minY, box.minY),
+          maxX: Math.max(bounds.maxX, box.maxX),
+          maxY: Math.max(bounds.maxY, box.maxY)
+        }
+      : box;
+  }
+  return bounds;
+}
+
+/**
+ * Sample a segment into points (excluding its start point)
+ */
+export function flattenSegment(segment: PathSegment, steps: number): Point[] {
+  if (segment.type === 'M' || segment.type === 'L' || segment.type === 'Z') {
+    return [segment.to];
+  }
+  const points: Point[] = [];
+  for (let step = 1; step <= steps; step++) {
+    points.push(pointAt(segment, step / steps));
+  }
+  return points;
+}
+
+/**
+ * Flatten a segment into points (excluding its start point) that stay within
+ * tolerance of the curve, subdividing only where it bends
+ */
+export function flattenSegmentAdaptive(segment: PathSegment, tolerance: number): Point[] {
+  if (segment.type === 'M' || segment.type === 'L' || segment.type === 'Z') {
+    return [segment.to];
+  }
+  const points: Point[] = [];
+  flattenRange(segment, 0, 1, segment.from, segment.to, tolerance, 0, points);
+  return points;
+}
+
+/**
+ * Distance from a point to the closest point of a line segment
+ */
+export function distanceToSegment(point: Point, start: Point, end: Point): number {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(point.x - start.x, point.y - start.y);
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + dx * t), point.y - (start.y + dy * t));
+}
+
+/**
+ * Distance from a point to the closest point of polyline[first..last]
+ */
+export function distanceToPolyline(point: Point, polyline: Point[], first = 0, last = polyline.length - 1): number {
+  if (first === last) return distanceToSegment(point, polyline[first], polyline[first]);
+  let closest = Infinity;
+  for (let i = first + 1; i <= last; i++) {
+    closest = Math.min(closest, distanceToSegment(point, polyline[i - 1], polyline[i]));
+  }
+  return closest;
+}
+
+/**
+ * Point a fraction t of the way from one point to another
+ */
+export function lerp(from: Point, to: Point, t: number): Point {
+  return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+}
+
+/**
+ * Convert an endpoint-parameterized arc to its centre form (SVG spec, appendix B.2.4).
+ * Returns null for arcs that are drawn as straight lines.
+ */
+export function arcCenter(
+  from: Point,
+  to: Point,
+  rx: number,
+  ry: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean
+): ArcCenter | null {
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) return null;
+
+  const phi = rotationDegrees * Math.PI / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  // Scale radii up when they are too small to span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = factor * (rx * y1p) / ry;
+  const cyp = factor * -(ry * x1p) / rx;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const cos = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.min(1, Math.max(-1, cos)));
+  };
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI;
+  if (sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI;
+
+  return {
+    cx: cosPhi * cxp - sinPhi * cyp + (from.x + to.x) / 2,
+    cy: sinPhi * cxp + cosPhi * cyp + (from.y + to.y) / 2,
+    rx,
+    ry,
+    phi,
+    theta1,
+    deltaTheta
+  };
+}
+
+function toSegments(path: string | PathSegment[]): PathSegment[] {
+  return typeof path === 'string' ? parsePath(path) : path;
+}
+
+function speedAt(segment: PathSegment, t: number): number {
+  const d = derivativeAt(segment, t);
+  return Math.hypot(d.x, d.y);
+}
+
+/**
+ * Adaptive Gauss-Legendre quadrature - exact for polynomial speeds up to degree 9,
+ * and split until the two halves agree with the whole for everything else
+ */
+function integrate(f: (t: number) => number, a: number, b: number): number {
+  const gauss = (from: number, to: number) => {
+    const half = (to - from) / 2;
+    const mid = (from + to) / 2;
+    let sum = 0;
+    for (let i = 0; i < GAUSS_NODES.length; i++) {
+      sum += GAUSS_WEIGHTS[i] * f(mid + half * GAUSS_NODES[i]);
+    }
+    return sum * half;
+  };
+
+  const refine = (from: number, to: number, whole: number, depth: number): number => {
+    const mid = (from + to) / 2;
+    const left = gauss(from, mid);
+    const right = gauss(mid, to);
+    if (depth >= MAX_INTEGRATION_DEPTH || Math.abs(left + right - whole) <= LENGTH_TOLERANCE) {
+      return left + right;
+    }
+    return refine(from, mid, left, depth + 1) + refine(mid, to, right, depth + 1);
+  };
+
+  return Math.abs(refine(a, b, gauss(a, b), 0));
+}
+
+/**
+ * Invert arc length: the parameter t at which the segment has covered `distance`
+ */
+function parameterAtLength(segment: PathSegment, distance: number, totalLength: number): number {
+  if (totalLength === 0) return 0;
+  if (segment.type === 'L' || segment.type === 'Z') return distance / totalLength;
+
+  // Newton's method from the proportional guess, falling back to bisection when it overshoots
+  let low = 0;
+  let high = 1;
+  let t = distance / totalLength;
+  for (let iteration = 0; iteration < 30; iteration++) {
+    const error = segmentLength(segment, 0, t) - distance;
+    if (Math.abs(error) < LENGTH_TOLERANCE) break;
+    if (error > 0) high = t;
+    else low = t;
+
+    const speed = speedAt(segment, t);
+    const next = speed > 0 ? t - error / speed : NaN;
+    t = next > low && next < high ? next : (low + high) / 2;
+  }
+  return t;
+}
+
+/**
+ * Parameters in (0, 1) where a segment reaches an extreme x or y
+ */
+function extremaParameters(segment: PathSegment): number[] {
+  const inRange = (t: number) => t > 0 && t < 1;
+
+  switch (segment.type) {
+    case 'Q': {
+      const result: number[] = [];
+      for (const axis of ['x', 'y'] as const) {
+        const denominator = segment.from[axis] - 2 * segment.c[axis] + segment.to[axis];
+        if (denominator !== 0) result.push((segment.from[axis] - segment.c[axis]) / denominator);
+      }
+      return result.filter(inRange);
+    }
+    case 'C': {
+      const result: number[] = [];
+      for (const axis of ['x', 'y'] as const) {
+        // B'(t)/3 = a t^2 + b t + c
+        const p0 = segment.from[axis];
+        const p1 = segment.c1[axis];
+        const p2 = segment.c2[axis];
+        const p3 = segment.to[axis];
+        const a = -p0 + 3 * p1 - 3 * p2 + p3;
+        const b = 2 * (p0 - 2 * p1 + p2);
+        const c = p1 - p0;
+        result.push(...solveQuadratic(a, b, c));
+      }
+      return result.filter(inRange);
+    }
+    case 'A': {
+      const { rx, ry, phi, theta1, deltaTheta } = segment.center;
+      const thetaX = Math.atan2(-ry * Math.sin(phi), rx * Math.cos(phi));
+      const thetaY = Math.atan2(ry * Math.cos(phi), rx * Math.sin(phi));
+      const candidates = [thetaX, thetaX + Math.PI, thetaY, thetaY + Math.PI];
+
+      return candidates
+        .map(theta => {
+          // Angle travelled from the start in the sweep direction
+          const turn = 2 * Math.PI;
+          const offset = deltaTheta >= 0
+            ? ((theta - theta1) % turn + turn) % turn
+            : -(((theta1 - theta) % turn + turn) % turn);
+          return offset / deltaTheta;
+        })
+        .filter(inRange);
+    }
+    default:
+      return [];
+  }
+}
+
+function solveQuadratic(a: number, b: number, c: number): number[] {
+  if (Math.abs(a) < 1e-12) {
+    return Math.abs(b) < 1e-12 ? [] : [-c / b];
+  }
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return [];
+  const root = Math.sqrt(discriminant);
+  return [(-b + root) / (2 * a), (-b - root) / (2 * a)];
+}
+
+function boundsOfPoints(points: Point[]): PathBounds {
+  return {
+    minX: Math.min(...points.map(point => point.x)),
+    minY: Math.min(...points.map(point => point.y)),
+    maxX: Math.max(...points.map(point => point.x)),
+    maxY: Math.max(...points.map(point => point.y))
+  };
+}
+
+function flattenRange(
+  segment: PathSegment,
+  t0: number, t1: number,
+  start: Point, end: Point,
+  tolerance: number,
+  depth: number,
+  out: Point[]
+) {
+  const tMid = (t0 + t1) / 2;
+  const mid = pointAt(segment, tMid);
+  // Always split once so S-shaped curves with a straight chord aren't missed
+  const flat = depth > 0 && distanceToSegment(mid, start, end) <= tolerance &&
+    distanceToSegment(pointAt(segment, (t0 + tMid) / 2), start, end) <= tolerance &&
+    distanceToSegment(pointAt(segment, (tMid + t1) / 2), start, end) <= tolerance;
+
+  if (flat || depth >= MAX_FLATTEN_DEPTH) {
+    out.push(end);
+    return;
+  }
+  flattenRange(segment, t0, tMid, start, mid, tolerance, depth + 1, out);
+  flattenRange(segment, tMid, t1, mid, end, tolerance, depth + 1, out);
+}
+
+function reflect(control: Point, around: Point): Point {
+  return { x: 2 * around.x - control.x, y: 2 * around.y - control.y };
+}
+
+function formatNumber(value: number, precision: number): string {
+  const factor = 10 ** precision;
+  const rounded = Math.round(value * factor) / factor;
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+}
@@ -0,0 +1,537 @@
+import { derivativeAt, distanceToPolyline, distanceToSegment, flattenSegmentAdaptive, lerp, PathSegment, Point, pointAt } from './pathGeometry';
+
+/**
+ * Path Simplification
+ * Reduces the number of points in an outline while keeping it within a distance tolerance:
+ * curves are flattened, polylines are thinned with Ramer-Douglas-Peucker, and smooth runs
+ * between corners are refitted with cubic Beziers (Schneider's least-squares fitting)
+ */
+
+type CubicSegment = Extract<PathSegment, { type: 'C' }>;
+
+// Maximum distance (user units, usually pixels) between the original and simplified outline
+export const DEFAULT_SIMPLIFY_TOLERANCE = 0.5;
+
+// Share of the tolerance spent flattening curves; the rest is left for thinning and refitting
+const FLATTEN_SHARE = 0.25;
+
+// Joints next to a curve that turn more than this are corners in the source outline
+const JOINT_CORNER_ANGLE = Math.PI / 6;
+
+// Vertices of the thinned polyline that turn more than this start a new fitted run
+const CORNER_ANGLE = Math.PI / 3;
+
+// Newton reparameterization passes before a poorly fitting cubic is split
+const MAX_REPARAMETERIZE = 4;
+
+// Split depth for cubic fitting (up to 4096 cubics per run)
+const MAX_FIT_DEPTH = 12;
+
+const EPSILON = 1e-9;
+
+export interface SimplifiedOutline {
+  segments: PathSegment[];
+  // Furthest the new outline strays from the flattened original, measured both ways
+  maxDeviation: number;
+}
+
+interface Subpath {
+  points: Point[];
+  corners: boolean[]; // Parallel to points
+  closed: boolean;
+}
+
+/**
+ * Simplify path segments to as few points as the tolerance allows. Each run between
+ * corners keeps whichever is cheaper: the thinned polyline or its cubic refit.
+ */
+export function simplifyOutline(segments: PathSegment[], tolerance = DEFAULT_SIMPLIFY_TOLERANCE): SimplifiedOutline {
+  const flattenTolerance = tolerance * FLATTEN_SHARE;
+  return simplifySubpaths(toSubpaths(segments, flattenTolerance), tolerance - flattenTolerance);
+}
+
+/**
+ * Fit closed polygon rings (e.g. the result of a boolean union) with lines and cubics
+ */
+export function simplifyRings(rings: Point[][], tolerance = DEFAULT_SIMPLIFY_TOLERANCE): SimplifiedOutline {
+  const subpaths = rings.map(ring => ({
+    points: ring,
+    corners: ring.map(() => false),
+    closed: true
+  }));
+  return simplifySubpaths(subpaths, tolerance * (1 - FLATTEN_SHARE));
+}
+
+/**
+ * Flatten every subpath into a closed ring, as the fill sees it (open subpaths are closed
+ * implicitly). Rings stay within the flattening share of the tolerance.
+ */
+export function outlineRings(segments: PathSegment[], tolerance = DEFAULT_SIMPLIFY_TOLERANCE): Point[][] {
+  return toSubpaths(segments, tolerance * FLATTEN_SHARE)
+    .map(subpath => withoutClosingPoint(subpath.points))
+    .filter(ring => ring.length >= 3);
+}
+
+/**
+ * Anchor and control points needed to draw the segments
+ */
+export function countPathPoints(segments: PathSegment[]): number {
+  let count = 0;
+  for (const segment of segments) {
+    switch (segment.type) {
+      case 'C': count += 3; break;
+      case 'Q': count += 2; break;
+      case 'Z': break;
+      default: count += 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Ramer-Douglas-Peucker: indices (first to last, inclusive) of the points that keep the
+ * polyline within tolerance
+ */
+export function thinPolyline(points: Point[], first: number, last: number, tolerance: number): number[] {
+  const keep = new Set([first, last]);
+  const stack: Array<[number, number]> = [[first, last]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let furthest = -1;
+    let furthestDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > furthestDistance) {
+        furthest = i;
+        furthestDistance = distance;
+      }
+    }
+    if (furthest !== -1) {
+      keep.add(furthest);
+      stack.push([start, furthest], [furthest, end]);
+    }
+  }
+
+  return Array.from(keep).sort((a, b) => a - b);
+}
+
+/**
+ * Fit cubic Beziers to points[first..last] (Schneider, "An Algorithm for Automatically
+ * Fitting Digitized Curves"). startTangent points forward from the first point and
+ * endTangent backward from the last one.
+ */
+export function fitCubics(
+  points: Point[],
+  first: number,
+  last: number,
+  startTangent: Point,
+  endTangent: Point,
+  tolerance: number,
+  depth = 0
+): CubicSegment[] {
+  if (last - first === 1) {
+    const distance = Math.hypot(points[last].x - points[first].x, points[last].y - points[first].y) / 3;
+    return [cubicFromTangents(points[first], points[last], startTangent, endTangent, distance, distance)];
+  }
+
+  let parameters = chordLengthParameters(points, first, last);
+  let cubic = generateCubic(points, first, last, parameters, startTangent, endTangent);
+  let { error, index } = maxFitError(points, first, last, cubic, parameters);
+  if (error <= tolerance) return [cubic];
+
+  // Close fits usually converge once the parameters are corrected
+  if (error <= tolerance * 4) {
+    for (let pass = 0; pass < MAX_REPARAMETERIZE; pass++) {
+      parameters = reparameterize(points, first, last, parameters, cubic);
+      cubic = generateCubic(points, first, last, parameters, startTangent, endTangent);
+      ({ error, index } = maxFitError(points, first, last, cubic, parameters));
+      if (error <= tolerance) return [cubic];
+    }
+  }
+
+  if (depth >= MAX_FIT_DEPTH) return [cubic];
+
+  // Split at the worst point with a shared tangent so the halves join smoothly
+  const centerTangent = normalize({
+    x: points[index - 1].x - points[index + 1].x,
+    y: points[index - 1].y - points[index + 1].y
+  });
+  return [
+    ...fitCubics(points, first, index, startTangent, centerTangent, tolerance, depth + 1),
+    ...fitCubics(points, index, last, { x: -centerTangent.x, y: -centerTangent.y }, endTangent, tolerance, depth + 1)
+  ];
+}
+
+function simplifySubpaths(subpaths: Subpath[], tolerance: number): SimplifiedOutline {
+  const segments: PathSegment[] = [];
+  let maxDeviation = 0;
+
+  for (const subpath of subpaths) {
+    const simplified = simplifySubpath(subpath, tolerance);
+    // Relative output measures each move from where the previous subpath ended
+    const [move, ...rest] = simplified.segments;
+    const from = segments.length > 0 ? segments[segments.length - 1].to : { x: 0, y: 0 };
+    segments.push({ ...move, from }, ...rest);
+    maxDeviation = Math.max(maxDeviation, simplified.maxDeviation);
+  }
+
+  return { segments, maxDeviation };
+}
+
+/**
+ * Flatten segments into subpaths, marking joints where the source outline has a corner
+ */
+function toSubpaths(segments: PathSegment[], flattenTolerance: number): Subpath[] {
+  const subpaths: Subpath[] = [];
+  let current = null as Subpath | null;
+  let firstDrawn = null as PathSegment | null;
+  let lastDrawn = null as PathSegment | null;
+
+  for (const segment of segments) {
+    if (segment.type === 'M' || !current || current.closed) {
+      if (current && current.points.length > 1) subpaths.push(current);
+      const start = segment.type === 'M' ? segment.to : segment.from;
+      current = { points: [start], corners: [false], closed: false };
+      firstDrawn = lastDrawn = null;
+      if (segment.type === 'M') continue;
+    }
+
+    const drawn: PathSegment = segment.type === 'Z' ? { type: 'L', from: segment.from, to: segment.to } : segment;
+    if (!isDegenerate(drawn)) {
+      if (lastDrawn && isCornerJoint(lastDrawn, drawn)) {
+        current.corners[current.corners.length - 1] = true;
+      }
+      for (const point of flattenSegmentAdaptive(drawn, flattenTolerance)) {
+        const previous = current.points[current.points.length - 1];
+        if (Math.hypot(point.x - previous.x, point.y - previous.y) > EPSILON) {
+          current.points.push(point);
+          current.corners.push(false);
+        }
+      }
+      firstDrawn = firstDrawn ?? drawn;
+      lastDrawn = drawn;
+    }
+
+    if (segment.type === 'Z') {
+      current.closed = true;
+      if (firstDrawn && lastDrawn && isCornerJoint(lastDrawn, firstDrawn)) {
+        current.corners[0] = true;
+      }
+    }
+  }
+
+  if (current && current.points.length > 1) subpaths.push(current);
+  return subpaths;
+}
+
+function simplifySubpath(subpath: Subpath, tolerance: number): SimplifiedOutline {
+  let line = subpath.points;
+  let corners = subpath.corners;
+
+  if (subpath.closed) {
+    const ring = withoutClosingPoint(line);
+    if (ring.length < 3) {
+      return { segments: toLineSegments(line, line.map((_, index) => index), true), maxDeviation: 0 };
+    }
+    // Unroll the loop so it starts and ends at a corner when it has one
+    const start = Math.max(0, corners.slice(0, ring.length).indexOf(true));
+    const order = ring.map((_, offset) => (start + offset) % ring.length);
+    line = [...order.map(index => ring[index]), ring[start]];
+    corners = [...order.map(index => corners[index]), corners[start]];
+  } else {
+    corners = [...corners];
+    corners[0] = corners[corners.length - 1] = true;
+  }
+
+  const last = line.length - 1;
+  const anchors = new Set([0, last]);
+  corners.forEach((corner, index) => { if (corner) anchors.add(index); });
+
+  // A smooth loop is thinned in two halves so neither span starts and ends at the same point
+  if (subpath.closed && anchors.size === 2) {
+    let furthest = 1;
+    line.forEach((point, index) => {
+      if (distanceSquared(point, line[0]) > distanceSquared(line[furthest], line[0])) furthest = index;
+    });
+    anchors.add(furthest);
+  }
+
+  const anchorList = Array.from(anchors).sort((a, b) => a - b);
+  const kept = new Set<number>();
+  for (let i = 1; i < anchorList.length; i++) {
+    thinPolyline(line, anchorList[i - 1], anchorList[i], tolerance).forEach(index => kept.add(index));
+  }
+  const keptList = Array.from(kept).sort((a, b) => a - b);
+
+  // Sharp turns that survive thinning are corners too
+  const breaks = new Set(anchorList);
+  for (let i = 0; i < keptList.length; i++) {
+    const index = keptList[i];
+    const isEnd = index === 0 || index === last;
+    if (isEnd && !subpath.closed) continue;
+    const previous = isEnd ? keptList[keptList.length - 2] : keptList[i - 1];
+    const next = isEnd ? keptList[1] : keptList[i + 1];
+    if (previous === undefined || next === undefined) continue;
+    if (turnAngle(subtract(line[index], line[previous]), subtract(line[next], line[index])) > CORNER_ANGLE) {
+      breaks.add(index);
+      corners[index] = true;
+      if (isEnd) corners[0] = corners[last] = true;
+    }
+  }
+
+  const neighbour = (index: number, step: 1 | -1): Point => {
+    const target = index + step;
+    if (target < 0) return line[last - 1];
+    if (target > last) return line[1];
+    return line[target];
+  };
+  const tangent = (index: number, step: 1 | -1): Point => corners[index]
+    ? normalize(subtract(neighbour(index, step), line[index]))
+    : normalize(subtract(neighbour(index, step), neighbour(index, step === 1 ? -1 : 1)));
+
+  const segments: PathSegment[] = [{ type: 'M', from: line[0], to: line[0] }];
+  let maxDeviation = 0;
+  const breakList = Array.from(breaks).sort((a, b) => a - b);
+
+  for (let i = 1; i < breakList.length; i++) {
+    const start = breakList[i - 1];
+    const end = breakList[i];
+    const lineIndices = keptList.filter(index => index >= start && index <= end);
+    const lines = toLineSegments(line, lineIndices, false);
+    let chosen: PathSegment[] = lines;
+
+    if (end - start >= 2) {
+      const cubics = fitCubics(line, start, end, tangent(start, 1), tangent(end, -1), tolerance);
+      if (cubics.length * 3 < lines.length) {
+        const deviation = spanDeviation(line, start, end, cubics, tolerance);
+        if (deviation <= tolerance / (1 - FLATTEN_SHARE)) {
+          chosen = cubics;
+          maxDeviation = Math.max(maxDeviation, deviation);
+        }
+      }
+    }
+    if (chosen === lines) {
+      maxDeviation = Math.max(maxDeviation, spanDeviation(line, start, end, lines, tolerance));
+    }
+    segments.push(...chosen);
+  }
+
+  if (subpath.closed) {
+    const closing = segments[segments.length - 1];
+    if (closing.type === 'L' && segments.length > 2) segments.pop();
+    const from = segments[segments.length - 1].to;
+    segments.push({ type: 'Z', from, to: line[0] });
+  }
+
+  return { segments, maxDeviation };
+}
+
+/**
+ * Symmetric deviation between points[start..end] and the segments that replace them
+ */
+function spanDeviation(points: Point[], start: number, end: number, replacement: PathSegment[], tolerance: number): number {
+  const polyline: Point[] = [points[start]];
+  for (const segment of replacement) {
+    polyline.push(...flattenSegmentAdaptive(segment, tolerance * FLATTEN_SHARE));
+  }
+
+  const samples: Point[] = [];
+  for (let i = 0; i < polyline.length; i++) {
+    samples.push(polyline[i]);
+    if (i > 0) samples.push(lerp(polyline[i - 1], polyline[i], 0.5));
+  }
+
+  let deviation = 0;
+  for (let i = start; i <= end; i++) {
+    deviation = Math.max(deviation, distanceToPolyline(points[i], polyline));
+  }
+  for (const sample of samples) {
+    deviation = Math.max(deviation, distanceToPolyline(sample, points, start, end));
+  }
+  return deviation;
+}
+
+function chordLengthParameters(points: Point[], first: number, last: number): number[] {
+  const parameters = [0];
+  for (let i = first + 1; i <= last; i++) {
+    parameters.push(parameters[parameters.length - 1] + Math.sqrt(distanceSquared(points[i], points[i - 1])));
+  }
+  const total = parameters[parameters.length - 1];
+  return parameters.map(value => total > 0 ? value / total : 0);
+}
+
+/**
+ * Least-squares control point distances along the end tangents
+ */
+function generateCubic(
+  points: Point[],
+  first: number,
+  last: number,
+  parameters: number[],
+  startTangent: Point,
+  endTangent: Point
+): CubicSegment {
+  const from = points[first];
+  const to = points[last];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+
+  parameters.forEach((u, offset) => {
+    const mt = 1 - u;
+    const b0 = mt * mt * mt;
+    const b1 = 3 * u * mt * mt;
+    const b2 = 3 * u * u * mt;
+    const b3 = u * u * u;
+    const a1 = scale(startTangent, b1);
+    const a2 = scale(endTangent, b2);
+    const point = points[first + offset];
+    const residual = {
+      x: point.x - (from.x * (b0 + b1) + to.x * (b2 + b3)),
+      y: point.y - (from.y * (b0 + b1) + to.y * (b2 + b3))
+    };
+
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    x0 += dot(a1, residual);
+    x1 += dot(a2, residual);
+  });
+
+  const determinant = c00 * c11 - c01 * c01;
+  let startDistance = Math.abs(determinant) > EPSILON ? (x0 * c11 - x1 * c01) / determinant : 0;
+  let endDistance = Math.abs(determinant) > EPSILON ? (c00 * x1 - c01 * x0) / determinant : 0;
+
+  // Fall back to the Wu/Barsky heuristic when the solution is degenerate
+  const chord = Math.sqrt(distanceSquared(from, to));
+  if (startDistance < chord * 1e-6 || endDistance < chord * 1e-6) {
+    startDistance = endDistance = chord / 3;
+  }
+
+  return cubicFromTangents(from, to, startTangent, endTangent, startDistance, endDistance);
+}
+
+function cubicFromTangents(
+  from: Point,
+  to: Point,
+  startTangent: Point,
+  endTangent: Point,
+  startDistance: number,
+  endDistance: number
+): CubicSegment {
+  return {
+    type: 'C',
+    from,
+    c1: { x: from.x + startTangent.x * startDistance, y: from.y + startTangent.y * startDistance },
+    c2: { x: to.x + endTangent.x * endDistance, y: to.y + endTangent.y * endDistance },
+    to
+  };
+}
+
+function maxFitError(
+  points: Point[],
+  first: number,
+  last: number,
+  cubic: CubicSegment,
+  parameters: number[]
+): { error: number; index: number } {
+  let error = 0;
+  let index = Math.floor((first + last) / 2);
+  for (let i = first + 1; i < last; i++) {
+    const distance = Math.sqrt(distanceSquared(pointAt(cubic, parameters[i - first]), points[i]));
+    if (distance > error) {
+      error = distance;
+      index = i;
+    }
+  }
+  return { error, index };
+}
+
+/**
+ * One Newton-Raphson step per point towards the closest parameter on the cubic
+ */
+function reparameterize(points: Point[], first: number, last: number, parameters: number[], cubic: CubicSegment): number[] {
+  return parameters.map((u, offset) => {
+    const point = points[first + offset];
+    const position = pointAt(cubic, u);
+    const d1 = derivativeAt(cubic, u);
+    const d2 = cubicSecondDerivative(cubic, u);
+    const difference = subtract(position, point);
+    const numerator = dot(difference, d1);
+    const denominator = dot(d1, d1) + dot(difference, d2);
+    if (Math.abs(denominator) < EPSILON) return u;
+    return Math.max(0, Math.min(1, u - numerator / denominator));
+  });
+}
+
+function cubicSecondDerivative({ from, c1, c2, to }: CubicSegment, t: number): Point {
+  const mt = 1 - t;
+  return {
+    x: 6 * mt * (c2.x - 2 * c1.x + from.x) + 6 * t * (to.x - 2 * c2.x + c1.x),
+    y: 6 * mt * (c2.y - 2 * c1.y + from.y) + 6 * t * (to.y - 2 * c2.y + c1.y)
+  };
+}
+
+function toLineSegments(points: Point[], indices: number[], closed: boolean): PathSegment[] {
+  const segments: PathSegment[] = [];
+  for (let i = 1; i < indices.length; i++) {
+    segments.push({ type: 'L', from: points[indices[i - 1]], to: points[indices[i]] });
+  }
+  if (closed && indices.length > 0) {
+    const start = points[indices[0]];
+    const end = points[indices[indices.length - 1]];
+    return [{ type: 'M', from: start, to: start }, ...segments, { type: 'Z', from: end, to: start }];
+  }
+  return segments;
+}
+
+function withoutClosingPoint(points: Point[]): Point[] {
+  const closes = points.length > 1 && distanceSquared(points[0], points[points.length - 1]) < EPSILON;
+  return closes ? points.slice(0, -1) : points;
+}
+
+function isCornerJoint(incoming: PathSegment, outgoing: PathSegment): boolean {
+  if (incoming.type === 'L' && outgoing.type === 'L') return false;
+  return turnAngle(tangentAt(incoming, 1), tangentAt(outgoing, 0)) > JOINT_CORNER_ANGLE;
+}
+
+function tangentAt(segment: PathSegment, t: number): Point {
+  const derivative = derivativeAt(segment, t);
+  if (Math.hypot(derivative.x, derivative.y) > EPSILON) return derivative;
+  // Control points on top of an end point: the chord gives the direction
+  return subtract(segment.to, segment.from);
+}
+
+function isDegenerate(segment: PathSegment): boolean {
+  if (segment.type === 'C') {
+    return [segment.c1, segment.c2, segment.to].every(point => distanceSquared(point, segment.from) < EPSILON);
+  }
+  if (segment.type === 'Q') {
+    return [segment.c, segment.to].every(point => distanceSquared(point, segment.from) < EPSILON);
+  }
+  return distanceSquared(segment.from, segment.to) < EPSILON;
+}
+
+function turnAngle(a: Point, b: Point): number {
+  return Math.atan2(Math.abs(a.x * b.y - a.y * b.x), dot(a, b));
+}
+
+function normalize(vector: Point): Point {
+  const length = Math.hypot(vector.x, vector.y);
+  return length > EPSILON ? { x: vector.x / length, y: vector.y / length } : { x: 0, y: 0 };
+}
+
+function subtract(a: Point, b: Point): Point {
+  return { x: a.x - b.x, y: a.y - b.y };
+}
+
+function scale(vector: Point, factor: number): Point {
+  return { x: vector.x * factor, y: vector.y * factor };
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function distanceSquared(a: Point, b: Point): number {
+  return (a.x - b.x) ** 2 + (a.y - b.y) ** 2;
+}
@@ -0,0 +1,228 @@
+import { deflateSync } from 'zlib';
+import { PathSegment } from './pathGeometry';
+import { arcToCubics, elevateQuadratic } from './curveApproximation';
+import { extractShapes, VectorDocument, VectorShape } from './svgShapes';
+import { RGB } from './colorHistogram';
+
+/**
+ * PDF Writer
+ * Writes traced SVG outlines as a single-page PDF 1.5 with the paths kept as vectors.
+ * Every color group becomes an optional content group, so the layers can be switched on
+ * and off in Acrobat and print workflows. The page is the SVG's rendered size at 96 px
+ * to the inch.
+ */
+
+export interface PdfOptions {
+  title?: string;
+}
+
+// PDF points per CSS pixel
+export const POINTS_PER_PIXEL = 72 / 96;
+
+const PRECISION = 3;
+
+// The page transform scales every coordinate, so it keeps more digits
+const TRANSFORM_PRECISION = 6;
+
+/**
+ * Convert an SVG document to PDF bytes
+ */
+export function svgToPdf(svgContent: string, options: PdfOptions = {}): Buffer {
+  const document = extractShapes(svgContent);
+  const { layers } = document;
+  const page = pageSize(document);
+
+  // Object numbers: 1 catalog, 2 pages, 3 page, 4 content, 5 info, then one per layer
+  const layerObject = (index: number) => 6 + index;
+  const layerResource = (index: number) => `OC${index + 1}`;
+
+  const opacityStates = new Map<string, string>();
+  const body: string[] = [pageTransform(document)];
+  let openLayer: string | null = null;
+
+  document.shapes.forEach(shape => {
+    if (shape.layer !== openLayer) {
+      if (openLayer !== null) body.push('EMC');
+      body.push(`/OC /${layerResource(layers.indexOf(shape.layer))} BDC`);
+      openLayer = shape.layer;
+    }
+
+    const fillOpacity = shape.fill ? shape.fillOpacity : 1;
+    const strokeOpacity = shape.stroke ? shape.strokeOpacity : 1;
+    let state: string | null = null;
+    if (fillOpacity < 1 || strokeOpacity < 1) {
+      const key = `${format(fillOpacity)} ${format(strokeOpacity)}`;
+      if (!opacityStates.has(key)) opacityStates.set(key, `GS${opacityStates.size + 1}`);
+      state = opacityStates.get(key)!;
+    }
+
+    body.push('q', ...(state ? [`/${state} gs`] : []), ...paintShape(shape, pathOperators(shape.segments)), 'Q');
+  });
+  if (openLayer !== null) body.push('EMC');
+  body.push('Q');
+
+  const content = deflateSync(Buffer.from(body.join('\n'), 'latin1'));
+
+  const extGState = Array.from(opacityStates.entries())
+    .map(([key, name]) => {
+      const [fill, stroke] = key.split(' ');
+      return `/${name} << /Type /ExtGState /ca ${fill} /CA ${stroke} >>`;
+    })
+    .join(' ');
+  const properties = layers.map((_, index) => `/${layerResource(index)} ${layerObject(index)} 0 R`).join(' ');
+  const layerRefs = layers.map((_, index) => `${layerObject(index)} 0 R`).join(' ');
+  const ocProperties = layers.length > 0
+    ? ` /OCProperties << /OCGs [${layerRefs}] /D << /Order [${layerRefs}] /ON [${layerRefs}] >> >>`
+    : '';
+
+  const objects: (string | Buffer)[] = [
+    `<< /Type /Catalog /Pages 2 0 R${ocProperties} >>`,
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${format(page.width)} ${format(page.height)}] /Contents 4 0 R ` +
+      `/Resources << /Properties << ${properties} >> /ExtGState << ${extGState} >> >> >>`,
+    Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream', 'latin1')
+    ]),
+    `<< /Creator ${pdfString('SVG Converter')}${options.title ? ` /Title ${pdfString(options.title)}` : ''} >>`,
+    ...layers.map(layer => `<< /Type /OCG /Name ${pdfString(layer)} >>`)
+  ];
+
+  return assemble(objects);
+}
+
+/**
+ * Page size in points from the SVG's rendered size
+ */
+export function pageSize({ size }: VectorDocument): { width: number; height: number } {
+  return { width: size.width * POINTS_PER_PIXEL, height: size.height * POINTS_PER_PIXEL };
+}
+
+/**
+ * The "cm" operator that maps the SVG viewBox onto the page: scaled to points and flipped,
+ * since PDF and PostScript put the origin at the bottom left. Opens a graphics state the
+ * caller closes with "Q".
+ */
+export function pageTransform(document: VectorDocument): string {
+  const { viewBox } = document;
+  const page = pageSize(document);
+  const scaleX = page.width / viewBox.width;
+  const scaleY = page.height / viewBox.height;
+  const matrix = [scaleX, 0, 0, -scaleY, -viewBox.x * scaleX, page.height + viewBox.y * scaleY];
+  return `q ${matrix.map(value => format(value, TRANSFORM_PRECISION)).join(' ')} cm`;
+}
+
+/**
+ * Path construction operators (m, l, c, h); the EPS writer defines the same names
+ */
+export function pathOperators(segments: PathSegment[]): string[] {
+  const operators: string[] = [];
+  const point = ({ x, y }: { x: number; y: number }) => `${format(x)} ${format(y)}`;
+  let open = false;
+
+  segments.forEach(segment => {
+    if (segment.type === 'M') {
+      operators.push(`${point(segment.to)} m`);
+      open = true;
+      return;
+    }
+    if (!open) {
+      operators.push(`${point(segment.from)} m`);
+      open = true;
+    }
+    switch (segment.type) {
+      case 'L':
+        operators.push(`${point(segment.to)} l`);
+        break;
+      case 'C':
+        operators.push(`${point(segment.c1)} ${point(segment.c2)} ${point(segment.to)} c`);
+        break;
+      case 'Q': {
+        const cubic = elevateQuadratic(segment);
+        operators.push(`${point(cubic.c1)} ${point(cubic.c2)} ${point(cubic.to)} c`);
+        break;
+      }
+      case 'A':
+        arcToCubics(segment).forEach(cubic => {
+          operators.push(`${point(cubic.c1)} ${point(cubic.c2)} ${point(cubic.to)} c`);
+        });
+        break;
+      case 'Z':
+        operators.push('h');
+        open = false;
+        break;
+    }
+  });
+  return operators;
+}
+
+/**
+ * Color, line width and painting operator for a path. Unclosed subpaths are filled as if
+ * closed, the same as in SVG.
+ */
+function paintShape(shape: VectorShape, path: string[]): string[] {
+  const operators: string[] = [];
+  if (shape.fill) operators.push(`${color(shape.fill)} rg`);
+  if (shape.stroke) operators.push(`${color(shape.stroke)} RG`, `${format(shape.strokeWidth)} w`);
+  operators.push(...path);
+
+  const evenOdd = shape.fillRule === 'evenodd' ? '*' : '';
+  if (shape.fill && shape.stroke) operators.push(`B${evenOdd}`);
+  else if (shape.fill) operators.push(`f${evenOdd}`);
+  else operators.push('S');
+  return operators;
+}
+
+/**
+ * Number the objects in order and add the cross-reference table and trailer
+ */
+function assemble(objects: (string | Buffer)[]): Buffer {
+  // The binary comment marks the file as binary for transfer tools
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.5\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      typeof object === 'string' ? Buffer.from(object, 'latin1') : object,
+      Buffer.from('\nendobj\n', 'latin1')
+    ]);
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(position => `${String(position).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    ''
+  ].join('\n');
+  chunks.push(Buffer.from(xref, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Literal string with the delimiters escaped; characters outside Latin-1 become "?"
+ */
+function pdfString(text: string): string {
+  return `(${text.replace(/[\\()]/g, match => `\\${match}`).replace(/[^\x20-\xff]/g, '?')})`;
+}
+
+function color([r, g, b]: RGB): string {
+  return [r, g, b].map(channel => format(channel / 255)).join(' ');
+}
+
+function format(value: number, precision = PRECISION): string {
+  const rounded = Number(value.toFixed(precision));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
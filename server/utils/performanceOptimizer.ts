@@ -1,4 +1,7 @@
 import { JSDOM } from 'jsdom';
+import polygonClipping, { MultiPolygon, Pair } from 'polygon-clipping';
+import { parsePath, pathBounds, serializePath, PathBounds, PathSegment } from './pathGeometry';
+import { countPathPoints, outlineRings, simplifyOutline, simplifyRings, DEFAULT_SIMPLIFY_TOLERANCE } from './pathSimplification';
 
 /**
  * Performance optimization utilities for animation-ready SVGs
@@ -14,6 +17,7 @@ export interface PerformanceOptions {
   removeRedundantGroups: boolean;
   optimizeForFPS: boolean;
   targetFPS: number; // 60, 30, etc.
+  simplifyTolerance?: number; // Max outline deviation in pixels for simplification and merging (0 disables them)
 }
 
 export interface ComplexityAnalysis {
@@ -25,6 +29,8 @@ export interface ComplexityAnalysis {
   estimatedFPS: number;
   recommendations: string[];
   potentialReduction: number; // Percentage
+  pointCount: number; // Anchor and control points across all paths and polygons
+  visualError?: number; // Max outline deviation in pixels from the original (optimized SVGs only)
 }
 
 export interface OptimizationResult {
@@ -36,6 +42,19 @@ export interface OptimizationResult {
   optimizationsApplied: string[];
 }
 
+// Presentation attributes that must match before two paths can be merged into one
+const MERGE_KEY_ATTRIBUTES = ['fill', 'stroke', 'stroke-width', 'transform', 'class', 'clip-path', 'mask', 'filter'];
+
+// Attributes that define an element's shape, compared when looking for duplicates
+const GEOMETRY_ATTRIBUTES = ['d', 'points', 'x', 'y', 'width', 'height', 'cx', 'cy', 'r', 'rx', 'ry', 'x1', 'y1', 'x2', 'y2'];
+const SHAPE_TAGS = ['path', 'polygon', 'polyline', 'circle', 'ellipse', 'rect', 'line'];
+
+// What an optimization step changed and how far it moved outlines (pixels)
+interface ReductionStep {
+  count: number;
+  maxDeviation: number;
+}
+
 /**
  * Analyze SVG complexity for animation performance
  */
@@ -71,15 +90,8 @@ export function analyzeComplexity(svgContent: string): ComplexityAnalysis {
     complexityScore += Math.min(pathNodes * 3, 30); // Max 30 points from paths
     
     // Analyze path data complexity
-    let pathDataComplexity = 0;
-    svgElement.querySelectorAll('path').forEach(path => {
-      const d = path.getAttribute('d');
-      if (d) {
-        const commands = d.match(/[MLHVCSQTAZ]/gi) || [];
-        pathDataComplexity += commands.length;
-      }
-    });
-    complexityScore += Math.min(pathDataComplexity / 10, 20); // Max 20 points from path complexity
+    const pointCount = countSvgPoints(svgElement);
+    complexityScore += Math.min(pointCount / 30, 20); // Max 20 points from path complexity
 
     // Nested group penalty
     const maxDepth = calculateMaxNestingDepth(svgElement);
@@ -126,8 +138,8 @@ export function analyzeComplexity(svgContent: string): ComplexityAnalysis {
       potentialReduction += 8;
     }
 
-    if (pathDataComplexity > 100) {
-      recommendations.push('Simplify complex path curves');
+    if (pointCount > 300) {
+      recommendations.push(`Simplify complex path curves (${pointCount} points)`);
       potentialReduction += 12;
     }
 
@@ -150,7 +162,8 @@ export function analyzeComplexity(svgContent: string): ComplexityAnalysis {
       complexity,
       estimatedFPS,
       recommendations,
-      potentialReduction: Math.min(potentialReduction, 50) // Cap at 50%
+      potentialReduction: Math.min(potentialReduction, 50), // Cap at 50%
+      pointCount
     };
     
   } catch (error) {
@@ -163,7 +176,8 @@ export function analyzeComplexity(svgContent: string): ComplexityAnalysis {
       complexity: 'low',
       estimatedFPS: 60,
       recommendations: [],
-      potentialReduction: 0
+      potentialReduction: 0,
+      pointCount: 0
     };
   }
 }
@@ -199,35 +213,45 @@ export function optimizeForAnimation(
       }
     }
 
-    // 2. Merge similar paths
-    if (options.mergePaths) {
-      const merged = mergeSimilarPaths(svgElement);
-      if (merged > 0) {
-        optimizationsApplied.push(`Merged ${merged} similar paths`);
-        console.log(`Merged ${merged} similar paths`);
+    // Geometry steps share one tolerance; their worst deviation is the visual error
+    const tolerance = options.simplifyTolerance ?? DEFAULT_SIMPLIFY_TOLERANCE;
+    let visualError = 0;
+
+    // 2. Union adjacent paths that share a fill
+    if (options.mergePaths && tolerance > 0) {
+      const merged = mergeAdjacentPaths(svgElement, tolerance);
+      visualError = Math.max(visualError, merged.maxDeviation);
+      if (merged.count > 0) {
+        optimizationsApplied.push(`Merged ${merged.count} adjacent paths`);
+        console.log(`Merged ${merged.count} adjacent paths`);
       }
     }
 
     // 3. Simplify complex paths
-    if (options.simplifyPaths) {
-      const simplified = simplifyPaths(svgElement);
-      if (simplified > 0) {
-        optimizationsApplied.push(`Simplified ${simplified} complex paths`);
-        console.log(`Simplified ${simplified} complex paths`);
+    if (options.simplifyPaths && tolerance > 0) {
+      const simplified = simplifyPaths(svgElement, tolerance);
+      visualError = Math.max(visualError, simplified.maxDeviation);
+      if (simplified.count > 0) {
+        optimizationsApplied.push(`Simplified ${simplified.count} paths within ${tolerance}px`);
+        console.log(`Simplified ${simplified.count} paths`);
       }
     }
 
     // 4. Aggressive node reduction for target
     if (options.enableNodeReduction && options.targetReduction > 0) {
-      const reduced = aggressiveNodeReduction(svgElement, options.targetReduction);
-      if (reduced > 0) {
-        optimizationsApplied.push(`Removed ${reduced} nodes for ${options.targetReduction}% reduction target`);
-        console.log(`Aggressive reduction: removed ${reduced} nodes`);
+      const reduced = aggressiveNodeReduction(svgElement, options.targetReduction, tolerance);
+      visualError = Math.max(visualError, reduced.maxDeviation);
+      if (reduced.count > 0) {
+        optimizationsApplied.push(`Removed ${reduced.count} nodes for ${options.targetReduction}% reduction target`);
+        console.log(`Aggressive reduction: removed ${reduced.count} nodes`);
       }
     }
 
     optimizedSvg = dom.serialize();
-    const afterAnalysis = analyzeComplexity(optimizedSvg);
+    const afterAnalysis: ComplexityAnalysis = {
+      ...analyzeComplexity(optimizedSvg),
+      visualError: Math.round(visualError * 100) / 100
+    };
     
     const reductionAchieved = Math.round(
       ((beforeAnalysis.totalNodes - afterAnalysis.totalNodes) / beforeAnalysis.totalNodes) * 100
@@ -312,144 +336,306 @@ function removeRedundantGroups(svgElement: Element): number {
 }
 
 /**
- * Merge paths with similar attributes
+ * Union runs of consecutive paths that share a fill into one outline. Only paths that
+ * actually touch or overlap are merged, so paint order and separate shapes are kept.
  */
-function mergeSimilarPaths(svgElement: Element): number {
-  let mergedCount = 0;
-  
-  const paths = Array.from(svgElement.querySelectorAll('path'));
-  const pathGroups = new Map<string, Element[]>();
-  
-  // Group paths by their styling attributes
-  paths.forEach(path => {
-    const key = [
-      path.getAttribute('fill'),
-      path.getAttribute('stroke'),
-      path.getAttribute('stroke-width'),
-      path.getAttribute('opacity')
-    ].join('|');
-    
-    if (!pathGroups.has(key)) {
-      pathGroups.set(key, []);
-    }
-    pathGroups.get(key)!.push(path);
+function mergeAdjacentPaths(svgElement: Element, tolerance: number): ReductionStep {
+  const step: ReductionStep = { count: 0, maxDeviation: 0 };
+  const parents = new Set(Array.from(svgElement.querySelectorAll('path')).map(path => path.parentElement));
+
+  parents.forEach(parent => {
+    if (!parent) return;
+    let run: Element[] = [];
+    let runKey: string | null = null;
+
+    const flush = () => {
+      if (run.length > 1) {
+        const merged = mergeRun(run, tolerance);
+        step.count += merged.count;
+        step.maxDeviation = Math.max(step.maxDeviation, merged.maxDeviation);
+      }
+      run = [];
+    };
+
+    Array.from(parent.children).forEach(child => {
+      const key = child.tagName === 'path' ? mergeKey(child) : null;
+      if (key === null || key !== runKey) flush();
+      runKey = key;
+      if (key !== null) run.push(child);
+    });
+    flush();
   });
-  
-  // Merge paths in each group
-  pathGroups.forEach(group => {
-    if (group.length > 1) {
-      const firstPath = group[0];
-      const combinedPathData = group
-        .map(path => path.getAttribute('d'))
-        .filter(d => d)
-        .join(' ');
-      
-      if (combinedPathData) {
-        firstPath.setAttribute('d', combinedPathData);
-        
-        // Remove other paths
-        for (let i = 1; i < group.length; i++) {
-          group[i].remove();
-          mergedCount++;
-        }
+
+  return step;
+}
+
+/**
+ * Merge the touching paths in a run of same-fill paths
+ */
+function mergeRun(run: Element[], tolerance: number): ReductionStep {
+  const step: ReductionStep = { count: 0, maxDeviation: 0 };
+  const shapes = run.flatMap(path => {
+    const segments = parsePath(path.getAttribute('d') || '');
+    const bounds = pathBounds(segments);
+    const region = fillRegion(segments, path.getAttribute('fill-rule'), tolerance);
+    return bounds && region ? [{ path, segments, bounds, region }] : [];
+  });
+
+  // Cluster shapes whose bounding boxes touch
+  const clusterOf = shapes.map((_, index) => index);
+  const find = (index: number): number => clusterOf[index] === index ? index : (clusterOf[index] = find(clusterOf[index]));
+  for (let i = 0; i < shapes.length; i++) {
+    for (let j = i + 1; j < shapes.length; j++) {
+      if (boundsTouch(shapes[i].bounds, shapes[j].bounds, tolerance)) {
+        clusterOf[find(j)] = find(i);
       }
     }
+  }
+
+  const clusters = new Map<number, typeof shapes>();
+  shapes.forEach((shape, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), shape]);
   });
-  
-  return mergedCount;
+
+  Array.from(clusters.values()).forEach(cluster => {
+    if (cluster.length < 2) return;
+    try {
+      const [first, ...rest] = cluster;
+      const union = polygonClipping.union(first.region, ...rest.map(shape => shape.region));
+
+      // Same number of pieces as went in means nothing touched
+      const inputPolygons = cluster.reduce((total, shape) => total + shape.region.length, 0);
+      if (union.length >= inputPolygons) return;
+
+      const rings = union.flatMap(polygon => polygon.map(ring => ring.map(([x, y]) => ({ x, y }))));
+      const outline = simplifyRings(rings, tolerance);
+      const originalPoints = cluster.reduce((total, shape) => total + countPathPoints(shape.segments), 0);
+      if (countPathPoints(outline.segments) > originalPoints) return;
+
+      // Union rings never overlap, so even-odd fills them correctly whatever their direction
+      first.path.setAttribute('d', compactPathData(outline.segments));
+      first.path.setAttribute('fill-rule', 'evenodd');
+      rest.forEach(shape => shape.path.remove());
+      step.count += rest.length;
+      step.maxDeviation = Math.max(step.maxDeviation, outline.maxDeviation);
+    } catch (error) {
+      // Degenerate outlines can defeat the clipper; leave those paths as they are
+      console.warn('Skipping path merge:', error instanceof Error ? error.message : error);
+    }
+  });
+
+  return step;
 }
 
 /**
- * Simplify complex paths by reducing precision and removing small details
+ * Key shared by paths that can be merged, or null when merging would change how it renders
  */
-function simplifyPaths(svgElement: Element): number {
-  let simplifiedCount = 0;
-  
-  const paths = svgElement.querySelectorAll('path');
+function mergeKey(path: Element): string | null {
+  const fill = path.getAttribute('fill');
+  const stroke = path.getAttribute('stroke');
+  if (fill === 'none' || fill?.startsWith('url(')) return null;
+  // Strokes in the fill color only hide seams; any other stroke would be redrawn differently
+  if (stroke && stroke !== 'none' && stroke !== fill) return null;
+  if (!isOpaque(path) || isDrawOnPath(path)) return null;
+  return MERGE_KEY_ATTRIBUTES.map(name => path.getAttribute(name) ?? '').join('|');
+}
+
+/**
+ * The area a path fills, as polygons. Nonzero paths are only converted when their rings
+ * alternate direction (as traced outlines do), where nonzero and even-odd agree.
+ */
+function fillRegion(segments: PathSegment[], fillRule: string | null, tolerance: number): MultiPolygon | null {
+  const rings = outlineRings(segments, tolerance).map(ring => ring.map(({ x, y }): Pair => [x, y]));
+  if (rings.length === 0) return null;
+  if (fillRule !== 'evenodd' && !nonzeroMatchesEvenOdd(rings)) return null;
+
+  const [first, ...rest] = rings;
+  return polygonClipping.xor([first], ...rest.map(ring => [ring]));
+}
+
+/**
+ * Whether every point's winding number is -1, 0 or 1, checked at one vertex per ring
+ */
+function nonzeroMatchesEvenOdd(rings: Pair[][]): boolean {
+  const directions = rings.map(ring => Math.sign(signedArea(ring)));
+  const bounds = rings.map(ring => ring.reduce(
+    (box, [x, y]) => ({
+      minX: Math.min(box.minX, x),
+      minY: Math.min(box.minY, y),
+      maxX: Math.max(box.maxX, x),
+      maxY: Math.max(box.maxY, y)
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  ));
+
+  return rings.every((ring, i) => {
+    const [x, y] = ring[0];
+    let winding = 0;
+    rings.forEach((other, j) => {
+      const box = bounds[j];
+      if (j !== i && x >= box.minX && x <= box.maxX && y >= box.minY && y <= box.maxY && pointInRing(x, y, other)) {
+        winding += directions[j];
+      }
+    });
+    return Math.abs(winding) <= 1 && Math.abs(winding + directions[i]) <= 1;
+  });
+}
+
+/**
+ * Refit paths to as few points as the tolerance allows
+ */
+function simplifyPaths(svgElement: Element, tolerance: number): ReductionStep {
+  const step: ReductionStep = { count: 0, maxDeviation: 0 };
   
-  paths.forEach(path => {
+  svgElement.querySelectorAll('path').forEach(path => {
     const d = path.getAttribute('d');
-    if (d && d.length > 200) { // Only simplify long paths
-      // Round coordinates to 2 decimal places
-      const simplified = d.replace(/(\d+\.\d{3,})/g, (match) => {
-        return parseFloat(match).toFixed(2);
-      });
-      
-      // Remove tiny movements (less than 0.5 units)
-      const cleaned = simplified.replace(/[lL]\s*[+-]?0?\.?[0-4]\d*\s*[+-]?0?\.?[0-4]\d*/g, '');
-      
-      if (cleaned.length < d.length * 0.8) {
-        path.setAttribute('d', cleaned);
-        simplifiedCount++;
-      }
+    // Draw-on dash lengths were measured on the current outline
+    if (!d || isDrawOnPath(path)) return;
+
+    const segments = parsePath(d);
+    const simplified = simplifyOutline(segments, tolerance);
+    if (countPathPoints(simplified.segments) < countPathPoints(segments)) {
+      path.setAttribute('d', compactPathData(simplified.segments));
+      step.count++;
+      step.maxDeviation = Math.max(step.maxDeviation, simplified.maxDeviation);
     }
   });
   
-  return simplifiedCount;
+  return step;
 }
 
 /**
- * Aggressive node reduction to meet target percentage
+ * Aggressive node reduction to meet target percentage. Removes what changes the picture
+ * least first: empty groups, hidden duplicates, then shapes smaller than the tolerance.
  */
-function aggressiveNodeReduction(svgElement: Element, targetReduction: number): number {
-  let removedCount = 0;
+function aggressiveNodeReduction(svgElement: Element, targetReduction: number, tolerance: number): ReductionStep {
   const allElements = Array.from(svgElement.querySelectorAll('*'));
   const targetRemoval = Math.ceil((allElements.length * targetReduction) / 100);
   
-  // Priority removal order (least important first)
-  const removalCandidates: Element[] = [];
+  // Candidates with the deviation their removal causes (pixels)
+  const removalCandidates = new Map<Element, number>();
+  const addCandidate = (element: Element, deviation: number) => {
+    removalCandidates.set(element, Math.min(deviation, removalCandidates.get(element) ?? Infinity));
+  };
   
   // 1. Empty groups
-  svgElement.querySelectorAll('g:empty').forEach(el => removalCandidates.push(el));
+  svgElement.querySelectorAll('g:empty').forEach(el => addCandidate(el, 0));
   
-  // 2. Very small elements (likely noise)
+  // 2. Duplicate shapes - the copy painted on top hides the earlier ones
+  const lastCopies = new Map<string, Element>();
   allElements.forEach(el => {
-    if (el.tagName === 'circle' || el.tagName === 'rect') {
-      const size = parseFloat(el.getAttribute('width') || el.getAttribute('r') || '0');
-      if (size < 1) {
-        removalCandidates.push(el);
-      }
-    }
-  });
-  
-  // 3. Paths with very short data
-  svgElement.querySelectorAll('path').forEach(path => {
-    const d = path.getAttribute('d');
-    if (d && d.length < 20) {
-      removalCandidates.push(path);
-    }
+    if (!SHAPE_TAGS.includes(el.tagName) || !isOpaque(el)) return;
+    const key = [el.tagName, ...GEOMETRY_ATTRIBUTES, ...MERGE_KEY_ATTRIBUTES]
+      .map(name => el.getAttribute(name) ?? '')
+      .join('|');
+    const earlier = lastCopies.get(key);
+    if (earlier) addCandidate(earlier, 0);
+    lastCopies.set(key, el);
   });
   
-  // 4. Duplicate elements (same tag + position)
-  const positionMap = new Map<string, Element[]>();
+  // 3. Shapes no bigger than the tolerance (likely noise)
   allElements.forEach(el => {
-    const x = el.getAttribute('x') || el.getAttribute('cx') || '0';
-    const y = el.getAttribute('y') || el.getAttribute('cy') || '0';
-    const key = `${el.tagName}-${x}-${y}`;
-    
-    if (!positionMap.has(key)) {
-      positionMap.set(key, []);
+    const size = featureSize(el);
+    if (size !== null && size <= tolerance) {
+      addCandidate(el, size);
     }
-    positionMap.get(key)!.push(el);
   });
   
-  positionMap.forEach(group => {
-    if (group.length > 1) {
-      // Keep first, remove duplicates
-      for (let i = 1; i < group.length; i++) {
-        removalCandidates.push(group[i]);
-      }
+  // Remove candidates up to target, least visible first
+  const toRemove = Array.from(removalCandidates.entries())
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, targetRemoval);
+  toRemove.forEach(([el]) => el.remove());
+  
+  return {
+    count: toRemove.length,
+    maxDeviation: toRemove.reduce((max, [, deviation]) => Math.max(max, deviation), 0)
+  };
+}
+
+/**
+ * Largest dimension of a shape element, or null for elements that are not shapes
+ */
+function featureSize(el: Element): number | null {
+  const attribute = (name: string) => parseFloat(el.getAttribute(name) || '0') || 0;
+  switch (el.tagName) {
+    case 'circle':
+      return attribute('r') * 2;
+    case 'ellipse':
+      return Math.max(attribute('rx'), attribute('ry')) * 2;
+    case 'rect':
+      return Math.max(attribute('width'), attribute('height'));
+    case 'path': {
+      const bounds = pathBounds(el.getAttribute('d') || '');
+      return bounds ? Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) : null;
     }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Points across all paths, polygons and polylines
+ */
+function countSvgPoints(svgElement: Element): number {
+  let count = 0;
+  svgElement.querySelectorAll('path').forEach(path => {
+    count += countPathPoints(parsePath(path.getAttribute('d') || ''));
   });
-  
-  // Remove candidates up to target
-  const toRemove = removalCandidates.slice(0, targetRemoval);
-  toRemove.forEach(el => {
-    el.remove();
-    removedCount++;
+  svgElement.querySelectorAll('polygon, polyline').forEach(shape => {
+    const values = (shape.getAttribute('points') || '').trim().split(/[\s,]+/).filter(Boolean);
+    count += Math.floor(values.length / 2);
   });
-  
-  return removedCount;
+  return count;
+}
+
+/**
+ * Serialize at 2 decimals, in whichever of absolute or relative form is shorter
+ */
+function compactPathData(segments: PathSegment[]): string {
+  const absolute = serializePath(segments, { precision: 2 });
+  const relative = serializePath(segments, { precision: 2, relative: true });
+  return relative.length < absolute.length ? relative : absolute;
+}
+
+function isOpaque(el: Element): boolean {
+  const opaque = (name: string) => {
+    const value = el.getAttribute(name);
+    return value === null || parseFloat(value) >= 1;
+  };
+  return opaque('opacity') && opaque('fill-opacity') && !/opacity/.test(el.getAttribute('style') || '');
+}
+
+function isDrawOnPath(path: Element): boolean {
+  return path.hasAttribute('stroke-dasharray') || path.hasAttribute('data-draw-length');
+}
+
+function boundsTouch(a: PathBounds, b: PathBounds, margin: number): boolean {
+  return a.minX <= b.maxX + margin && b.minX <= a.maxX + margin &&
+    a.minY <= b.maxY + margin && b.minY <= a.maxY + margin;
+}
+
+function signedArea(ring: Pair[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i];
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+function pointInRing(x: number, y: number, ring: Pair[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
 }
 
 /**
@@ -466,12 +652,15 @@ export function generatePerformanceReport(
 ### Before Optimization
 - **Total Nodes:** ${beforeAnalysis.totalNodes}
 - **Path Nodes:** ${beforeAnalysis.pathNodes}
+- **Path Points:** ${beforeAnalysis.pointCount}
 - **Complexity:** ${beforeAnalysis.complexity} (${beforeAnalysis.complexityScore}/100)
 - **Estimated FPS:** ${beforeAnalysis.estimatedFPS}fps
 
 ### After Optimization
 - **Total Nodes:** ${afterAnalysis.totalNodes} (${reductionAchieved}% reduction)
 - **Path Nodes:** ${afterAnalysis.pathNodes}
+- **Path Points:** ${afterAnalysis.pointCount}
+- **Max Deviation:** ${afterAnalysis.visualError ?? 0}px
 - **Complexity:** ${afterAnalysis.complexity} (${afterAnalysis.complexityScore}/100)
 - **Estimated FPS:** ${afterAnalysis.estimatedFPS}fps
 
@@ -479,6 +668,7 @@ export function generatePerformanceReport(
 - **FPS Improvement:** +${afterAnalysis.estimatedFPS - beforeAnalysis.estimatedFPS}fps
 - **Complexity Reduction:** -${beforeAnalysis.complexityScore - afterAnalysis.complexityScore} points
 - **Node Reduction:** ${reductionAchieved}% fewer elements
+- **Point Reduction:** ${beforeAnalysis.pointCount - afterAnalysis.pointCount} fewer points
 
 ### Recommendations
 ${afterAnalysis.recommendations.length > 0 ? 
@@ -0,0 +1,285 @@
+import sharp from 'sharp';
+import {
+  preparePotraceBitmap,
+  prepareColorBitmap,
+  otsuThreshold,
+  AlphaMaskOptions,
+  ThresholdOptions,
+  OPAQUE_ALPHA
+} from './alphaMask';
+
+/**
+ * Image Preprocessing
+ * Optional clean-up applied to the normalized PNG before tracing: crop, rotation and
+ * deskew, upscaling of tiny inputs, median denoise, levels/contrast and posterize.
+ * The stages run in that order; each one is skipped when its option is unset.
+ */
+
+export interface PreprocessingOptions extends AlphaMaskOptions, ThresholdOptions {
+  crop?: string; // "left,top,width,height" in source pixels
+  rotation?: number; // Degrees clockwise
+  deskew?: boolean; // Detect and undo small rotations of scanned text and line art
+  upscaleTo?: number; // Upscale until the long side reaches this many pixels, 0 = off
+  denoise?: number; // Median filter size in pixels, 0 = off
+  autoLevels?: boolean; // Stretch luminance so the darkest and lightest pixels reach black and white
+  blackPoint?: number; // 0-255, levels input black
+  whitePoint?: number; // 0-255, levels input white
+  contrast?: number; // Multiplier around mid-gray, 1 = unchanged
+  posterize?: number; // Levels per channel, 0 = off
+}
+
+// Largest upscale target; processImageBuffer rejects anything bigger anyway
+const MAX_UPSCALE_SIZE = 4096;
+
+// Median filters larger than this are slow and wipe out detail
+const MAX_DENOISE_SIZE = 15;
+
+// Deskew search range and precision (degrees)
+const MAX_SKEW = 15;
+const COARSE_SKEW_STEP = 1;
+const FINE_SKEW_STEP = 0.1;
+
+// Deskew runs on a copy no larger than this
+const SKEW_ANALYSIS_SIZE = 600;
+
+// Share of pixels clipped at each end by auto levels
+const AUTO_LEVELS_CLIP = 0.005;
+
+// New corners from rotation are transparent, so the alpha mask keeps them out of the trace
+const TRANSPARENT = { r: 255, g: 255, b: 255, alpha: 0 };
+
+/**
+ * Whether any preprocessing stage is switched on
+ */
+export function hasPreprocessing(options: PreprocessingOptions): boolean {
+  return hasGeometry(options) || !!options.denoise || hasToneAdjustment(options);
+}
+
+/**
+ * Whether the preprocessing moves pixels (crop, rotate, deskew, upscale), in which case the
+ * traced output no longer lines up with the original image
+ */
+export function hasGeometry(options: PreprocessingOptions): boolean {
+  return !!options.crop || !!options.rotation || !!options.deskew || !!options.upscaleTo;
+}
+
+function hasToneAdjustment(options: PreprocessingOptions): boolean {
+  return !!options.autoLevels ||
+    (options.blackPoint ?? 0) > 0 ||
+    (options.whitePoint ?? 255) < 255 ||
+    (options.contrast ?? 1) !== 1 ||
+    (options.posterize ?? 0) >= 2;
+}
+
+/**
+ * Run the enabled stages on a normalized PNG. With geometryOnly, only crop, rotation,
+ * deskew and upscaling run - the framing the traced output is measured against.
+ */
+export async function preprocessImage(
+  pngBuffer: Buffer,
+  options: PreprocessingOptions,
+  { geometryOnly = false }: { geometryOnly?: boolean } = {}
+): Promise<Buffer> {
+  if (!(geometryOnly ? hasGeometry(options) : hasPreprocessing(options))) return pngBuffer;
+
+  let buffer = pngBuffer;
+
+  if (options.crop) {
+    buffer = await cropImage(buffer, options.crop);
+  }
+
+  let angle = options.rotation ?? 0;
+  if (options.deskew) {
+    const skew = await estimateSkew(buffer);
+    console.log(`Estimated skew: ${skew.toFixed(1)} degrees`);
+    angle -= skew;
+  }
+  if (Math.abs(angle) > 1e-3) {
+    buffer = await sharp(buffer).rotate(angle, { background: TRANSPARENT }).png().toBuffer();
+  }
+
+  if (options.upscaleTo) {
+    const target = Math.min(MAX_UPSCALE_SIZE, options.upscaleTo);
+    const { width = 0, height = 0 } = await sharp(buffer).metadata();
+    if (Math.max(width, height) < target) {
+      buffer = await sharp(buffer)
+        .resize(target, target, { fit: 'inside', kernel: 'lanczos3' })
+        .png()
+        .toBuffer();
+    }
+  }
+
+  if (geometryOnly) return buffer;
+
+  if (options.denoise && options.denoise >= 3) {
+    // Median windows are odd
+    const size = Math.min(MAX_DENOISE_SIZE, Math.floor(options.denoise / 2) * 2 + 1);
+    buffer = await sharp(buffer).median(size).png().toBuffer();
+  }
+
+  if (hasToneAdjustment(options)) {
+    buffer = await adjustTone(buffer, options);
+  }
+
+  return buffer;
+}
+
+/**
+ * Preprocess and then build the bitmap the engine traces: a black and white bitmap for
+ * potrace, alpha-snapped RGBA for the color engines
+ */
+export async function prepareTracerInput(
+  pngBuffer: Buffer,
+  engine: 'potrace' | 'imagetracer' | 'potrace-color',
+  options: PreprocessingOptions
+): Promise<Buffer> {
+  const preprocessed = await preprocessImage(pngBuffer, options);
+  return engine === 'potrace'
+    ? preparePotraceBitmap(preprocessed, options)
+    : prepareColorBitmap(preprocessed, options);
+}
+
+/**
+ * Parse "left,top,width,height" and cut that region, clamped to the image
+ */
+async function cropImage(buffer: Buffer, crop: string): Promise<Buffer> {
+  const [left, top, width, height] = crop.split(',').map(value => Math.round(Number(value)));
+  if ([left, top, width, height].some(value => !Number.isFinite(value))) {
+    throw new Error(`Invalid crop "${crop}" - expected left,top,width,height`);
+  }
+
+  const metadata = await sharp(buffer).metadata();
+  const region = {
+    left: Math.max(0, Math.min(left, metadata.width! - 1)),
+    top: Math.max(0, Math.min(top, metadata.height! - 1)),
+    width: 0,
+    height: 0
+  };
+  region.width = Math.min(width, metadata.width! - region.left);
+  region.height = Math.min(height, metadata.height! - region.top);
+  if (region.width <= 0 || region.height <= 0) {
+    throw new Error(`Crop "${crop}" is empty`);
+  }
+
+  return sharp(buffer).extract(region).png().toBuffer();
+}
+
+/**
+ * Levels (auto or manual black/white points), contrast around mid-gray and posterize,
+ * in a single pass over the color channels; alpha is left alone
+ */
+async function adjustTone(buffer: Buffer, options: PreprocessingOptions): Promise<Buffer> {
+  const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+
+  let blackPoint = options.blackPoint ?? 0;
+  let whitePoint = options.whitePoint ?? 255;
+  if (options.autoLevels) {
+    [blackPoint, whitePoint] = luminancePercentiles(data, AUTO_LEVELS_CLIP);
+  }
+  const range = Math.max(1, whitePoint - blackPoint);
+  const contrast = options.contrast ?? 1;
+  const levels = options.posterize && options.posterize >= 2 ? Math.min(256, Math.round(options.posterize)) : 0;
+
+  // Every channel value maps the same way, so build the curve once
+  const curve = new Uint8Array(256);
+  for (let value = 0; value < 256; value++) {
+    let adjusted = ((value - blackPoint) / range) * 255;
+    adjusted = (adjusted - 128) * contrast + 128;
+    adjusted = Math.max(0, Math.min(255, adjusted));
+    if (levels) {
+      adjusted = (Math.round((adjusted / 255) * (levels - 1)) * 255) / (levels - 1);
+    }
+    curve[value] = Math.round(adjusted);
+  }
+
+  for (let offset = 0; offset < data.length; offset += 4) {
+    data[offset] = curve[data[offset]];
+    data[offset + 1] = curve[data[offset + 1]];
+    data[offset + 2] = curve[data[offset + 2]];
+  }
+
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: 4 } }).png().toBuffer();
+}
+
+/**
+ * Luminance values below which the given share of opaque pixels fall, from each end
+ */
+function luminancePercentiles(rgba: Buffer, clip: number): [number, number] {
+  const histogram = new Uint32Array(256);
+  let total = 0;
+  for (let offset = 0; offset < rgba.length; offset += 4) {
+    if (rgba[offset + 3] < OPAQUE_ALPHA) continue;
+    histogram[Math.round(0.299 * rgba[offset] + 0.587 * rgba[offset + 1] + 0.114 * rgba[offset + 2])]++;
+    total++;
+  }
+  if (total === 0) return [0, 255];
+
+  const clipped = total * clip;
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= clipped; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > 0 && count + histogram[high] <= clipped; high--) count += histogram[high];
+  return high > low ? [low, high] : [0, 255];
+}
+
+/**
+ * Skew angle (degrees, clockwise positive) of text lines or ruled artwork: the rotation
+ * under which the dark pixels pile up into the sharpest rows (projection profile)
+ */
+async function estimateSkew(buffer: Buffer): Promise<number> {
+  const { data, info } = await sharp(buffer)
+    .resize(SKEW_ANALYSIS_SIZE, SKEW_ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const luminance = new Float32Array(width * height);
+  for (let pixel = 0; pixel < luminance.length; pixel++) {
+    const offset = pixel * 4;
+    luminance[pixel] = data[offset + 3] < OPAQUE_ALPHA
+      ? 255
+      : 0.2126 * data[offset] + 0.7152 * data[offset + 1] + 0.0722 * data[offset + 2];
+  }
+  const threshold = otsuThreshold(luminance, data);
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  luminance.forEach((value, pixel) => {
+    if (value < threshold) {
+      xs.push(pixel % width);
+      ys.push(Math.floor(pixel / width));
+    }
+  });
+  if (xs.length === 0) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const sharpness = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float64Array(diagonal * 2 + 1);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.round(ys[i] * cos - xs[i] * sin) + diagonal]++;
+    }
+    let sumOfSquares = 0;
+    rows.forEach(count => { sumOfSquares += count * count; });
+    return sumOfSquares;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let best = 0;
+    let bestScore = -1;
+    for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+      const score = sharpness(degrees);
+      if (score > bestScore) {
+        bestScore = score;
+        best = degrees;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW, MAX_SKEW, COARSE_SKEW_STEP);
+  return search(coarse - COARSE_SKEW_STEP, coarse + COARSE_SKEW_STEP, FINE_SKEW_STEP);
+}
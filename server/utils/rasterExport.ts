@@ -0,0 +1,237 @@
+import sharp from 'sharp';
+import { createZipArchive, ZipEntry } from './zipArchive';
+
+/**
+ * Raster Export
+ * Renders the finished SVG back to PNG or WebP at any size. Rendering happens at the target
+ * resolution rather than scaling a bitmap, so every size comes out sharp. Several sizes, or
+ * the app icon set, are bundled into one ZIP.
+ */
+
+export type RasterFormat = 'png' | 'webp';
+
+export type RasterMode = 'scales' | 'sizes' | 'iconSet';
+
+export interface RasterOptions {
+  format?: RasterFormat;
+  mode?: RasterMode;
+  scales?: number[]; // Multiples of the SVG's own size, for mode 'scales'
+  sizes?: string[]; // "512" (width) or "512x256" (box), for mode 'sizes'
+  padding?: number; // Percent of the short side left empty on every edge
+  background?: string; // Hex color, or "transparent"
+}
+
+export interface RasterExport {
+  data: Buffer;
+  mimeType: string;
+  extension: string;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface RasterTarget {
+  name: string;
+  width: number;
+  height: number;
+  opaque?: boolean; // Never transparent, whatever the background option says
+}
+
+// Largest side rendered, to keep memory in check
+export const MAX_RASTER_SIZE = 8192;
+
+// Largest padding; more would leave nothing to draw
+const MAX_PADDING = 40;
+
+// sharp renders SVGs at 72 dpi by default, where one SVG pixel is one output pixel
+const SVG_BASE_DENSITY = 72;
+const MAX_SVG_DENSITY = 2400;
+
+// Sizes bundled in favicon.ico
+const FAVICON_SIZES = [16, 32, 48];
+
+// Android launcher icon sizes per density bucket
+const ANDROID_MIPMAPS: Record<string, number> = {
+  mdpi: 48,
+  hdpi: 72,
+  xhdpi: 96,
+  xxhdpi: 144,
+  xxxhdpi: 192
+};
+
+const APPLE_TOUCH_ICON_SIZE = 180;
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+/**
+ * Render an SVG at every requested size. One size comes back as the image itself,
+ * several (and the icon set) as a ZIP.
+ */
+export async function rasterizeSvg(svg: string, options: RasterOptions = {}): Promise<RasterExport> {
+  const format = options.format ?? 'png';
+  const svgBuffer = Buffer.from(svg);
+  const { width = 0, height = 0 } = await sharp(svgBuffer).metadata();
+  if (!width || !height) {
+    throw new Error('SVG has no size to render at');
+  }
+
+  const intrinsic = { width, height };
+
+  if (options.mode === 'iconSet') {
+    return renderIconSet(svgBuffer, intrinsic, options);
+  }
+
+  // One at a time: large sizes take a lot of memory each
+  const targets = rasterTargets(intrinsic, options, format);
+  const images: Buffer[] = [];
+  for (const target of targets) {
+    images.push(await renderImage(svgBuffer, intrinsic, target, options, format));
+  }
+
+  if (images.length === 1) {
+    return { data: images[0], mimeType: MIME_TYPES[format], extension: format };
+  }
+  return {
+    data: createZipArchive(targets.map((target, index) => ({ name: target.name, data: images[index] }))),
+    mimeType: 'application/zip',
+    extension: 'zip'
+  };
+}
+
+/**
+ * Whether the options produce a ZIP rather than a single image
+ */
+export function isRasterBundle(options: RasterOptions): boolean {
+  if (options.mode === 'iconSet') return true;
+  const list = options.mode === 'sizes' ? options.sizes : options.scales;
+  return (list?.length ?? 0) > 1;
+}
+
+/**
+ * Output sizes for the scales or sizes mode; @1x when nothing is given
+ */
+function rasterTargets({ width, height }: Size, options: RasterOptions, format: RasterFormat): RasterTarget[] {
+  const limit = (value: number) => Math.max(1, Math.min(MAX_RASTER_SIZE, Math.round(value)));
+
+  if (options.mode === 'sizes' && options.sizes?.length) {
+    return options.sizes.map(size => {
+      const match = size.trim().match(/^(\d+)(?:x(\d+))?$/i);
+      if (!match) {
+        throw new Error(`Invalid raster size "${size}" - expected a width or WIDTHxHEIGHT`);
+      }
+      const boxWidth = limit(parseInt(match[1]));
+      const boxHeight = match[2] ? limit(parseInt(match[2])) : limit((boxWidth * height) / width);
+      return { name: `image-${boxWidth}x${boxHeight}.${format}`, width: boxWidth, height: boxHeight };
+    });
+  }
+
+  const scales = options.scales?.filter(scale => scale > 0) ?? [];
+  return (scales.length ? scales : [1]).map(scale => ({
+    name: `image@${scale}x.${format}`,
+    width: limit(width * scale),
+    height: limit(height * scale)
+  }));
+}
+
+/**
+ * Render the SVG centered in a width x height box, inside the padding
+ */
+async function renderImage(
+  svgBuffer: Buffer,
+  intrinsic: Size,
+  target: RasterTarget,
+  options: RasterOptions,
+  format: RasterFormat
+): Promise<Buffer> {
+  const padding = Math.round((Math.min(target.width, target.height) * Math.max(0, Math.min(MAX_PADDING, options.padding ?? 0))) / 100);
+  const innerWidth = Math.max(1, target.width - padding * 2);
+  const innerHeight = Math.max(1, target.height - padding * 2);
+
+  // Render at least as large as the box so the resize only ever scales down
+  const scale = Math.max(innerWidth / intrinsic.width, innerHeight / intrinsic.height);
+  const density = Math.min(MAX_SVG_DENSITY, Math.max(1, SVG_BASE_DENSITY * scale));
+  const background = parseBackground(options.background, target.opaque);
+
+  // sharp flattens before it resizes and extends, so the added margins take the color directly
+  let image = sharp(svgBuffer, { density })
+    .resize(innerWidth, innerHeight, { fit: 'contain', background: background ?? TRANSPARENT })
+    .extend({
+      top: padding,
+      bottom: target.height - innerHeight - padding,
+      left: padding,
+      right: target.width - innerWidth - padding,
+      background: background ?? TRANSPARENT
+    });
+  if (background) {
+    image = image.flatten({ background });
+  }
+
+  return format === 'webp'
+    ? image.webp({ lossless: true }).toBuffer()
+    : image.png().toBuffer();
+}
+
+/**
+ * favicon.ico, the Apple touch icon and the Android launcher mipmaps, in one ZIP. Icons are
+ * always PNG, and iOS fills transparent touch icons with black, so that one is always opaque.
+ */
+async function renderIconSet(svgBuffer: Buffer, intrinsic: Size, options: RasterOptions): Promise<RasterExport> {
+  const square = (name: string, size: number, opaque = false): RasterTarget => ({ name, width: size, height: size, opaque });
+  const render = (target: RasterTarget) => renderImage(svgBuffer, intrinsic, target, options, 'png');
+
+  const favicons = await Promise.all(FAVICON_SIZES.map(size => render(square(`favicon-${size}x${size}.png`, size))));
+  const entries: ZipEntry[] = [
+    { name: 'favicon.ico', data: createIco(favicons.map((data, index) => ({ size: FAVICON_SIZES[index], data }))) },
+    ...favicons.slice(0, 2).map((data, index) => ({ name: `favicon-${FAVICON_SIZES[index]}x${FAVICON_SIZES[index]}.png`, data })),
+    { name: 'apple-touch-icon.png', data: await render(square('apple-touch-icon.png', APPLE_TOUCH_ICON_SIZE, true)) }
+  ];
+  for (const [density, size] of Object.entries(ANDROID_MIPMAPS)) {
+    const name = `android/mipmap-${density}/ic_launcher.png`;
+    entries.push({ name, data: await render(square(name, size)) });
+  }
+
+  return { data: createZipArchive(entries), mimeType: 'application/zip', extension: 'zip' };
+}
+
+/**
+ * ICO file holding PNG images, which every browser since IE9 reads
+ */
+export function createIco(images: { size: number; data: Buffer }[]): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16LE(0, 0); // Reserved
+  header.writeUInt16LE(1, 2); // Icon
+  header.writeUInt16LE(images.length, 4);
+
+  const directory = Buffer.alloc(16 * images.length);
+  let offset = header.length + directory.length;
+  images.forEach(({ size, data }, index) => {
+    const entry = index * 16;
+    // 0 stands for 256 pixels
+    directory.writeUInt8(size >= 256 ? 0 : size, entry);
+    directory.writeUInt8(size >= 256 ? 0 : size, entry + 1);
+    directory.writeUInt8(0, entry + 2); // No palette
+    directory.writeUInt8(0, entry + 3);
+    directory.writeUInt16LE(1, entry + 4); // Color planes
+    directory.writeUInt16LE(32, entry + 6); // Bits per pixel
+    directory.writeUInt32LE(data.length, entry + 8);
+    directory.writeUInt32LE(offset, entry + 12);
+    offset += data.length;
+  });
+
+  return Buffer.concat([header, directory, ...images.map(image => image.data)]);
+}
+
+/**
+ * The flatten color, or null to keep transparency
+ */
+function parseBackground(background: string | undefined, opaque = false): string | null {
+  if (background && background !== 'transparent') return background;
+  return opaque ? '#ffffff' : null;
+}
@@ -0,0 +1,495 @@
+import { JSDOM } from 'jsdom';
+import { parsePath, flattenSegmentAdaptive, serializePath, PathSegment, Point } from './pathGeometry';
+
+/**
+ * Stroke-to-Fill Expansion
+ * Replaces stroked geometry with filled outlines (honoring width, joins, miter limit and caps)
+ * for laser cutters and renderers that can't draw strokes
+ */
+
+export interface StrokeStyle {
+  width: number;
+  lineJoin: 'miter' | 'round' | 'bevel';
+  lineCap: 'butt' | 'round' | 'square';
+  miterLimit: number;
+}
+
+export interface StrokeExpansionOptions {
+  // Keep the original stroke color and width as data attributes on the outline
+  recordOriginalStroke?: boolean;
+}
+
+interface Polyline {
+  points: Point[];
+  closed: boolean;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const STROKED_ELEMENTS = 'path, line, polyline, polygon, rect, circle, ellipse';
+
+// SVG defaults for the stroke properties
+const DEFAULT_MITER_LIMIT = 4;
+
+// Chord error allowed when flattening curves and round joins, relative to the stroke width
+const FLATTEN_RATIO = 0.05;
+const MIN_FLATTEN_TOLERANCE = 0.005;
+const MAX_FLATTEN_TOLERANCE = 0.1;
+
+const EPSILON = 1e-9;
+
+/**
+ * Outline of a stroke as fill path data. Every outline is wound the same way, so the
+ * result must be filled with fill-rule="nonzero".
+ */
+export function outlineStroke(pathData: string | PathSegment[], style: StrokeStyle): string {
+  if (!(style.width > 0)) return '';
+
+  const tolerance = Math.min(MAX_FLATTEN_TOLERANCE, Math.max(MIN_FLATTEN_TOLERANCE, style.width * FLATTEN_RATIO));
+  const segments = typeof pathData === 'string' ? parsePath(pathData) : pathData;
+  const loops = flattenSubpaths(segments, tolerance).flatMap(line => strokePolyline(line, style, tolerance));
+  return loopsToPathData(loops);
+}
+
+/**
+ * Expand every stroke in an SVG document into a filled outline
+ */
+export function expandStrokesToFills(svgContent: string, options: StrokeExpansionOptions = {}): string {
+  try {
+    const dom = new JSDOM(svgContent);
+    const svgElement = dom.window.document.querySelector('svg');
+    if (!svgElement) return svgContent;
+
+    const expanded = expandElementStrokes(svgElement, options);
+    console.log(`Expanded ${expanded} strokes to filled outlines`);
+    return svgElement.outerHTML;
+  } catch (error) {
+    console.error('Error expanding strokes to fills:', error);
+    return svgContent;
+  }
+}
+
+/**
+ * Expand strokes in place. Shapes that are also filled keep their fill and get the
+ * outline drawn on top; stroke-only shapes are replaced by their outline.
+ * Returns the number of strokes expanded.
+ */
+export function expandElementStrokes(svgElement: Element, options: StrokeExpansionOptions = {}): number {
+  let expanded = 0;
+
+  Array.from(svgElement.querySelectorAll(STROKED_ELEMENTS)).forEach(element => {
+    if (element.closest('defs, clipPath, mask, marker, pattern, symbol')) return;
+
+    const stroke = resolveProperty(element, 'stroke');
+    if (!stroke || stroke === 'none' || stroke === 'transparent') return;
+
+    const pathData = shapeToPathData(element);
+    const style = resolveStrokeStyle(element);
+    const outline = pathData ? outlineStroke(pathData, style) : '';
+
+    const fill = resolveProperty(element, 'fill') ?? 'black';
+    const keepShape = fill !== 'none' && fill !== 'transparent';
+
+    if (outline) {
+      const outlinePath = element.ownerDocument.createElementNS(SVG_NS, 'path');
+      outlinePath.setAttribute('d', outline);
+      outlinePath.setAttribute('fill', stroke);
+      outlinePath.setAttribute('fill-rule', 'nonzero');
+      outlinePath.setAttribute('stroke', 'none');
+
+      const strokeOpacity = resolveProperty(element, 'stroke-opacity');
+      if (strokeOpacity && strokeOpacity !== '1') outlinePath.setAttribute('fill-opacity', strokeOpacity);
+      for (const attribute of ['transform', 'opacity']) {
+        const value = element.getAttribute(attribute);
+        if (value) outlinePath.setAttribute(attribute, value);
+      }
+      if (!keepShape) {
+        // The outline takes over the shape's identity for animation targeting
+        for (const attribute of ['id', 'class']) {
+          const value = element.getAttribute(attribute);
+          if (value) outlinePath.setAttribute(attribute, value);
+        }
+      }
+      if (options.recordOriginalStroke) {
+        outlinePath.setAttribute('data-original-stroke', stroke);
+        outlinePath.setAttribute('data-original-stroke-width', String(style.width));
+      }
+
+      element.parentNode?.insertBefore(outlinePath, element.nextSibling);
+      expanded++;
+    }
+
+    if (keepShape) {
+      clearStroke(element);
+    } else {
+      element.remove();
+    }
+  });
+
+  return expanded;
+}
+
+/**
+ * Path data for any basic shape element
+ */
+export function shapeToPathData(element: Element): string | null {
+  const number = (name: string) => parseFloat(element.getAttribute(name) || '0') || 0;
+
+  switch (element.tagName.toLowerCase()) {
+    case 'path':
+      return element.getAttribute('d');
+    case 'line':
+      return `M${number('x1')} ${number('y1')}L${number('x2')} ${number('y2')}`;
+    case 'polyline':
+    case 'polygon': {
+      const values = (element.getAttribute('points') || '').trim().split(/[\s,]+/).map(parseFloat);
+      const pairs: string[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        if (isNaN(values[i]) || isNaN(values[i + 1])) break;
+        pairs.push(`${values[i]} ${values[i + 1]}`);
+      }
+      if (pairs.length === 0) return null;
+      return `M${pairs.join('L')}${element.tagName.toLowerCase() === 'polygon' ? 'Z' : ''}`;
+    }
+    case 'rect': {
+      const x = number('x');
+      const y = number('y');
+      const width = number('width');
+      const height = number('height');
+      if (width <= 0 || height <= 0) return null;
+
+      // A missing radius takes the other one; both are capped at half the side
+      let rx = element.hasAttribute('rx') ? number('rx') : number('ry');
+      let ry = element.hasAttribute('ry') ? number('ry') : number('rx');
+      rx = Math.min(Math.max(0, rx), width / 2);
+      ry = Math.min(Math.max(0, ry), height / 2);
+      if (rx === 0 || ry === 0) {
+        return `M${x} ${y}H${x + width}V${y + height}H${x}Z`;
+      }
+      return `M${x + rx} ${y}H${x + width - rx}A${rx} ${ry} 0 0 1 ${x + width} ${y + ry}` +
+        `V${y + height - ry}A${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}` +
+        `H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + height - ry}` +
+        `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = number('cx');
+      const cy = number('cy');
+      const rx = element.tagName.toLowerCase() === 'circle' ? number('r') : number('rx');
+      const ry = element.tagName.toLowerCase() === 'circle' ? number('r') : number('ry');
+      if (rx <= 0 || ry <= 0) return null;
+      return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read the stroke geometry properties, following inheritance through ancestor groups
+ */
+function resolveStrokeStyle(element: Element): StrokeStyle {
+  const width = parseFloat(resolveProperty(element, 'stroke-width') ?? '1');
+  const lineJoin = resolveProperty(element, 'stroke-linejoin');
+  const lineCap = resolveProperty(element, 'stroke-linecap');
+  const miterLimit = parseFloat(resolveProperty(element, 'stroke-miterlimit') ?? '');
+
+  return {
+    width: isNaN(width) ? 1 : width,
+    // miter-clip and arcs fall back to miter, as in browsers without SVG 2 joins
+    lineJoin: lineJoin === 'round' || lineJoin === 'bevel' ? lineJoin : 'miter',
+    lineCap: lineCap === 'round' || lineCap === 'square' ? lineCap : 'butt',
+    miterLimit: miterLimit >= 1 ? miterLimit : DEFAULT_MITER_LIMIT
+  };
+}
+
+/**
+ * Resolve a presentation property from style or attribute, walking up to the root svg
+ */
+export function resolveProperty(element: Element, property: string): string | null {
+  let current: Element | null = element;
+  while (current) {
+    const style = current.getAttribute('style') || '';
+    const styleMatch = style.match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`));
+    const value = styleMatch ? styleMatch[1].trim() : current.getAttribute(property);
+    if (value && value !== 'inherit') return value;
+    if (current.tagName.toLowerCase() === 'svg') break;
+    current = current.parentElement;
+  }
+  return null;
+}
+
+function clearStroke(element: Element) {
+  const style = element.getAttribute('style');
+  if (style) {
+    const cleaned = style.replace(/(?:^|;)\s*stroke[\w-]*\s*:[^;]*/g, '').replace(/^;\s*/, '');
+    if (cleaned.trim()) {
+      element.setAttribute('style', cleaned);
+    } else {
+      element.removeAttribute('style');
+    }
+  }
+  for (const attribute of ['stroke-width', 'stroke-linejoin', 'stroke-linecap', 'stroke-miterlimit',
+    'stroke-opacity', 'stroke-dasharray', 'stroke-dashoffset', 'vector-effect']) {
+    element.removeAttribute(attribute);
+  }
+  // Explicit none so a stroke on an ancestor group isn't inherited
+  element.setAttribute('stroke', 'none');
+}
+
+/**
+ * Flatten path segments into polylines, one per subpath
+ */
+function flattenSubpaths(segments: PathSegment[], tolerance: number): Polyline[] {
+  const polylines: Polyline[] = [];
+  let current: Point[] | null = null;
+
+  const finish = (closed: boolean) => {
+    if (current) polylines.push(cleanPolyline(current, closed));
+    current = null;
+  };
+
+  for (const segment of segments) {
+    if (segment.type === 'M') {
+      finish(false);
+      current = [segment.to];
+      continue;
+    }
+
+    const points: Point[] = current ?? [segment.from];
+    current = points;
+    if (segment.type === 'Z') {
+      finish(true);
+    } else if (segment.type === 'L') {
+      points.push(segment.to);
+    } else {
+      points.push(...flattenSegmentAdaptive(segment, tolerance));
+    }
+  }
+
+  finish(false);
+  return polylines;
+}
+
+function cleanPolyline(points: Point[], closed: boolean): Polyline {
+  const cleaned: Point[] = [];
+  for (const point of points) {
+    const last = cleaned[cleaned.length - 1];
+    if (!last || distance(last, point) > EPSILON) cleaned.push(point);
+  }
+  if (closed && cleaned.length > 1 && distance(cleaned[0], cleaned[cleaned.length - 1]) <= EPSILON) {
+    cleaned.pop();
+  }
+  return { points: cleaned, closed };
+}
+
+/**
+ * Outline loops for one polyline. Stroke bands always have negative signed area, so
+ * overlapping pieces add up under the nonzero rule instead of cancelling out.
+ */
+function strokePolyline(line: Polyline, style: StrokeStyle, tolerance: number): Point[][] {
+  const half = style.width / 2;
+  const { points } = line;
+
+  if (points.length === 1) {
+    return zeroLengthCap(points[0], half, style.lineCap, tolerance);
+  }
+
+  if (line.closed && points.length > 2) {
+    const left: Point[] = [];
+    const right: Point[] = [];
+    const count = points.length;
+    for (let i = 0; i < count; i++) {
+      const prev = points[(i - 1 + count) % count];
+      const next = points[(i + 1) % count];
+      appendJoin(left, prev, points[i], next, 1, half, style, tolerance);
+      appendJoin(right, prev, points[i], next, -1, half, style, tolerance);
+    }
+    return [left, right.reverse()];
+  }
+
+  // Open polylines (and closed two-point ones, which draw a line there and back)
+  const path = line.closed ? [points[0], points[1], points[0]] : points;
+  const last = path.length - 1;
+  const startDirection = unit(path[0], path[1]);
+  const endDirection = unit(path[last - 1], path[last]);
+
+  const left: Point[] = [offset(path[0], normal(startDirection), half)];
+  const right: Point[] = [offset(path[0], normal(startDirection), -half)];
+  for (let i = 1; i < last; i++) {
+    appendJoin(left, path[i - 1], path[i], path[i + 1], 1, half, style, tolerance);
+    appendJoin(right, path[i - 1], path[i], path[i + 1], -1, half, style, tolerance);
+  }
+  const leftEnd = offset(path[last], normal(endDirection), half);
+  const rightEnd = offset(path[last], normal(endDirection), -half);
+  left.push(leftEnd);
+  right.push(rightEnd);
+
+  const outline = [
+    ...left,
+    ...capPoints(path[last], leftEnd, rightEnd, endDirection, half, style.lineCap, tolerance),
+    ...right.reverse(),
+    ...capPoints(path[0], right[right.length - 1], left[0], scale(startDirection, -1), half, style.lineCap, tolerance)
+  ];
+  return [outline];
+}
+
+/**
+ * Add the offset points for the corner at `point` on one side of the stroke
+ */
+function appendJoin(
+  out: Point[],
+  prev: Point, point: Point, next: Point,
+  side: 1 | -1,
+  half: number,
+  style: StrokeStyle,
+  tolerance: number
+) {
+  const d0 = unit(prev, point);
+  const d1 = unit(point, next);
+  const n0 = normal(d0);
+  const n1 = normal(d1);
+  const a = offset(point, n0, side * half);
+  const b = offset(point, n1, side * half);
+  const cross = d0.x * d1.y - d0.y * d1.x;
+  const dot = d0.x * d1.x + d0.y * d1.y;
+
+  // Straight through
+  if (Math.abs(cross) < EPSILON && dot > 0) {
+    out.push(a);
+    return;
+  }
+
+  const miter = dot > -1 + EPSILON
+    ? offset(point, { x: (n0.x + n1.x) / (1 + dot), y: (n0.y + n1.y) / (1 + dot) }, side * half)
+    : null;
+
+  // Inside of the turn: the offset lines cross, so meet at the crossing when both
+  // segments are long enough to reach it, otherwise go through the corner itself
+  if (side * cross > 0) {
+    const reach = miter ? Math.abs((miter.x - a.x) * d0.x + (miter.y - a.y) * d0.y) : Infinity;
+    if (miter && reach <= Math.min(distance(prev, point), distance(point, next))) {
+      out.push(miter);
+    } else {
+      out.push(a, point, b);
+    }
+    return;
+  }
+
+  // Outside of the turn: the join style applies
+  if (style.lineJoin === 'round') {
+    out.push(a, ...arcPoints(point, a, b, half, { x: d0.x - d1.x, y: d0.y - d1.y }, tolerance), b);
+  } else if (style.lineJoin === 'miter' && miter && 1 / Math.sqrt((1 + dot) / 2) <= style.miterLimit) {
+    out.push(miter);
+  } else {
+    out.push(a, b);
+  }
+}
+
+/**
+ * Cap points between the two offset ends, bulging along `direction`
+ */
+function capPoints(
+  point: Point, from: Point, to: Point,
+  direction: Point,
+  half: number,
+  lineCap: StrokeStyle['lineCap'],
+  tolerance: number
+): Point[] {
+  if (lineCap === 'square') {
+    return [offset(from, direction, half), offset(to, direction, half)];
+  }
+  if (lineCap === 'round') {
+    return arcPoints(point, from, to, half, direction, tolerance);
+  }
+  return [];
+}
+
+/**
+ * Zero-length subpaths still paint round and square caps
+ */
+function zeroLengthCap(point: Point, half: number, lineCap: StrokeStyle['lineCap'], tolerance: number): Point[][] {
+  if (lineCap === 'square') {
+    return [[
+      { x: point.x - half, y: point.y - half },
+      { x: point.x - half, y: point.y + half },
+      { x: point.x + half, y: point.y + half },
+      { x: point.x + half, y: point.y - half }
+    ]];
+  }
+  if (lineCap === 'round') {
+    const steps = arcSteps(2 * Math.PI, half, tolerance);
+    // Clockwise in SVG's y-down space, matching the stroke bands
+    return [Array.from({ length: steps }, (_, i) => {
+      const angle = -2 * Math.PI * i / steps;
+      return { x: point.x + half * Math.cos(angle), y: point.y + half * Math.sin(angle) };
+    })];
+  }
+  return [];
+}
+
+/**
+ * Points strictly between `from` and `to` on the circle around `center`, taking the way
+ * round that passes `towards`
+ */
+function arcPoints(center: Point, from: Point, to: Point, radius: number, towards: Point, tolerance: number): Point[] {
+  const start = Math.atan2(from.y - center.y, from.x - center.x);
+  const end = Math.atan2(to.y - center.y, to.x - center.x);
+  let sweep = end - start;
+  while (sweep <= -Math.PI) sweep += 2 * Math.PI;
+  while (sweep > Math.PI) sweep -= 2 * Math.PI;
+
+  const middle = start + sweep / 2;
+  if (Math.cos(middle) * towards.x + Math.sin(middle) * towards.y < 0) {
+    sweep = sweep > 0 ? sweep - 2 * Math.PI : sweep + 2 * Math.PI;
+  }
+
+  const steps = arcSteps(Math.abs(sweep), radius, tolerance);
+  const points: Point[] = [];
+  for (let i = 1; i < steps; i++) {
+    const angle = start + sweep * i / steps;
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  return points;
+}
+
+// Enough chords that none strays further than the tolerance from the true arc
+function arcSteps(angle: number, radius: number, tolerance: number): number {
+  if (radius <= tolerance) return Math.max(2, Math.ceil(angle / (Math.PI / 2)));
+  const maxStep = 2 * Math.acos(1 - tolerance / radius);
+  return Math.max(2, Math.ceil(angle / maxStep));
+}
+
+function loopsToPathData(loops: Point[][]): string {
+  const segments: PathSegment[] = [];
+  for (const loop of loops) {
+    if (loop.length < 3) continue;
+    segments.push({ type: 'M', from: loop[loop.length - 1], to: loop[0] });
+    for (let i = 1; i < loop.length; i++) {
+      segments.push({ type: 'L', from: loop[i - 1], to: loop[i] });
+    }
+    segments.push({ type: 'Z', from: loop[loop.length - 1], to: loop[0] });
+  }
+  return serializePath(segments, { precision: 3 });
+}
+
+function unit(from: Point, to: Point): Point {
+  const length = distance(from, to);
+  return length > 0 ? { x: (to.x - from.x) / length, y: (to.y - from.y) / length } : { x: 1, y: 0 };
+}
+
+function normal(direction: Point): Point {
+  return { x: -direction.y, y: direction.x };
+}
+
+function offset(point: Point, direction: Point, amount: number): Point {
+  return { x: point.x + direction.x * amount, y: point.y + direction.y * amount };
+}
+
+function scale(point: Point, factor: number): Point {
+  return { x: point.x * factor, y: point.y * factor };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
@@ -1,4 +1,6 @@
 import { JSDOM } from 'jsdom';
+import { pathLength } from './pathGeometry';
+import { expandElementStrokes } from './strokeExpansion';
 
 /**
  * Stroke Preparation for Draw-On Animations
@@ -9,7 +11,7 @@ export interface StrokePreparationOptions {
   addPathLengths: boolean;
   setupDrawOn: boolean;
   expandStrokesToFills: boolean;
-  preserveOriginalStrokes: boolean;
+  preserveOriginalStrokes: boolean; // Record the original stroke on expanded outlines
 }
 
 export interface PathLengthInfo {
@@ -54,7 +56,7 @@ export function prepareStrokesForAnimation(
         
         if (pathData) {
           // Calculate path length
-          const length = calculatePathLength(pathData);
+          const length = pathLength(pathData);
           
           if (length > 0) {
             const pathInfo: PathLengthInfo = {
@@ -130,17 +132,10 @@ export function prepareStrokesForAnimation(
     // Handle stroke expansion if requested
     if (options.expandStrokesToFills) {
       console.log('Expanding strokes to fills...');
-      // This is a complex operation that would require a proper geometry library
-      // For now, we'll add a placeholder and log the requirement
-      console.warn('Stroke-to-fill expansion requires additional geometry processing library');
-      
-      // Add metadata about strokes that could be expanded
-      pathLengths.forEach(pathInfo => {
-        const element = svgElement.querySelector(`#${pathInfo.pathId}`);
-        if (element) {
-          element.setAttribute('data-expandable-stroke', 'true');
-        }
+      const expanded = expandElementStrokes(svgElement, {
+        recordOriginalStroke: options.preserveOriginalStrokes
       });
+      console.log(`Expanded ${expanded} strokes to filled outlines`);
     }
 
     const processedSvg = dom.serialize();
@@ -161,122 +156,6 @@ export function prepareStrokesForAnimation(
   }
 }
 
-/**
- * Calculate the length of an SVG path
- * Uses a simplified approach - in production you'd want svg-path-properties
- */
-function calculatePathLength(pathData: string): number {
-  try {
-    // This is a simplified path length calculator
-    // In production, you'd use a library like svg-path-properties or paper.js
-    
-    // Parse basic path commands and approximate length
-    const commands = pathData.match(/[MLHVCSQTAZ][^MLHVCSQTAZ]*/gi) || [];
-    let totalLength = 0;
-    let currentX = 0;
-    let currentY = 0;
-    let startX = 0;
-    let startY = 0;
-    
-    commands.forEach(command => {
-      const type = command[0].toUpperCase();
-      const params = command.slice(1).trim().split(/[\s,]+/).map(p => parseFloat(p)).filter(p => !isNaN(p));
-      
-      switch (type) {
-        case 'M': // Move to
-          if (params.length >= 2) {
-            currentX = params[0];
-            currentY = params[1];
-            startX = currentX;
-            startY = currentY;
-          }
-          break;
-          
-        case 'L': // Line to
-          if (params.length >= 2) {
-            const dx = params[0] - currentX;
-            const dy = params[1] - currentY;
-            totalLength += Math.sqrt(dx * dx + dy * dy);
-            currentX = params[0];
-            currentY = params[1];
-          }
-          break;
-          
-        case 'H': // Horizontal line
-          if (params.length >= 1) {
-            totalLength += Math.abs(params[0] - currentX);
-            currentX = params[0];
-          }
-          break;
-          
-        case 'V': // Vertical line
-          if (params.length >= 1) {
-            totalLength += Math.abs(params[0] - currentY);
-            currentY = params[0];
-          }
-          break;
-          
-        case 'C': // Cubic bezier curve
-          if (params.length >= 6) {
-            // Approximate cubic bezier length (simplified)
-            const dx = params[4] - currentX;
-            const dy = params[5] - currentY;
-            const chordLength = Math.sqrt(dx * dx + dy * dy);
-            
-            // Rough approximation: chord length * 1.2 for typical curves
-            totalLength += chordLength * 1.2;
-            currentX = params[4];
-            currentY = params[5];
-          }
-          break;
-          
-        case 'Q': // Quadratic bezier curve
-          if (params.length >= 4) {
-            // Approximate quadratic bezier length
-            const dx = params[2] - currentX;
-            const dy = params[3] - currentY;
-            const chordLength = Math.sqrt(dx * dx + dy * dy);
-            totalLength += chordLength * 1.15;
-            currentX = params[2];
-            currentY = params[3];
-          }
-          break;
-          
-        case 'A': // Arc
-          if (params.length >= 7) {
-            // Very rough arc approximation
-            const dx = params[5] - currentX;
-            const dy = params[6] - currentY;
-            const chordLength = Math.sqrt(dx * dx + dy * dy);
-            const rx = params[0];
-            const ry = params[1];
-            const avgRadius = (rx + ry) / 2;
-            
-            // Estimate arc length based on chord and radius
-            totalLength += Math.max(chordLength, avgRadius * 0.5);
-            currentX = params[5];
-            currentY = params[6];
-          }
-          break;
-          
-        case 'Z': // Close path
-          const dx = startX - currentX;
-          const dy = startY - currentY;
-          totalLength += Math.sqrt(dx * dx + dy * dy);
-          currentX = startX;
-          currentY = startY;
-          break;
-      }
-    });
-    
-    return Math.max(0, totalLength);
-    
-  } catch (error) {
-    console.error('Error calculating path length:', error);
-    return 0;
-  }
-}
-
 /**
  * Generate CSS for draw-on animations using calculated path lengths
  */
@@ -1,4 +1,6 @@
 import { JSDOM } from 'jsdom';
+import { parsePath, serializePath } from './pathGeometry';
+import { restrictCurveTypes } from './curveApproximation';
 
 export interface SVGGroupingOptions {
   shapeStacking: 'stacked' | 'layered' | 'flat' | 'placeCutouts';
@@ -73,55 +75,16 @@ export async function applySVGGrouping(
 }
 
 /**
- * Filter curve types in SVG path data based on allowed types
+ * Rewrite SVG path data to use only the allowed curve types, approximating
+ * disallowed curves within tolerance. Paths that already comply are returned as-is.
  */
 function filterCurveTypes(pathData: string, allowedTypes: string[]): string {
-  // Map curve commands to types
-  const curveTypeMap: { [key: string]: string } = {
-    'L': 'lines',
-    'H': 'lines',
-    'V': 'lines',
-    'Q': 'quadraticBezier',
-    'T': 'quadraticBezier',
-    'C': 'cubicBezier',
-    'S': 'cubicBezier',
-    'A': 'ellipticalArcs'
-  };
-
-  // Convert path data to array of commands
-  const commands = pathData.match(/[MLHVQTCSAZ][^MLHVQTCSAZ]*/gi) || [];
-  
-  const filteredCommands = commands.map(command => {
-    const commandLetter = command[0].toUpperCase();
-    const curveType = curveTypeMap[commandLetter];
-    
-    // If this curve type is not allowed, convert to lines
-    if (curveType && !allowedTypes.includes(curveType)) {
-      if (commandLetter === 'C' || commandLetter === 'S') {
-        // Convert cubic bezier to line
-        const coords = command.slice(1).trim().split(/[\s,]+/);
-        if (coords.length >= 6) {
-          return `L ${coords[coords.length - 2]} ${coords[coords.length - 1]}`;
-        }
-      } else if (commandLetter === 'Q' || commandLetter === 'T') {
-        // Convert quadratic bezier to line
-        const coords = command.slice(1).trim().split(/[\s,]+/);
-        if (coords.length >= 4) {
-          return `L ${coords[coords.length - 2]} ${coords[coords.length - 1]}`;
-        }
-      } else if (commandLetter === 'A') {
-        // Convert arc to line (simplified)
-        const coords = command.slice(1).trim().split(/[\s,]+/);
-        if (coords.length >= 7) {
-          return `L ${coords[5]} ${coords[6]}`;
-        }
-      }
-    }
-    
-    return command;
-  });
+  const segments = parsePath(pathData);
+  const restricted = restrictCurveTypes(segments, allowedTypes);
 
-  return filteredCommands.join(' ');
+  const unchanged = restricted.length === segments.length &&
+    restricted.every((segment, index) => segment === segments[index]);
+  return unchanged ? pathData : serializePath(restricted, { precision: 3 });
 }
 
 /**
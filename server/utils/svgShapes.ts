@@ -0,0 +1,341 @@
+import { JSDOM } from 'jsdom';
+import { parsePath, arcCenter, pathBounds, PathSegment, Point } from './pathGeometry';
+import { arcToCubics } from './curveApproximation';
+import { shapeToPathData, resolveProperty } from './strokeExpansion';
+import { toHex, RGB } from './colorHistogram';
+
+/**
+ * Vector Shape Extraction
+ * Flattens an SVG document into absolute path geometry with transforms applied and paint
+ * resolved, in paint order - the common input of the non-SVG output writers
+ */
+
+export interface ViewBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VectorShape {
+  segments: PathSegment[]; // Absolute, in the user space of the root viewBox
+  fill: RGB | null;
+  fillRule: 'nonzero' | 'evenodd';
+  fillOpacity: number; // Includes the opacity of ancestor groups
+  stroke: RGB | null;
+  strokeWidth: number; // Scaled by the element's transform
+  strokeOpacity: number;
+  layer: string;
+  ids: string[]; // Ids of the element and its ancestors, innermost first
+}
+
+export interface VectorDocument {
+  viewBox: ViewBox;
+  size: { width: number; height: number }; // Rendered size in CSS pixels
+  shapes: VectorShape[];
+  layers: string[]; // In order of first appearance
+}
+
+// [a, b, c, d, e, f] as in SVG's matrix()
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const SHAPE_ELEMENTS = new Set(['path', 'line', 'polyline', 'polygon', 'rect', 'circle', 'ellipse']);
+
+// Containers whose children are never painted directly
+const NON_RENDERED = new Set(['defs', 'clippath', 'mask', 'symbol', 'pattern', 'marker', 'lineargradient', 'radialgradient']);
+
+// Shapes with no own group or color land on DXF's default layer name
+const DEFAULT_LAYER = '0';
+
+const EPSILON = 1e-9;
+
+// CSS pixels per unit for width and height attributes
+const PIXELS_PER_UNIT: Record<string, number> = {
+  '': 1,
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  mm: 96 / 25.4,
+  cm: 96 / 2.54,
+  in: 96
+};
+
+const NAMED_COLORS: Record<string, RGB> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  lime: [0, 255, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  cyan: [0, 255, 255],
+  aqua: [0, 255, 255],
+  magenta: [255, 0, 255],
+  fuchsia: [255, 0, 255],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  silver: [192, 192, 192],
+  maroon: [128, 0, 0],
+  olive: [128, 128, 0],
+  navy: [0, 0, 128],
+  purple: [128, 0, 128],
+  teal: [0, 128, 128],
+  orange: [255, 165, 0]
+};
+
+/**
+ * Parse an SVG paint value. Returns null for "none"; gradients and patterns fall back to black.
+ */
+export function parseColor(value: string | null): RGB | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+  if (color === 'none' || color === 'transparent') return null;
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return [0, 2, 4].map(offset => parseInt(digits.substring(offset, offset + 2), 16)) as RGB;
+  }
+
+  const rgb = color.match(/^rgba?\(([^)]+)\)$/);
+  if (rgb) {
+    const channels = rgb[1].split(/[\s,/]+/).slice(0, 3).map(channel =>
+      channel.endsWith('%') ? parseFloat(channel) * 2.55 : parseFloat(channel)
+    );
+    if (channels.length === 3 && channels.every(channel => !isNaN(channel))) {
+      return channels.map(channel => Math.max(0, Math.min(255, Math.round(channel)))) as RGB;
+    }
+  }
+
+  return NAMED_COLORS[color] ?? [0, 0, 0];
+}
+
+/**
+ * Collect every painted shape of an SVG document
+ */
+export function extractShapes(svgContent: string): VectorDocument {
+  const dom = new JSDOM(svgContent);
+  const svgElement = dom.window.document.querySelector('svg');
+  if (!svgElement) {
+    throw new Error('Invalid SVG content - no SVG element found');
+  }
+
+  const shapes: VectorShape[] = [];
+  const layers: string[] = [];
+
+  const visit = (element: Element, matrix: Matrix, opacity: number) => {
+    const tag = element.tagName.toLowerCase();
+    if (NON_RENDERED.has(tag) || resolveProperty(element, 'display') === 'none') return;
+
+    const local = element === svgElement ? matrix : multiply(matrix, parseTransform(element.getAttribute('transform')));
+    const elementOpacity = opacity * parseOpacity(element.getAttribute('opacity') ?? styleValue(element, 'opacity'));
+
+    if (SHAPE_ELEMENTS.has(tag)) {
+      const shape = toShape(element, local, elementOpacity);
+      if (shape) {
+        shapes.push(shape);
+        if (!layers.includes(shape.layer)) layers.push(shape.layer);
+      }
+      return;
+    }
+
+    Array.from(element.children).forEach(child => visit(child, local, elementOpacity));
+  };
+  visit(svgElement, IDENTITY, 1);
+
+  const viewBox = readViewBox(svgElement, shapes);
+  return { viewBox, size: readSize(svgElement, viewBox), shapes, layers };
+}
+
+function toShape(element: Element, matrix: Matrix, opacity: number): VectorShape | null {
+  if (resolveProperty(element, 'visibility') === 'hidden') return null;
+
+  const pathData = shapeToPathData(element);
+  if (!pathData) return null;
+  const segments = transformSegments(parsePath(pathData), matrix);
+  if (segments.length === 0) return null;
+
+  // Lines and polylines are never filled by renderers in practice
+  const tag = element.tagName.toLowerCase();
+  const fill = tag === 'line' ? null : parseColor(resolveProperty(element, 'fill') ?? 'black');
+  const stroke = parseColor(resolveProperty(element, 'stroke'));
+  if (!fill && !stroke) return null;
+
+  const strokeWidth = parseFloat(resolveProperty(element, 'stroke-width') ?? '1');
+  const scale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+
+  return {
+    segments,
+    fill,
+    fillRule: resolveProperty(element, 'fill-rule') === 'evenodd' ? 'evenodd' : 'nonzero',
+    fillOpacity: opacity * parseOpacity(resolveProperty(element, 'fill-opacity')),
+    stroke,
+    strokeWidth: (isNaN(strokeWidth) ? 1 : strokeWidth) * scale,
+    strokeOpacity: opacity * parseOpacity(resolveProperty(element, 'stroke-opacity')),
+    layer: layerName(element, fill ?? stroke),
+    ids: elementIds(element)
+  };
+}
+
+function elementIds(element: Element): string[] {
+  const ids: string[] = [];
+  for (let current: Element | null = element; current && current.tagName.toLowerCase() !== 'svg'; current = current.parentElement) {
+    const id = current.getAttribute('id');
+    if (id) ids.push(id);
+  }
+  return ids;
+}
+
+/**
+ * The id of the closest group (applySVGGrouping names its color groups), else the color
+ */
+function layerName(element: Element, color: RGB | null): string {
+  const group = element.parentElement?.closest('g[id]');
+  if (group) return group.getAttribute('id')!;
+  return color ? `color-${toHex(color).slice(1)}` : DEFAULT_LAYER;
+}
+
+function readViewBox(svgElement: Element, shapes: VectorShape[]): ViewBox {
+  const values = (svgElement.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(parseFloat);
+  if (values.length === 4 && values.every(value => !isNaN(value)) && values[2] > 0 && values[3] > 0) {
+    return { x: values[0], y: values[1], width: values[2], height: values[3] };
+  }
+
+  const width = parseFloat(svgElement.getAttribute('width') || '');
+  const height = parseFloat(svgElement.getAttribute('height') || '');
+  if (width > 0 && height > 0) {
+    return { x: 0, y: 0, width, height };
+  }
+
+  const bounds = pathBounds(shapes.flatMap(shape => shape.segments));
+  return bounds
+    ? { x: bounds.minX, y: bounds.minY, width: Math.max(1, bounds.maxX - bounds.minX), height: Math.max(1, bounds.maxY - bounds.minY) }
+    : { x: 0, y: 0, width: 1, height: 1 };
+}
+
+/**
+ * The width and height attributes in CSS pixels; a missing or relative one follows the
+ * viewBox aspect ratio, and with neither the viewBox maps one unit to one pixel
+ */
+function readSize(svgElement: Element, viewBox: ViewBox): { width: number; height: number } {
+  const toPixels = (value: string | null) => {
+    const match = (value || '').trim().match(/^([\d.]+(?:e[+-]?\d+)?)\s*(px|pt|pc|mm|cm|in)?$/i);
+    const pixels = match ? parseFloat(match[1]) * PIXELS_PER_UNIT[(match[2] || '').toLowerCase()] : NaN;
+    return pixels > 0 ? pixels : null;
+  };
+  const width = toPixels(svgElement.getAttribute('width'));
+  const height = toPixels(svgElement.getAttribute('height'));
+
+  if (width && height) return { width, height };
+  if (width) return { width, height: (width * viewBox.height) / viewBox.width };
+  if (height) return { width: (height * viewBox.width) / viewBox.height, height };
+  return { width: viewBox.width, height: viewBox.height };
+}
+
+function styleValue(element: Element, property: string): string | null {
+  const match = (element.getAttribute('style') || '').match(new RegExp(`(?:^|;)\\s*${property}\\s*:\\s*([^;]+)`));
+  return match ? match[1].trim() : null;
+}
+
+function parseOpacity(value: string | null): number {
+  if (!value) return 1;
+  const opacity = value.trim().endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+  return isNaN(opacity) ? 1 : Math.max(0, Math.min(1, opacity));
+}
+
+/**
+ * Parse a transform list into one matrix
+ */
+function parseTransform(value: string | null): Matrix {
+  let matrix = IDENTITY;
+  if (!value) return matrix;
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const args = match[2].trim().split(/[\s,]+/).map(parseFloat).filter(arg => !isNaN(arg));
+    let next: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const radians = ((args[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+        next = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+function multiply([a1, b1, c1, d1, e1, f1]: Matrix, [a2, b2, c2, d2, e2, f2]: Matrix): Matrix {
+  return [
+    a1 * a2 + c1 * b2,
+    b1 * a2 + d1 * b2,
+    a1 * c2 + c1 * d2,
+    b1 * c2 + d1 * d2,
+    a1 * e2 + c1 * f2 + e1,
+    b1 * e2 + d1 * f2 + f1
+  ];
+}
+
+function apply([a, b, c, d, e, f]: Matrix, { x, y }: Point): Point {
+  return { x: a * x + c * y + e, y: b * x + d * y + f };
+}
+
+/**
+ * Map segments through a matrix. Arcs stay arcs under rotation and uniform scaling;
+ * any other transform turns them into cubics.
+ */
+function transformSegments(segments: PathSegment[], matrix: Matrix): PathSegment[] {
+  const isIdentity = matrix.every((value, index) => Math.abs(value - IDENTITY[index]) < EPSILON);
+  if (isIdentity) return segments;
+
+  const [a, b, c, d] = matrix;
+  const scale = Math.hypot(a, b);
+  const isSimilarity = Math.abs(a - d) < EPSILON && Math.abs(b + c) < EPSILON && scale > EPSILON;
+  const map = (point: Point) => apply(matrix, point);
+
+  return segments.flatMap((segment): PathSegment[] => {
+    switch (segment.type) {
+      case 'C':
+        return [{ type: 'C', from: map(segment.from), c1: map(segment.c1), c2: map(segment.c2), to: map(segment.to) }];
+      case 'Q':
+        return [{ type: 'Q', from: map(segment.from), c: map(segment.c), to: map(segment.to) }];
+      case 'A': {
+        if (!isSimilarity) {
+          return arcToCubics(segment).map(cubic => ({
+            type: 'C' as const, from: map(cubic.from), c1: map(cubic.c1), c2: map(cubic.c2), to: map(cubic.to)
+          }));
+        }
+        const from = map(segment.from);
+        const to = map(segment.to);
+        const rotation = segment.rotation + (Math.atan2(b, a) * 180) / Math.PI;
+        const center = arcCenter(from, to, segment.rx * scale, segment.ry * scale, rotation, segment.largeArc, segment.sweep);
+        if (!center) return [{ type: 'L', from, to }];
+        return [{ ...segment, from, to, rx: center.rx, ry: center.ry, rotation, center }];
+      }
+      default:
+        return [{ type: segment.type, from: map(segment.from), to: map(segment.to) }];
+    }
+  });
+}
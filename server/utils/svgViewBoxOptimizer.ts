@@ -1,4 +1,5 @@
 import { JSDOM } from 'jsdom';
+import { pathBounds } from './pathGeometry';
 
 /**
  * SVG ViewBox Optimization for Animation-Ready Output
@@ -257,7 +258,7 @@ function calculateViewBoxFromContent(svgElement: Element): ViewBoxInfo {
       case 'path': {
         const d = shape.getAttribute('d');
         if (d) {
-          const bounds = calculatePathBounds(d);
+          const bounds = pathBounds(d);
           if (bounds) {
             updateBounds(bounds.minX, bounds.minY);
             updateBounds(bounds.maxX, bounds.maxY);
@@ -298,38 +299,6 @@ function calculateViewBoxFromContent(svgElement: Element): ViewBoxInfo {
   };
 }
 
-/**
- * Calculate bounds for path data (simplified)
- */
-function calculatePathBounds(pathData: string): { minX: number; minY: number; maxX: number; maxY: number } | null {
-  // This is a simplified path bounds calculator
-  // For production, you'd want a more robust path parser
-  
-  const coords = pathData.match(/[-+]?(\d*\.?\d+)/g);
-  if (!coords || coords.length < 2) return null;
-  
-  let minX = Infinity;
-  let minY = Infinity;
-  let maxX = -Infinity;
-  let maxY = -Infinity;
-  
-  for (let i = 0; i < coords.length; i += 2) {
-    if (i + 1 < coords.length) {
-      const x = parseFloat(coords[i]);
-      const y = parseFloat(coords[i + 1]);
-      
-      if (!isNaN(x) && !isNaN(y)) {
-        minX = Math.min(minX, x);
-        minY = Math.min(minY, y);
-        maxX = Math.max(maxX, x);
-        maxY = Math.max(maxY, y);
-      }
-    }
-  }
-  
-  return { minX, minY, maxX, maxY };
-}
-
 /**
  * Optimize SVG structure for animation performance
  */
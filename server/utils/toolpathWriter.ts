@@ -0,0 +1,412 @@
+import { flattenSegmentAdaptive, PathSegment, Point } from './pathGeometry';
+import { extractShapes, VectorDocument } from './svgShapes';
+
+/**
+ * Toolpath Writer
+ * Turns traced SVG outlines into machine paths for pen plotters, vinyl cutters and 2D CNC:
+ * curves are flattened within a chord tolerance, closed outlines optionally offset by the
+ * tool radius, and the paths of each color group ordered to keep pen-up travel short
+ * (nearest neighbour, then 2-opt). Each color group is one pen in HPGL and one pass,
+ * with its own feed rate, in G-code. Coordinates are millimeters with y pointing up.
+ */
+
+export interface ToolpathOptions {
+  tolerance?: number; // Chord tolerance in mm
+  toolDiameter?: number; // Kerf or cutter diameter in mm, 0 = cut on the line
+  feedRates?: number[]; // mm/min per color group in order; the last one repeats
+  plungeRate?: number; // mm/min for lowering the tool (G-code)
+  safeZ?: number; // Travel height in mm (G-code)
+  cutZ?: number; // Cutting or drawing height in mm (G-code)
+  scale?: number; // Extra multiplier on top of 96 px to the inch
+}
+
+export interface Toolpath {
+  points: Point[];
+  closed: boolean; // Closed paths return to their first point
+}
+
+export interface ToolGroup {
+  name: string;
+  feedRate: number;
+  paths: Toolpath[];
+}
+
+const MM_PER_PIXEL = 25.4 / 96;
+
+const DEFAULT_TOLERANCE = 0.05;
+const DEFAULT_FEED_RATE = 1000;
+const DEFAULT_PLUNGE_RATE = 300;
+const DEFAULT_SAFE_Z = 5;
+const DEFAULT_CUT_Z = -1;
+
+// HPGL plotter units (0.025 mm) and the pens most plotters carry
+const HPGL_UNITS_PER_MM = 40;
+const HPGL_PENS = 8;
+
+// Points per PD instruction; some cutters have small input buffers
+const HPGL_POINTS_PER_COMMAND = 64;
+
+// 2-opt is quadratic per pass, so very busy traces keep the nearest-neighbour order
+const MAX_TWO_OPT_PATHS = 2000;
+const MAX_TWO_OPT_PASSES = 25;
+
+// Sharp corners of an offset outline are beveled past this miter length (in tool radii)
+const MITER_LIMIT = 2;
+
+const EPSILON = 1e-9;
+
+/**
+ * Flatten, offset and order the paths of every color group
+ */
+export function planToolpaths(svgContent: string, options: ToolpathOptions = {}): ToolGroup[] {
+  const document = extractShapes(svgContent);
+  const toMachine = machineTransform(document, options.scale);
+  const tolerance = (options.tolerance && options.tolerance > 0 ? options.tolerance : DEFAULT_TOLERANCE) / toMachine.factor;
+  const radius = Math.max(0, options.toolDiameter ?? 0) / 2;
+  const feedRates = options.feedRates?.filter(rate => rate > 0) ?? [];
+
+  return document.layers.map((layer, index) => {
+    let paths = document.shapes
+      .filter(shape => shape.layer === layer)
+      .flatMap(shape => flattenToolpaths(shape.segments, tolerance))
+      .map(path => ({ ...path, points: path.points.map(toMachine.point) }));
+
+    if (radius > 0) {
+      paths = offsetOutlines(paths, radius);
+    }
+
+    return {
+      name: layer,
+      feedRate: feedRates[Math.min(index, feedRates.length - 1)] ?? DEFAULT_FEED_RATE,
+      paths: orderToolpaths(paths)
+    };
+  }).filter(group => group.paths.length > 0);
+}
+
+/**
+ * HPGL for pen plotters and vinyl cutters: one pen per color group
+ */
+export function svgToHpgl(svgContent: string, options: ToolpathOptions = {}): string {
+  const groups = planToolpaths(svgContent, options);
+  const unit = (value: number) => Math.round(value * HPGL_UNITS_PER_MM);
+  const coordinates = (points: Point[]) => points.map(point => `${unit(point.x)},${unit(point.y)}`).join(',');
+
+  const commands = ['IN;'];
+  groups.forEach((group, index) => {
+    commands.push(`SP${(index % HPGL_PENS) + 1};`);
+    // VS takes cm/s
+    commands.push(`VS${format(group.feedRate / 600, 1)};`);
+    group.paths.forEach(path => {
+      const points = path.closed ? [...path.points, path.points[0]] : path.points;
+      commands.push(`PU${coordinates([points[0]])};`);
+      for (let start = 1; start < points.length; start += HPGL_POINTS_PER_COMMAND) {
+        commands.push(`PD${coordinates(points.slice(start, start + HPGL_POINTS_PER_COMMAND))};`);
+      }
+    });
+  });
+  commands.push('PU;', 'SP0;');
+
+  return commands.join('\n') + '\n';
+}
+
+/**
+ * Basic 2D G-code: absolute millimeters, Z up for travel and down to cut. Each color group
+ * after the first starts with a pause to change the tool or pen.
+ */
+export function svgToGcode(svgContent: string, options: ToolpathOptions = {}): string {
+  const groups = planToolpaths(svgContent, options);
+  const safeZ = options.safeZ ?? DEFAULT_SAFE_Z;
+  const cutZ = options.cutZ ?? DEFAULT_CUT_Z;
+  const plungeRate = options.plungeRate && options.plungeRate > 0 ? options.plungeRate : DEFAULT_PLUNGE_RATE;
+  const xy = (point: Point) => `X${format(point.x)} Y${format(point.y)}`;
+  const pathCount = groups.reduce((sum, group) => sum + group.paths.length, 0);
+
+  const lines = [
+    '(Generated by SVG Converter)',
+    `(${plural(groups.length, 'color group')}, ${plural(pathCount, 'path')})`,
+    'G21 (millimeters)',
+    'G90 (absolute coordinates)',
+    'G17',
+    `G0 Z${format(safeZ)}`
+  ];
+
+  groups.forEach((group, index) => {
+    lines.push(`(Pass ${index + 1}: ${comment(group.name)}, ${plural(group.paths.length, 'path')}, ` +
+      `${format(travelDistance(group.paths), 1)} mm travel, F${format(group.feedRate)})`);
+    if (index > 0) {
+      lines.push(`M0 (Change tool for ${comment(group.name)})`);
+    }
+    group.paths.forEach(path => {
+      const points = path.closed ? [...path.points, path.points[0]] : path.points;
+      lines.push(`G0 ${xy(points[0])}`);
+      lines.push(`G1 Z${format(cutZ)} F${format(plungeRate)}`);
+      points.slice(1).forEach((point, pointIndex) => {
+        lines.push(`G1 ${xy(point)}${pointIndex === 0 ? ` F${format(group.feedRate)}` : ''}`);
+      });
+      lines.push(`G0 Z${format(safeZ)}`);
+    });
+  });
+
+  lines.push('G0 X0 Y0', 'M2');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Map SVG user units to machine millimeters, flipping y so the origin is bottom left
+ */
+function machineTransform({ viewBox, size }: VectorDocument, scale = 1) {
+  const factorX = MM_PER_PIXEL * (scale > 0 ? scale : 1) * (size.width / viewBox.width);
+  const factorY = MM_PER_PIXEL * (scale > 0 ? scale : 1) * (size.height / viewBox.height);
+  return {
+    factor: Math.min(factorX, factorY),
+    point: ({ x, y }: Point): Point => ({
+      x: (x - viewBox.x) * factorX,
+      y: (viewBox.y + viewBox.height - y) * factorY
+    })
+  };
+}
+
+/**
+ * Flatten path segments into polylines, one per subpath
+ */
+function flattenToolpaths(segments: PathSegment[], tolerance: number): Toolpath[] {
+  const paths: Toolpath[] = [];
+  let current: Point[] | null = null;
+
+  const finish = (closed: boolean) => {
+    if (current) {
+      const path = cleanToolpath(current, closed);
+      if (path) paths.push(path);
+    }
+    current = null;
+  };
+
+  for (const segment of segments) {
+    if (segment.type === 'M') {
+      finish(false);
+      current = [segment.to];
+      continue;
+    }
+
+    const points: Point[] = current ?? [segment.from];
+    current = points;
+    if (segment.type === 'Z') {
+      finish(true);
+    } else if (segment.type === 'L') {
+      points.push(segment.to);
+    } else {
+      points.push(...flattenSegmentAdaptive(segment, tolerance));
+    }
+  }
+
+  finish(false);
+  return paths;
+}
+
+function cleanToolpath(points: Point[], closed: boolean): Toolpath | null {
+  const cleaned: Point[] = [];
+  for (const point of points) {
+    const last = cleaned[cleaned.length - 1];
+    if (!last || distance(last, point) > EPSILON) cleaned.push(point);
+  }
+  if (cleaned.length > 1 && distance(cleaned[0], cleaned[cleaned.length - 1]) <= EPSILON) {
+    cleaned.pop();
+    closed = true;
+  }
+  if (cleaned.length < 2) return null;
+  return { points: cleaned, closed: closed && cleaned.length > 2 };
+}
+
+/**
+ * Offset closed outlines by the tool radius so the cut part keeps its drawn size: outward
+ * for outlines at even nesting depth, inward for the holes inside them. Open paths are cut
+ * on the line. Holes smaller than the tool disappear.
+ */
+function offsetOutlines(paths: Toolpath[], radius: number): Toolpath[] {
+  const loops = paths.filter(path => path.closed);
+
+  return paths.flatMap(path => {
+    if (!path.closed) return [path];
+    const depth = loops.filter(loop => loop !== path && containsPoint(loop.points, path.points[0])).length;
+    const points = offsetPolygon(path.points, depth % 2 === 0 ? radius : -radius);
+    return points ? [{ points, closed: true }] : [];
+  });
+}
+
+/**
+ * Move every edge of a polygon outward (positive distance) or inward, mitering the corners.
+ * Keeps the winding of the input; returns null when an inward offset collapses the polygon.
+ */
+function offsetPolygon(points: Point[], offsetDistance: number): Point[] | null {
+  const area = signedArea(points);
+  if (Math.abs(area) < EPSILON) return null;
+  // For counter-clockwise polygons (y up) the outside is right of each edge
+  const outward = area > 0 ? 1 : -1;
+  const amount = offsetDistance * outward;
+  const count = points.length;
+  const result: Point[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const prev = points[(i - 1 + count) % count];
+    const point = points[i];
+    const next = points[(i + 1) % count];
+    const normalIn = rightNormal(prev, point);
+    const normalOut = rightNormal(point, next);
+    const bisector = { x: normalIn.x + normalOut.x, y: normalIn.y + normalOut.y };
+    const bisectorLength = Math.hypot(bisector.x, bisector.y);
+    const cosine = bisectorLength / 2; // cos of half the turn between the normals
+
+    if (bisectorLength < EPSILON || 1 / cosine > MITER_LIMIT) {
+      result.push(
+        { x: point.x + normalIn.x * amount, y: point.y + normalIn.y * amount },
+        { x: point.x + normalOut.x * amount, y: point.y + normalOut.y * amount }
+      );
+    } else {
+      const length = amount / cosine;
+      result.push({ x: point.x + (bisector.x / bisectorLength) * length, y: point.y + (bisector.y / bisectorLength) * length });
+    }
+  }
+
+  // A shrunk polygon that flipped or swelled has collapsed past itself
+  const offsetArea = signedArea(result);
+  if (Math.sign(offsetArea) !== Math.sign(area)) return null;
+  if (offsetDistance < 0 && Math.abs(offsetArea) >= Math.abs(area)) return null;
+  return result;
+}
+
+/**
+ * Order paths to keep travel short: greedy nearest neighbour from the origin (closed paths
+ * start at their nearest vertex, open ones may run backwards), then 2-opt
+ */
+function orderToolpaths(paths: Toolpath[], start: Point = { x: 0, y: 0 }): Toolpath[] {
+  const remaining = [...paths];
+  const ordered: Toolpath[] = [];
+  let position = start;
+
+  while (remaining.length > 0) {
+    let best = { index: 0, distance: Infinity, vertex: 0, reverse: false };
+    remaining.forEach((path, index) => {
+      if (path.closed) {
+        path.points.forEach((point, vertex) => {
+          const gap = distance(position, point);
+          if (gap < best.distance) best = { index, distance: gap, vertex, reverse: false };
+        });
+      } else {
+        const toStart = distance(position, path.points[0]);
+        const toEnd = distance(position, path.points[path.points.length - 1]);
+        if (toStart < best.distance) best = { index, distance: toStart, vertex: 0, reverse: false };
+        if (toEnd < best.distance) best = { index, distance: toEnd, vertex: 0, reverse: true };
+      }
+    });
+
+    const [path] = remaining.splice(best.index, 1);
+    const points = path.closed
+      ? [...path.points.slice(best.vertex), ...path.points.slice(0, best.vertex)]
+      : best.reverse ? [...path.points].reverse() : path.points;
+    ordered.push({ points, closed: path.closed });
+    position = exitPoint(ordered[ordered.length - 1]);
+  }
+
+  return ordered.length <= MAX_TWO_OPT_PATHS ? twoOpt(ordered, start) : ordered;
+}
+
+/**
+ * Reverse runs of paths while that shortens the travel between them. Reversing a run also
+ * reverses its open paths; closed paths end where they start, so they keep their direction.
+ */
+function twoOpt(route: Toolpath[], start: Point): Toolpath[] {
+  const count = route.length;
+  const exitBefore = (index: number) => index === 0 ? start : exitPoint(route[index - 1]);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < count - 1; i++) {
+      for (let k = i + 1; k < count; k++) {
+        const before = exitBefore(i);
+        const hasNext = k + 1 < count;
+        const current = distance(before, route[i].points[0]) +
+          (hasNext ? distance(exitPoint(route[k]), route[k + 1].points[0]) : 0);
+        const reversed = distance(before, exitPoint(route[k])) +
+          (hasNext ? distance(route[i].points[0], route[k + 1].points[0]) : 0);
+
+        if (reversed < current - EPSILON) {
+          const run = route.slice(i, k + 1).reverse().map(path =>
+            path.closed ? path : { points: [...path.points].reverse(), closed: false }
+          );
+          route.splice(i, run.length, ...run);
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return route;
+}
+
+/**
+ * Total pen-up distance of a route, from the start point
+ */
+function travelDistance(route: Toolpath[], start: Point = { x: 0, y: 0 }): number {
+  let position = start;
+  let total = 0;
+  route.forEach(path => {
+    total += distance(position, path.points[0]);
+    position = exitPoint(path);
+  });
+  return total;
+}
+
+function exitPoint(path: Toolpath): Point {
+  return path.closed ? path.points[0] : path.points[path.points.length - 1];
+}
+
+function rightNormal(from: Point, to: Point): Point {
+  const length = distance(from, to) || 1;
+  return { x: (to.y - from.y) / length, y: -(to.x - from.x) / length };
+}
+
+function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Even-odd ray casting
+ */
+function containsPoint(polygon: Point[], point: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * G-code comments end at the first closing parenthesis
+ */
+function comment(text: string): string {
+  return text.replace(/[()]/g, '');
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function format(value: number, precision = 3): string {
+  const rounded = Number(value.toFixed(precision));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
@@ -167,4 +167,17 @@ export function removeTracerBackgrounds(svgContent: string, tracerType: 'potrace
     console.error(`Error removing ${tracerType} backgrounds:`, error);
     return ensureTransparentBackground(svgContent); // Fallback to general cleaning
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Remove shapes that can never be seen: ImageTracer gives the palette entry for transparent
+ * pixels opacity="0", and traces those areas like any other color
+ */
+export function removeTransparentShapes(svgContent: string): string {
+  const invisible = /<(path|polygon)\b[^>]*\sopacity=["']0(?:\.0*)?["'][^>]*?(?:\/>|>\s*<\/\1>)/gi;
+  const matches = svgContent.match(invisible);
+  if (!matches) return svgContent;
+
+  console.log(`Removed ${matches.length} transparent shapes`);
+  return svgContent.replace(invisible, '');
+}
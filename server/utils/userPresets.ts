@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import type { InsertSvgOptions, SvgOptions } from '@shared/schema';
+import { presetSchema, presetOptionsSchema } from '../validation/inputValidation';
+
+/**
+ * User Presets
+ * Maps between the svg_options table columns and the client-side SVGOptions shape
+ */
+
+export type PresetInput = z.infer<typeof presetSchema>;
+export type PresetOptions = z.infer<typeof presetOptionsSchema>;
+
+export interface UserPreset {
+  id: number;
+  name: string;
+  description: string | null;
+  options: PresetOptions;
+}
+
+// Nullable columns come back as null, SVGOptions uses undefined for "not set"
+const optional = <T>(value: T | null): T | undefined => value ?? undefined;
+
+// Options stored in their own svg_options column; the rest go to extra_options
+const COLUMN_OPTIONS = new Set<string>([
+  'fileFormat', 'svgVersion', 'drawStyle', 'strokeWidth', 'traceEngine', 'shapeStacking', 'groupBy',
+  'lineFit', 'allowedCurveTypes', 'fillGaps', 'clipOverflow', 'nonScalingStroke', 'turdSize', 'alphaMax',
+  'optTolerance', 'numberOfColors', 'colorMode', 'minColorRatio', 'colorQuantization', 'blurRadius',
+  'preserveColors', 'colorSampling', 'ltres', 'qtres', 'pathomit', 'roundcoords', 'customPalette',
+  'animationMode', 'idPrefix', 'flattenTransforms', 'generateStableIds'
+]);
+
+/**
+ * Flatten a validated preset into svg_options columns
+ */
+export function presetToRow(preset: PresetInput, userId: number): InsertSvgOptions {
+  const { options } = preset;
+  return {
+    userId,
+    name: preset.name,
+    description: preset.description ?? null,
+    fileFormat: options.fileFormat,
+    svgVersion: options.svgVersion,
+    drawStyle: options.drawStyle,
+    strokeWidth: options.strokeWidth.toString(),
+    traceEngine: options.traceEngine,
+    shapeStacking: options.shapeStacking,
+    groupBy: options.groupBy,
+    lineFit: options.lineFit,
+    allowedCurveTypes: options.allowedCurveTypes.join(','),
+    fillGaps: options.fillGaps,
+    clipOverflow: options.clipOverflow,
+    nonScalingStroke: options.nonScalingStroke,
+    turdSize: options.turdSize ?? null,
+    alphaMax: options.alphaMax ?? null,
+    optTolerance: options.optTolerance ?? null,
+    numberOfColors: options.numberOfColors,
+    colorMode: options.colorMode,
+    minColorRatio: options.minColorRatio,
+    colorQuantization: options.colorQuantization,
+    blurRadius: options.blurRadius,
+    preserveColors: options.preserveColors,
+    colorSampling: options.colorSampling ?? null,
+    ltres: options.ltres ?? null,
+    qtres: options.qtres ?? null,
+    pathomit: options.pathomit ?? null,
+    roundcoords: options.roundcoords ?? null,
+    customPalette: (options.customPalette || []).join(','),
+    animationMode: options.animationMode ?? false,
+    idPrefix: options.idPrefix ?? 'anim_',
+    flattenTransforms: options.flattenTransforms ?? false,
+    generateStableIds: options.generateStableIds ?? true,
+    extraOptions: Object.fromEntries(
+      Object.entries(options).filter(([key, value]) => !COLUMN_OPTIONS.has(key) && value !== undefined)
+    )
+  };
+}
+
+/**
+ * Rebuild the SVGOptions shape from a stored svg_options row
+ */
+export function rowToPreset(row: SvgOptions): UserPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    options: {
+      ...(row.extraOptions as Partial<PresetOptions> | null),
+      fileFormat: row.fileFormat,
+      svgVersion: row.svgVersion,
+      drawStyle: row.drawStyle,
+      strokeWidth: parseFloat(row.strokeWidth) || 0,
+      traceEngine: row.traceEngine as PresetOptions['traceEngine'],
+      shapeStacking: row.shapeStacking as PresetOptions['shapeStacking'],
+      groupBy: row.groupBy as PresetOptions['groupBy'],
+      lineFit: row.lineFit,
+      allowedCurveTypes: row.allowedCurveTypes ? row.allowedCurveTypes.split(',') : [],
+      fillGaps: row.fillGaps,
+      clipOverflow: row.clipOverflow,
+      nonScalingStroke: row.nonScalingStroke,
+      turdSize: optional(row.turdSize),
+      alphaMax: optional(row.alphaMax),
+      optTolerance: optional(row.optTolerance),
+      numberOfColors: row.numberOfColors,
+      colorMode: row.colorMode as PresetOptions['colorMode'],
+      minColorRatio: row.minColorRatio,
+      colorQuantization: row.colorQuantization as PresetOptions['colorQuantization'],
+      blurRadius: row.blurRadius,
+      preserveColors: row.preserveColors,
+      colorSampling: optional(row.colorSampling) as PresetOptions['colorSampling'],
+      ltres: optional(row.ltres),
+      qtres: optional(row.qtres),
+      pathomit: optional(row.pathomit),
+      roundcoords: optional(row.roundcoords),
+      customPalette: row.customPalette ? row.customPalette.split(',') : [],
+      animationMode: row.animationMode,
+      idPrefix: row.idPrefix,
+      flattenTransforms: row.flattenTransforms,
+      generateStableIds: row.generateStableIds
+    }
+  };
+}
@@ -4,6 +4,7 @@ import DOMPurify from "dompurify";
 import { JSDOM } from "jsdom";
 import path from "path";
 import sharp from "sharp";
+import { insertUserSchema } from "@shared/schema";
 
 // Create a DOMPurify instance
 const window = new JSDOM("").window;
@@ -25,46 +26,208 @@ purify.addHook("afterSanitizeAttributes", function (node) {
   }
 });
 
+// SVG conversion options arrive as multipart strings from the browser form, or as
+// typed values in the JSON `options` field. Both are normalised to the form strings
+// parseConversionOptions expects.
+const formString = z.string().max(200).optional();
+const formNumber = z.union([
+  z.number(),
+  z.string().regex(/^(-?\d*\.?\d+)?$/, { message: "Expected a number" })
+]).transform(String).optional();
+const formBoolean = z.union([z.boolean(), z.enum(['true', 'false'])]).transform(String).optional();
+
 // Zod schema for SVG conversion options
 export const svgOptionsSchema = z.object({
   // Common options
-  fileFormat: z.string().optional(),
-  svgVersion: z.string().optional(),
-  drawStyle: z.string().optional(),
-  strokeWidth: z.string().optional(),
-  traceEngine: z.string().optional(),
+  fileFormat: formString,
+  svgVersion: formString,
+  drawStyle: formString,
+  strokeWidth: formNumber,
+  traceEngine: formString,
   
   // Potrace specific options
-  shapeStacking: z.string().optional(),
-  groupBy: z.string().optional(),
-  lineFit: z.string().optional(),
-  allowedCurveTypes: z.string().optional(),
-  fillGaps: z.string().optional(),
-  clipOverflow: z.string().optional(),
-  nonScalingStroke: z.string().optional(),
+  shapeStacking: formString,
+  groupBy: formString,
+  lineFit: formString,
+  allowedCurveTypes: z.union([z.string(), z.array(z.string().regex(/^\w+$/)).max(10)])
+    .transform(value => Array.isArray(value) ? value.join(',') : value)
+    .optional(),
+  fillGaps: formBoolean,
+  clipOverflow: formBoolean,
+  nonScalingStroke: formBoolean,
+  expandStrokes: formBoolean,
   
   // Potrace advanced options
-  turdSize: z.string().optional(),
-  alphaMax: z.string().optional(),
-  optTolerance: z.string().optional(),
+  turdSize: formNumber,
+  alphaMax: formNumber,
+  optTolerance: formNumber,
   
   // ImageTracerJS specific options
-  numberOfColors: z.string().optional(),
-  colorMode: z.string().optional(),
-  minColorRatio: z.string().optional(),
-  colorQuantization: z.string().optional(),
-  blurRadius: z.string().optional(),
-  preserveColors: z.string().optional(),
+  numberOfColors: formNumber,
+  colorMode: formString,
+  minColorRatio: formNumber,
+  colorQuantization: formString,
+  blurRadius: formNumber,
+  preserveColors: formBoolean,
   
   // ImageTracer advanced options
-  colorSampling: z.string().optional(),
-  ltres: z.string().optional(),
-  qtres: z.string().optional(),
-  pathomit: z.string().optional(),
-  roundcoords: z.string().optional(),
+  colorSampling: formNumber,
+  ltres: formNumber,
+  qtres: formNumber,
+  pathomit: formNumber,
+  roundcoords: formNumber,
   
-  // Custom palette option
-  customPalette: z.string().optional()
+  // Custom palette option - a JSON array, a comma-separated list or an array of hex colors
+  customPalette: z.union([z.string(), z.array(z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/)).max(256)])
+    .transform(value => {
+      if (Array.isArray(value)) return JSON.stringify(value);
+      if (!value || value.trim().startsWith('[')) return value;
+      return JSON.stringify(value.split(',').map(color => color.trim()).filter(Boolean));
+    })
+    .optional(),
+
+  // Animation mode options
+  animationMode: formBoolean,
+  idPrefix: z.string().regex(/^([A-Za-z_][\w-]*)?$/).max(40).optional(),
+  flattenTransforms: formBoolean,
+  generateStableIds: formBoolean,
+  simplifyTolerance: formNumber,
+
+  // Transparency options
+  removeBackground: formBoolean,
+  backgroundTolerance: formNumber,
+
+  // Preprocessing options - crop is "left,top,width,height" in source pixels
+  crop: z.string().regex(/^(\d+,\d+,\d+,\d+)?$/, { message: "Expected left,top,width,height" }).optional(),
+  rotation: formNumber,
+  deskew: formBoolean,
+  upscaleTo: formNumber,
+  denoise: formNumber,
+  autoLevels: formBoolean,
+  blackPoint: formNumber,
+  whitePoint: formNumber,
+  contrast: formNumber,
+  posterize: formNumber,
+  thresholdMode: z.enum(['fixed', 'otsu', 'adaptive']).optional(),
+  threshold: formNumber,
+
+  // DXF output - drawing units and an extra scale factor
+  dxfUnits: z.enum(['mm', 'cm', 'in', 'px']).optional(),
+  dxfScale: formNumber,
+
+  // PNG/WebP output - scales ("1,2,3") or sizes ("512,1024x512"), or the app icon set
+  rasterMode: z.enum(['scales', 'sizes', 'iconSet']).optional(),
+  rasterScales: z.union([
+    z.string().regex(/^(\d*\.?\d+(,\d*\.?\d+){0,9})?$/, { message: "Expected up to 10 comma-separated scales" }),
+    z.array(z.number().positive().max(16)).max(10)
+  ]).optional(),
+  rasterSizes: z.union([
+    z.string().max(200).regex(/^[\dxX,]*$/, { message: "Expected comma-separated WIDTH or WIDTHxHEIGHT sizes" }),
+    z.array(z.string().regex(/^[\dxX]*$/)).max(10)
+  ]).optional(),
+  rasterPadding: formNumber,
+  rasterBackground: z.string().regex(/^(transparent|#[A-Fa-f0-9]{6}|#[A-Fa-f0-9]{3})?$/, { message: "Expected a hex color or transparent" }).optional(),
+
+  // HPGL/G-code output - chord tolerance, kerf, feed rates per color group ("1000,600") and Z heights, in mm
+  toolpathTolerance: formNumber,
+  toolDiameter: formNumber,
+  toolpathFeedRates: z.union([
+    z.string().regex(/^(\d*\.?\d+(,\d*\.?\d+){0,31})?$/, { message: "Expected up to 32 comma-separated feed rates" }),
+    z.array(z.number().positive().max(100000)).max(32)
+  ]).optional(),
+  toolpathPlungeRate: formNumber,
+  toolpathSafeZ: formNumber,
+  toolpathCutZ: formNumber,
+  toolpathScale: formNumber,
+
+  // Compare the traced result with the source bitmap
+  scoreFidelity: formBoolean
+});
+
+// Zod schema for saved presets - the full client SVGOptions shape as JSON
+export const presetOptionsSchema = z.object({
+  fileFormat: z.string().max(20),
+  svgVersion: z.string().max(10),
+  drawStyle: z.string().max(40),
+  strokeWidth: z.number().min(0).max(100),
+  traceEngine: z.enum(['potrace', 'imagetracer', 'potrace-color', 'auto']),
+  shapeStacking: z.enum(['stacked', 'layered', 'flat', 'placeCutouts']),
+  groupBy: z.enum(['color', 'shape', 'none']),
+  lineFit: z.string().max(20),
+  allowedCurveTypes: z.array(z.string().regex(/^\w+$/)).max(10),
+  fillGaps: z.boolean(),
+  clipOverflow: z.boolean(),
+  nonScalingStroke: z.boolean(),
+  expandStrokes: z.boolean().optional(),
+  turdSize: z.number().int().min(0).max(1000).optional(),
+  alphaMax: z.number().min(0).max(2).optional(),
+  optTolerance: z.number().min(0).max(10).optional(),
+  numberOfColors: z.number().int().min(1).max(256),
+  colorMode: z.enum(['color', 'grayscale']),
+  minColorRatio: z.number().min(0).max(1),
+  colorQuantization: z.enum(['default', 'riemersma', 'floyd-steinberg']),
+  blurRadius: z.number().int().min(0).max(50),
+  preserveColors: z.boolean(),
+  colorSampling: z.union([z.literal(0), z.literal(1)]).optional(),
+  ltres: z.number().min(0).max(100).optional(),
+  qtres: z.number().min(0).max(100).optional(),
+  pathomit: z.number().int().min(0).max(10000).optional(),
+  roundcoords: z.number().int().min(0).max(10).optional(),
+  customPalette: z.array(z.string().regex(/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/)).max(256).optional(),
+  animationMode: z.boolean().optional(),
+  idPrefix: z.string().regex(/^[A-Za-z_][\w-]*$/).max(40).optional(),
+  flattenTransforms: z.boolean().optional(),
+  generateStableIds: z.boolean().optional(),
+  simplifyTolerance: z.number().min(0).max(10).optional(),
+  removeBackground: z.boolean().optional(),
+  backgroundTolerance: z.number().min(0).max(100).optional(),
+  crop: z.string().regex(/^(\d+,\d+,\d+,\d+)?$/).optional(),
+  rotation: z.number().min(-360).max(360).optional(),
+  deskew: z.boolean().optional(),
+  upscaleTo: z.number().int().min(0).max(4096).optional(),
+  denoise: z.number().int().min(0).max(15).optional(),
+  autoLevels: z.boolean().optional(),
+  blackPoint: z.number().min(0).max(255).optional(),
+  whitePoint: z.number().min(0).max(255).optional(),
+  contrast: z.number().min(0).max(5).optional(),
+  posterize: z.number().int().min(0).max(256).optional(),
+  thresholdMode: z.enum(['fixed', 'otsu', 'adaptive']).optional(),
+  threshold: z.number().min(0).max(255).optional(),
+  dxfUnits: z.enum(['mm', 'cm', 'in', 'px']).optional(),
+  dxfScale: z.number().positive().max(1000).optional(),
+  rasterMode: z.enum(['scales', 'sizes', 'iconSet']).optional(),
+  rasterScales: z.array(z.number().positive().max(16)).max(10).optional(),
+  rasterSizes: z.array(z.string().regex(/^[\dxX]*$/)).max(10).optional(),
+  rasterPadding: z.number().min(0).max(40).optional(),
+  rasterBackground: z.string().regex(/^(transparent|#[A-Fa-f0-9]{6}|#[A-Fa-f0-9]{3})$/).optional(),
+  toolpathTolerance: z.number().positive().max(10).optional(),
+  toolDiameter: z.number().min(0).max(50).optional(),
+  toolpathFeedRates: z.array(z.number().positive().max(100000)).max(32).optional(),
+  toolpathPlungeRate: z.number().positive().max(100000).optional(),
+  toolpathSafeZ: z.number().min(-100).max(100).optional(),
+  toolpathCutZ: z.number().min(-100).max(100).optional(),
+  toolpathScale: z.number().positive().max(1000).optional(),
+  scoreFidelity: z.boolean().optional()
+});
+
+export const presetSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  options: presetOptionsSchema
+});
+
+// Zod schema for account registration
+export const registrationSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3).max(50).regex(/^[\w.-]+$/, {
+    message: "Username may only contain letters, numbers, dots, dashes and underscores"
+  }),
+  password: z.string().min(8).max(200),
+  email: z.string().trim().email().max(254)
+});
+
+// Zod schema for creating an API key
+export const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100)
 });
 
 // Zod schema for color input
@@ -81,6 +244,96 @@ export const backgroundSchema = z.object({
   isTransparent: z.boolean()
 });
 
+// Zod schema for game engine export requests
+const keyframeSchema = z.object({
+  time: z.number().min(0).max(1),
+  value: z.any(),
+  easing: z.string().optional()
+});
+
+const pivotPointsSchema = z.array(z.object({
+  elementId: z.string(),
+  x: z.number(),
+  y: z.number()
+}).passthrough()).max(1000).default([]);
+
+const timelineSchema = z.array(z.object({
+  elementId: z.string(),
+  property: z.enum(['position', 'rotation', 'scale', 'opacity', 'color', 'path']),
+  start: z.number().min(0),
+  duration: z.number().positive(),
+  keyframes: z.array(keyframeSchema).min(2),
+  easing: z.string().optional(),
+  loop: z.boolean().optional(),
+  name: z.string().optional()
+})).max(1000).default([]);
+
+export const gameEngineExportSchema = z.object({
+  svg: z.string().min(1),
+  engine: z.enum(['unity', 'godot', 'generic']),
+  includeSprites: z.boolean().default(true),
+  spriteSize: z.number().int().min(64).max(4096).default(1024),
+  duration: z.number().positive().max(600).optional(),
+  frameRate: z.number().int().min(1).max(240).optional(),
+  loop: z.boolean().optional(),
+  pivotPoints: pivotPointsSchema,
+  timeline: timelineSchema
+});
+
+// Zod schema for Lottie export requests
+export const lottieExportSchema = z.object({
+  svg: z.string().min(1),
+  name: z.string().trim().max(100).optional(),
+  frameRate: z.number().int().min(1).max(120).default(30),
+  pivotPoints: pivotPointsSchema,
+  timeline: timelineSchema
+});
+
+// Zod schemas for animation template requests
+export const templateQuerySchema = z.object({
+  category: z.enum(['motion', 'attention', 'entrance', 'exit', 'special']).optional()
+});
+
+export const templateApplySchema = z.object({
+  elementIds: z.array(z.string().regex(/^[A-Za-z_][\w-]*$/, {
+    message: "Element IDs must be valid CSS identifiers"
+  })).min(1).max(500),
+  framework: z.enum(['gsap', 'css', 'waapi']).default('gsap'),
+  stagger: z.number().min(0).max(5).default(0.1)
+});
+
+// Zod schema for path morph options (multipart form fields, so values arrive as strings),
+// alongside the conversion options used to trace both images
+export const morphOptionsSchema = svgOptionsSchema.extend({
+  pointCount: z.coerce.number().int().min(16).max(400).default(80),
+  duration: z.coerce.number().positive().max(60).default(1.5),
+  stagger: z.coerce.number().min(0).max(5).default(0),
+  ease: z.string().regex(/^[\w.()-]+$/, {
+    message: "Invalid GSAP ease name"
+  }).default('power2.inOut'),
+  loop: z.enum(['true', 'false']).default('true').transform(value => value === 'true')
+});
+
+export const historyQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+export const stabilityTestSchema = svgOptionsSchema.extend({
+  iterations: z.coerce.number().int().min(2).max(10).default(3),
+  perturb: z.enum(['true', 'false']).default('true').transform(value => value === 'true')
+});
+
+// Search goals, plus the conversion options every candidate keeps
+export const parameterSearchSchema = svgOptionsSchema.extend({
+  maxBytes: z.coerce.number().int().min(1).optional(),
+  maxPaths: z.coerce.number().int().min(1).optional(),
+  maxError: z.coerce.number().min(0).max(1).optional()
+}).refine(
+  goal => goal.maxBytes !== undefined || goal.maxPaths !== undefined || goal.maxError !== undefined,
+  { message: 'Set at least one of maxBytes, maxPaths or maxError' }
+);
+
 /**
  * Validate and detect image format from buffer
  */
@@ -205,10 +458,23 @@ export function sanitizeFilename(filename: string): string {
 
 /**
  * Middleware to validate SVG options
+ * Headless clients can send every option as one JSON `options` field instead of separate form fields
  */
 export function validateSvgOptions(req: Request, res: Response, next: NextFunction) {
   try {
-    svgOptionsSchema.parse(req.body);
+    const { options, ...fields } = req.body ?? {};
+    let jsonOptions: Record<string, unknown> = {};
+    if (options !== undefined) {
+      try {
+        jsonOptions = typeof options === 'string' ? JSON.parse(options) : options;
+      } catch {
+        return res.status(400).json({ error: "Invalid SVG options", details: "The options field must be valid JSON" });
+      }
+      if (!jsonOptions || typeof jsonOptions !== 'object' || Array.isArray(jsonOptions)) {
+        return res.status(400).json({ error: "Invalid SVG options", details: "The options field must be a JSON object" });
+      }
+    }
+    req.body = svgOptionsSchema.parse({ ...fields, ...jsonOptions });
     next();
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -262,6 +528,204 @@ export function validateBackgroundInput(req: Request, res: Response, next: NextF
   }
 }
 
+/**
+ * Middleware to validate game engine export input
+ */
+export function validateGameEngineExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = gameEngineExportSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid game engine export input", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate Lottie export input
+ */
+export function validateLottieExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = lottieExportSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid Lottie export input", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate the animation template list query
+ */
+export function validateTemplateQuery(req: Request, res: Response, next: NextFunction) {
+  try {
+    templateQuerySchema.parse(req.query);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid template query", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate animation template application input
+ */
+export function validateTemplateApply(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = templateApplySchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid template application input", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate path morph options
+ */
+export function validateMorphOptions(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = morphOptionsSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid morph options", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate ID stability test options
+ */
+export function validateStabilityTest(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = stabilityTestSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid stability test options", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate parameter search goals
+ */
+export function validateParameterSearch(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = parameterSearchSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid parameter search goal", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate conversion history pagination
+ */
+export function validateHistoryQuery(req: Request, res: Response, next: NextFunction) {
+  try {
+    historyQuerySchema.parse(req.query);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid history query", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate saved preset input
+ */
+export function validatePreset(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = presetSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid preset", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate API key creation
+ */
+export function validateApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = apiKeySchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid API key request", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Middleware to validate account registration
+ */
+export function validateRegistration(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = registrationSchema.parse(req.body);
+    next();
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Invalid registration", 
+        details: error.errors 
+      });
+    }
+    next(error);
+  }
+}
+
 /**
  * Sanitize SVG content to prevent XSS attacks
  */
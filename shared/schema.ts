@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,6 +18,32 @@ export const svgOptions = pgTable("svg_options", {
   clipOverflow: boolean("clip_overflow").notNull().default(false),
   nonScalingStroke: boolean("non_scaling_stroke").notNull().default(true),
   strokeWidth: text("stroke_width").notNull().default("2.0"),
+  description: text("description"),
+  traceEngine: text("trace_engine").notNull().default("auto"),
+  // Potrace advanced options
+  turdSize: integer("turd_size"),
+  alphaMax: real("alpha_max"),
+  optTolerance: real("opt_tolerance"),
+  // ImageTracer options
+  numberOfColors: integer("number_of_colors").notNull().default(24),
+  colorMode: text("color_mode").notNull().default("color"),
+  minColorRatio: real("min_color_ratio").notNull().default(0.01),
+  colorQuantization: text("color_quantization").notNull().default("floyd-steinberg"),
+  blurRadius: integer("blur_radius").notNull().default(0),
+  preserveColors: boolean("preserve_colors").notNull().default(true),
+  colorSampling: integer("color_sampling"),
+  ltres: real("ltres"),
+  qtres: real("qtres"),
+  pathomit: integer("pathomit"),
+  roundcoords: integer("roundcoords"),
+  customPalette: text("custom_palette").notNull().default(""),
+  // Animation mode options
+  animationMode: boolean("animation_mode").notNull().default(false),
+  idPrefix: text("id_prefix").notNull().default("anim_"),
+  flattenTransforms: boolean("flatten_transforms").notNull().default(false),
+  generateStableIds: boolean("generate_stable_ids").notNull().default(true),
+  // Preset options without a column of their own (preprocessing, output formats, ...)
+  extraOptions: jsonb("extra_options").$type<Record<string, unknown>>(),
 });
 
 // User schema - for saved settings and history
@@ -35,6 +61,22 @@ export const conversions = pgTable("conversions", {
   outputFormat: text("output_format").notNull(),
   createdAt: text("created_at").notNull(),
   optionsId: integer("options_id"),
+  sourceHash: text("source_hash").notNull(),
+  engine: text("engine").notNull(),
+  outputSize: integer("output_size").notNull(),
+  options: jsonb("options").$type<Record<string, unknown>>(),
+  svg: text("svg").notNull(),
+});
+
+// API keys for headless clients - only a hash of the key is stored
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  keyHash: text("key_hash").notNull().unique(),
+  keyPrefix: text("key_prefix").notNull(),
+  createdAt: text("created_at").notNull(),
+  lastUsedAt: text("last_used_at"),
 });
 
 // Create insert schemas
@@ -51,6 +93,29 @@ export const insertSvgOptionsSchema = createInsertSchema(svgOptions).pick({
   clipOverflow: true,
   nonScalingStroke: true,
   strokeWidth: true,
+  userId: true,
+  description: true,
+  traceEngine: true,
+  turdSize: true,
+  alphaMax: true,
+  optTolerance: true,
+  numberOfColors: true,
+  colorMode: true,
+  minColorRatio: true,
+  colorQuantization: true,
+  blurRadius: true,
+  preserveColors: true,
+  colorSampling: true,
+  ltres: true,
+  qtres: true,
+  pathomit: true,
+  roundcoords: true,
+  customPalette: true,
+  animationMode: true,
+  idPrefix: true,
+  flattenTransforms: true,
+  generateStableIds: true,
+  extraOptions: true,
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -65,6 +130,19 @@ export const insertConversionSchema = createInsertSchema(conversions).pick({
   outputFormat: true, 
   createdAt: true,
   optionsId: true,
+  sourceHash: true,
+  engine: true,
+  outputSize: true,
+  options: true,
+  svg: true,
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
+  userId: true,
+  name: true,
+  keyHash: true,
+  keyPrefix: true,
+  createdAt: true,
 });
 
 // Export types
@@ -76,3 +154,6 @@ export type SvgOptions = typeof svgOptions.$inferSelect;
 
 export type InsertConversion = z.infer<typeof insertConversionSchema>;
 export type Conversion = typeof conversions.$inferSelect;
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;